@@ -1,52 +1,167 @@
-import React, { useState, useCallback, useEffect, useReducer } from 'react';
-import { TranslationDirection } from './types';
-import { translateDocumentStream } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
+import { BatchItem, DocumentBlock, GlossaryEntry, HistoryEntry, HistoryPreferences, LanguageCode, MemoryMatch, PageExtraction, ParsedDocument, TextConversion, MemoryPreferences, NumberPolicy, PiiDecision, ProviderSettings, RedactionEntry, RedactionReport, ReviewedPiiSpan, SegmentQuality, TranslationDirection, TranslationSegment } from './types';
+import { createSegments, isJobResumable, RunTranslationJobOptions, runTranslationJob, stitchSegments } from './services/translationJob';
+import { buildRedactionReport, detectPii, getAcceptedSpans, getRedactionReportFileName, redactText, restorePlaceholders } from './services/redaction';
+import { downloadBlob } from './services/download';
+import { buildBilingualText } from './services/exporters';
+import { AlignedPair, alignSegmentSentences, alignTexts, joinSentenceTargets } from './services/alignment';
+import { describeBlocks, mapTranslationsToBlocks } from './services/documentModel';
+import { buildBilingualDocx, buildTextDocx, DOCX_MIME_TYPE, translateDocx } from './services/docxExport';
+import { detectSourceLanguage } from './services/languageDetection';
+import { DEFAULT_DIRECTION, directionForSource, directionKey, LANGUAGES, parseDirectionKey } from './services/languages';
+import { checkGlossaryUsage, loadGlossary } from './services/glossary';
+import { checkNumbers, DEFAULT_NUMBER_POLICY, detectNumbers, isNumberPolicy, NUMBER_POLICY_LABELS } from './services/numberNormalization';
 import { parseFileContent } from './services/fileParser';
+import { createBatchItems, isBatchUpload } from './services/batch';
+import { findFileFormat, getFileExtension } from './services/formats';
+import { findMemoryMatches, getPrefills, saveSegmentsToMemory } from './services/translationMemory';
+import { needsQualityCheck, runQualityCheck } from './services/qualityCheck';
+import { matchTemplate, supportsTemplates } from './services/templates';
+import { getProviderModel, saveHistoryEntry } from './services/history';
+import { CURRENT_PROMPT_VERSION } from './services/promptTemplates';
+import { loadHistoryPreferences, loadMemoryPreferences, loadProviderSettings, saveHistoryPreferences, saveMemoryPreferences, saveProviderSettings } from './services/settingsStore';
+import { PROVIDER_OPTIONS } from './services/providers';
 import FileUpload from './components/FileUpload';
 import LanguageSelector from './components/LanguageSelector';
-import ResultDisplay from './components/ResultDisplay';
+import SegmentEditor from './components/SegmentEditor';
 import PreviewDisplay from './components/PreviewDisplay';
+import RedactionReview from './components/RedactionReview';
 import Loader from './components/Loader';
-import { FileTextIcon, AlertTriangleIcon, DownloadIcon, ClipboardCheckIcon, FileCheckIcon, DocumentDuplicateIcon, ShieldCheckIcon } from './components/Icons';
+import SettingsPanel from './components/SettingsPanel';
+import GlossaryPanel from './components/GlossaryPanel';
+import TranslationMemoryPanel from './components/TranslationMemoryPanel';
+import MemoryMatches from './components/MemoryMatches';
+import TemplateForm from './components/TemplateForm';
+import BatchQueue from './components/BatchQueue';
+import HistoryPanel from './components/HistoryPanel';
+import { FileTextIcon, AlertTriangleIcon, DownloadIcon, ClipboardCheckIcon, FileCheckIcon, DocumentDuplicateIcon, ShieldCheckIcon, SettingsIcon, BookIcon, DatabaseIcon, HistoryIcon } from './components/Icons';
 
 // --- State Management ---
 
+/** `original` writes the translation back into the source's own format (XLSX, PPTX, SRT, ...). */
+type DownloadFormat = 'txt' | 'docx' | 'original';
+
 interface AppState {
-  status: 'idle' | 'parsing' | 'ready' | 'translating' | 'complete' | 'error';
+  status: 'idle' | 'parsing' | 'ready' | 'translating' | 'complete' | 'cancelled' | 'error';
   file: File | null;
   fileContent: string;
+  /** Structure of the parsed file, for formats that have one; each block is a paragraph of `fileContent`. */
+  blocks: DocumentBlock[];
+  /** How each page of a PDF or image was read, with the OCR confidence. */
+  pages: PageExtraction[];
+  /** Encoding and legacy font conversions applied while parsing. */
+  conversions: TextConversion[];
   direction: TranslationDirection;
+  /** Set once the user picks a direction by hand; new content then no longer changes it. */
+  directionChosen: boolean;
+  /** The source language the content's script points to; null when it can't be told. */
+  detectedLanguage: LanguageCode | null;
+  segments: TranslationSegment[];
   translatedText: string;
   error: string | null;
   anonymize: boolean;
+  numberPolicy: NumberPolicy;
+  /** Detected and manually added PII, with the reviewer's decision for each. */
+  piiSpans: ReviewedPiiSpan[];
+  redactionConfirmedAt: string | null;
+  /** Placeholders substituted by the local redaction before the text was sent. */
+  redaction: RedactionEntry[];
+  /** What the job masked, as confirmed when it was sent; kept with its history entry. */
+  redactionReport: RedactionReport | null;
+  restorePii: boolean;
+  /** Translation memory matches for the paragraphs of `fileContent`. */
+  memoryMatches: MemoryMatch[];
   downloadMode: 'translation' | 'bilingual';
+  downloadFormat: DownloadFormat;
   inputMode: 'upload' | 'text';
+  /** The history entry this job is saved under; a new one is started by each full translation. */
+  historyId: string | null;
+  /** How the job was run, saved with its history entry; settings changed afterwards don't apply to it. */
+  jobSettings: Pick<HistoryEntry, 'direction' | 'settings'> | null;
+  /** The glossary the job was sent with; null for a job opened from the history. */
+  jobGlossary: GlossaryEntry[] | null;
+  completedAt: string | null;
 }
 
 type AppAction =
   | { type: 'SET_INPUT_MODE'; payload: 'upload' | 'text' }
   | { type: 'START_PARSING'; payload: File }
-  | { type: 'PARSE_SUCCESS'; payload: string }
-  | { type: 'SET_TEXT_CONTENT'; payload: string }
+  | { type: 'PARSE_SUCCESS'; payload: ParsedDocument }
+  | { type: 'SET_TEXT_CONTENT'; payload: { text: string; pasted: boolean } }
   | { type: 'SET_ERROR'; payload: string }
-  | { type: 'TRANSLATE' }
-  | { type: 'TRANSLATION_CHUNK'; payload: string }
-  | { type: 'TRANSLATION_COMPLETE' }
+  | { type: 'TRANSLATE'; payload: { segments: TranslationSegment[]; redaction: RedactionEntry[]; redactionReport: RedactionReport | null; historyId: string; jobSettings: Pick<HistoryEntry, 'direction' | 'settings'>; jobGlossary: GlossaryEntry[] } }
+  | { type: 'RESUME' }
+  | { type: 'RETRANSLATE_SEGMENT'; payload: number }
+  | { type: 'EDIT_SENTENCE'; payload: { index: number; sentence: number; translation: string } }
+  | { type: 'SET_SEGMENT_APPROVED'; payload: { index: number; approved: boolean } }
+  | { type: 'SET_SEGMENT_QUALITY'; payload: { index: number; quality: SegmentQuality } }
+  | { type: 'SEGMENT_START'; payload: { index: number; attempt: number } }
+  | { type: 'SEGMENT_DELTA'; payload: { index: number; text: string } }
+  | { type: 'SEGMENT_DONE'; payload: number }
+  | { type: 'SEGMENT_FAILED'; payload: { index: number; error: string } }
+  | { type: 'TRANSLATION_COMPLETE'; payload: string }
+  | { type: 'TRANSLATION_FAILED' }
+  | { type: 'TRANSLATION_CANCELLED' }
   | { type: 'RESET' }
+  | { type: 'RESTORE_HISTORY'; payload: { entry: HistoryEntry; rerun: boolean } }
   | { type: 'SET_DIRECTION'; payload: TranslationDirection }
   | { type: 'SET_ANONYMIZE'; payload: boolean }
-  | { type: 'SET_DOWNLOAD_MODE'; payload: 'translation' | 'bilingual' };
+  | { type: 'SET_NUMBER_POLICY'; payload: NumberPolicy }
+  | { type: 'SET_RESTORE_PII'; payload: boolean }
+  | { type: 'SET_PII_DECISION'; payload: { id: string; decision: PiiDecision } }
+  | { type: 'ADD_PII_SPAN'; payload: ReviewedPiiSpan }
+  | { type: 'CONFIRM_REDACTIONS'; payload: string }
+  | { type: 'SET_MEMORY_MATCHES'; payload: MemoryMatch[] }
+  | { type: 'SET_MEMORY_MATCH_ACCEPTED'; payload: { paragraph: string; accepted: boolean } }
+  | { type: 'SET_DOWNLOAD_MODE'; payload: 'translation' | 'bilingual' }
+  | { type: 'SET_DOWNLOAD_FORMAT'; payload: DownloadFormat };
 
 const initialState: AppState = {
   status: 'idle',
   file: null,
   fileContent: '',
-  direction: TranslationDirection.LaoToChinese,
+  blocks: [],
+  pages: [],
+  conversions: [],
+  direction: DEFAULT_DIRECTION,
+  directionChosen: false,
+  detectedLanguage: null,
+  segments: [],
   translatedText: '',
   error: null,
   anonymize: true,
+  numberPolicy: DEFAULT_NUMBER_POLICY,
+  piiSpans: [],
+  redactionConfirmedAt: null,
+  redaction: [],
+  redactionReport: null,
+  restorePii: false,
+  memoryMatches: [],
   downloadMode: 'translation',
+  downloadFormat: 'txt',
   inputMode: 'upload',
+  historyId: null,
+  jobSettings: null,
+  jobGlossary: null,
+  completedAt: null,
+};
+
+
+const detectReviewSpans = (content: string): ReviewedPiiSpan[] =>
+  detectPii(content).map(span => ({ ...span, decision: 'accepted' }));
+
+// New content sets the direction from its script until the user picks one by hand; after
+// that, a mismatch only shows the warning.
+const detectDirection = (content: string, state: AppState) => {
+  const detectedLanguage = detectSourceLanguage(content);
+  const direction = detectedLanguage && !state.directionChosen ? directionForSource(detectedLanguage, state.direction) : state.direction;
+  return { detectedLanguage, direction };
+};
+
+// Applies `update` to one segment and re-stitches the visible translation.
+const updateSegment = (state: AppState, index: number, update: (segment: TranslationSegment) => TranslationSegment): AppState => {
+  const segments = state.segments.map(segment => (segment.index === index ? update(segment) : segment));
+  return { ...state, segments, translatedText: stitchSegments(segments) };
 };
 
 const appReducer = (state: AppState, action: AppAction): AppState => {
@@ -60,23 +175,38 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
         file: action.payload,
         inputMode: 'upload',
         direction: state.direction,
+        directionChosen: state.directionChosen,
         anonymize: state.anonymize,
+        numberPolicy: state.numberPolicy,
       };
     case 'PARSE_SUCCESS':
       return {
         ...state,
         status: 'ready',
-        fileContent: action.payload,
+        fileContent: action.payload.text,
+        blocks: action.payload.blocks,
+        pages: action.payload.pages ?? [],
+        conversions: action.payload.conversions ?? [],
+        piiSpans: detectReviewSpans(action.payload.text),
+        ...detectDirection(action.payload.text, state),
       };
-    case 'SET_TEXT_CONTENT':
+    // Typing re-detects only until the script gives the language away; a paste may bring
+    // in another language, so it is detected again.
+    case 'SET_TEXT_CONTENT': {
+      const { text, pasted } = action.payload;
+      const redetect = pasted || state.detectedLanguage === null || !text.trim();
       return {
         ...initialState,
-        status: action.payload ? 'ready' : 'idle',
-        fileContent: action.payload,
+        status: text ? 'ready' : 'idle',
+        fileContent: text,
+        piiSpans: detectReviewSpans(text),
         inputMode: 'text',
-        direction: state.direction,
+        ...(redetect ? detectDirection(text, state) : { detectedLanguage: state.detectedLanguage, direction: state.direction }),
+        directionChosen: state.directionChosen,
         anonymize: state.anonymize,
+        numberPolicy: state.numberPolicy,
       };
+    }
     case 'SET_ERROR':
       return {
         ...state,
@@ -88,32 +218,183 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
         ...state,
         status: 'translating',
         error: null,
+        segments: action.payload.segments,
+        redaction: action.payload.redaction,
+        redactionReport: action.payload.redactionReport,
+        restorePii: false,
         translatedText: '',
+        historyId: action.payload.historyId,
+        jobSettings: action.payload.jobSettings,
+        jobGlossary: action.payload.jobGlossary,
+        completedAt: null,
       };
-    case 'TRANSLATION_CHUNK':
+    case 'RESUME': {
+      // Keep finished segments; everything else goes back into the queue.
+      const segments = state.segments.map(segment =>
+        segment.status === 'done' ? segment : { ...segment, status: 'pending' as const, translation: '', sentences: undefined, error: undefined },
+      );
+      return { ...state, status: 'translating', error: null, segments, translatedText: stitchSegments(segments) };
+    }
+    case 'RETRANSLATE_SEGMENT':
       return {
-        ...state,
-        translatedText: state.translatedText + action.payload,
+        ...updateSegment(state, action.payload, segment => ({
+          ...segment,
+          status: 'pending',
+          translation: '',
+          attempts: 0,
+          error: undefined,
+          fromMemory: false,
+          passThrough: false,
+          edited: false,
+          sentences: undefined,
+          approved: false,
+          quality: undefined,
+        })),
+        status: 'translating',
+        error: null,
       };
+    case 'EDIT_SENTENCE':
+      return updateSegment(state, action.payload.index, segment => {
+        const sentences = (segment.sentences ?? alignSegmentSentences(segment.source, segment.translation, state.direction.source, state.direction.target))
+          .map((sentence, i) => (i === action.payload.sentence ? { ...sentence, target: action.payload.translation } : sentence));
+        const translation = joinSentenceTargets(sentences);
+        // The changed text hasn't been reviewed yet. A failed part typed in by hand counts as
+        // done, so it can be approved and a resumed job doesn't send it again.
+        const filled = segment.status === 'failed' && translation.trim() !== '';
+        return {
+          ...segment,
+          sentences,
+          translation,
+          edited: true,
+          approved: false,
+          quality: undefined,
+          ...(filled ? { status: 'done' as const, error: undefined } : {}),
+        };
+      });
+    case 'SET_SEGMENT_APPROVED':
+      return updateSegment(state, action.payload.index, segment => ({ ...segment, approved: action.payload.approved }));
+    case 'SET_SEGMENT_QUALITY':
+      return updateSegment(state, action.payload.index, segment => ({ ...segment, quality: action.payload.quality }));
+    case 'SEGMENT_START':
+      return updateSegment(state, action.payload.index, segment => ({
+        ...segment,
+        status: 'translating',
+        translation: '',
+        sentences: undefined,
+        attempts: segment.attempts + 1,
+        error: undefined,
+      }));
+    case 'SEGMENT_DELTA':
+      return updateSegment(state, action.payload.index, segment => ({
+        ...segment,
+        translation: segment.translation + action.payload.text,
+      }));
+    case 'SEGMENT_DONE':
+      return updateSegment(state, action.payload, segment => ({ ...segment, status: 'done' }));
+    case 'SEGMENT_FAILED':
+      return updateSegment(state, action.payload.index, segment => ({
+        ...segment,
+        status: 'failed',
+        translation: '',
+        sentences: undefined,
+        error: action.payload.error,
+      }));
     case 'TRANSLATION_COMPLETE':
       return {
         ...state,
         status: 'complete',
+        completedAt: action.payload,
+      };
+    case 'TRANSLATION_FAILED': {
+      const failed = state.segments.filter(segment => segment.status === 'failed');
+      return {
+        ...state,
+        status: 'error',
+        error: failed.length === state.segments.length
+          ? failed[0]?.error ?? 'Translation failed.'
+          : `${failed.length} of ${state.segments.length} parts failed to translate. ${failed[0]?.error ?? ''} Use Resume to retry only the failed parts.`,
       };
+    }
+    case 'TRANSLATION_CANCELLED': {
+      // Interrupted segments lose their partial output and will be requested again on resume.
+      const segments = state.segments.map(segment =>
+        segment.status === 'translating' ? { ...segment, status: 'pending' as const, translation: '' } : segment,
+      );
+      return { ...state, status: 'cancelled', segments, translatedText: stitchSegments(segments) };
+    }
     case 'RESET':
       return {
         ...initialState,
         // Persist settings across resets
         direction: state.direction,
+        directionChosen: state.directionChosen,
         anonymize: state.anonymize,
+        numberPolicy: state.numberPolicy,
         downloadMode: state.downloadMode,
+        downloadFormat: state.downloadFormat,
       };
+    // Opening restores the finished job; a re-run keeps only its input and reviewed PII.
+    case 'RESTORE_HISTORY': {
+      const { entry, rerun } = action.payload;
+      return {
+        ...initialState,
+        status: rerun ? 'ready' : 'complete',
+        file: entry.file ?? null,
+        fileContent: entry.source,
+        blocks: entry.blocks,
+        direction: parseDirectionKey(entry.direction),
+        directionChosen: state.directionChosen,
+        detectedLanguage: detectSourceLanguage(entry.source),
+        anonymize: entry.settings.anonymize,
+        numberPolicy: entry.settings.numberPolicy ?? state.numberPolicy,
+        piiSpans: entry.piiSpans,
+        redactionConfirmedAt: entry.redactionConfirmedAt,
+        inputMode: entry.file ? 'upload' : 'text',
+        downloadMode: state.downloadMode,
+        downloadFormat: state.downloadFormat,
+        ...(rerun ? {} : {
+          segments: entry.segments,
+          translatedText: entry.translation,
+          redaction: entry.redaction,
+          redactionReport: entry.redactionReport ?? null,
+          historyId: entry.id,
+          jobSettings: { direction: entry.direction, settings: entry.settings },
+          completedAt: entry.completedAt,
+        }),
+      };
+    }
     case 'SET_DIRECTION':
-      return { ...state, direction: action.payload };
+      return { ...state, direction: action.payload, directionChosen: true };
     case 'SET_ANONYMIZE':
       return { ...state, anonymize: action.payload };
+    case 'SET_NUMBER_POLICY':
+      return { ...state, numberPolicy: action.payload };
+    case 'SET_RESTORE_PII':
+      return { ...state, restorePii: action.payload };
+    // Any change to the span list needs a fresh confirmation.
+    case 'SET_PII_DECISION':
+      return {
+        ...state,
+        redactionConfirmedAt: null,
+        piiSpans: state.piiSpans.map(span => (span.id === action.payload.id ? { ...span, decision: action.payload.decision } : span)),
+      };
+    case 'ADD_PII_SPAN':
+      return { ...state, redactionConfirmedAt: null, piiSpans: [...state.piiSpans, action.payload] };
+    case 'CONFIRM_REDACTIONS':
+      return { ...state, redactionConfirmedAt: action.payload };
+    case 'SET_MEMORY_MATCHES':
+      return { ...state, memoryMatches: action.payload };
+    case 'SET_MEMORY_MATCH_ACCEPTED':
+      return {
+        ...state,
+        memoryMatches: state.memoryMatches.map(match =>
+          match.paragraph === action.payload.paragraph ? { ...match, accepted: action.payload.accepted } : match,
+        ),
+      };
     case 'SET_DOWNLOAD_MODE':
       return { ...state, downloadMode: action.payload };
+    case 'SET_DOWNLOAD_FORMAT':
+      return { ...state, downloadFormat: action.payload };
     default:
       return state;
   }
@@ -123,13 +404,104 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
 const App: React.FC = () => {
   const [state, dispatch] = useReducer(appReducer, initialState);
   const [copied, setCopied] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  /** Blocks the last download left in the source language because no translation matched them. */
+  const [unmappedBlocks, setUnmappedBlocks] = useState<DocumentBlock[]>([]);
+  const [parseProgress, setParseProgress] = useState<string | null>(null);
   const [elapsedTime, setElapsedTime] = useState<number>(0);
-  const [statusMessage, setStatusMessage] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const qualityAbortRef = useRef<AbortController | null>(null);
+  /** The completion whose segments were last saved to the memory. */
+  const memorySavedForRef = useRef<string | null>(null);
+  const [qualityProgress, setQualityProgress] = useState<{ done: number; total: number } | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [sourcePanel, setSourcePanel] = useState<'preview' | 'review' | 'memory' | 'template'>('preview');
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [memoryPreferences, setMemoryPreferences] = useState<MemoryPreferences>(loadMemoryPreferences);
+  const [memoryVersion, setMemoryVersion] = useState(0);
+  const [isMemoryOpen, setIsMemoryOpen] = useState(false);
+  const [batch, setBatch] = useState<{ items: BatchItem[]; skipped: string[] } | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [historyPreferences, setHistoryPreferences] = useState<HistoryPreferences>(loadHistoryPreferences);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [rerunRequested, setRerunRequested] = useState(false);
+
+  const refreshGlossary = useCallback(() => {
+    loadGlossary()
+      .then(setGlossary)
+      .catch(err => console.error('Failed to load glossary:', err));
+  }, []);
+
+  useEffect(() => {
+    refreshGlossary();
+  }, [refreshGlossary]);
+
+  // The last download's layout check no longer applies once the translation changes.
+  useEffect(() => setUnmappedBlocks([]), [state.segments]);
+
+  // Look up memory matches whenever the source, direction or memory changes; typing only
+  // triggers the fuzzy scan once it pauses.
+  useEffect(() => {
+    if (!memoryPreferences.enabled || !state.fileContent) {
+      dispatch({ type: 'SET_MEMORY_MATCHES', payload: [] });
+      return;
+    }
+    let cancelled = false;
+    const timeoutId = setTimeout(() => {
+      findMemoryMatches(state.fileContent, state.direction, memoryPreferences.fuzzyThreshold)
+        .then(matches => !cancelled && dispatch({ type: 'SET_MEMORY_MATCHES', payload: matches }))
+        .catch(err => console.error('Failed to look up translation memory:', err));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [state.fileContent, state.direction, memoryPreferences, memoryVersion]);
+
+  // Finished jobs feed the memory so later revisions of the document can reuse them. Each
+  // completion is saved once; later edits reach the memory when they are approved.
+  useEffect(() => {
+    if (state.status !== 'complete' || !state.completedAt || !memoryPreferences.enabled) return;
+    if (memorySavedForRef.current === state.completedAt) return;
+    memorySavedForRef.current = state.completedAt;
+    saveSegmentsToMemory(state.segments, state.direction)
+      .catch(err => console.error('Failed to save to translation memory:', err));
+  }, [state.status, state.completedAt, state.segments, state.direction, memoryPreferences.enabled]);
+
+  // Saved a moment after completion and again after edits, so the history keeps the reviewed text.
+  useEffect(() => {
+    if (state.status !== 'complete' || !historyPreferences.enabled || !state.historyId || !state.jobSettings || !state.completedAt) return;
+    const entry: HistoryEntry = {
+      id: state.historyId,
+      file: state.file ?? undefined,
+      fileName: state.file?.name ?? null,
+      blocks: state.blocks,
+      ...state.jobSettings,
+      source: state.fileContent,
+      translation: state.translatedText,
+      segments: state.segments,
+      piiSpans: state.piiSpans,
+      redactionConfirmedAt: state.redactionConfirmedAt,
+      redaction: state.redaction,
+      redactionReport: state.redactionReport ?? undefined,
+      completedAt: state.completedAt,
+    };
+    const timeoutId = setTimeout(() => {
+      saveHistoryEntry(entry, historyPreferences)
+        .catch(err => console.error('Failed to save to history:', err));
+    }, 1000);
+    return () => clearTimeout(timeoutId);
+  }, [
+    state.status, state.historyId, state.jobSettings, state.completedAt, state.file, state.blocks, state.fileContent,
+    state.translatedText, state.segments, state.piiSpans, state.redactionConfirmedAt, state.redaction, state.redactionReport,
+    historyPreferences,
+  ]);
 
   useEffect(() => {
     if (state.status !== 'translating') {
       setElapsedTime(0);
-      setStatusMessage('');
       return;
     }
 
@@ -137,140 +509,376 @@ const App: React.FC = () => {
       setElapsedTime(prevTime => prevTime + 1);
     }, 1000);
 
-    const steps = [
-      "Performing initial literal translation...",
-      "Polishing for natural fluency...",
-      "Finalizing grammar and syntax check...",
-    ];
-
-    if (state.anonymize) {
-      steps.push("Applying anonymization...");
-    }
-    
-    let stepIndex = 0;
-    setStatusMessage(steps[stepIndex]);
-
-    const statusIntervalId = setInterval(() => {
-      stepIndex = (stepIndex + 1) % steps.length;
-      setStatusMessage(steps[stepIndex]);
-    }, 3000);
+    return () => clearInterval(timerIntervalId);
+  }, [state.status]);
 
-    return () => {
-      clearInterval(timerIntervalId);
-      clearInterval(statusIntervalId);
-    };
-  }, [state.status, state.anonymize]);
-
-  const handleFileSelect = useCallback(async (selectedFile: File) => {
+  const parseFile = useCallback(async (selectedFile: File, ocrPages?: number[]) => {
     dispatch({ type: 'START_PARSING', payload: selectedFile });
+    setParseProgress(null);
     try {
-      const text = await parseFileContent(selectedFile);
-      dispatch({ type: 'PARSE_SUCCESS', payload: text });
+      const parsed = await parseFileContent(selectedFile, { ocrPages, onProgress: setParseProgress });
+      dispatch({ type: 'PARSE_SUCCESS', payload: parsed });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to read or parse the uploaded file.';
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
+    } finally {
+      setParseProgress(null);
     }
   }, []);
 
+  const handleFilesSelect = useCallback(async (selectedFiles: File[]) => {
+    setUploadError(null);
+    if (!isBatchUpload(selectedFiles)) {
+      parseFile(selectedFiles[0]);
+      return;
+    }
+    try {
+      const { items, skipped } = await createBatchItems(selectedFiles);
+      if (items.length === 0) {
+        setUploadError('None of the selected files can be translated. Please upload PDF, Office, text or image files.');
+        return;
+      }
+      setBatch({ items, skipped });
+    } catch (err) {
+      setUploadError(err instanceof Error ? `Failed to read the ZIP archive: ${err.message}` : 'Failed to read the ZIP archive.');
+    }
+  }, [parseFile]);
+
+  // Re-reads the PDF with OCR on exactly the pages the user picked.
+  const handleOcrPages = useCallback((pages: number[]) => {
+    if (state.file) parseFile(state.file, pages);
+  }, [state.file, parseFile]);
+
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    dispatch({ type: 'SET_TEXT_CONTENT', payload: e.target.value });
+    const { inputType } = e.nativeEvent as InputEvent;
+    dispatch({ type: 'SET_TEXT_CONTENT', payload: { text: e.target.value, pasted: inputType === 'insertFromPaste' || inputType === 'insertFromDrop' } });
   };
   
-  const handleTranslate = useCallback(async () => {
+  const runJob = useCallback(async (
+    segments: TranslationSegment[],
+    direction: TranslationDirection,
+    job: Pick<RunTranslationJobOptions, 'anonymize' | 'glossary' | 'numberPolicy'>,
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const outcome = await runTranslationJob(segments, direction, providerSettings, {
+      ...job,
+      signal: controller.signal,
+      onSegmentStart: (index, attempt) => dispatch({ type: 'SEGMENT_START', payload: { index, attempt } }),
+      onSegmentDelta: (index, text) => dispatch({ type: 'SEGMENT_DELTA', payload: { index, text } }),
+      onSegmentDone: index => dispatch({ type: 'SEGMENT_DONE', payload: index }),
+      onSegmentFailed: (index, error) => dispatch({ type: 'SEGMENT_FAILED', payload: { index, error } }),
+    });
+
+    abortControllerRef.current = null;
+    if (outcome === 'complete') {
+      dispatch({ type: 'TRANSLATION_COMPLETE', payload: new Date().toISOString() });
+    } else if (outcome === 'cancelled') {
+      dispatch({ type: 'TRANSLATION_CANCELLED' });
+    } else {
+      dispatch({ type: 'TRANSLATION_FAILED' });
+    }
+  }, [providerSettings]);
+
+  const handleTranslate = useCallback(() => {
     if (!state.fileContent) {
       dispatch({ type: 'SET_ERROR', payload: 'No content to translate. The document might be empty or failed to parse.' });
       return;
     }
-    dispatch({ type: 'TRANSLATE' });
+    // PII is masked locally so it never leaves the browser; the entries allow restoring it afterwards.
+    const { text, entries } = state.anonymize
+      ? redactText(state.fileContent, getAcceptedSpans(state.piiSpans), state.direction.target)
+      : { text: state.fileContent, entries: [] };
+    // Accepted memory matches are filled in up front; redacted paragraphs no longer match and are translated.
+    // Paragraphs without any source-language letters are copied rather than sent.
+    const segments = createSegments(text, {
+      prefills: getPrefills(state.memoryMatches),
+      sourceLanguage: state.direction.source,
+    });
+    const redactionReport = state.anonymize && state.redactionConfirmedAt
+      ? buildRedactionReport(state.file?.name || 'pasted_text', state.direction, state.redactionConfirmedAt, state.piiSpans, entries)
+      : null;
+    const jobSettings = {
+      direction: directionKey(state.direction),
+      settings: {
+        anonymize: state.anonymize,
+        numberPolicy: state.numberPolicy,
+        providerId: providerSettings.providerId,
+        model: getProviderModel(providerSettings),
+        promptVersion: CURRENT_PROMPT_VERSION,
+      },
+    };
+    dispatch({ type: 'TRANSLATE', payload: { segments, redaction: entries, redactionReport, historyId: crypto.randomUUID(), jobSettings, jobGlossary: glossary } });
+    // Numbers are put in the convention the policy asks for only in what is sent, so the
+    // segments still match the document's blocks and the model only has to copy them.
+    runJob(segments, state.direction, { anonymize: state.anonymize, glossary, numberPolicy: state.numberPolicy });
+  }, [state.fileContent, state.file, state.anonymize, state.redactionConfirmedAt, state.numberPolicy, state.direction, state.piiSpans, state.memoryMatches, glossary, providerSettings, runJob]);
 
-    try {
-      const stream = await translateDocumentStream(state.fileContent, state.direction, state.anonymize);
-      
-      let firstChunk = true;
-      for await (const chunk of stream) {
-        if (firstChunk && chunk.promptFeedback?.blockReason) {
-           throw new Error(
-              `Translation was blocked due to: ${chunk.promptFeedback.blockReason}. This may be due to the document's content.`
-           );
-        }
-        firstChunk = false;
-        
-        dispatch({ type: 'TRANSLATION_CHUNK', payload: chunk.text });
-      }
-      dispatch({ type: 'TRANSLATION_COMPLETE' });
-    } catch (err) {
-      console.error(err);
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during translation.';
-      dispatch({ type: 'SET_ERROR', payload: errorMessage });
-    }
-  }, [state.fileContent, state.direction, state.anonymize]);
+  const needsRedactionReview = state.anonymize && !state.redactionConfirmedAt;
+
+  // A re-run from the history starts once its source is loaded, unless the PII still needs a review.
+  useEffect(() => {
+    if (!rerunRequested || state.status !== 'ready') return;
+    setRerunRequested(false);
+    if (!needsRedactionReview) handleTranslate();
+  }, [rerunRequested, state.status, needsRedactionReview, handleTranslate]);
+
+  // Resuming, re-translating and checking a job use the settings it was started with, not
+  // whatever the selectors show now. A job opened from the history has no glossary snapshot.
+  const jobDirection = useMemo(
+    () => (state.jobSettings ? parseDirectionKey(state.jobSettings.direction) : state.direction),
+    [state.jobSettings, state.direction],
+  );
+  const jobAnonymize = state.jobSettings?.settings.anonymize ?? state.anonymize;
+  const jobNumberPolicy = state.jobSettings?.settings.numberPolicy ?? 'keep';
+  const jobGlossary = state.jobGlossary ?? glossary;
+
+  const handleResume = useCallback(() => {
+    dispatch({ type: 'RESUME' });
+    runJob(state.segments, jobDirection, { anonymize: jobAnonymize, glossary: jobGlossary, numberPolicy: jobNumberPolicy });
+  }, [state.segments, jobDirection, jobAnonymize, jobGlossary, jobNumberPolicy, runJob]);
+
+  const handleRetranslateSegment = useCallback((index: number) => {
+    dispatch({ type: 'RETRANSLATE_SEGMENT', payload: index });
+    // Every other segment is done, so the job only requests this one.
+    const segments = state.segments.map(segment => (segment.index === index ? { ...segment, status: 'pending' as const } : segment));
+    runJob(segments, jobDirection, { anonymize: jobAnonymize, glossary: jobGlossary, numberPolicy: jobNumberPolicy });
+  }, [state.segments, jobDirection, jobAnonymize, jobGlossary, jobNumberPolicy, runJob]);
+
+  // Edits are locked while the check runs, so every result still matches its segment.
+  const handleCheckQuality = useCallback(async () => {
+    const controller = new AbortController();
+    qualityAbortRef.current = controller;
+    setQualityProgress({ done: 0, total: state.segments.filter(needsQualityCheck).length });
+    await runQualityCheck(state.segments, jobDirection, providerSettings, {
+      signal: controller.signal,
+      numberPolicy: jobNumberPolicy,
+      onSegmentChecked: (index, quality) => {
+        dispatch({ type: 'SET_SEGMENT_QUALITY', payload: { index, quality } });
+        setQualityProgress(progress => progress && { ...progress, done: progress.done + 1 });
+      },
+    });
+    qualityAbortRef.current = null;
+    setQualityProgress(null);
+  }, [state.segments, jobDirection, jobNumberPolicy, providerSettings]);
+
+  const handleApproveSegment = (index: number, approved: boolean) => {
+    dispatch({ type: 'SET_SEGMENT_APPROVED', payload: { index, approved } });
+    const segment = state.segments.find(s => s.index === index);
+    if (!approved || !segment || !memoryPreferences.enabled) return;
+    // An approved translation is worth remembering even if it came from memory and was then edited.
+    saveSegmentsToMemory([{ ...segment, fromMemory: false }], state.direction)
+      .catch(err => console.error('Failed to save to translation memory:', err));
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleSaveSettings = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    setIsSettingsOpen(false);
+  };
+
+  const handleMemoryPreferencesChange = (preferences: MemoryPreferences) => {
+    saveMemoryPreferences(preferences);
+    setMemoryPreferences(preferences);
+  };
+
+  const handleHistoryPreferencesChange = (preferences: HistoryPreferences) => {
+    saveHistoryPreferences(preferences);
+    setHistoryPreferences(preferences);
+  };
 
-  const getTranslatedFileName = (): string => {
-    if (!state.file) return 'translated_document.txt';
+  const handleRestoreHistory = (entry: HistoryEntry, rerun: boolean) => {
+    setBatch(null);
+    setIsHistoryOpen(false);
+    setRerunRequested(rerun);
+    dispatch({ type: 'RESTORE_HISTORY', payload: { entry, rerun } });
+  };
+
+  const outputText = state.restorePii ? restorePlaceholders(state.translatedText, state.redaction) : state.translatedText;
+
+  // A DOCX source is already patched in place by the Word download.
+  const sourceFormat = state.file ? findFileFormat(state.file) : undefined;
+  const canWriteOriginal = !!sourceFormat?.write && sourceFormat.id !== 'docx' && state.blocks.length > 0;
+  const downloadFormat: DownloadFormat =
+    state.downloadFormat === 'original' && (!canWriteOriginal || state.downloadMode === 'bilingual') ? 'txt' : state.downloadFormat;
+
+  const getTranslatedFileName = (extension: string): string => {
+    if (!state.file) return `translated_document.${extension}`;
     const nameParts = state.file.name.split('.');
     nameParts.pop(); // Remove original extension
     const baseName = nameParts.join('.');
-    return `${baseName}_translated_${state.direction === TranslationDirection.LaoToChinese ? 'zh' : 'lo'}.txt`;
+    return `${baseName}_translated_${state.direction.target}.${extension}`;
+  };
+
+  // Each segment is aligned on its own, so one merged or split sentence can't shift the rest of the document.
+  // Sources can be restored independently so they can be matched against the original document.
+  const getAlignedPairs = (restoreSources = state.restorePii): AlignedPair[] => {
+    const { source: sourceLanguage, target: targetLanguage } = state.direction;
+    const restore = (text: string, enabled = state.restorePii) => (enabled ? restorePlaceholders(text, state.redaction) : text);
+    return state.segments.flatMap(segment =>
+      alignTexts(restore(segment.source, restoreSources), restore(segment.translation), sourceLanguage, targetLanguage),
+    );
   };
 
-  const handleDownload = () => {
-    if (state.status !== 'complete' || !state.translatedText) return;
-
-    let contentToDownload = state.translatedText;
-    let finalFileName = getTranslatedFileName();
-
-    if (state.downloadMode === 'bilingual') {
-      const nameParts = finalFileName.split('.');
-      const extension = nameParts.pop() || 'txt';
-      const baseName = nameParts.join('.');
-      finalFileName = `${baseName}_bilingual.${extension}`;
-      
-      const originalParas = state.fileContent.split(/\r?\n\s*\r?\n/).filter(p => p.trim() !== '');
-      const translatedParas = state.translatedText.split(/\r?\n\s*\r?\n/).filter(p => p.trim() !== '');
-      
-      const maxLength = Math.max(originalParas.length, translatedParas.length);
-      let bilingualContent = [];
-      for (let i = 0; i < maxLength; i++) {
-          const original = originalParas[i] ? `原文：\n${originalParas[i]}` : '原文：\n[...段落缺失...]';
-          const translated = translatedParas[i] ? `译文：\n${translatedParas[i]}` : '译文：\n[...段落缺失...]';
-          const paragraphBlock = `--- 段落 ${i + 1} ---\n\n${original}\n\n${translated}`;
-          bilingualContent.push(paragraphBlock);
+  const handleDownload = async () => {
+    if (state.status !== 'complete' || !outputText) return;
+    setDownloadError(null);
+    setUnmappedBlocks([]);
+
+    const isBilingual = state.downloadMode === 'bilingual';
+    const targetLanguage = state.direction.target;
+
+    if (downloadFormat === 'original' && state.file && sourceFormat?.write) {
+      try {
+        const { translations, unmapped } = mapTranslationsToBlocks(state.blocks, getAlignedPairs(true), targetLanguage);
+        const blob = await sourceFormat.write(await state.file.arrayBuffer(), translations);
+        setUnmappedBlocks(unmapped);
+        downloadBlob(blob, getTranslatedFileName(getFileExtension(state.file.name)), blob.type);
+      } catch (err) {
+        setDownloadError(err instanceof Error ? `Failed to write the ${sourceFormat.label} file: ${err.message}` : `Failed to write the ${sourceFormat.label} file.`);
+      }
+      return;
+    }
+
+    const baseName = getTranslatedFileName(downloadFormat).replace(/\.[^.]+$/, '');
+    const finalFileName = `${baseName}${isBilingual ? '_bilingual' : ''}.${downloadFormat}`;
+
+    if (downloadFormat === 'docx') {
+      try {
+        const isDocxSource = state.file?.name.toLowerCase().endsWith('.docx') && state.blocks.length > 0;
+        let blob: Blob;
+        if (isBilingual) {
+          blob = await buildBilingualDocx(getAlignedPairs(), ['原文', '译文']);
+        } else if (isDocxSource) {
+          const { translations, unmapped } = mapTranslationsToBlocks(state.blocks, getAlignedPairs(true), targetLanguage);
+          blob = await translateDocx(await state.file!.arrayBuffer(), translations);
+          setUnmappedBlocks(unmapped);
+        } else {
+          blob = await buildTextDocx(outputText);
+        }
+        downloadBlob(blob, finalFileName, DOCX_MIME_TYPE);
+      } catch (err) {
+        setDownloadError(err instanceof Error ? `Failed to create the Word document: ${err.message}` : 'Failed to create the Word document.');
       }
-      contentToDownload = bilingualContent.join('\n\n\n');
+      return;
     }
 
-    const blob = new Blob([contentToDownload], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = finalFileName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    const contentToDownload = isBilingual ? buildBilingualText(getAlignedPairs()) : outputText;
+
+    downloadBlob(contentToDownload, finalFileName, 'text/plain;charset=utf-8');
+  };
+
+  // The review exports what is confirmed now; the report the job was sent with is kept in its history entry.
+  const handleExportRedactions = () => {
+    if (!state.redactionConfirmedAt) return;
+    const { entries } = redactText(state.fileContent, getAcceptedSpans(state.piiSpans), state.direction.target);
+    const fileName = state.file?.name || 'pasted_text';
+    const report = buildRedactionReport(fileName, state.direction, state.redactionConfirmedAt, state.piiSpans, entries);
+    downloadBlob(JSON.stringify(report, null, 2), getRedactionReportFileName(fileName), 'application/json');
   };
 
   const handleCopy = () => {
-    if (state.status !== 'complete' || !state.translatedText) return;
-    navigator.clipboard.writeText(state.translatedText).then(() => {
+    if (state.status !== 'complete' || !outputText) return;
+    navigator.clipboard.writeText(outputText).then(() => {
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
     });
   };
 
-  const isDisabled = state.status === 'parsing' || state.status === 'translating';
+  const isCheckingQuality = qualityProgress !== null;
+  const isDisabled = state.status === 'parsing' || state.status === 'translating' || isCheckingQuality;
   const actionButtonsDisabled = state.status !== 'complete';
   const showMainView = state.file || state.fileContent;
 
   const isTranslationMode = state.downloadMode === 'translation';
+  const completedSegments = state.segments.filter(segment => segment.status === 'done').length;
+  const retryingSegments = state.segments.filter(segment => segment.status === 'translating' && segment.attempts > 1).length;
+  const progressMessage = state.segments.length > 1
+    ? `${completedSegments} of ${state.segments.length} parts done${retryingSegments ? ` · retrying ${retryingSegments}` : ''}`
+    : '';
+  const glossaryIssues = useMemo(
+    () => (state.status === 'complete' ? checkGlossaryUsage(state.fileContent, state.translatedText, glossary, state.direction) : []),
+    [state.status, state.fileContent, state.translatedText, glossary, state.direction],
+  );
+  const numberIssues = useMemo(
+    () => (state.status === 'complete' ? checkNumbers(state.segments, jobDirection, jobNumberPolicy) : []),
+    [state.status, state.segments, jobDirection, jobNumberPolicy],
+  );
+  const detectedNumberCount = useMemo(() => detectNumbers(state.fileContent).length, [state.fileContent]);
+  const acceptedPiiSpans = useMemo(() => getAcceptedSpans(state.piiSpans), [state.piiSpans]);
+  const detectedPiiCount = acceptedPiiSpans.length;
+  const directionMismatch = state.detectedLanguage !== null && state.detectedLanguage !== state.direction.source;
+  const templateMatch = useMemo(
+    () => (supportsTemplates(state.direction) ? matchTemplate(state.fileContent) : null),
+    [state.fileContent, state.direction],
+  );
+  const sourcePanels = [
+    'preview' as const,
+    ...(state.anonymize ? ['review' as const] : []),
+    ...(state.memoryMatches.length > 0 ? ['memory' as const] : []),
+    ...(templateMatch ? ['template' as const] : []),
+  ];
+  const activeSourcePanel = sourcePanels.includes(sourcePanel) ? sourcePanel : 'preview';
+  const sourcePanelLabels = {
+    preview: 'Preview',
+    review: `Review PII (${state.piiSpans.length})`,
+    memory: `Memory (${state.memoryMatches.length})`,
+    template: `Template: ${templateMatch?.template.title.zh ?? ''}`,
+  };
+  const canResume = (state.status === 'error' || state.status === 'cancelled') && isJobResumable(state.segments);
+  const activeProvider = PROVIDER_OPTIONS.find(option => option.id === providerSettings.providerId);
   const dlButtonBaseClasses = "relative z-10 flex-1 flex items-center justify-center space-x-2 text-center px-3 py-2 text-sm font-semibold rounded-md transition-colors duration-300 focus:outline-none";
   const dlActiveTextClasses = "text-white";
+  const headerButtonClasses = "p-2 rounded-full text-slate-500 hover:text-sky-600 dark:text-slate-400 dark:hover:text-sky-400 hover:bg-slate-200/60 dark:hover:bg-slate-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
   const dlInactiveTextClasses = "text-slate-600 dark:text-slate-300 hover:bg-slate-200/60 dark:hover:bg-slate-600";
 
   return (
     <div className="min-h-screen flex items-center justify-center p-4 sm:p-6 lg:p-8 bg-slate-50 dark:bg-black font-sans">
       <div className="w-full max-w-7xl mx-auto">
-        <header className="text-center mb-10">
+        <header className="relative text-center mb-10">
+          <div className="absolute right-0 top-0 flex gap-1">
+            <button
+              onClick={() => setIsGlossaryOpen(true)}
+              disabled={isDisabled}
+              className={headerButtonClasses}
+              aria-label="Glossary"
+              title={`Glossary (${glossary.length} terms)`}
+            >
+              <BookIcon className="w-6 h-6" />
+            </button>
+            <button
+              onClick={() => setIsMemoryOpen(true)}
+              disabled={isDisabled}
+              className={headerButtonClasses}
+              aria-label="Translation memory"
+              title="Translation memory"
+            >
+              <DatabaseIcon className="w-6 h-6" />
+            </button>
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              disabled={isDisabled}
+              className={headerButtonClasses}
+              aria-label="History"
+              title="History"
+            >
+              <HistoryIcon className="w-6 h-6" />
+            </button>
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              disabled={isDisabled}
+              className={headerButtonClasses}
+              aria-label="Translation provider settings"
+              title="Translation provider settings"
+            >
+              <SettingsIcon className="w-6 h-6" />
+            </button>
+          </div>
           <h1 className="text-3xl md:text-4xl lg:text-5xl font-extrabold text-slate-800 dark:text-white tracking-tight">Teacher YANG 老挝语-中文 文档互译</h1>
           <p className="mt-3 max-w-2xl mx-auto text-lg text-slate-500 dark:text-slate-400">
             Upload your document or paste text to get a high-fidelity translation in seconds.
@@ -278,7 +886,22 @@ const App: React.FC = () => {
         </header>
 
         <main className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl p-6 sm:p-8 transition-all duration-300">
-          {!showMainView ? (
+          {batch ? (
+            <BatchQueue
+              initialItems={batch.items}
+              skipped={batch.skipped}
+              direction={state.direction}
+              anonymize={state.anonymize}
+              numberPolicy={state.numberPolicy}
+              providerSettings={providerSettings}
+              glossary={glossary}
+              memoryThreshold={memoryPreferences.enabled ? memoryPreferences.fuzzyThreshold : null}
+              onDirectionChange={direction => dispatch({ type: 'SET_DIRECTION', payload: direction })}
+              onAnonymizeChange={anonymize => dispatch({ type: 'SET_ANONYMIZE', payload: anonymize })}
+              onNumberPolicyChange={policy => dispatch({ type: 'SET_NUMBER_POLICY', payload: policy })}
+              onClose={() => setBatch(null)}
+            />
+          ) : !showMainView ? (
              <div className="w-full">
               <div className="flex justify-center mb-6">
                 <div className="flex p-1 bg-slate-100 dark:bg-slate-800 rounded-lg">
@@ -292,7 +915,7 @@ const App: React.FC = () => {
               </div>
               
               {state.inputMode === 'upload' ? (
-                <FileUpload onFileSelect={handleFileSelect} disabled={isDisabled} />
+                <FileUpload onFilesSelect={handleFilesSelect} disabled={isDisabled} />
               ) : (
                 <textarea
                   className="w-full h-64 p-4 font-sans text-sm bg-slate-50 dark:bg-slate-800 text-slate-700 dark:text-slate-300 border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 transition-colors"
@@ -302,6 +925,15 @@ const App: React.FC = () => {
                   aria-label="Paste text for translation"
                 />
               )}
+              {uploadError && (
+                <div className="mt-6 bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg relative flex items-start space-x-2" role="alert">
+                  <AlertTriangleIcon className="w-5 h-5 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <strong className="font-bold">Error:</strong>
+                    <span className="block sm:inline ml-1">{uploadError}</span>
+                  </div>
+                </div>
+              )}
             </div>
           ) : (
             <div className="space-y-6">
@@ -326,38 +958,198 @@ const App: React.FC = () => {
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
                     <p className="mt-4 font-medium text-slate-600 dark:text-slate-300">Parsing your document...</p>
+                    {parseProgress && <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">{parseProgress}</p>}
                  </div>
               ) : (
                 <>
-                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                    <PreviewDisplay content={state.fileContent} />
-                    <ResultDisplay 
-                      text={state.translatedText}
-                      isTranslating={state.status === 'translating'}
+                  <div className="space-y-6">
+                    <div className="space-y-3">
+                      {sourcePanels.length > 1 && (
+                        <div className="flex p-1 bg-slate-100 dark:bg-slate-800 rounded-lg w-fit">
+                          {sourcePanels.map(panel => (
+                            <button
+                              key={panel}
+                              onClick={() => setSourcePanel(panel)}
+                              className={`px-4 py-1.5 text-sm font-semibold rounded-md transition-colors ${activeSourcePanel === panel ? 'bg-white dark:bg-slate-700 text-sky-600 dark:text-white shadow-sm' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-200/60 dark:hover:bg-slate-700/50'}`}
+                            >
+                              {sourcePanelLabels[panel]}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {activeSourcePanel === 'template' && templateMatch ? (
+                        <TemplateForm
+                          match={templateMatch}
+                          content={state.fileContent}
+                          fileName={state.file?.name ?? null}
+                          providerSettings={providerSettings}
+                          anonymize={state.anonymize}
+                          piiSpans={acceptedPiiSpans}
+                          needsRedactionReview={needsRedactionReview}
+                          disabled={isDisabled}
+                        />
+                      ) : activeSourcePanel === 'memory' ? (
+                        <MemoryMatches
+                          matches={state.memoryMatches}
+                          disabled={isDisabled}
+                          onToggle={(paragraph, accepted) => dispatch({ type: 'SET_MEMORY_MATCH_ACCEPTED', payload: { paragraph, accepted } })}
+                        />
+                      ) : activeSourcePanel === 'review' ? (
+                        <RedactionReview
+                          content={state.fileContent}
+                          spans={state.piiSpans}
+                          confirmed={state.redactionConfirmedAt !== null}
+                          disabled={isDisabled}
+                          onDecision={(id, decision) => dispatch({ type: 'SET_PII_DECISION', payload: { id, decision } })}
+                          onAddSpan={span => dispatch({ type: 'ADD_PII_SPAN', payload: span })}
+                          onConfirm={() => dispatch({ type: 'CONFIRM_REDACTIONS', payload: new Date().toISOString() })}
+                          onExport={handleExportRedactions}
+                        />
+                      ) : (
+                        <PreviewDisplay
+                          content={state.fileContent}
+                          language={state.direction.source}
+                          pages={state.pages}
+                          conversions={state.conversions}
+                          disabled={isDisabled}
+                          onOcrPages={state.file?.name.toLowerCase().endsWith('.pdf') ? handleOcrPages : undefined}
+                        />
+                      )}
+                    </div>
+                    <SegmentEditor
+                      segments={state.segments}
+                      direction={state.direction}
+                      isTranslating={state.status === 'translating' || isCheckingQuality}
+                      canRetranslate={state.status === 'complete' && !isCheckingQuality}
+                      redaction={state.redaction}
+                      restorePii={state.restorePii}
+                      onEditSentence={(index, sentence, translation) => dispatch({ type: 'EDIT_SENTENCE', payload: { index, sentence, translation } })}
+                      onApprove={handleApproveSegment}
+                      onRetranslate={handleRetranslateSegment}
+                      qualityProgress={qualityProgress}
+                      onCheckQuality={state.status === 'complete' ? handleCheckQuality : undefined}
+                      onCancelQualityCheck={() => qualityAbortRef.current?.abort()}
                     />
                   </div>
 
+                  {glossaryIssues.length > 0 && (
+                    <div className="mt-6 bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200 px-4 py-3 rounded-lg text-sm animate-fade-in" role="status">
+                      <div className="flex items-center space-x-2 font-semibold">
+                        <BookIcon className="w-4 h-4" />
+                        <span>Glossary check: {glossaryIssues.length} term{glossaryIssues.length === 1 ? '' : 's'} not rendered as required</span>
+                      </div>
+                      <ul className="mt-2 space-y-1">
+                        {glossaryIssues.map(issue => (
+                          <li key={issue.entry.id}>
+                            <span className="font-medium">{issue.sourceTerm}</span> should be translated as <span className="font-medium">{issue.expectedTarget}</span>
+                            {issue.entry.note && <span className="text-amber-700/80 dark:text-amber-300/80"> ({issue.entry.note})</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {numberIssues.length > 0 && (
+                    <div className="mt-6 bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200 px-4 py-3 rounded-lg text-sm animate-fade-in" role="status">
+                      <div className="flex items-center space-x-2 font-semibold">
+                        <AlertTriangleIcon className="w-4 h-4" />
+                        <span>Number check: {numberIssues.length} number{numberIssues.length === 1 ? '' : 's'} of the source not found in the translation</span>
+                      </div>
+                      <ul className="mt-2 space-y-1">
+                        {numberIssues.map(issue => (
+                          <li key={`${issue.segment}-${issue.value}`}>
+                            <span className="font-mono text-amber-700/80 dark:text-amber-300/80">#{issue.segment + 1}</span> <span className="font-medium">{issue.value}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {unmappedBlocks.length > 0 && (
+                    <div className="mt-6 bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200 px-4 py-3 rounded-lg text-sm animate-fade-in" role="status">
+                      <div className="flex items-center space-x-2 font-semibold">
+                        <AlertTriangleIcon className="w-4 h-4" />
+                        <span>Layout check: {unmappedBlocks.length} paragraph{unmappedBlocks.length === 1 ? '' : 's'} of the download kept the source text</span>
+                      </div>
+                      <p className="mt-2">No translation could be matched to {describeBlocks(unmappedBlocks)}. Edit or re-translate the parts they belong to and download again.</p>
+                    </div>
+                  )}
+
                   <div className="pt-6 mt-6 border-t border-slate-200 dark:border-slate-700 space-y-6">
                     <div className="flex flex-col md:flex-row items-stretch justify-center gap-4">
-                      <div className="w-full md:flex-1">
+                      <div className="w-full md:flex-1 flex flex-col gap-2">
                         <LanguageSelector 
                             direction={state.direction} 
                             onDirectionChange={(dir) => dispatch({ type: 'SET_DIRECTION', payload: dir })}
                             disabled={isDisabled}
                         />
-                      </div>
-                      <button 
-                          onClick={handleTranslate} 
-                          disabled={isDisabled || !state.fileContent}
-                          className="w-full md:flex-1 flex items-center justify-center bg-sky-600 hover:bg-sky-700 disabled:bg-slate-400 disabled:cursor-not-allowed text-white font-bold py-4 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-sky-300 dark:focus:ring-sky-800 text-lg"
-                      >
-                          {state.status === 'translating' ? (
-                            <div className="flex flex-col items-center text-center">
-                              <Loader text="Translating..." time={elapsedTime} />
-                              {statusMessage && <p className="text-xs text-sky-200/90 mt-1.5 animate-fade-in">{statusMessage}</p>}
+                        {directionMismatch && state.detectedLanguage && (
+                          <div className="flex items-center justify-between gap-2 px-3 py-2 text-sm bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200 rounded-lg" role="status">
+                            <div className="flex items-center space-x-2">
+                              <AlertTriangleIcon className="w-4 h-4 flex-shrink-0" />
+                              <span>The text looks like {LANGUAGES[state.detectedLanguage].name}, not {LANGUAGES[state.direction.source].name}.</span>
                             </div>
-                           ) : (state.status === 'complete' ? 'Translate Again' : 'Translate Document')}
-                      </button>
+                            <button
+                              onClick={() => dispatch({ type: 'SET_DIRECTION', payload: directionForSource(state.detectedLanguage!, state.direction) })}
+                              disabled={isDisabled}
+                              className="px-2 py-1 text-xs font-semibold rounded-md text-amber-900 dark:text-amber-100 bg-amber-100 dark:bg-amber-900/40 hover:bg-amber-200 dark:hover:bg-amber-900/60 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+                            >
+                              Switch direction
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                      <div className="w-full md:flex-1 flex flex-col gap-2">
+                        <button 
+                            onClick={canResume ? handleResume : handleTranslate} 
+                            disabled={isDisabled || !state.fileContent || needsRedactionReview}
+                            className="w-full flex-1 flex items-center justify-center bg-sky-600 hover:bg-sky-700 disabled:bg-slate-400 disabled:cursor-not-allowed text-white font-bold py-4 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-sky-300 dark:focus:ring-sky-800 text-lg"
+                        >
+                            {state.status === 'translating' ? (
+                              <div className="flex flex-col items-center text-center w-full">
+                                <Loader text="Translating..." time={elapsedTime} />
+                                {progressMessage && (
+                                  <div className="w-full mt-1.5 animate-fade-in">
+                                    <p className="text-xs text-sky-200/90">{progressMessage}</p>
+                                    <div className="mt-1 h-1 w-full bg-sky-900/40 rounded-full overflow-hidden">
+                                      <div
+                                        className="h-full bg-white/80 transition-all duration-500"
+                                        style={{ width: `${(completedSegments / state.segments.length) * 100}%` }}
+                                      />
+                                    </div>
+                                  </div>
+                                )}
+                              </div>
+                             ) : canResume ? (
+                               `Resume (${completedSegments} of ${state.segments.length} parts done)`
+                             ) : (state.status === 'complete' ? 'Translate Again' : 'Translate Document')}
+                        </button>
+                        {state.status === 'translating' && (
+                          <button
+                            onClick={handleCancel}
+                            className="w-full text-sm font-semibold text-slate-600 hover:text-red-500 dark:text-slate-300 dark:hover:text-red-400 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                        {needsRedactionReview && state.status !== 'translating' && (
+                          <button
+                            onClick={() => setSourcePanel('review')}
+                            className="w-full text-sm font-semibold text-amber-700 dark:text-amber-300 py-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+                          >
+                            Review and confirm the masked PII to enable translation
+                          </button>
+                        )}
+                        {canResume && (
+                          <button
+                            onClick={handleTranslate}
+                            disabled={needsRedactionReview}
+                            className="w-full text-sm font-semibold text-slate-600 hover:text-sky-600 dark:text-slate-300 dark:hover:text-sky-400 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Start Over
+                          </button>
+                        )}
+                      </div>
                     </div>
 
                     <div className="pt-6 border-t border-slate-200 dark:border-slate-700 flex flex-col md:flex-row flex-wrap items-center justify-between gap-x-6 gap-y-4">
@@ -379,9 +1171,46 @@ const App: React.FC = () => {
                                     </div>
                                     <div className="ml-3 text-sm font-medium text-slate-700 dark:text-slate-200">
                                         Anonymize PII
+                                        {state.anonymize && detectedPiiCount > 0 && (
+                                            <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">
+                                                {detectedPiiCount} item{detectedPiiCount === 1 ? '' : 's'} masked locally
+                                            </span>
+                                        )}
                                     </div>
                                 </label>
                             </div>
+
+                            <div className="flex flex-col">
+                                <select
+                                    value={state.numberPolicy}
+                                    onChange={e => isNumberPolicy(e.target.value) && dispatch({ type: 'SET_NUMBER_POLICY', payload: e.target.value })}
+                                    disabled={isDisabled}
+                                    className="text-sm font-medium text-slate-700 dark:text-slate-200 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-700 border-none focus:ring-2 focus:ring-sky-500 disabled:opacity-60 disabled:cursor-not-allowed"
+                                    aria-label="Numbers, dates and amounts"
+                                    title="Lao digits, Buddhist-era years, kip amounts and Chinese numerals"
+                                >
+                                    {(Object.keys(NUMBER_POLICY_LABELS) as NumberPolicy[]).map(policy => (
+                                        <option key={policy} value={policy}>{NUMBER_POLICY_LABELS[policy]}</option>
+                                    ))}
+                                </select>
+                                {detectedNumberCount > 0 && (
+                                    <span className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                                        {detectedNumberCount} number{detectedNumberCount === 1 ? '' : 's'} in a local convention
+                                    </span>
+                                )}
+                            </div>
+
+                            {state.redaction.length > 0 && (
+                                <button
+                                    onClick={() => dispatch({ type: 'SET_RESTORE_PII', payload: !state.restorePii })}
+                                    disabled={actionButtonsDisabled}
+                                    aria-pressed={state.restorePii}
+                                    className={`px-3 py-2 text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${state.restorePii ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200' : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'}`}
+                                    title="Replace placeholders in the translation with the original values"
+                                >
+                                    {state.restorePii ? 'Showing original PII' : `Restore PII (${state.redaction.length})`}
+                                </button>
+                            )}
                             
                             <div className={`relative flex w-full md:w-auto p-1 bg-slate-100 dark:bg-slate-700/60 rounded-lg ${actionButtonsDisabled ? 'opacity-60 cursor-not-allowed' : ''}`}>
                                 <span
@@ -424,6 +1253,22 @@ const App: React.FC = () => {
                                 <ClipboardCheckIcon className="w-5 h-5"/>
                                 <span>{copied ? 'Copied!' : 'Copy'}</span>
                             </button>
+                            <select
+                                value={downloadFormat}
+                                onChange={e => dispatch({ type: 'SET_DOWNLOAD_FORMAT', payload: e.target.value as DownloadFormat })}
+                                disabled={actionButtonsDisabled}
+                                className="text-sm font-semibold text-slate-600 dark:text-slate-300 px-3 py-3 rounded-lg bg-slate-100 dark:bg-slate-700 border-none focus:ring-2 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                aria-label="Download format"
+                                title={state.downloadMode === 'bilingual' ? 'Word downloads use a two-column table' : 'Word downloads of a DOCX source keep its layout'}
+                            >
+                                <option value="txt">.txt</option>
+                                <option value="docx">.docx</option>
+                                {canWriteOriginal && state.file && (
+                                    <option value="original" disabled={state.downloadMode === 'bilingual'}>
+                                        {sourceFormat!.label} (.{getFileExtension(state.file.name)})
+                                    </option>
+                                )}
+                            </select>
                             <button 
                                 onClick={handleDownload}
                                 className="flex flex-1 justify-center items-center space-x-2 text-sm bg-green-600 hover:bg-green-700 text-white font-semibold py-3 px-4 rounded-lg transition-colors duration-300 disabled:bg-slate-400 dark:disabled:bg-slate-600 disabled:cursor-not-allowed"
@@ -439,12 +1284,12 @@ const App: React.FC = () => {
               )}
 
 
-              {state.error && (
+              {(state.error || downloadError) && (
                 <div className="mt-6 bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg relative flex items-start space-x-2" role="alert">
                   <AlertTriangleIcon className="w-5 h-5 mt-0.5 flex-shrink-0" />
                   <div>
                     <strong className="font-bold">Error:</strong>
-                    <span className="block sm:inline ml-1">{state.error}</span>
+                    <span className="block sm:inline ml-1">{state.error ?? downloadError}</span>
                   </div>
                 </div>
               )}
@@ -452,8 +1297,39 @@ const App: React.FC = () => {
           )}
         </main>
         <footer className="text-center mt-8 text-sm text-slate-500 dark:text-slate-400">
-          <p>Powered by Google Gemini API</p>
+          <p>Powered by {activeProvider?.label ?? 'Google Gemini'}</p>
         </footer>
+        {isGlossaryOpen && (
+          <GlossaryPanel
+            entries={glossary}
+            onChanged={refreshGlossary}
+            onClose={() => setIsGlossaryOpen(false)}
+          />
+        )}
+        {isMemoryOpen && (
+          <TranslationMemoryPanel
+            preferences={memoryPreferences}
+            onPreferencesChange={handleMemoryPreferencesChange}
+            onChanged={() => setMemoryVersion(version => version + 1)}
+            onClose={() => setIsMemoryOpen(false)}
+          />
+        )}
+        {isHistoryOpen && (
+          <HistoryPanel
+            preferences={historyPreferences}
+            onPreferencesChange={handleHistoryPreferencesChange}
+            onOpen={entry => handleRestoreHistory(entry, false)}
+            onRerun={entry => handleRestoreHistory(entry, true)}
+            onClose={() => setIsHistoryOpen(false)}
+          />
+        )}
+        {isSettingsOpen && (
+          <SettingsPanel
+            settings={providerSettings}
+            onSave={handleSaveSettings}
+            onClose={() => setIsSettingsOpen(false)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,183 @@
+// Headless translation for scripts and document pipelines. Files are translated one after
+// the other with the same services as the app's batch mode; progress goes to stderr so
+// stdout stays free for the list of written files.
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { glob, isDynamicPattern } from 'tinyglobby';
+import { DirectionKey, NumberPolicy, ProviderId, ProviderSettings } from '../types';
+import { translateFile } from '../services/batch';
+import { describeBlocks } from '../services/documentModel';
+import { EXPORT_FORMATS, ExportFormat, exportTranslation, getExportFileName } from '../services/exporters';
+import { findFileFormat } from '../services/formats';
+import { DEFAULT_DIRECTION, directionKey, isSupportedDirection, LANGUAGE_PAIRS, parseDirectionKey } from '../services/languages';
+import { DEFAULT_NUMBER_POLICY, isNumberPolicy, NUMBER_POLICY_LABELS } from '../services/numberNormalization';
+import { PROVIDER_OPTIONS } from '../services/providers';
+import { installBrowserGlobals, isProviderId, loadProviderSettingsFromEnv, ProviderConfigError } from '../node/environment';
+
+const USAGE = `Usage: npm run translate -- [options] <files or globs...>
+
+Options:
+  -d, --direction <key>   ${LANGUAGE_PAIRS.map(directionKey).join(', ')} (default: ${directionKey(DEFAULT_DIRECTION)})
+  -a, --anonymize         Mask detected PII before any text is sent to the provider
+  -n, --numbers <policy>  ${Object.keys(NUMBER_POLICY_LABELS).join(', ')}: how Lao digits, Buddhist-era years, kip amounts
+                          and Chinese numerals are carried over (default: ${DEFAULT_NUMBER_POLICY})
+  -p, --provider <id>     ${PROVIDER_OPTIONS.map(option => option.id).join(', ')} (default: TRANSLATOR_PROVIDER, else gemini when GEMINI_API_KEY is set)
+  -m, --model <name>      Model for the chosen provider
+  -f, --format <format>   ${EXPORT_FORMATS.join(', ')} (default: txt)
+  -o, --out <dir>         Output directory (default: next to each input file)
+  -h, --help              Show this help
+
+Provider keys are read from GEMINI_API_KEY, OPENAI_BASE_URL, OPENAI_API_KEY and OPENAI_MODEL, and the
+translation server from TRANSLATOR_SERVER_URL and TRANSLATOR_SERVER_TOKEN.
+Exits with 1 when any file fails to translate or is blocked by the provider, and 2 on invalid options
+or when no provider is configured.`;
+
+class UsageError extends Error {}
+
+interface CliOptions {
+  files: string[];
+  directionKey: DirectionKey;
+  anonymize: boolean;
+  numberPolicy: NumberPolicy;
+  providerId?: ProviderId;
+  model?: string;
+  format: ExportFormat;
+  outDir?: string;
+}
+
+const parseOptions = (argv: string[]): CliOptions | null => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      direction: { type: 'string', short: 'd', default: directionKey(DEFAULT_DIRECTION) },
+      anonymize: { type: 'boolean', short: 'a', default: false },
+      numbers: { type: 'string', short: 'n', default: DEFAULT_NUMBER_POLICY },
+      provider: { type: 'string', short: 'p' },
+      model: { type: 'string', short: 'm' },
+      format: { type: 'string', short: 'f', default: 'txt' },
+      out: { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) return null;
+
+  const key = values.direction as DirectionKey;
+  if (!/^[a-z]+-to-[a-z]+$/.test(key) || !isSupportedDirection(parseDirectionKey(key))) {
+    throw new UsageError(`Unsupported direction "${values.direction}".`);
+  }
+  if (!isNumberPolicy(values.numbers)) {
+    throw new UsageError(`Unknown number policy "${values.numbers}".`);
+  }
+  if (values.provider !== undefined && !isProviderId(values.provider)) {
+    throw new UsageError(`Unknown provider "${values.provider}".`);
+  }
+  if (!EXPORT_FORMATS.includes(values.format as ExportFormat)) {
+    throw new UsageError(`Unknown format "${values.format}".`);
+  }
+  if (positionals.length === 0) throw new UsageError('No input files given.');
+
+  return {
+    files: positionals,
+    directionKey: key,
+    anonymize: values.anonymize,
+    numberPolicy: values.numbers,
+    providerId: values.provider as ProviderId | undefined,
+    model: values.model,
+    format: values.format as ExportFormat,
+    outDir: values.out,
+  };
+};
+
+// Shells expand globs themselves, but quoted patterns and Windows shells leave them to us.
+const expandInputs = async (inputs: string[]): Promise<string[]> => {
+  const paths: string[] = [];
+  for (const input of inputs) {
+    if (!isDynamicPattern(input)) {
+      paths.push(input);
+      continue;
+    }
+    const matches = await glob(input, { onlyFiles: true });
+    if (matches.length === 0) throw new UsageError(`No files match "${input}".`);
+    paths.push(...matches.sort());
+  }
+  return [...new Set(paths)];
+};
+
+const main = async (): Promise<number> => {
+  let options: CliOptions | null;
+  let paths: string[];
+  try {
+    options = parseOptions(process.argv.slice(2));
+    if (!options) {
+      console.log(USAGE);
+      return 0;
+    }
+    paths = await expandInputs(options.files);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+
+  let providerSettings: ProviderSettings;
+  try {
+    providerSettings = loadProviderSettingsFromEnv(process.env, { providerId: options.providerId, model: options.model });
+  } catch (error) {
+    if (!(error instanceof ProviderConfigError)) throw error;
+    console.error(error.message);
+    return 2;
+  }
+
+  installBrowserGlobals();
+  const direction = parseDirectionKey(options.directionKey);
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  let failures = 0;
+  for (const [i, path] of paths.entries()) {
+    const log = (message: string) => console.error(`[${i + 1}/${paths.length}] ${path}: ${message}`);
+    try {
+      const file = new File([await readFile(path)], basename(path));
+      if (!findFileFormat(file)) throw new Error('Unsupported file type.');
+      const result = await translateFile(
+        file,
+        { direction, anonymize: options.anonymize, numberPolicy: options.numberPolicy, providerSettings, glossary: [], memoryThreshold: null },
+        controller.signal,
+        {
+          onStatus: status => log(status === 'parsing' ? 'parsing' : `translating with ${providerSettings.providerId}`),
+          onProgress: (done, total) => log(`${done}/${total} parts done`),
+        },
+      );
+      const { blob, unmapped } = await exportTranslation({ file, blocks: result.parsed.blocks, direction, segments: result.segments, redaction: result.redaction }, options.format);
+      const outDir = options.outDir ?? dirname(path);
+      const outPath = join(outDir, getExportFileName(basename(path), direction, options.format));
+      await mkdir(outDir, { recursive: true });
+      await writeFile(outPath, new Uint8Array(await blob.arrayBuffer()));
+      log(`wrote ${outPath}${result.redaction.length ? ` (${result.redaction.length} PII items masked)` : ''}`);
+      if (result.numberIssues.length > 0) {
+        const values = result.numberIssues.map(issue => `${issue.value} (part ${issue.segment + 1})`).join(', ');
+        log(`warning: numbers of the source not found in the translation: ${values}`);
+      }
+      if (unmapped.length > 0) {
+        log(`warning: ${unmapped.length} paragraph${unmapped.length === 1 ? '' : 's'} kept the source text, no translation matched: ${describeBlocks(unmapped)}`);
+      }
+      console.log(outPath);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        log('cancelled');
+        return 130;
+      }
+      failures++;
+      log(`failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (failures > 0) console.error(`${failures} of ${paths.length} files failed.`);
+  return failures > 0 ? 1 : 0;
+};
+
+main().then(code => {
+  process.exitCode = code;
+});
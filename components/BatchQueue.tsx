@@ -0,0 +1,242 @@
+import React, { useRef, useState } from 'react';
+import { BatchItem, BatchItemStatus, GlossaryEntry, NumberPolicy, ProviderSettings, TranslationDirection } from '../types';
+import { buildBatchArchive, translateBatchFile, ZIP_MIME_TYPE } from '../services/batch';
+import { downloadBlob } from '../services/download';
+import { directionKey } from '../services/languages';
+import { isNumberPolicy, NUMBER_POLICY_LABELS } from '../services/numberNormalization';
+import { isAbortError } from '../services/retry';
+import LanguageSelector from './LanguageSelector';
+import { AlertTriangleIcon, CheckIcon, DownloadIcon, FileTextIcon, ShieldCheckIcon } from './Icons';
+
+interface BatchQueueProps {
+  initialItems: BatchItem[];
+  /** Names of uploaded or archived files the app can't read. */
+  skipped: string[];
+  direction: TranslationDirection;
+  anonymize: boolean;
+  numberPolicy: NumberPolicy;
+  providerSettings: ProviderSettings;
+  glossary: GlossaryEntry[];
+  memoryThreshold: number | null;
+  onDirectionChange: (direction: TranslationDirection) => void;
+  onAnonymizeChange: (anonymize: boolean) => void;
+  onNumberPolicyChange: (policy: NumberPolicy) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  parsing: 'Parsing',
+  translating: 'Translating',
+  complete: 'Complete',
+  error: 'Error',
+};
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  queued: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+  parsing: 'bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200',
+  translating: 'bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200',
+  complete: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  error: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200',
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({
+  initialItems,
+  skipped,
+  direction,
+  anonymize,
+  numberPolicy,
+  providerSettings,
+  glossary,
+  memoryThreshold,
+  onDirectionChange,
+  onAnonymizeChange,
+  onNumberPolicyChange,
+  onClose,
+}) => {
+  const [items, setItems] = useState<BatchItem[]>(initialItems);
+  const [isRunning, setIsRunning] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const updateItem = (id: string, change: Partial<BatchItem>) => {
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...change } : item)));
+  };
+
+  // Files are translated one at a time; a rerun picks up everything that isn't complete yet.
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setDownloadError(null);
+    const settings = { direction, anonymize, numberPolicy, providerSettings, glossary, memoryThreshold };
+
+    for (const item of items.filter(item => item.status !== 'complete')) {
+      if (controller.signal.aborted) break;
+      updateItem(item.id, { status: 'parsing', progress: undefined, error: undefined, startedAt: new Date().toISOString(), finishedAt: undefined });
+      try {
+        const result = await translateBatchFile(item, settings, controller.signal, {
+          onStatus: status => updateItem(item.id, { status }),
+          onProgress: (done, total) => updateItem(item.id, { progress: { done, total } }),
+        });
+        updateItem(item.id, {
+          status: 'complete',
+          output: result.output,
+          redactions: result.redactions,
+          numberIssues: result.numberIssues,
+          unmappedBlocks: result.unmappedBlocks,
+          finishedAt: new Date().toISOString(),
+        });
+      } catch (err) {
+        if (controller.signal.aborted || isAbortError(err)) {
+          updateItem(item.id, { status: 'queued', progress: undefined, startedAt: undefined });
+          break;
+        }
+        const message = err instanceof Error ? err.message : 'Failed to translate this file.';
+        updateItem(item.id, { status: 'error', error: message, finishedAt: new Date().toISOString() });
+      }
+    }
+
+    abortControllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleDownload = async () => {
+    setDownloadError(null);
+    try {
+      const blob = await buildBatchArchive(items, direction, anonymize, numberPolicy);
+      downloadBlob(blob, `translated_${directionKey(direction)}_${new Date().toISOString().slice(0, 10)}.zip`, ZIP_MIME_TYPE);
+    } catch (err) {
+      setDownloadError(err instanceof Error ? `Failed to create the ZIP archive: ${err.message}` : 'Failed to create the ZIP archive.');
+    }
+  };
+
+  const completeCount = items.filter(item => item.status === 'complete').length;
+  const errorCount = items.filter(item => item.status === 'error').length;
+  const isFinished = !isRunning && items.every(item => item.status === 'complete' || item.status === 'error');
+  // Every file of one archive is translated with the same settings.
+  const settingsLocked = isRunning || items.some(item => item.status !== 'queued');
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between bg-slate-100 dark:bg-slate-800 p-4 rounded-lg">
+        <div className="flex items-center space-x-3 text-slate-700 dark:text-slate-200 min-w-0">
+          <FileTextIcon className="w-6 h-6 text-sky-500 flex-shrink-0" />
+          <span className="font-medium">
+            Batch of {items.length} file{items.length === 1 ? '' : 's'} · {completeCount} complete{errorCount > 0 ? ` · ${errorCount} failed` : ''}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          disabled={isRunning}
+          className="text-sm font-semibold text-slate-600 hover:text-red-500 dark:text-slate-400 dark:hover:text-red-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0 ml-4"
+        >
+          Reset
+        </button>
+      </div>
+
+      {skipped.length > 0 && (
+        <div className="flex items-start space-x-2 px-3 py-2 text-sm bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200 rounded-lg" role="status">
+          <AlertTriangleIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <p>Skipped {skipped.length} unsupported file{skipped.length === 1 ? '' : 's'}: {skipped.join(', ')}</p>
+        </div>
+      )}
+
+      <ul className="max-h-96 overflow-y-auto divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg text-sm">
+        {items.map(item => (
+          <li key={item.id} className="p-3 space-y-1">
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-medium text-slate-700 dark:text-slate-200 truncate" title={item.name}>{item.name}</span>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {item.status === 'translating' && item.progress && item.progress.total > 1 && (
+                  <span className="text-xs font-mono text-slate-500 dark:text-slate-400">
+                    {item.progress.done}/{item.progress.total} parts
+                  </span>
+                )}
+                <span className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-semibold ${STATUS_CLASSES[item.status]}`}>
+                  {item.status === 'complete' && <CheckIcon className="w-3 h-3" />}
+                  {STATUS_LABELS[item.status]}
+                </span>
+              </div>
+            </div>
+            {item.output && <p className="text-xs text-slate-500 dark:text-slate-400">→ {item.output.name}</p>}
+            {!!item.numberIssues && (
+              <p className="text-xs text-amber-700 dark:text-amber-300">
+                {item.numberIssues} number{item.numberIssues === 1 ? '' : 's'} of the source not found in the translation
+              </p>
+            )}
+            {!!item.unmappedBlocks && (
+              <p className="text-xs text-amber-700 dark:text-amber-300">
+                {item.unmappedBlocks} paragraph{item.unmappedBlocks === 1 ? '' : 's'} kept the source text; no translation matched
+              </p>
+            )}
+            {item.error && <p className="text-xs text-red-600 dark:text-red-400">{item.error}</p>}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-col md:flex-row items-stretch justify-center gap-4">
+        <div className="w-full md:flex-1">
+          <LanguageSelector direction={direction} onDirectionChange={onDirectionChange} disabled={settingsLocked} />
+        </div>
+        <div className="w-full md:flex-1 flex flex-col gap-2">
+          <button
+            onClick={isRunning ? handleCancel : handleStart}
+            disabled={!isRunning && isFinished && errorCount === 0}
+            className="w-full flex-1 flex items-center justify-center bg-sky-600 hover:bg-sky-700 disabled:bg-slate-400 disabled:cursor-not-allowed text-white font-bold py-4 px-4 rounded-lg transition-colors text-lg"
+          >
+            {isRunning ? 'Cancel' : completeCount + errorCount > 0 && !isFinished ? 'Resume Batch' : errorCount > 0 ? `Retry ${errorCount} Failed` : 'Translate All'}
+          </button>
+        </div>
+      </div>
+
+      <div className="pt-6 border-t border-slate-200 dark:border-slate-700 flex flex-col md:flex-row items-center justify-between gap-4">
+        <label htmlFor="batch-anonymize" className={`flex items-center cursor-pointer text-sm font-medium text-slate-700 dark:text-slate-200 ${settingsLocked ? 'opacity-60 cursor-not-allowed' : ''}`}>
+          <ShieldCheckIcon className="w-6 h-6 mr-2 text-slate-500 dark:text-slate-400" />
+          <input
+            type="checkbox"
+            id="batch-anonymize"
+            checked={anonymize}
+            onChange={e => onAnonymizeChange(e.target.checked)}
+            disabled={settingsLocked}
+            className="h-4 w-4 mr-2 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+          />
+          Anonymize PII
+          <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">every detected item is masked</span>
+        </label>
+        <select
+          value={numberPolicy}
+          onChange={e => isNumberPolicy(e.target.value) && onNumberPolicyChange(e.target.value)}
+          disabled={settingsLocked}
+          className="text-sm font-medium text-slate-700 dark:text-slate-200 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-700 border-none focus:ring-2 focus:ring-sky-500 disabled:opacity-60 disabled:cursor-not-allowed"
+          aria-label="Numbers, dates and amounts"
+        >
+          {(Object.keys(NUMBER_POLICY_LABELS) as NumberPolicy[]).map(policy => (
+            <option key={policy} value={policy}>{NUMBER_POLICY_LABELS[policy]}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleDownload}
+          disabled={isRunning || completeCount === 0}
+          className="flex items-center justify-center space-x-2 px-4 py-2 text-sm font-semibold text-white bg-green-600 hover:bg-green-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <DownloadIcon className="w-5 h-5" />
+          <span>Download ZIP ({completeCount})</span>
+        </button>
+      </div>
+
+      {downloadError && (
+        <div className="bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg flex items-start space-x-2" role="alert">
+          <AlertTriangleIcon className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <span>{downloadError}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -1,12 +1,14 @@
 import React, { useState, useCallback } from 'react';
 import { UploadCloudIcon } from './Icons';
+import { ACCEPTED_FILE_TYPES } from '../services/formats';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  /** Several files, or a ZIP archive, start a batch. */
+  onFilesSelect: (files: File[]) => void;
   disabled: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, disabled }) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleDragEnter = (e: React.DragEvent<HTMLLabelElement>) => {
@@ -34,14 +36,14 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
 
     const files = e.dataTransfer.files;
     if (files && files.length > 0) {
-      onFileSelect(files[0]);
+      onFilesSelect([...files]);
     }
-  }, [onFileSelect, disabled]);
+  }, [onFilesSelect, disabled]);
   
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      onFileSelect(files[0]);
+      onFilesSelect([...files]);
     }
   };
 
@@ -64,14 +66,16 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
           <p className="mb-2 text-sm text-slate-500 dark:text-slate-400">
             <span className="font-semibold">Click to upload</span> or drag and drop
           </p>
-          <p className="text-xs text-slate-500 dark:text-slate-400">PDF, DOCX, TXT, or MD file</p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">PDF, DOCX, XLSX, PPTX, ODT, RTF, HTML, SRT/VTT, TXT, or a JPG/PNG scan</p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">Select several files or a ZIP to translate them as a batch</p>
         </div>
         <input 
           id="dropzone-file" 
           type="file" 
           className="hidden" 
           onChange={handleFileChange}
-          accept=".txt,.md,text/plain,.pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+          accept={`${ACCEPTED_FILE_TYPES},.zip`}
+          multiple
           disabled={disabled}
         />
       </label>
@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { GlossaryEntry } from '../types';
+import {
+  createGlossaryEntry,
+  deleteGlossaryEntry,
+  exportGlossaryCsv,
+  exportGlossaryTbx,
+  mergeGlossaryEntries,
+  parseGlossaryCsv,
+  parseGlossaryTbx,
+  saveGlossaryEntry,
+} from '../services/glossary';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon, TrashIcon, UploadIcon, XIcon } from './Icons';
+
+interface GlossaryPanelProps {
+  entries: GlossaryEntry[];
+  /** Called after any change so the owner can reload the stored glossary. */
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const inputClasses = "w-full px-2 py-1.5 text-sm bg-slate-50 dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-300 dark:border-slate-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+const secondaryButtonClasses = "flex items-center space-x-1 px-3 py-1.5 text-sm font-semibold text-slate-600 dark:text-slate-300 rounded-lg bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ entries, onChanged, onClose }) => {
+  const [draft, setDraft] = useState({ lao: '', chinese: '', note: '' });
+  const [filter, setFilter] = useState('');
+  const [message, setMessage] = useState<{ kind: 'error' | 'info'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (action: () => Promise<void>, successMessage?: string) => {
+    try {
+      await action();
+      setMessage(successMessage ? { kind: 'info', text: successMessage } : null);
+      onChanged();
+    } catch (err) {
+      setMessage({ kind: 'error', text: err instanceof Error ? err.message : 'The glossary could not be updated.' });
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.lao.trim() || !draft.chinese.trim()) return;
+    run(() => saveGlossaryEntry(createGlossaryEntry(draft.lao, draft.chinese, draft.note)));
+    setDraft({ lao: '', chinese: '', note: '' });
+  };
+
+  const handleFieldBlur = (entry: GlossaryEntry, field: 'lao' | 'chinese' | 'note', value: string) => {
+    if (entry[field] === value.trim()) return;
+    if (field !== 'note' && !value.trim()) return;
+    run(() => saveGlossaryEntry({ ...entry, [field]: value.trim() }));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    const isTbx = /\.(tbx|xml)$/i.test(file.name);
+    run(async () => {
+      const imported = isTbx ? parseGlossaryTbx(text) : parseGlossaryCsv(text);
+      if (imported.length === 0) {
+        throw new Error(`No glossary entries found in ${file.name}.`);
+      }
+      await mergeGlossaryEntries(entries, imported);
+    }, `Imported entries from ${file.name}.`);
+  };
+
+  const visibleEntries = filter
+    ? entries.filter(entry => [entry.lao, entry.chinese, entry.note].some(value => value.includes(filter)))
+    : entries;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" role="dialog" aria-modal="true" aria-labelledby="glossary-title">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl p-6 space-y-4 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 id="glossary-title" className="text-lg font-semibold text-slate-800 dark:text-slate-100">Glossary</h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Matching terms are enforced in the prompt and checked after translation.</p>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200" aria-label="Close glossary">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_auto] gap-2">
+          <input className={inputClasses} placeholder="ລາວ (Lao)" value={draft.lao} onChange={e => setDraft({ ...draft, lao: e.target.value })} aria-label="Lao term" />
+          <input className={inputClasses} placeholder="中文 (Chinese)" value={draft.chinese} onChange={e => setDraft({ ...draft, chinese: e.target.value })} aria-label="Chinese term" />
+          <input className={inputClasses} placeholder="Note" value={draft.note} onChange={e => setDraft({ ...draft, note: e.target.value })} aria-label="Note" />
+          <button type="submit" disabled={!draft.lao.trim() || !draft.chinese.trim()} className="px-4 py-1.5 text-sm font-semibold text-white rounded-md bg-sky-600 hover:bg-sky-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors">
+            Add
+          </button>
+        </form>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input className={`${inputClasses} sm:w-56`} placeholder="Search..." value={filter} onChange={e => setFilter(e.target.value)} aria-label="Search glossary" />
+          <div className="flex gap-2 ml-auto">
+            <button type="button" className={secondaryButtonClasses} onClick={() => fileInputRef.current?.click()}>
+              <UploadIcon className="w-4 h-4" />
+              <span>Import</span>
+            </button>
+            <input ref={fileInputRef} type="file" className="hidden" accept=".csv,.tsv,.tbx,.xml,text/csv" onChange={handleImport} />
+            <button type="button" className={secondaryButtonClasses} disabled={entries.length === 0} onClick={() => downloadBlob(exportGlossaryCsv(entries), 'glossary.csv', 'text/csv;charset=utf-8')}>
+              <DownloadIcon className="w-4 h-4" />
+              <span>CSV</span>
+            </button>
+            <button type="button" className={secondaryButtonClasses} disabled={entries.length === 0} onClick={() => downloadBlob(exportGlossaryTbx(entries), 'glossary.tbx', 'application/x-tbx+xml')}>
+              <DownloadIcon className="w-4 h-4" />
+              <span>TBX</span>
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <p className={`text-sm ${message.kind === 'error' ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`}>{message.text}</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+          {visibleEntries.length === 0 ? (
+            <p className="p-6 text-center text-sm text-slate-400 dark:text-slate-500">
+              {entries.length === 0 ? 'No glossary entries yet. Add terms above or import a CSV/TBX file.' : 'No entries match your search.'}
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-slate-100 dark:bg-slate-800 text-left text-xs text-slate-500 dark:text-slate-400">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">Lao</th>
+                  <th className="px-3 py-2 font-semibold">Chinese</th>
+                  <th className="px-3 py-2 font-semibold">Note</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {visibleEntries.map(entry => (
+                  <tr key={entry.id}>
+                    {(['lao', 'chinese', 'note'] as const).map(field => (
+                      <td key={field} className="px-2 py-1">
+                        <input
+                          className="w-full px-1 py-1 bg-transparent text-slate-700 dark:text-slate-200 rounded focus:bg-slate-50 dark:focus:bg-slate-800 focus:outline-none focus:ring-1 focus:ring-sky-500"
+                          defaultValue={entry[field]}
+                          onBlur={e => handleFieldBlur(entry, field, e.target.value)}
+                          aria-label={`${field} term`}
+                        />
+                      </td>
+                    ))}
+                    <td className="px-2 py-1 text-right">
+                      <button onClick={() => run(() => deleteGlossaryEntry(entry.id))} className="p-1 text-slate-400 hover:text-red-500" aria-label={`Delete ${entry.lao}`}>
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryPanel;
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryEntry, HistoryPreferences } from '../types';
+import { downloadBlob } from '../services/download';
+import { applyRetention, clearHistory, deleteHistoryEntry, loadHistory, searchHistory } from '../services/history';
+import { LANGUAGES, parseDirectionKey } from '../services/languages';
+import { getRedactionReportFileName } from '../services/redaction';
+import { FileTextIcon, RefreshIcon, ShieldCheckIcon, TrashIcon, XIcon } from './Icons';
+
+interface HistoryPanelProps {
+  preferences: HistoryPreferences;
+  onPreferencesChange: (preferences: HistoryPreferences) => void;
+  /** Loads the job into the editor as it was when it finished. */
+  onOpen: (entry: HistoryEntry) => void;
+  /** Loads the job's source and translates it again with the current provider. */
+  onRerun: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const secondaryButtonClasses = "flex items-center space-x-1 px-2 py-1 text-xs font-semibold text-slate-600 dark:text-slate-300 rounded-md bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const describeDirection = (entry: HistoryEntry) => {
+  const { source, target } = parseDirectionKey(entry.direction);
+  return `${LANGUAGES[source].flag} → ${LANGUAGES[target].flag}`;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ preferences, onPreferencesChange, onOpen, onRerun, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    loadHistory()
+      .then(setEntries)
+      .catch(err => setError(err instanceof Error ? err.message : 'The history could not be opened.'));
+  };
+
+  // Tightened limits apply straight away rather than at the next save.
+  useEffect(() => {
+    applyRetention(preferences)
+      .then(refresh)
+      .catch(err => setError(err instanceof Error ? err.message : 'The history could not be pruned.'));
+  }, [preferences]);
+
+  const visibleEntries = useMemo(() => searchHistory(entries ?? [], query), [entries, query]);
+
+  const handleDelete = (id: string) => {
+    deleteHistoryEntry(id)
+      .then(refresh)
+      .catch(err => setError(err instanceof Error ? err.message : 'The entry could not be deleted.'));
+  };
+
+  const handleDownloadReport = (entry: HistoryEntry) => {
+    if (!entry.redactionReport) return;
+    downloadBlob(JSON.stringify(entry.redactionReport, null, 2), getRedactionReportFileName(entry.redactionReport.fileName), 'application/json');
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Delete every job in the history? This cannot be undone.')) return;
+    clearHistory()
+      .then(refresh)
+      .catch(err => setError(err instanceof Error ? err.message : 'The history could not be cleared.'));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/40" role="dialog" aria-modal="true" aria-labelledby="history-title">
+      <div className="w-full max-w-md h-full flex flex-col bg-white dark:bg-slate-900 shadow-2xl p-6 space-y-4 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 id="history-title" className="text-lg font-semibold text-slate-800 dark:text-slate-100">History</h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {entries === null ? 'Loading...' : `${entries.length} saved job${entries.length === 1 ? '' : 's'}, stored only in this browser`}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200" aria-label="Close history">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-3 pb-4 border-b border-slate-200 dark:border-slate-700">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={preferences.enabled}
+              onChange={e => onPreferencesChange({ ...preferences, enabled: e.target.checked })}
+              className="mt-1 h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+            />
+            <span className="text-sm text-slate-700 dark:text-slate-200">
+              Save completed jobs
+              <span className="block text-xs text-slate-500 dark:text-slate-400">
+                The source, translation and masked PII are kept so a job can be reopened after a reset or reload.
+              </span>
+            </span>
+          </label>
+          <div className={`grid grid-cols-2 gap-3 text-sm ${preferences.enabled ? '' : 'opacity-50'}`}>
+            <label className="text-slate-700 dark:text-slate-200">
+              Keep at most
+              <input
+                type="number"
+                min={1}
+                value={preferences.maxEntries}
+                disabled={!preferences.enabled}
+                onChange={e => onPreferencesChange({ ...preferences, maxEntries: Math.max(1, Number(e.target.value) || 1) })}
+                className="mt-1 w-full px-2 py-1 text-sm bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-md"
+                aria-describedby="history-retention-help"
+              />
+            </label>
+            <label className="text-slate-700 dark:text-slate-200">
+              Delete after (days)
+              <input
+                type="number"
+                min={0}
+                value={preferences.maxAgeDays}
+                disabled={!preferences.enabled}
+                onChange={e => onPreferencesChange({ ...preferences, maxAgeDays: Math.max(0, Number(e.target.value) || 0) })}
+                className="mt-1 w-full px-2 py-1 text-sm bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-md"
+                aria-describedby="history-retention-help"
+              />
+            </label>
+          </div>
+          <p id="history-retention-help" className="text-xs text-slate-500 dark:text-slate-400">Jobs beyond either limit are deleted; 0 days keeps jobs regardless of age.</p>
+        </div>
+
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search file names, sources and translations..."
+          className="w-full px-3 py-2 text-sm bg-slate-50 dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          aria-label="Search history"
+        />
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-slate-200 dark:divide-slate-700 text-sm">
+          {entries !== null && visibleEntries.length === 0 && (
+            <li className="py-6 text-center text-slate-400 dark:text-slate-500">{query ? 'No jobs match your search.' : 'No saved jobs yet.'}</li>
+          )}
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className="py-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <FileTextIcon className="w-4 h-4 text-sky-500 flex-shrink-0" />
+                  <span className="font-medium text-slate-700 dark:text-slate-200 truncate" title={entry.fileName ?? 'Pasted Text'}>{entry.fileName ?? 'Pasted Text'}</span>
+                </div>
+                <span className="text-xs text-slate-500 dark:text-slate-400 flex-shrink-0">{describeDirection(entry)}</span>
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2">{entry.translation}</p>
+              <div className="flex items-center gap-1">
+                <span className="text-xs font-mono text-slate-400 dark:text-slate-500">{new Date(entry.completedAt).toLocaleString()}</span>
+                <button type="button" onClick={() => onOpen(entry)} className={`${secondaryButtonClasses} ml-auto`}>
+                  <FileTextIcon className="w-3.5 h-3.5" />
+                  <span>Open</span>
+                </button>
+                <button type="button" onClick={() => onRerun(entry)} className={secondaryButtonClasses} title="Translate the source again with the current provider">
+                  <RefreshIcon className="w-3.5 h-3.5" />
+                  <span>Re-run</span>
+                </button>
+                {entry.redactionReport && (
+                  <button type="button" onClick={() => handleDownloadReport(entry)} className={secondaryButtonClasses} title="Download the redaction report the job was sent with">
+                    <ShieldCheckIcon className="w-3.5 h-3.5" />
+                    <span>Report</span>
+                  </button>
+                )}
+                <button type="button" onClick={() => handleDelete(entry.id)} className={`${secondaryButtonClasses} hover:text-red-600 dark:hover:text-red-400`} aria-label={`Delete ${entry.fileName ?? 'pasted text'} from history`}>
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex pt-2 border-t border-slate-200 dark:border-slate-700">
+          <button type="button" className={`${secondaryButtonClasses} ml-auto hover:text-red-600 dark:hover:text-red-400`} disabled={!entries?.length} onClick={handleClear}>
+            <TrashIcon className="w-4 h-4" />
+            <span>Clear history</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,6 +1,7 @@
 
 import React from 'react';
-import { TranslationDirection } from '../types';
+import { LanguageCode, TranslationDirection } from '../types';
+import { directionForSource, getTargetLanguages, isSupportedDirection, LANGUAGE_PAIRS, LANGUAGES, reverseDirection } from '../services/languages';
 import { SwitchHorizontalIcon } from './Icons';
 
 interface LanguageSelectorProps {
@@ -9,26 +10,38 @@ interface LanguageSelectorProps {
   disabled: boolean;
 }
 
+const SOURCE_LANGUAGES = [...new Set(LANGUAGE_PAIRS.map(pair => pair.source))];
+
+const selectClasses = 'w-full text-center text-base sm:text-lg font-bold text-slate-800 dark:text-slate-100 bg-transparent border-none rounded-md focus:ring-2 focus:ring-sky-500 cursor-pointer disabled:cursor-not-allowed';
+
 const LanguageSelector: React.FC<LanguageSelectorProps> = ({ direction, onDirectionChange, disabled }) => {
-  const isLaoToChinese = direction === TranslationDirection.LaoToChinese;
-  
-  const sourceLang = isLaoToChinese ? 'Lao 🇱🇦' : 'Chinese 🇨🇳';
-  const targetLang = isLaoToChinese ? 'Chinese 🇨🇳' : 'Lao 🇱🇦';
+  const reversed = reverseDirection(direction);
+  const canSwap = isSupportedDirection(reversed);
 
   const handleSwap = () => {
-    if (disabled) return;
-    onDirectionChange(isLaoToChinese ? TranslationDirection.ChineseToLao : TranslationDirection.LaoToChinese);
+    if (disabled || !canSwap) return;
+    onDirectionChange(reversed);
   };
 
+  const label = (code: LanguageCode) => `${LANGUAGES[code].name} ${LANGUAGES[code].flag}`;
+
   return (
     <div className={`flex h-full items-center justify-around p-2 bg-slate-100 dark:bg-slate-800 rounded-xl gap-4 ${disabled ? 'opacity-60 cursor-not-allowed' : ''}`}>
       <div className="text-center flex-1">
         <p className="text-xs text-slate-500 dark:text-slate-400">From</p>
-        <p className="text-base sm:text-lg font-bold text-slate-800 dark:text-slate-100">{sourceLang}</p>
+        <select
+          value={direction.source}
+          onChange={e => onDirectionChange(directionForSource(e.target.value as LanguageCode, direction))}
+          disabled={disabled}
+          className={selectClasses}
+          aria-label="Source language"
+        >
+          {SOURCE_LANGUAGES.map(code => <option key={code} value={code}>{label(code)}</option>)}
+        </select>
       </div>
       <button
         onClick={handleSwap}
-        disabled={disabled}
+        disabled={disabled || !canSwap}
         className="p-3 rounded-full bg-white dark:bg-slate-700 hover:bg-sky-100 dark:hover:bg-sky-900/50 text-slate-600 dark:text-slate-200 hover:text-sky-600 dark:hover:text-sky-300 transition-all duration-300 transform rotate-0 hover:rotate-180 disabled:transform-none disabled:bg-slate-100 dark:disabled:bg-slate-700"
         aria-label="Swap translation direction"
       >
@@ -36,10 +49,18 @@ const LanguageSelector: React.FC<LanguageSelectorProps> = ({ direction, onDirect
       </button>
       <div className="text-center flex-1">
         <p className="text-xs text-slate-500 dark:text-slate-400">To</p>
-        <p className="text-base sm:text-lg font-bold text-slate-800 dark:text-slate-100">{targetLang}</p>
+        <select
+          value={direction.target}
+          onChange={e => onDirectionChange({ source: direction.source, target: e.target.value as LanguageCode })}
+          disabled={disabled}
+          className={selectClasses}
+          aria-label="Target language"
+        >
+          {getTargetLanguages(direction.source).map(code => <option key={code} value={code}>{label(code)}</option>)}
+        </select>
       </div>
     </div>
   );
 };
 
-export default LanguageSelector;
\ No newline at end of file
+export default LanguageSelector;
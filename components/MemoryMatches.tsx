@@ -0,0 +1,61 @@
+import React from 'react';
+import { MemoryMatch } from '../types';
+import { DatabaseIcon } from './Icons';
+
+interface MemoryMatchesProps {
+  matches: MemoryMatch[];
+  disabled: boolean;
+  onToggle: (paragraph: string, accepted: boolean) => void;
+}
+
+const MemoryMatches: React.FC<MemoryMatchesProps> = ({ matches, disabled, onToggle }) => {
+  const exactCount = matches.filter(match => match.similarity === 1).length;
+  const acceptedCount = matches.filter(match => match.accepted).length;
+  // Fuzzy matches need a decision, so they are listed first.
+  const sortedMatches = [...matches].sort((a, b) => a.similarity - b.similarity);
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <DatabaseIcon className="w-6 h-6 text-sky-600 dark:text-sky-400" />
+          <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100">Memory Matches</h3>
+        </div>
+        <span className="text-sm font-mono text-slate-500 dark:text-slate-400">
+          {exactCount} exact · {acceptedCount} of {matches.length} reused
+        </span>
+      </div>
+
+      <ul className="h-80 overflow-y-auto divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg text-sm">
+        {sortedMatches.map(match => (
+          <li key={match.paragraph} className="p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className={`px-1.5 py-0.5 rounded text-xs font-semibold ${match.similarity === 1 ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200' : 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200'}`}>
+                {match.similarity === 1 ? 'Exact' : `${Math.round(match.similarity * 100)}% fuzzy`}
+              </span>
+              <button
+                onClick={() => onToggle(match.paragraph, !match.accepted)}
+                disabled={disabled}
+                aria-pressed={match.accepted}
+                className={`px-2 py-1 text-xs font-semibold rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${match.accepted ? 'text-white bg-sky-600 hover:bg-sky-700' : 'text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600'}`}
+              >
+                {match.accepted ? 'Reusing' : 'Use stored translation'}
+              </button>
+            </div>
+            <p className="text-slate-700 dark:text-slate-200 whitespace-pre-wrap">{match.paragraph}</p>
+            {match.similarity < 1 && (
+              <p className="text-slate-400 dark:text-slate-500 whitespace-pre-wrap" title="Stored source">{match.unit.source}</p>
+            )}
+            <p className="pl-3 border-l-2 border-sky-300 dark:border-sky-700 text-slate-600 dark:text-slate-300 whitespace-pre-wrap">{match.unit.target}</p>
+          </li>
+        ))}
+      </ul>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Reused paragraphs are filled in from memory and not sent to the provider.
+      </p>
+    </div>
+  );
+};
+
+export default MemoryMatches;
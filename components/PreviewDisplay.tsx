@@ -1,11 +1,47 @@
-import React from 'react';
-import { FileCheckIcon } from './Icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import { LanguageCode, PageExtraction, TextConversion } from '../types';
+import { countWords } from '../services/segmentation';
+import { AlertTriangleIcon, FileCheckIcon, ScanIcon } from './Icons';
 
 interface PreviewDisplayProps {
   content: string;
+  language: LanguageCode;
+  /** Per-page extraction details; only PDFs and images have them. */
+  pages?: PageExtraction[];
+  /** Conversions to Unicode applied while parsing, which the reader should double-check. */
+  conversions?: TextConversion[];
+  disabled?: boolean;
+  /** Re-parses the file, running OCR on exactly the given pages. Omitted for images. */
+  onOcrPages?: (pages: number[]) => void;
 }
 
-const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ content }) => {
+// Below this confidence the OCR text usually needs proofreading.
+const LOW_CONFIDENCE = 70;
+
+const describeConversion = (conversion: TextConversion) =>
+  conversion.kind === 'encoding'
+    ? `Decoded from ${conversion.from} to Unicode.`
+    : `Converted legacy Lao font text (${conversion.from}) to Unicode Lao.`;
+
+const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ content, language, pages, conversions = [], disabled = false, onOcrPages }) => {
+  const wordCount = useMemo(() => countWords(content, language), [content, language]);
+  const [selectedPages, setSelectedPages] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    setSelectedPages(new Set((pages ?? []).filter(page => page.method === 'ocr').map(page => page.page)));
+  }, [pages]);
+
+  const togglePage = (page: number) => {
+    setSelectedPages(current => {
+      const next = new Set(current);
+      if (next.has(page)) next.delete(page);
+      else next.add(page);
+      return next;
+    });
+  };
+
+  const ocrCount = pages?.filter(page => page.method === 'ocr').length ?? 0;
+
   return (
     <div className="space-y-4 animate-fade-in">
       <div className="flex items-center justify-between">
@@ -16,9 +52,68 @@ const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ content }) => {
             </h3>
         </div>
         <span className="text-sm font-mono text-slate-500 dark:text-slate-400">
-          {content.length.toLocaleString()} characters
+          {wordCount.toLocaleString()} words · {content.length.toLocaleString()} characters
         </span>
       </div>
+      {conversions.length > 0 && (
+        <div className="flex items-start space-x-2 px-3 py-2 text-sm bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200 rounded-lg" role="status">
+          <AlertTriangleIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div>
+            {conversions.map(conversion => (
+              <p key={`${conversion.kind}:${conversion.from}`}>{describeConversion(conversion)}</p>
+            ))}
+            <p className="text-xs mt-1 opacity-80">Check the preview before translating; a wrong guess shows up as garbled text.</p>
+          </div>
+        </div>
+      )}
+      {pages && pages.length > 0 && (
+        <div className="p-3 bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 rounded-lg space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center space-x-2 text-sm text-slate-600 dark:text-slate-300">
+              <ScanIcon className="w-4 h-4 text-sky-500" />
+              <span>
+                {ocrCount === 0 ? 'All pages read from the text layer' : `OCR on ${ocrCount} of ${pages.length} page${pages.length === 1 ? '' : 's'}`}
+              </span>
+            </div>
+            {onOcrPages && (
+              <button
+                onClick={() => onOcrPages([...selectedPages].sort((a, b) => a - b))}
+                disabled={disabled}
+                className="px-3 py-1.5 text-xs font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                OCR selected pages ({selectedPages.size})
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {pages.map(page => {
+              const lowConfidence = page.method === 'ocr' && (page.confidence ?? 0) < LOW_CONFIDENCE;
+              return (
+                <label
+                  key={page.page}
+                  className={`flex items-center space-x-1.5 px-2 py-1 text-xs rounded-md border ${lowConfidence ? 'border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200' : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300'}`}
+                  title={page.method === 'ocr' ? 'Text recognised by OCR' : 'Text taken from the PDF text layer'}
+                >
+                  {onOcrPages && (
+                    <input
+                      type="checkbox"
+                      checked={selectedPages.has(page.page)}
+                      onChange={() => togglePage(page.page)}
+                      disabled={disabled}
+                      className="h-3.5 w-3.5 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                      aria-label={`OCR page ${page.page}`}
+                    />
+                  )}
+                  <span className="font-semibold">p.{page.page}</span>
+                  <span className="font-mono">
+                    {page.method === 'ocr' ? `OCR ${Math.round(page.confidence ?? 0)}%` : 'text'}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
       <textarea
         readOnly
         value={content}
@@ -30,4 +125,4 @@ const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ content }) => {
   );
 };
 
-export default PreviewDisplay;
\ No newline at end of file
+export default PreviewDisplay;
@@ -0,0 +1,195 @@
+import React, { useRef, useState } from 'react';
+import { PiiCategory, PiiDecision, ReviewedPiiSpan } from '../types';
+import { createManualSpan, PII_CATEGORY_LABELS } from '../services/redaction';
+import { DownloadIcon, ShieldCheckIcon } from './Icons';
+
+interface RedactionReviewProps {
+  content: string;
+  spans: ReviewedPiiSpan[];
+  confirmed: boolean;
+  disabled: boolean;
+  onDecision: (id: string, decision: PiiDecision) => void;
+  onAddSpan: (span: ReviewedPiiSpan) => void;
+  onConfirm: () => void;
+  onExport: () => void;
+}
+
+const CATEGORY_CLASSES: Record<PiiCategory, string> = {
+  name: 'bg-amber-200 dark:bg-amber-700/60',
+  phone: 'bg-sky-200 dark:bg-sky-700/60',
+  email: 'bg-violet-200 dark:bg-violet-700/60',
+  prcId: 'bg-rose-200 dark:bg-rose-700/60',
+  laoId: 'bg-rose-200 dark:bg-rose-700/60',
+  passport: 'bg-orange-200 dark:bg-orange-700/60',
+  bankCard: 'bg-emerald-200 dark:bg-emerald-700/60',
+};
+
+const REJECTED_CLASSES = 'bg-transparent line-through decoration-slate-400 outline outline-1 outline-dashed outline-slate-400';
+
+// Converts a DOM selection point into an offset in `content`, using the `data-start`
+// attribute every rendered piece of text carries.
+const toContentOffset = (node: Node | null, offset: number): number | null => {
+  if (!node || node.nodeType !== Node.TEXT_NODE) return null;
+  const piece = node.parentElement?.closest<HTMLElement>('[data-start]');
+  if (!piece?.dataset.start) return null;
+  return Number(piece.dataset.start) + offset;
+};
+
+const RedactionReview: React.FC<RedactionReviewProps> = ({ content, spans, confirmed, disabled, onDecision, onAddSpan, onConfirm, onExport }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const [manualCategory, setManualCategory] = useState<PiiCategory>('name');
+
+  const acceptedCount = spans.filter(span => span.decision === 'accepted').length;
+  const sortedSpans = [...spans].sort((a, b) => a.start - b.start);
+
+  const handleMouseUp = () => {
+    const domSelection = window.getSelection();
+    if (!domSelection || domSelection.isCollapsed || !containerRef.current?.contains(domSelection.anchorNode)) {
+      setSelection(null);
+      return;
+    }
+    const anchor = toContentOffset(domSelection.anchorNode, domSelection.anchorOffset);
+    const focus = toContentOffset(domSelection.focusNode, domSelection.focusOffset);
+    if (anchor === null || focus === null || anchor === focus) {
+      setSelection(null);
+      return;
+    }
+    const start = Math.min(anchor, focus);
+    const end = Math.max(anchor, focus);
+    const overlapsExisting = spans.some(span => span.start < end && start < span.end);
+    setSelection(overlapsExisting ? null : { start, end });
+  };
+
+  const handleAddSelection = () => {
+    if (!selection) return;
+    onAddSpan(createManualSpan(content, selection.start, selection.end, manualCategory));
+    setSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const renderHighlightedText = () => {
+    const pieces: React.ReactNode[] = [];
+    let cursor = 0;
+    for (const span of sortedSpans) {
+      if (span.start > cursor) {
+        pieces.push(<span key={`text-${cursor}`} data-start={cursor}>{content.slice(cursor, span.start)}</span>);
+      }
+      const isAccepted = span.decision === 'accepted';
+      pieces.push(
+        <mark
+          key={span.id}
+          data-start={span.start}
+          onClick={() => !disabled && onDecision(span.id, isAccepted ? 'rejected' : 'accepted')}
+          className={`rounded px-0.5 cursor-pointer text-slate-900 dark:text-slate-100 ${isAccepted ? CATEGORY_CLASSES[span.category] : REJECTED_CLASSES}`}
+          title={`${PII_CATEGORY_LABELS[span.category]} (${isAccepted ? 'will be masked' : 'will be sent as is'}) – click to toggle`}
+        >
+          {content.slice(span.start, span.end)}
+        </mark>,
+      );
+      cursor = span.end;
+    }
+    if (cursor < content.length) {
+      pieces.push(<span key={`text-${cursor}`} data-start={cursor}>{content.slice(cursor)}</span>);
+    }
+    return pieces;
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <ShieldCheckIcon className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+          <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100">Redaction Review</h3>
+        </div>
+        <span className="text-sm font-mono text-slate-500 dark:text-slate-400">
+          {acceptedCount} of {spans.length} masked
+        </span>
+      </div>
+
+      <div
+        ref={containerRef}
+        onMouseUp={handleMouseUp}
+        className="w-full h-64 p-4 font-sans text-sm bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 border border-slate-300 dark:border-slate-700 rounded-lg overflow-y-auto whitespace-pre-wrap"
+        aria-label="Source text with detected personal data highlighted"
+      >
+        {renderHighlightedText()}
+      </div>
+
+      {selection && !disabled && (
+        <div className="flex flex-wrap items-center gap-2 text-sm animate-fade-in">
+          <span className="text-slate-600 dark:text-slate-300">Mask selection as</span>
+          <select
+            value={manualCategory}
+            onChange={e => setManualCategory(e.target.value as PiiCategory)}
+            className="px-2 py-1 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-md text-slate-700 dark:text-slate-200"
+          >
+            {(Object.keys(PII_CATEGORY_LABELS) as PiiCategory[]).map(category => (
+              <option key={category} value={category}>{PII_CATEGORY_LABELS[category]}</option>
+            ))}
+          </select>
+          <button onClick={handleAddSelection} className="px-3 py-1 font-semibold text-white bg-amber-600 hover:bg-amber-700 rounded-md transition-colors">
+            Add
+          </button>
+        </div>
+      )}
+
+      {sortedSpans.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg text-sm">
+          {sortedSpans.map(span => (
+            <li key={span.id} className="flex items-center justify-between gap-2 px-3 py-2">
+              <div className="min-w-0">
+                <span className={`inline-block px-1.5 py-0.5 mr-2 rounded text-xs font-semibold text-slate-800 dark:text-slate-100 ${CATEGORY_CLASSES[span.category]}`}>
+                  {PII_CATEGORY_LABELS[span.category]}
+                </span>
+                <span className={`font-mono ${span.decision === 'rejected' ? 'line-through text-slate-400' : 'text-slate-700 dark:text-slate-200'}`}>{span.text}</span>
+                {span.origin === 'manual' && <span className="ml-2 text-xs text-slate-400">manual</span>}
+              </div>
+              <div className="flex flex-shrink-0 gap-1">
+                <button
+                  onClick={() => onDecision(span.id, 'accepted')}
+                  disabled={disabled || span.decision === 'accepted'}
+                  className="px-2 py-1 text-xs font-semibold rounded-md text-green-700 dark:text-green-300 hover:bg-green-50 dark:hover:bg-green-900/30 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Mask
+                </button>
+                <button
+                  onClick={() => onDecision(span.id, 'rejected')}
+                  disabled={disabled || span.decision === 'rejected'}
+                  className="px-2 py-1 text-xs font-semibold rounded-md text-red-600 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Keep
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          {confirmed ? 'Redactions confirmed.' : 'Select text above to mask anything the detectors missed.'}
+        </p>
+        <div className="flex gap-2 flex-shrink-0">
+          <button
+            onClick={onExport}
+            disabled={!confirmed}
+            className="flex items-center space-x-1 px-3 py-2 text-sm font-semibold text-slate-600 dark:text-slate-300 rounded-lg bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            <span>Export JSON</span>
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={disabled || confirmed}
+            className="px-3 py-2 text-sm font-semibold text-white rounded-lg bg-amber-600 hover:bg-amber-700 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed"
+          >
+            {confirmed ? 'Confirmed' : 'Confirm Redactions'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionReview;
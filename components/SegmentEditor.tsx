@@ -0,0 +1,216 @@
+import React from 'react';
+import { QualityIssue, RedactionEntry, SentencePair, TranslationDirection, TranslationSegment } from '../types';
+import { alignSegmentSentences } from '../services/alignment';
+import { directionKey } from '../services/languages';
+import { isLowQuality } from '../services/qualityCheck';
+import { restorePlaceholders } from '../services/redaction';
+import { CheckIcon, ClipboardCheckIcon, RefreshIcon, XIcon } from './Icons';
+
+interface SegmentEditorProps {
+  segments: TranslationSegment[];
+  direction: TranslationDirection;
+  isTranslating: boolean;
+  /** Re-translating a single segment is only offered once every segment is done. */
+  canRetranslate: boolean;
+  redaction: RedactionEntry[];
+  restorePii: boolean;
+  /** Replaces the translation of one sentence of a segment. */
+  onEditSentence: (index: number, sentence: number, translation: string) => void;
+  onApprove: (index: number, approved: boolean) => void;
+  onRetranslate: (index: number) => void;
+  /** Progress of a running quality check, or null when none is running. */
+  qualityProgress: { done: number; total: number } | null;
+  /** Starts the back-translation check; absent while it can't run. */
+  onCheckQuality?: () => void;
+  onCancelQualityCheck: () => void;
+}
+
+const ISSUE_LABELS: Record<QualityIssue['kind'], string> = {
+  number: 'number',
+  name: 'name',
+  placeholder: 'PII placeholder',
+};
+
+const describeIssue = (issue: QualityIssue) =>
+  issue.problem === 'missing'
+    ? `The ${ISSUE_LABELS[issue.kind]} ${issue.value} is missing from the translation`
+    : `The ${ISSUE_LABELS[issue.kind]} ${issue.value} is not in the source`;
+
+// Enough rows to show the text without scrolling inside a single sentence.
+const rowsFor = (text: string) => Math.min(20, Math.max(2, text.split('\n').length + Math.floor(text.length / 60)));
+
+// Segments are replaced rather than changed, so each one is split into sentences once.
+const sentenceCache = new WeakMap<TranslationSegment, { direction: string; sentences: SentencePair[] }>();
+
+const getSentences = (segment: TranslationSegment, direction: TranslationDirection): SentencePair[] => {
+  if (segment.sentences) return segment.sentences;
+  const key = directionKey(direction);
+  const cached = sentenceCache.get(segment);
+  if (cached?.direction === key) return cached.sentences;
+  const sentences = alignSegmentSentences(segment.source, segment.translation, direction.source, direction.target);
+  sentenceCache.set(segment, { direction: key, sentences });
+  return sentences;
+};
+
+const SegmentEditor: React.FC<SegmentEditorProps> = ({
+  segments,
+  direction,
+  isTranslating,
+  canRetranslate,
+  redaction,
+  restorePii,
+  onEditSentence,
+  onApprove,
+  onRetranslate,
+  qualityProgress,
+  onCheckQuality,
+  onCancelQualityCheck,
+}) => {
+  const approvedCount = segments.filter(segment => segment.approved).length;
+  const flaggedCount = segments.filter(segment => segment.quality && isLowQuality(segment.quality)).length;
+  const hasQuality = segments.some(segment => segment.quality);
+  // Restored PII is for reading only; edits always apply to the placeholder version.
+  const readOnly = restorePii && redaction.length > 0;
+  const display = (text: string) => (readOnly ? restorePlaceholders(text, redaction) : text);
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100">Translation Result</h3>
+        {segments.length > 0 && (
+          <div className="flex items-center gap-3">
+            {qualityProgress ? (
+              <button
+                onClick={onCancelQualityCheck}
+                className="flex items-center space-x-1 px-2 py-1 text-xs font-semibold rounded-md text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+                title="Stop the quality check"
+              >
+                <XIcon className="w-3.5 h-3.5" />
+                <span>Checking {qualityProgress.done} of {qualityProgress.total}...</span>
+              </button>
+            ) : (
+              <>
+                {hasQuality && (
+                  <span className={`text-xs font-semibold ${flaggedCount > 0 ? 'text-amber-700 dark:text-amber-300' : 'text-green-700 dark:text-green-300'}`}>
+                    {flaggedCount > 0 ? `${flaggedCount} to review` : 'No issues found'}
+                  </span>
+                )}
+                <button
+                  onClick={onCheckQuality}
+                  disabled={!onCheckQuality}
+                  className="flex items-center space-x-1 px-2 py-1 text-xs font-semibold rounded-md text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Translate each segment back and check numbers, names and placeholders"
+                >
+                  <ClipboardCheckIcon className="w-3.5 h-3.5" />
+                  <span>{hasQuality ? 'Check again' : 'Check quality'}</span>
+                </button>
+              </>
+            )}
+            <span className="text-sm font-mono text-slate-500 dark:text-slate-400">
+              {approvedCount} of {segments.length} parts approved
+            </span>
+          </div>
+        )}
+      </div>
+
+      {segments.length === 0 ? (
+        <div className="w-full min-h-[12rem] p-4 text-sm bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg text-slate-400 dark:text-slate-500">
+          {isTranslating ? 'Receiving translation...' : 'Translation will appear here...'}
+        </div>
+      ) : (
+        <div className="max-h-[36rem] overflow-y-auto border border-slate-300 dark:border-slate-700 rounded-lg divide-y divide-slate-200 dark:divide-slate-700" aria-live="polite">
+          {segments.map(segment => {
+            const isBusy = segment.status === 'pending' || segment.status === 'translating';
+            const { quality } = segment;
+            const isFlagged = !!quality && isLowQuality(quality);
+            return (
+              <div
+                key={segment.index}
+                className={`p-3 space-y-2 ${segment.approved ? 'bg-green-50/60 dark:bg-green-900/10' : isFlagged ? 'bg-amber-50/70 dark:bg-amber-900/10' : ''}`}
+              >
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="font-mono text-slate-400 dark:text-slate-500">Part {segment.index + 1}</span>
+                  {segment.fromMemory && !segment.edited && <span className="px-1.5 py-0.5 rounded bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200">from memory</span>}
+                  {segment.passThrough && !segment.edited && <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300" title="Nothing to translate; copied from the source">kept as is</span>}
+                  {segment.edited && <span className="px-1.5 py-0.5 rounded bg-violet-100 text-violet-800 dark:bg-violet-900/40 dark:text-violet-200">edited</span>}
+                  {segment.status === 'failed' && <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200" title={segment.error}>failed</span>}
+                  {quality && (
+                    <span
+                      className={`px-1.5 py-0.5 rounded ${isFlagged ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200' : 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200'}`}
+                      title="How closely the back-translation matches the source"
+                    >
+                      QA {quality.score === null ? 'n/a' : `${Math.round(quality.score * 100)}%`}
+                    </span>
+                  )}
+                  <div className="flex gap-1 ml-auto">
+                    <button
+                      onClick={() => onRetranslate(segment.index)}
+                      disabled={!canRetranslate}
+                      className="flex items-center space-x-1 px-2 py-1 font-semibold rounded-md text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Request a new translation for this part only"
+                    >
+                      <RefreshIcon className="w-3.5 h-3.5" />
+                      <span>Re-translate</span>
+                    </button>
+                    <button
+                      onClick={() => onApprove(segment.index, !segment.approved)}
+                      disabled={segment.status !== 'done' || isTranslating}
+                      aria-pressed={!!segment.approved}
+                      className={`flex items-center space-x-1 px-2 py-1 font-semibold rounded-md disabled:opacity-40 disabled:cursor-not-allowed ${segment.approved ? 'text-white bg-green-600 hover:bg-green-700' : 'text-green-700 dark:text-green-300 hover:bg-green-50 dark:hover:bg-green-900/30'}`}
+                      title="Approve every sentence of this part"
+                    >
+                      <CheckIcon className="w-3.5 h-3.5" />
+                      <span>{segment.approved ? 'Approved' : 'Approve'}</span>
+                    </button>
+                  </div>
+                </div>
+                {isBusy ? (
+                  // A part is only split into sentences once its translation is complete.
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div className="text-sm text-slate-600 dark:text-slate-300 whitespace-pre-wrap">{display(segment.source.trim())}</div>
+                    <div className="p-2 text-sm text-slate-500 dark:text-slate-400 whitespace-pre-wrap bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-md">
+                      {display(segment.translation) || 'Receiving translation...'}
+                    </div>
+                  </div>
+                ) : (
+                  getSentences(segment, direction).map((sentence, i) => (
+                    <div key={i} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div className="text-sm text-slate-600 dark:text-slate-300 whitespace-pre-wrap">{display(sentence.source.trim())}</div>
+                      <textarea
+                        value={display(sentence.target)}
+                        onChange={e => onEditSentence(segment.index, i, e.target.value)}
+                        readOnly={readOnly || isTranslating}
+                        rows={rowsFor(sentence.target || sentence.source)}
+                        placeholder={segment.status === 'failed' && i === 0 ? segment.error : ''}
+                        className="w-full p-2 text-sm bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-200 border border-slate-300 dark:border-slate-600 rounded-md resize-y focus:ring-2 focus:ring-sky-500 focus:border-sky-500 read-only:bg-slate-50 dark:read-only:bg-slate-800"
+                        aria-label={`Translation of sentence ${i + 1} of part ${segment.index + 1}`}
+                      />
+                    </div>
+                  ))
+                )}
+                {quality && (quality.issues.length > 0 || quality.error || quality.backTranslation) && (
+                  <div className="text-xs space-y-1">
+                    {quality.issues.length > 0 && (
+                      <ul className="space-y-0.5 text-amber-800 dark:text-amber-200">
+                        {quality.issues.map(issue => <li key={`${issue.kind}:${issue.problem}:${issue.value}`}>{describeIssue(issue)}</li>)}
+                      </ul>
+                    )}
+                    {quality.error && <p className="text-red-700 dark:text-red-300">Back-translation failed: {quality.error}</p>}
+                    {quality.backTranslation && (
+                      <details className="text-slate-500 dark:text-slate-400">
+                        <summary className="cursor-pointer select-none">Back-translation</summary>
+                        <p className="mt-1 whitespace-pre-wrap">{display(quality.backTranslation)}</p>
+                      </details>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SegmentEditor;
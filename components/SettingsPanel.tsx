@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ProviderId, ProviderSettings } from '../types';
+import { PROVIDER_OPTIONS } from '../services/providers';
+import { XIcon } from './Icons';
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const inputClasses = "w-full px-3 py-2 text-sm bg-slate-50 dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+const labelClasses = "block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-1";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  const setProvider = (providerId: ProviderId) => setDraft(prev => ({ ...prev, providerId }));
+  const setGemini = (patch: Partial<ProviderSettings['gemini']>) =>
+    setDraft(prev => ({ ...prev, gemini: { ...prev.gemini, ...patch } }));
+  const setOpenAI = (patch: Partial<ProviderSettings['openAICompatible']>) =>
+    setDraft(prev => ({ ...prev, openAICompatible: { ...prev.openAICompatible, ...patch } }));
+  const setServer = (patch: Partial<ProviderSettings['server']>) =>
+    setDraft(prev => ({ ...prev, server: { ...prev.server, ...patch } }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" role="dialog" aria-modal="true" aria-labelledby="settings-title">
+      <form onSubmit={handleSubmit} className="w-full max-w-lg bg-white dark:bg-slate-900 rounded-2xl shadow-2xl p-6 space-y-5 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <h2 id="settings-title" className="text-lg font-semibold text-slate-800 dark:text-slate-100">Translation Provider</h2>
+          <button type="button" onClick={onClose} className="p-1 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200" aria-label="Close settings">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {PROVIDER_OPTIONS.map(option => (
+            <label key={option.id} className={`flex items-start p-3 rounded-lg border cursor-pointer transition-colors ${draft.providerId === option.id ? 'border-sky-500 bg-sky-50 dark:bg-sky-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-sky-300'}`}>
+              <input
+                type="radio"
+                name="provider"
+                className="mt-1"
+                checked={draft.providerId === option.id}
+                onChange={() => setProvider(option.id)}
+              />
+              <span className="ml-3">
+                <span className="block text-sm font-semibold text-slate-700 dark:text-slate-200">{option.label}</span>
+                <span className="block text-xs text-slate-500 dark:text-slate-400">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {draft.providerId === 'gemini' && (
+          <div className="space-y-3">
+            <div>
+              <label htmlFor="gemini-key" className={labelClasses}>API Key</label>
+              <input id="gemini-key" type="password" className={inputClasses} value={draft.gemini.apiKey} onChange={e => setGemini({ apiKey: e.target.value })} autoComplete="off" />
+            </div>
+            <div>
+              <label htmlFor="gemini-model" className={labelClasses}>Model</label>
+              <input id="gemini-model" type="text" className={inputClasses} value={draft.gemini.model} onChange={e => setGemini({ model: e.target.value })} />
+            </div>
+          </div>
+        )}
+
+        {draft.providerId === 'openai-compatible' && (
+          <div className="space-y-3">
+            <div>
+              <label htmlFor="openai-url" className={labelClasses}>Base URL</label>
+              <input id="openai-url" type="url" className={inputClasses} value={draft.openAICompatible.baseUrl} onChange={e => setOpenAI({ baseUrl: e.target.value })} placeholder="http://localhost:8080/v1" />
+            </div>
+            <div>
+              <label htmlFor="openai-key" className={labelClasses}>API Key (optional)</label>
+              <input id="openai-key" type="password" className={inputClasses} value={draft.openAICompatible.apiKey} onChange={e => setOpenAI({ apiKey: e.target.value })} autoComplete="off" />
+            </div>
+            <div>
+              <label htmlFor="openai-model" className={labelClasses}>Model</label>
+              <input id="openai-model" type="text" className={inputClasses} value={draft.openAICompatible.model} onChange={e => setOpenAI({ model: e.target.value })} />
+            </div>
+          </div>
+        )}
+
+        {draft.providerId === 'server' && (
+          <div className="space-y-3">
+            <div>
+              <label htmlFor="server-url" className={labelClasses}>Server URL</label>
+              <input id="server-url" type="url" className={inputClasses} value={draft.server.baseUrl} onChange={e => setServer({ baseUrl: e.target.value })} placeholder="http://localhost:8787" />
+            </div>
+            <div>
+              <label htmlFor="server-token" className={labelClasses}>Access Token (optional)</label>
+              <input id="server-token" type="password" className={inputClasses} value={draft.server.token} onChange={e => setServer({ token: e.target.value })} autoComplete="off" />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-semibold text-slate-600 dark:text-slate-300 rounded-lg bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors">
+            Cancel
+          </button>
+          <button type="submit" className="px-4 py-2 text-sm font-semibold text-white rounded-lg bg-sky-600 hover:bg-sky-700 transition-colors">
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SettingsPanel;
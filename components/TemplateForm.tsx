@@ -0,0 +1,245 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PiiSpan, ProviderSettings } from '../types';
+import { DOCX_MIME_TYPE } from '../services/docxExport';
+import { downloadBlob } from '../services/download';
+import { DOCUMENT_TEMPLATES, extractFields, FieldRule, FilledField, findTemplate, TemplateMatch } from '../services/templates';
+import { fillTemplate, getProviderFields } from '../services/templates/fill';
+import { exportFilledTemplate, getTemplateFileName, TemplateExportFormat } from '../services/templates/render';
+import { AlertTriangleIcon, DownloadIcon, FileCheckIcon } from './Icons';
+
+interface TemplateFormProps {
+  /** The template the document was matched to, with the values read from it. */
+  match: TemplateMatch;
+  content: string;
+  fileName: string | null;
+  providerSettings: ProviderSettings;
+  /** PII masking is on: names stay local and `piiSpans` are masked in the other values. */
+  anonymize: boolean;
+  piiSpans: PiiSpan[];
+  /** Masking is on but the detected PII hasn't been confirmed yet, so nothing may be sent. */
+  needsRedactionReview: boolean;
+  disabled: boolean;
+}
+
+const RULE_LABELS: Record<FieldRule, string> = {
+  name: 'Transliterated',
+  date: 'Converted to CE',
+  choice: 'Fixed rendering',
+  code: 'Copied',
+  text: 'Translated',
+};
+
+const inputClasses = 'w-full px-2 py-1 text-sm rounded-md bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-60';
+
+const TemplateForm: React.FC<TemplateFormProps> = ({ match, content, fileName, providerSettings, anonymize, piiSpans, needsRedactionReview, disabled }) => {
+  const [templateId, setTemplateId] = useState(match.template.id);
+  const [values, setValues] = useState<Record<string, string>>(match.values);
+  const [fields, setFields] = useState<Record<string, FilledField>>({});
+  const [isFilling, setIsFilling] = useState(false);
+  // Values only leave the machine once the user has seen which fields will be sent.
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // A new document, or a new match for it, starts over.
+  useEffect(() => {
+    setTemplateId(match.template.id);
+    setValues(match.values);
+    setFields({});
+    setError(null);
+    setIsConfirming(false);
+    return () => abortControllerRef.current?.abort();
+  }, [match]);
+
+  const template = findTemplate(templateId) ?? match.template;
+  const foundCount = template.fields.filter(field => values[field.id]).length;
+  const filledFields = template.fields.map(field => fields[field.id]).filter(Boolean);
+  const filledCount = filledFields.filter(field => field.status === 'done' && field.translation).length;
+  const failedCount = filledFields.filter(field => field.status === 'failed').length;
+  const providerFields = getProviderFields(template, values, anonymize);
+
+  const handleTemplateChange = (id: string) => {
+    const next = findTemplate(id);
+    if (!next) return;
+    setTemplateId(id);
+    setValues(extractFields(content, next));
+    setFields({});
+    setIsConfirming(false);
+  };
+
+  const handleValueChange = (id: string, value: string) => {
+    setValues(current => ({ ...current, [id]: value }));
+    // The rendering no longer belongs to the value.
+    setFields(({ [id]: _stale, ...rest }) => rest);
+  };
+
+  const handleTranslationChange = (id: string, translation: string) => {
+    setFields(current => ({ ...current, [id]: { source: values[id] ?? '', translation, status: 'done' } }));
+  };
+
+  const handleFill = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsConfirming(false);
+    setIsFilling(true);
+    setError(null);
+    setFields({});
+    await fillTemplate(template, values, providerSettings, {
+      signal: controller.signal,
+      anonymize,
+      piiSpans,
+      onFieldStart: id => setFields(current => ({ ...current, [id]: { source: values[id], translation: '', status: 'translating' } })),
+      onFieldFilled: (id, field) => setFields(current => ({ ...current, [id]: field })),
+    });
+    abortControllerRef.current = null;
+    setIsFilling(false);
+  };
+
+  const handleDownload = async (format: TemplateExportFormat) => {
+    setError(null);
+    try {
+      const blob = await exportFilledTemplate(template, fields, format);
+      const name = getTemplateFileName(fileName ?? 'document', template, format);
+      downloadBlob(blob, name, format === 'docx' ? DOCX_MIME_TYPE : 'text/plain;charset=utf-8');
+    } catch (err) {
+      setError(err instanceof Error ? `Failed to create the form: ${err.message}` : 'Failed to create the form.');
+    }
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <FileCheckIcon className="w-6 h-6 text-sky-600 dark:text-sky-400" />
+          <select
+            value={template.id}
+            onChange={e => handleTemplateChange(e.target.value)}
+            disabled={disabled || isFilling}
+            className="text-lg font-semibold text-slate-800 dark:text-slate-100 bg-transparent border-none focus:ring-2 focus:ring-sky-500 rounded-md disabled:opacity-60"
+            aria-label="Document template"
+          >
+            {DOCUMENT_TEMPLATES.map(option => (
+              <option key={option.id} value={option.id}>{option.label} · {option.title.zh}</option>
+            ))}
+          </select>
+        </div>
+        <span className="text-sm font-mono text-slate-500 dark:text-slate-400">
+          {foundCount} of {template.fields.length} fields found
+        </span>
+      </div>
+
+      <div className="h-80 overflow-y-auto space-y-4 border border-slate-200 dark:border-slate-700 rounded-lg p-3 text-sm">
+        {template.sections.map(section => (
+          <section key={section.zh} className="space-y-2">
+            <h4 className="font-semibold text-slate-700 dark:text-slate-200">{section.zh} · {section.lo}</h4>
+            {section.fields.map(id => {
+              const field = template.fields.find(candidate => candidate.id === id)!;
+              const filled = fields[id];
+              return (
+                <div key={id} className="grid grid-cols-1 md:grid-cols-[9rem_1fr_1fr] gap-2 items-start">
+                  <div>
+                    <p className="text-slate-700 dark:text-slate-200">{field.zh}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{field.labels[0]} · {RULE_LABELS[field.rule]}</p>
+                  </div>
+                  <input
+                    type="text"
+                    value={values[id] ?? ''}
+                    onChange={e => handleValueChange(id, e.target.value)}
+                    disabled={disabled || isFilling}
+                    placeholder="Not found"
+                    className={inputClasses}
+                    aria-label={`${field.zh} (source)`}
+                  />
+                  <div>
+                    <input
+                      type="text"
+                      value={filled?.translation ?? ''}
+                      onChange={e => handleTranslationChange(id, e.target.value)}
+                      disabled={disabled || isFilling || !values[id]}
+                      placeholder={filled?.status === 'translating' ? 'Translating…' : ''}
+                      className={inputClasses}
+                      aria-label={`${field.zh} (translation)`}
+                    />
+                    {filled?.error && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{filled.error}</p>}
+                  </div>
+                </div>
+              );
+            })}
+          </section>
+        ))}
+      </div>
+
+      <div className="flex flex-col md:flex-row items-center justify-between gap-3">
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          {anonymize
+            ? 'Free text is sent to the provider field by field with the reviewed PII masked; names, dates, numbers and fixed values stay on this machine.'
+            : 'Names and free text are sent to the provider field by field; dates, numbers and fixed values are rendered locally.'}
+          {failedCount > 0 && ` ${failedCount} field${failedCount === 1 ? '' : 's'} failed.`}
+        </p>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            onClick={isFilling ? () => abortControllerRef.current?.abort() : providerFields.length > 0 ? () => setIsConfirming(true) : handleFill}
+            disabled={disabled || (!isFilling && (foundCount === 0 || needsRedactionReview || isConfirming))}
+            className="px-4 py-2 text-sm font-semibold text-white bg-sky-600 hover:bg-sky-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isFilling ? 'Cancel' : 'Fill Template'}
+          </button>
+          {(['docx', 'txt'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleDownload(format)}
+              disabled={isFilling || filledCount === 0}
+              className="flex items-center space-x-1 px-3 py-2 text-sm font-semibold text-white bg-green-600 hover:bg-green-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              <span>{format.toUpperCase()}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {needsRedactionReview && (
+        <div className="flex items-start space-x-2 px-3 py-2 text-sm bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200 rounded-lg" role="status">
+          <AlertTriangleIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <p>Review and confirm the masked PII before filling the template.</p>
+        </div>
+      )}
+
+      {isConfirming && (
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 px-3 py-2 text-sm bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200 rounded-lg" role="alertdialog">
+          <div className="flex items-start space-x-2">
+            <AlertTriangleIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <p>
+              {providerFields.length} field{providerFields.length === 1 ? '' : 's'} will be sent to the provider
+              {anonymize ? ' with the reviewed PII masked' : ' as written'}: {providerFields.map(field => field.zh).join('、')}.
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <button
+              onClick={() => setIsConfirming(false)}
+              className="px-3 py-1.5 text-sm font-semibold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleFill}
+              disabled={disabled || needsRedactionReview}
+              className="px-3 py-1.5 text-sm font-semibold text-white bg-sky-600 hover:bg-sky-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Send and Fill
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg flex items-start space-x-2" role="alert">
+          <AlertTriangleIcon className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateForm;
@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MemoryPreferences } from '../types';
+import { clearMemory, countMemoryUnits, exportMemoryTmx, importMemoryTmx } from '../services/translationMemory';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon, TrashIcon, UploadIcon, XIcon } from './Icons';
+
+interface TranslationMemoryPanelProps {
+  preferences: MemoryPreferences;
+  onPreferencesChange: (preferences: MemoryPreferences) => void;
+  /** Called after the stored units change so the owner can look up matches again. */
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const secondaryButtonClasses = "flex items-center space-x-1 px-3 py-1.5 text-sm font-semibold text-slate-600 dark:text-slate-300 rounded-lg bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const TranslationMemoryPanel: React.FC<TranslationMemoryPanelProps> = ({ preferences, onPreferencesChange, onChanged, onClose }) => {
+  const [unitCount, setUnitCount] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ kind: 'error' | 'info'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshCount = () => {
+    countMemoryUnits()
+      .then(setUnitCount)
+      .catch(err => setMessage({ kind: 'error', text: err instanceof Error ? err.message : 'The translation memory could not be opened.' }));
+  };
+
+  useEffect(refreshCount, []);
+
+  const run = async (action: () => Promise<string>) => {
+    try {
+      setMessage({ kind: 'info', text: await action() });
+      refreshCount();
+      onChanged();
+    } catch (err) {
+      setMessage({ kind: 'error', text: err instanceof Error ? err.message : 'The translation memory could not be updated.' });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    run(async () => {
+      const imported = await importMemoryTmx(text);
+      if (imported === 0) {
+        throw new Error(`No translation units in a supported language pair found in ${file.name}.`);
+      }
+      return `Imported ${imported} translation units from ${file.name}.`;
+    });
+  };
+
+  const handleExport = async () => {
+    try {
+      downloadBlob(await exportMemoryTmx(), 'translation_memory.tmx', 'application/x-tmx+xml');
+    } catch (err) {
+      setMessage({ kind: 'error', text: err instanceof Error ? err.message : 'The translation memory could not be exported.' });
+    }
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Delete every stored translation unit? This cannot be undone.')) return;
+    run(async () => {
+      await clearMemory();
+      return 'Translation memory cleared.';
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" role="dialog" aria-modal="true" aria-labelledby="memory-title">
+      <div className="w-full max-w-lg bg-white dark:bg-slate-900 rounded-2xl shadow-2xl p-6 space-y-5 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 id="memory-title" className="text-lg font-semibold text-slate-800 dark:text-slate-100">Translation Memory</h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {unitCount === null ? 'Loading...' : `${unitCount} stored unit${unitCount === 1 ? '' : 's'} (each pair is kept in both directions)`}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200" aria-label="Close translation memory">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={preferences.enabled}
+            onChange={e => onPreferencesChange({ ...preferences, enabled: e.target.checked })}
+            className="mt-1 h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+          />
+          <span className="text-sm text-slate-700 dark:text-slate-200">
+            Use the translation memory
+            <span className="block text-xs text-slate-500 dark:text-slate-400">
+              Exact matches are filled in without calling the provider, and finished jobs are saved for reuse.
+            </span>
+          </span>
+        </label>
+
+        <div className={preferences.enabled ? '' : 'opacity-50'}>
+          <label htmlFor="memory-threshold" className="flex justify-between text-sm font-medium text-slate-700 dark:text-slate-200">
+            <span>Fuzzy match threshold</span>
+            <span className="font-mono">{Math.round(preferences.fuzzyThreshold * 100)}%</span>
+          </label>
+          <input
+            id="memory-threshold"
+            type="range"
+            min={50}
+            max={99}
+            value={Math.round(preferences.fuzzyThreshold * 100)}
+            disabled={!preferences.enabled}
+            onChange={e => onPreferencesChange({ ...preferences, fuzzyThreshold: Number(e.target.value) / 100 })}
+            className="w-full mt-2 accent-sky-600"
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400">Paragraphs at least this similar to a stored one are offered for review.</p>
+        </div>
+
+        {message && (
+          <p className={`text-sm ${message.kind === 'error' ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`}>{message.text}</p>
+        )}
+
+        <div className="flex flex-wrap gap-2 pt-2 border-t border-slate-200 dark:border-slate-700">
+          <button type="button" className={secondaryButtonClasses} onClick={() => fileInputRef.current?.click()}>
+            <UploadIcon className="w-4 h-4" />
+            <span>Import TMX</span>
+          </button>
+          <input ref={fileInputRef} type="file" className="hidden" accept=".tmx,.xml" onChange={handleImport} />
+          <button type="button" className={secondaryButtonClasses} disabled={!unitCount} onClick={handleExport}>
+            <DownloadIcon className="w-4 h-4" />
+            <span>Export TMX</span>
+          </button>
+          <button type="button" className={`${secondaryButtonClasses} ml-auto hover:text-red-600 dark:hover:text-red-400`} disabled={!unitCount} onClick={handleClear}>
+            <TrashIcon className="w-4 h-4" />
+            <span>Clear</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranslationMemoryPanel;
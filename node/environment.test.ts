@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { loadProviderSettingsFromEnv, ProviderConfigError } from './environment';
+
+// The browser build of pdf.js needs a newer Node to load; the loader doesn't use it.
+vi.mock('pdfjs-dist', () => ({ GlobalWorkerOptions: {} }));
+
+describe('loadProviderSettingsFromEnv', () => {
+  it('uses Gemini when its key is set and no provider is chosen', () => {
+    const settings = loadProviderSettingsFromEnv({ GEMINI_API_KEY: 'key', GEMINI_MODEL: 'gemini-pro' });
+    expect(settings.providerId).toBe('gemini');
+    expect(settings.gemini).toEqual({ apiKey: 'key', model: 'gemini-pro' });
+  });
+
+  it('lets the command line override the provider and its model', () => {
+    const settings = loadProviderSettingsFromEnv(
+      { GEMINI_API_KEY: 'key', TRANSLATOR_PROVIDER: 'gemini', OPENAI_MODEL: 'qwen-plus' },
+      { providerId: 'openai-compatible', model: 'qwen-max' },
+    );
+    expect(settings.providerId).toBe('openai-compatible');
+    expect(settings.openAICompatible.model).toBe('qwen-max');
+    expect(settings.gemini.model).not.toBe('qwen-max');
+  });
+
+  it('only echoes with the mock provider when it is asked for', () => {
+    expect(loadProviderSettingsFromEnv({ TRANSLATOR_PROVIDER: 'mock' }).providerId).toBe('mock');
+    expect(loadProviderSettingsFromEnv({}, { providerId: 'mock' }).providerId).toBe('mock');
+  });
+
+  it('refuses to start without a provider instead of falling back to the mock', () => {
+    expect(() => loadProviderSettingsFromEnv({})).toThrow(ProviderConfigError);
+    expect(() => loadProviderSettingsFromEnv({ TRANSLATOR_PROVIDER: '' })).toThrow(/No provider or API key/);
+  });
+
+  it('rejects unknown providers and Gemini without a key', () => {
+    expect(() => loadProviderSettingsFromEnv({ TRANSLATOR_PROVIDER: 'deepl' })).toThrow(/Unknown TRANSLATOR_PROVIDER "deepl"/);
+    expect(() => loadProviderSettingsFromEnv({ TRANSLATOR_PROVIDER: 'gemini' })).toThrow(/needs an API key/);
+    expect(() => loadProviderSettingsFromEnv({}, { providerId: 'gemini' })).toThrow(ProviderConfigError);
+  });
+});
@@ -0,0 +1,95 @@
+// Lets the browser services run under Node: the document formats parse XML and HTML
+// with the DOM, and providers are configured from environment variables instead of the
+// settings panel.
+
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import { JSDOM } from 'jsdom';
+import * as pdfjsLib from 'pdfjs-dist';
+import { ProviderId, ProviderSettings } from '../types';
+import { DEFAULT_GEMINI_MODEL } from '../services/providers/geminiProvider';
+import { PROVIDER_OPTIONS } from '../services/providers';
+
+// pdf.js only reads text here, as there is no canvas to draw pages on. Its Node build still
+// looks for DOMMatrix and Path2D shortly after loading and warns on every run when they are
+// missing, so placeholders that refuse to be used stand in for them. This can't wait for
+// `installBrowserGlobals`, which may run after pdf.js has looked.
+class DrawingUnsupported {
+  constructor() {
+    throw new Error('Drawing PDF pages is not supported under Node.');
+  }
+}
+for (const name of ['DOMMatrix', 'Path2D']) {
+  if (!(name in globalThis)) Object.assign(globalThis, { [name]: DrawingUnsupported });
+}
+
+/** The environment names no provider, or one that can't work without a key it lacks. */
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+/**
+ * Installs the DOM globals the format readers and writers use. There is no canvas, so
+ * images and scanned PDF pages can't be run through OCR.
+ */
+export const installBrowserGlobals = (): void => {
+  const { window } = new JSDOM('');
+  Object.assign(globalThis, {
+    DOMParser: window.DOMParser,
+    XMLSerializer: window.XMLSerializer,
+    document: window.document,
+  });
+  // pdf.js runs its worker in-process under Node and loads it from a local path.
+  const require = createRequire(import.meta.url);
+  pdfjsLib.GlobalWorkerOptions.workerSrc = pathToFileURL(require.resolve('pdfjs-dist/legacy/build/pdf.worker.mjs')).href;
+};
+
+export const isProviderId = (value: string): value is ProviderId => PROVIDER_OPTIONS.some(option => option.id === value);
+
+/**
+ * Provider settings from `TRANSLATOR_PROVIDER`, `GEMINI_API_KEY`, `GEMINI_MODEL`,
+ * `OPENAI_BASE_URL`, `OPENAI_API_KEY`, `OPENAI_MODEL`, `TRANSLATOR_SERVER_URL` and
+ * `TRANSLATOR_SERVER_TOKEN`. Without a chosen provider, Gemini is used when its key is set.
+ * Unlike the app, it never falls back to the mock provider: echoed source text written out
+ * as a translation would go unnoticed in a pipeline. Throws a `ProviderConfigError` when
+ * no provider can be used.
+ */
+export const loadProviderSettingsFromEnv = (
+  env: NodeJS.ProcessEnv = process.env,
+  overrides: { providerId?: ProviderId; model?: string } = {},
+): ProviderSettings => {
+  const geminiKey = env.GEMINI_API_KEY || env.VITE_API_KEY || '';
+  const envProvider = env.TRANSLATOR_PROVIDER || undefined;
+  if (envProvider !== undefined && !isProviderId(envProvider)) {
+    throw new ProviderConfigError(`Unknown TRANSLATOR_PROVIDER "${envProvider}".`);
+  }
+  const providerId = overrides.providerId ?? (envProvider as ProviderId | undefined) ?? (geminiKey ? 'gemini' : undefined);
+  if (!providerId) {
+    throw new ProviderConfigError(
+      'No provider or API key is configured. Set GEMINI_API_KEY, or choose a provider with TRANSLATOR_PROVIDER; '
+      + 'use the mock provider (TRANSLATOR_PROVIDER=mock, or --provider mock) to echo the source text instead.',
+    );
+  }
+  if (providerId === 'gemini' && !geminiKey) {
+    throw new ProviderConfigError('The gemini provider needs an API key. Set GEMINI_API_KEY.');
+  }
+  return {
+    providerId,
+    gemini: {
+      apiKey: geminiKey,
+      model: (providerId === 'gemini' && overrides.model) || env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+    },
+    openAICompatible: {
+      baseUrl: env.OPENAI_BASE_URL || 'http://localhost:8080/v1',
+      apiKey: env.OPENAI_API_KEY || '',
+      model: (providerId === 'openai-compatible' && overrides.model) || env.OPENAI_MODEL || 'gpt-4o-mini',
+    },
+    server: {
+      baseUrl: env.TRANSLATOR_SERVER_URL || 'http://localhost:8787',
+      token: env.TRANSLATOR_SERVER_TOKEN || '',
+    },
+  };
+};
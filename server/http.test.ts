@@ -0,0 +1,57 @@
+import { IncomingMessage } from 'node:http';
+import { Readable } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { HttpError, isAuthorized, isLoopbackHost, readJson, readUploadedFile } from './http';
+
+const request = (...chunks: string[]) => Readable.from(chunks.map(chunk => Buffer.from(chunk))) as unknown as IncomingMessage;
+
+const multipart = (boundary: string, parts: string[]) =>
+  Buffer.from(`${parts.map(part => `--${boundary}\r\n${part}\r\n`).join('')}--${boundary}--\r\n`);
+
+describe('isAuthorized', () => {
+  it('accepts only the exact bearer token', () => {
+    expect(isAuthorized('Bearer secret', 'secret')).toBe(true);
+    expect(isAuthorized('Bearer secreT', 'secret')).toBe(false);
+    expect(isAuthorized('Bearer secret2', 'secret')).toBe(false);
+    expect(isAuthorized('secret', 'secret')).toBe(false);
+    expect(isAuthorized(undefined, 'secret')).toBe(false);
+  });
+
+  it('lets every request through when no token is set', () => {
+    expect(isAuthorized(undefined, '')).toBe(true);
+  });
+});
+
+describe('isLoopbackHost', () => {
+  it('tells this machine from other addresses', () => {
+    expect(['127.0.0.1', '127.1.2.3', 'localhost', '::1'].map(isLoopbackHost)).toEqual([true, true, true, true]);
+    expect(['0.0.0.0', '::', '192.168.1.10', '127.0.0.1.example.com'].map(isLoopbackHost)).toEqual([false, false, false, false]);
+  });
+});
+
+describe('request bodies', () => {
+  it('reads a JSON object and rejects anything else', async () => {
+    expect(await readJson(request('{"documentId":', '"abc"}'))).toEqual({ documentId: 'abc' });
+    await expect(readJson(request('[1, 2]'))).rejects.toMatchObject({ status: 400 });
+    await expect(readJson(request('{'))).rejects.toThrow(HttpError);
+  });
+
+  it('takes the file from a multipart form', async () => {
+    const body = multipart('XyZ', ['Content-Disposition: form-data; name="file"; filename="a.txt"\r\nContent-Type: text/plain\r\n\r\nສະບາຍດີ']);
+    const file = await readUploadedFile(body, 'multipart/form-data; boundary=XyZ', null);
+    expect([file.name, await file.text()]).toEqual(['a.txt', 'ສະບາຍດີ']);
+  });
+
+  it('answers a malformed or incomplete form with 400', async () => {
+    await expect(readUploadedFile(Buffer.from('not a form'), 'multipart/form-data; boundary=XyZ', null))
+      .rejects.toMatchObject({ status: 400, message: expect.stringMatching(/multipart body could not be read/) });
+    await expect(readUploadedFile(multipart('XyZ', ['Content-Disposition: form-data; name="other"\r\n\r\nx']), 'multipart/form-data; boundary=XyZ', null))
+      .rejects.toMatchObject({ status: 400, message: 'The form has no "file" field.' });
+  });
+
+  it('names a raw upload after ?name= and requires it', async () => {
+    const file = await readUploadedFile(Buffer.from('hello'), 'text/plain', 'note.txt');
+    expect([file.name, file.type, await file.text()]).toEqual(['note.txt', 'text/plain', 'hello']);
+    await expect(readUploadedFile(Buffer.from('hello'), 'text/plain', null)).rejects.toMatchObject({ status: 400 });
+  });
+});
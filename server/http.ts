@@ -0,0 +1,75 @@
+// Request plumbing of the API server: errors that carry a status, body readers, and the
+// checks on who may reach the server at all.
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+/** The server binds here unless `HOST` says otherwise, so only this machine can reach it. */
+export const DEFAULT_HOST = '127.0.0.1';
+
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'The upload is larger than 50 MB.');
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+export const readJson = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  try {
+    const body = JSON.parse((await readBody(req)).toString('utf-8'));
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+  }
+  throw new HttpError(400, 'The request body must be a JSON object.');
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+/** The uploaded file: the multipart `file` field, or the raw body named by `?name=`. */
+export const readUploadedFile = async (body: Buffer, contentType: string, name: string | null): Promise<File> => {
+  if (contentType.startsWith('multipart/form-data')) {
+    let form: FormData;
+    try {
+      form = await new Response(body, { headers: { 'Content-Type': contentType } }).formData();
+    } catch {
+      throw new HttpError(400, 'The multipart body could not be read. Check its boundary and encoding.');
+    }
+    const field = form.get('file');
+    if (!(field instanceof File)) throw new HttpError(400, 'The form has no "file" field.');
+    return field;
+  }
+  if (!name) throw new HttpError(400, 'Send the file as multipart "file", or pass its name as ?name=.');
+  return new File([body], name, { type: contentType });
+};
+
+export const isLoopbackHost = (host: string): boolean =>
+  host === 'localhost' || host === '::1' || /^127(\.\d{1,3}){3}$/.test(host);
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Checks the `Authorization` header against the token. Both sides are hashed first, so the
+ * comparison takes the same time whatever the header's length and content.
+ */
+export const isAuthorized = (authorization: string | undefined, token: string): boolean =>
+  !token || timingSafeEqual(digest(authorization ?? ''), digest(`Bearer ${token}`));
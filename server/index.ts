@@ -0,0 +1,214 @@
+// HTTP API for other tools and for the app's server mode. The provider key is read from
+// the server's environment and never sent to clients.
+//
+//   POST   /api/documents            upload a document (multipart `file`, or the raw body with ?name=)
+//   POST   /api/jobs                 start a job: { documentId, direction?, anonymize?, numberPolicy? }
+//   GET    /api/jobs/:id             poll a job
+//   GET    /api/jobs/:id/events      stream a job's progress as server-sent events
+//   GET    /api/jobs/:id/result      download the result: ?format=txt|bilingual|docx|json; X-Unmapped-Blocks
+//                                     counts the DOCX paragraphs that kept their source text
+//   DELETE /api/jobs/:id             cancel a job
+//   POST   /api/translate            stream a single prompt's translation (the app's server provider)
+//
+// It listens on 127.0.0.1 unless HOST names another address, which then needs
+// TRANSLATOR_SERVER_TOKEN. Browsers may only call it cross-origin from CORS_ORIGIN.
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { DirectionKey, ProviderSettings, TranslationDirection } from '../types';
+import { parseFileContent } from '../services/fileParser';
+import { EXPORT_FORMATS, ExportFormat, exportTranslation, getExportFileName } from '../services/exporters';
+import { detectSourceLanguage } from '../services/languageDetection';
+import { DEFAULT_DIRECTION, directionForSource, isSupportedDirection, parseDirectionKey } from '../services/languages';
+import { DEFAULT_NUMBER_POLICY, isNumberPolicy } from '../services/numberNormalization';
+import { createProvider, ProviderError, TranslationProvider, TranslationRequest } from '../services/providers';
+import { ServerTranslateEvent } from '../services/providers/serverProvider';
+import { installBrowserGlobals, loadProviderSettingsFromEnv, ProviderConfigError } from '../node/environment';
+import { DEFAULT_HOST, HttpError, isAuthorized, isLoopbackHost, readBody, readJson, readUploadedFile, sendJson } from './http';
+import { createJobStore, describeJob, isFinished, Job, JobStore } from './jobs';
+
+const startEventStream = (res: ServerResponse) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  return (data: unknown) => res.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+};
+
+const parseDirection = (value: unknown): TranslationDirection => {
+  const direction = typeof value === 'string' && /^[a-z]+-to-[a-z]+$/.test(value) ? parseDirectionKey(value as DirectionKey) : null;
+  if (!direction || !isSupportedDirection(direction)) throw new HttpError(400, `Unsupported direction "${value}".`);
+  return direction;
+};
+
+const uploadDocument = async (req: IncomingMessage, url: URL, store: JobStore) => {
+  const file = await readUploadedFile(await readBody(req), req.headers['content-type'] ?? '', url.searchParams.get('name'));
+
+  let parsed;
+  try {
+    parsed = await parseFileContent(file);
+  } catch (error) {
+    throw new HttpError(422, error instanceof Error ? error.message : 'The file could not be parsed.');
+  }
+  const document = store.addDocument(file, parsed, detectSourceLanguage(parsed.text));
+  return {
+    id: document.id,
+    fileName: file.name,
+    format: parsed.format,
+    characters: parsed.text.length,
+    detectedLanguage: document.detectedLanguage,
+  };
+};
+
+const createJob = async (req: IncomingMessage, store: JobStore) => {
+  const body = await readJson(req);
+  const document = typeof body.documentId === 'string' ? store.getDocument(body.documentId) : undefined;
+  if (!document) throw new HttpError(404, 'Unknown documentId. Upload the document first.');
+  // Like the app, the direction follows the document's script unless the client sets one.
+  const direction = body.direction !== undefined
+    ? parseDirection(body.direction)
+    : document.detectedLanguage ? directionForSource(document.detectedLanguage, DEFAULT_DIRECTION) : DEFAULT_DIRECTION;
+  const numberPolicy = body.numberPolicy ?? DEFAULT_NUMBER_POLICY;
+  if (typeof numberPolicy !== 'string' || !isNumberPolicy(numberPolicy)) throw new HttpError(400, `Unknown numberPolicy "${numberPolicy}".`);
+  return store.startJob(document, direction, { anonymize: body.anonymize === true, numberPolicy });
+};
+
+const streamJob = (req: IncomingMessage, res: ServerResponse, job: Job, store: JobStore) => {
+  const send = startEventStream(res);
+  send(describeJob(job));
+  if (isFinished(job.status)) {
+    res.end();
+    return;
+  }
+  const unsubscribe = store.subscribe(job, snapshot => {
+    send(snapshot);
+    if (isFinished(snapshot.status)) res.end();
+  });
+  req.on('close', unsubscribe);
+};
+
+const sendResult = async (res: ServerResponse, url: URL, job: Job) => {
+  if (job.status !== 'complete' || !job.result) {
+    throw new HttpError(409, `The job is ${job.status}; results are only available once it is complete.`);
+  }
+  const format = (url.searchParams.get('format') ?? 'txt') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) throw new HttpError(400, `Unknown format "${format}".`);
+
+  const { file, parsed } = job.document;
+  const { blob, unmapped } = await exportTranslation(
+    { file, blocks: parsed.blocks, direction: job.direction, segments: job.result.segments, redaction: job.result.redaction },
+    format,
+  );
+  const fileName = getExportFileName(file.name, job.direction, format);
+  res.writeHead(200, {
+    'Content-Type': blob.type || 'application/octet-stream',
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    // Paragraphs of a DOCX source that kept their source text because no translation matched them.
+    'X-Unmapped-Blocks': String(unmapped.length),
+  });
+  res.end(Buffer.from(await blob.arrayBuffer()));
+};
+
+const translatePrompt = async (req: IncomingMessage, res: ServerResponse, provider: TranslationProvider) => {
+  const { prompt, text, direction } = (await readJson(req)) as Partial<TranslationRequest>;
+  if (typeof prompt !== 'string' || typeof text !== 'string' || typeof direction !== 'object' || !direction || !isSupportedDirection(direction)) {
+    throw new HttpError(400, 'Expected { prompt, text, direction } with a supported direction.');
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  const send = startEventStream(res);
+  try {
+    for await (const chunk of provider.translateStream({ prompt, text, direction, signal: controller.signal })) {
+      send(chunk);
+    }
+    send('[DONE]');
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      const event: ServerTranslateEvent = {
+        error: error instanceof Error ? error.message : 'Translation failed.',
+        status: error instanceof ProviderError ? error.status : undefined,
+      };
+      send(event);
+    }
+  }
+  res.end();
+};
+
+const main = () => {
+  installBrowserGlobals();
+  let providerSettings: ProviderSettings;
+  try {
+    providerSettings = loadProviderSettingsFromEnv();
+  } catch (error) {
+    if (!(error instanceof ProviderConfigError)) throw error;
+    console.error(error.message);
+    process.exit(2);
+  }
+  if (providerSettings.providerId === 'server') {
+    console.error('The server cannot use itself as its provider. Set TRANSLATOR_PROVIDER to gemini, openai-compatible or mock.');
+    process.exit(2);
+  }
+  const provider = createProvider(providerSettings);
+  const store = createJobStore(providerSettings);
+  const token = process.env.TRANSLATOR_SERVER_TOKEN ?? '';
+  // Without CORS_ORIGIN no CORS headers are sent, so browsers only allow same-origin pages.
+  const corsOrigin = process.env.CORS_ORIGIN ?? '';
+  const host = process.env.HOST || DEFAULT_HOST;
+  const port = Number(process.env.PORT) || 8787;
+  if (!isLoopbackHost(host) && !token) {
+    console.error(`Refusing to listen on ${host} without an access token. Set TRANSLATOR_SERVER_TOKEN, or leave HOST unset to stay on this machine.`);
+    process.exit(2);
+  }
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    if (corsOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Expose-Headers', 'X-Unmapped-Blocks');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    if (!isAuthorized(req.headers.authorization, token)) throw new HttpError(401, 'Missing or wrong access token.');
+
+    const route = `${req.method} ${url.pathname}`;
+    const jobMatch = url.pathname.match(/^\/api\/jobs\/([^/]+)(\/events|\/result)?$/);
+    if (route === 'GET /api/health') {
+      sendJson(res, 200, { status: 'ok', provider: providerSettings.providerId });
+    } else if (route === 'POST /api/documents') {
+      sendJson(res, 201, await uploadDocument(req, url, store));
+    } else if (route === 'POST /api/jobs') {
+      sendJson(res, 202, describeJob(await createJob(req, store)));
+    } else if (route === 'POST /api/translate') {
+      await translatePrompt(req, res, provider);
+    } else if (jobMatch) {
+      const job = store.getJob(jobMatch[1]);
+      if (!job) throw new HttpError(404, 'Unknown job.');
+      const action = `${req.method} ${jobMatch[2] ?? ''}`;
+      if (action === 'GET ') sendJson(res, 200, describeJob(job));
+      else if (action === 'GET /events') streamJob(req, res, job, store);
+      else if (action === 'GET /result') await sendResult(res, url, job);
+      else if (action === 'DELETE ') {
+        store.cancelJob(job);
+        sendJson(res, 202, describeJob(job));
+      } else throw new HttpError(405, 'Method not allowed.');
+    } else {
+      throw new HttpError(404, 'Not found.');
+    }
+  };
+
+  createServer((req, res) => {
+    handle(req, res).catch(error => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) console.error('Request failed:', error);
+      if (res.headersSent) res.end();
+      else sendJson(res, status, { error: error instanceof Error ? error.message : 'Internal server error.' });
+    });
+  }).listen(port, host, () => {
+    const address = host.includes(':') ? `[${host}]` : host;
+    console.log(`Translation server listening on http://${address}:${port} (provider: ${providerSettings.providerId})`);
+  });
+};
+
+main();
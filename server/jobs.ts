@@ -0,0 +1,164 @@
+// Uploaded documents and translation jobs of the API server. Everything lives in memory
+// and expires after a while; the server is meant for a trusted network, not as storage.
+
+import { DirectionKey, LanguageCode, NumberIssue, NumberPolicy, ParsedDocument, ProviderSettings, TranslationDirection } from '../types';
+import { TranslatedFile, translateParsedDocument } from '../services/batch';
+import { directionKey } from '../services/languages';
+import { isAbortError } from '../services/retry';
+
+const RETENTION_MS = 60 * 60 * 1000;
+
+export interface StoredDocument {
+  id: string;
+  file: File;
+  parsed: ParsedDocument;
+  detectedLanguage: LanguageCode | null;
+  uploadedAt: number;
+}
+
+export type JobStatus = 'translating' | 'complete' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  document: StoredDocument;
+  direction: TranslationDirection;
+  anonymize: boolean;
+  numberPolicy: NumberPolicy;
+  status: JobStatus;
+  progress: { done: number; total: number };
+  error?: string;
+  result?: TranslatedFile;
+  createdAt: number;
+  finishedAt?: number;
+  controller: AbortController;
+  listeners: Set<(job: JobSnapshot) => void>;
+}
+
+/** What the API reports about a job. */
+export interface JobSnapshot {
+  id: string;
+  documentId: string;
+  fileName: string;
+  direction: DirectionKey;
+  anonymize: boolean;
+  numberPolicy: NumberPolicy;
+  status: JobStatus;
+  progress: { done: number; total: number };
+  error?: string;
+  redactions?: number;
+  /** Numbers of the source not found in the translation, once complete. */
+  numberIssues?: NumberIssue[];
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export const isFinished = (status: JobStatus): boolean => status !== 'translating';
+
+export const describeJob = (job: Job): JobSnapshot => ({
+  id: job.id,
+  documentId: job.document.id,
+  fileName: job.document.file.name,
+  direction: directionKey(job.direction),
+  anonymize: job.anonymize,
+  numberPolicy: job.numberPolicy,
+  status: job.status,
+  progress: job.progress,
+  error: job.error,
+  redactions: job.result?.redaction.length,
+  numberIssues: job.result?.numberIssues,
+  createdAt: new Date(job.createdAt).toISOString(),
+  finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : undefined,
+});
+
+export interface JobStore {
+  addDocument: (file: File, parsed: ParsedDocument, detectedLanguage: LanguageCode | null) => StoredDocument;
+  getDocument: (id: string) => StoredDocument | undefined;
+  startJob: (document: StoredDocument, direction: TranslationDirection, options: { anonymize: boolean; numberPolicy: NumberPolicy }) => Job;
+  getJob: (id: string) => Job | undefined;
+  cancelJob: (job: Job) => void;
+  /** Calls `listener` on every change until the job finishes; returns the unsubscribe function. */
+  subscribe: (job: Job, listener: (job: JobSnapshot) => void) => () => void;
+}
+
+export const createJobStore = (providerSettings: ProviderSettings): JobStore => {
+  const documents = new Map<string, StoredDocument>();
+  const jobs = new Map<string, Job>();
+
+  // Jobs are dropped an hour after they finish, and documents an hour after upload once no job uses them.
+  const prune = (now = Date.now()) => {
+    for (const [id, job] of jobs) {
+      if (job.finishedAt && now - job.finishedAt > RETENTION_MS) jobs.delete(id);
+    }
+    const inUse = new Set([...jobs.values()].map(job => job.document.id));
+    for (const [id, document] of documents) {
+      if (!inUse.has(id) && now - document.uploadedAt > RETENTION_MS) documents.delete(id);
+    }
+  };
+
+  const notify = (job: Job) => {
+    const snapshot = describeJob(job);
+    job.listeners.forEach(listener => listener(snapshot));
+  };
+
+  const run = async (job: Job) => {
+    try {
+      job.result = await translateParsedDocument(
+        job.document.parsed,
+        { direction: job.direction, anonymize: job.anonymize, numberPolicy: job.numberPolicy, providerSettings, glossary: [], memoryThreshold: null },
+        job.controller.signal,
+        {
+          onProgress: (done, total) => {
+            job.progress = { done, total };
+            notify(job);
+          },
+        },
+      );
+      job.status = 'complete';
+    } catch (error) {
+      if (isAbortError(error)) {
+        job.status = 'cancelled';
+        job.error = 'The job was cancelled.';
+      } else {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : 'Translation failed.';
+      }
+    }
+    job.finishedAt = Date.now();
+    notify(job);
+    job.listeners.clear();
+  };
+
+  return {
+    addDocument: (file, parsed, detectedLanguage) => {
+      prune();
+      const document = { id: crypto.randomUUID(), file, parsed, detectedLanguage, uploadedAt: Date.now() };
+      documents.set(document.id, document);
+      return document;
+    },
+    getDocument: id => documents.get(id),
+    startJob: (document, direction, { anonymize, numberPolicy }) => {
+      prune();
+      const job: Job = {
+        id: crypto.randomUUID(),
+        document,
+        direction,
+        anonymize,
+        numberPolicy,
+        status: 'translating',
+        progress: { done: 0, total: 0 },
+        createdAt: Date.now(),
+        controller: new AbortController(),
+        listeners: new Set(),
+      };
+      jobs.set(job.id, job);
+      run(job);
+      return job;
+    },
+    getJob: id => jobs.get(id),
+    cancelJob: job => job.controller.abort(),
+    subscribe: (job, listener) => {
+      job.listeners.add(listener);
+      return () => job.listeners.delete(listener);
+    },
+  };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { alignSegmentSentences, alignSentences, alignTexts, joinSentenceTargets } from './alignment';
+
+describe('alignSentences', () => {
+  it('pairs one to one when lengths agree', () => {
+    expect(alignSentences(['ສະບາຍດີ. ', 'ຂອບໃຈຫຼາຍໆ.'], ['你好。', '非常感谢。'])).toEqual([
+      { source: 'ສະບາຍດີ.', target: '你好。' },
+      { source: 'ຂອບໃຈຫຼາຍໆ.', target: '非常感谢。' },
+    ]);
+  });
+
+  it('merges sentences the translation joined, guided by shared numbers', () => {
+    const pairs = alignSentences(
+      ['ລາຄາ 500 ໂດລາ. ', 'ຈ່າຍພາຍໃນ 30 ວັນ. ', 'ສັນຍາມີ 12 ມາດຕາ.'],
+      ['价格500美元，30天内付清。', '合同共12条。'],
+    );
+    expect(pairs).toEqual([
+      { source: 'ລາຄາ 500 ໂດລາ. ຈ່າຍພາຍໃນ 30 ວັນ.', target: '价格500美元，30天内付清。' },
+      { source: 'ສັນຍາມີ 12 ມາດຕາ.', target: '合同共12条。' },
+    ]);
+  });
+
+  it('leaves a sentence the translation dropped without a partner', () => {
+    const source = ['The seller delivers 100 units within a week. ', 'The buyer pays for every unit that arrives intact, and returns damaged ones at the seller\'s expense after inspection. ', 'Disputes go to court 7.'];
+    const target = ['卖方在一周内交付100件货物并负责运输全程。', '争议提交第7法院。'];
+    expect(alignSentences(source, target, 0.5)).toEqual([
+      { source: source[0].trim(), target: target[0] },
+      { source: source[1].trim(), target: '' },
+      { source: source[2], target: target[1] },
+    ]);
+  });
+});
+
+describe('alignTexts', () => {
+  it('pairs paragraphs directly when both sides have the same number', () => {
+    expect(alignTexts('ກ. ຂ.\n\nຄ.', '甲。乙。\n\n丙。', 'lo', 'zh')).toEqual([
+      { source: 'ກ. ຂ.', target: '甲。乙。' },
+      { source: 'ຄ.', target: '丙。' },
+    ]);
+  });
+
+  it('aligns sentences when the paragraph counts differ', () => {
+    expect(alignTexts('ລາຄາ 500 ໂດລາ.\n\nຈ່າຍພາຍໃນ 30 ວັນ.', '价格500美元。30天内付清。', 'lo', 'zh')).toEqual([
+      { source: 'ລາຄາ 500 ໂດລາ.', target: '价格500美元。' },
+      { source: 'ຈ່າຍພາຍໃນ 30 ວັນ.', target: '30天内付清。' },
+    ]);
+  });
+});
+
+describe('alignSegmentSentences', () => {
+  const source = 'ສັນຍາສະບັບນີ້ມີ 3 ມາດຕາ. ລົງນາມວັນທີ 15.\nບໍລິສັດ ABC ຮັບຜິດຊອບ.';
+  const translation = '本合同共3条。签署于15日。\n由ABC公司负责。';
+
+  it('pairs each source sentence with its translation', () => {
+    expect(alignSegmentSentences(source, translation, 'lo', 'zh').map(({ source, target }) => [source.trim(), target])).toEqual([
+      ['ສັນຍາສະບັບນີ້ມີ 3 ມາດຕາ.', '本合同共3条。'],
+      ['ລົງນາມວັນທີ 15.', '签署于15日。'],
+      ['ບໍລິສັດ ABC ຮັບຜິດຊອບ.', '由ABC公司负责。'],
+    ]);
+  });
+
+  it('keeps the whitespace apart so the targets join back into the translation', () => {
+    const sentences = alignSegmentSentences(source, translation, 'lo', 'zh');
+    expect(sentences.map(sentence => sentence.separator)).toEqual(['', '\n', '']);
+    expect(sentences.map(sentence => sentence.source).join('')).toBe(source);
+    expect(joinSentenceTargets(sentences)).toBe(translation);
+
+    const edited = sentences.map((sentence, i) => (i === 1 ? { ...sentence, target: '于15日签署。' } : sentence));
+    expect(joinSentenceTargets(edited)).toBe('本合同共3条。于15日签署。\n由ABC公司负责。');
+  });
+
+  it('leaves sources without a translation unpaired', () => {
+    expect(alignSegmentSentences('ສະບາຍດີ.', '', 'lo', 'zh')).toEqual([{ source: 'ສະບາຍດີ.', target: '', separator: '' }]);
+  });
+});
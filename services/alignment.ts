@@ -0,0 +1,168 @@
+// Pairs source sentences with their translations. The pairing uses sentence lengths,
+// in the spirit of Gale & Church, plus anchors both sides must share: numbers, Latin
+// words and redaction placeholders. Index-based pairing falls apart as soon as the
+// translation merges or splits a single sentence; this does not.
+
+import { AlignedPair, LanguageCode, SentencePair } from '../types';
+import { splitIntoParagraphs } from './chunker';
+import { normalizeDigits } from './redaction';
+import { splitSentences } from './segmentation';
+
+export type { AlignedPair } from '../types';
+
+// Extra cost of each kind of pairing, on top of the length mismatch. A sentence left
+// without a partner is the most expensive outcome.
+const BEAD_PENALTIES: { source: number; target: number; penalty: number }[] = [
+  { source: 1, target: 1, penalty: 0 },
+  { source: 1, target: 2, penalty: 2 },
+  { source: 2, target: 1, penalty: 2 },
+  { source: 2, target: 2, penalty: 4 },
+  { source: 1, target: 0, penalty: 6 },
+  { source: 0, target: 1, penalty: 6 },
+];
+
+const ANCHOR_WEIGHT = 3;
+
+const ANCHOR_REGEX = /\[[^\[\]\s]+_\d+\]|\d+(?:[.,]\d+)*|[A-Za-z][A-Za-z0-9-]{1,}/g;
+
+const textLength = (text: string) => text.replace(/\s+/g, '').length;
+
+const extractAnchors = (text: string): Set<string> =>
+  new Set((normalizeDigits(text).match(ANCHOR_REGEX) ?? []).map(anchor => anchor.replace(/,/g, '').toLowerCase()));
+
+const anchorAgreement = (source: Set<string>, target: Set<string>): number => {
+  if (source.size === 0 && target.size === 0) return 0;
+  let shared = 0;
+  source.forEach(anchor => target.has(anchor) && shared++);
+  return (2 * shared) / (source.size + target.size);
+};
+
+interface SentenceInfo {
+  text: string;
+  length: number;
+  anchors: Set<string>;
+}
+
+const describe = (text: string): SentenceInfo => ({ text, length: textLength(text), anchors: extractAnchors(text) });
+
+const merge = (sentences: SentenceInfo[]): SentenceInfo =>
+  sentences.length === 1 ? sentences[0] : {
+    text: sentences.map(sentence => sentence.text).join(''),
+    length: sentences.reduce((sum, sentence) => sum + sentence.length, 0),
+    anchors: new Set(sentences.flatMap(sentence => [...sentence.anchors])),
+  };
+
+type Bead = (typeof BEAD_PENALTIES)[number];
+
+/**
+ * The cheapest sequence of beads that pairs up both lists, in order. A source sentence
+ * whose index is in `sourceBreaks` starts a new paragraph: no bead joins it to the one before.
+ */
+const alignBeads = (sourceSentences: string[], targetSentences: string[], ratio?: number, sourceBreaks?: Set<number>): Bead[] => {
+  const source = sourceSentences.map(describe);
+  const target = targetSentences.map(describe);
+  const sourceTotal = source.reduce((sum, sentence) => sum + sentence.length, 0);
+  const targetTotal = target.reduce((sum, sentence) => sum + sentence.length, 0);
+  const expectedRatio = ratio ?? (sourceTotal > 0 && targetTotal > 0 ? targetTotal / sourceTotal : 1);
+
+  const beadCost = (sourcePart: SentenceInfo[], targetPart: SentenceInfo[], penalty: number): number => {
+    if (sourcePart.length === 0 || targetPart.length === 0) return penalty;
+    const s = merge(sourcePart);
+    const t = merge(targetPart);
+    const expected = s.length * expectedRatio;
+    const mismatch = Math.abs(expected - t.length) / Math.sqrt((expected + t.length) / 2 + 1);
+    return mismatch + penalty - ANCHOR_WEIGHT * anchorAgreement(s.anchors, t.anchors);
+  };
+
+  const rows = source.length + 1;
+  const cols = target.length + 1;
+  const cost = new Float64Array(rows * cols).fill(Infinity);
+  const back = new Int8Array(rows * cols).fill(-1);
+  cost[0] = 0;
+
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < cols; j++) {
+      const here = cost[i * cols + j];
+      if (here === Infinity) continue;
+      BEAD_PENALTIES.forEach((bead, beadIndex) => {
+        const ni = i + bead.source;
+        const nj = j + bead.target;
+        if (ni >= rows || nj >= cols) return;
+        if (bead.source === 2 && sourceBreaks?.has(i + 1)) return;
+        const next = here + beadCost(source.slice(i, ni), target.slice(j, nj), bead.penalty);
+        if (next < cost[ni * cols + nj]) {
+          cost[ni * cols + nj] = next;
+          back[ni * cols + nj] = beadIndex;
+        }
+      });
+    }
+  }
+
+  const beads: Bead[] = [];
+  let i = source.length;
+  let j = target.length;
+  while (i > 0 || j > 0) {
+    const bead = BEAD_PENALTIES[back[i * cols + j]];
+    beads.unshift(bead);
+    i -= bead.source;
+    j -= bead.target;
+  }
+  return beads;
+};
+
+// Joins the sentences of each bead; `trim` drops the whitespace they were split with.
+const pairBeads = (beads: Bead[], sourceSentences: string[], targetSentences: string[], trim: boolean): AlignedPair[] => {
+  let i = 0;
+  let j = 0;
+  return beads.map(bead => {
+    const source = sourceSentences.slice(i, i += bead.source).join('');
+    const target = targetSentences.slice(j, j += bead.target).join('');
+    return trim ? { source: source.trim(), target: target.trim() } : { source, target };
+  });
+};
+
+/**
+ * Aligns two lists of sentences with dynamic programming. `ratio` is the expected number
+ * of target characters per source character.
+ */
+export const alignSentences = (sourceSentences: string[], targetSentences: string[], ratio?: number): AlignedPair[] =>
+  pairBeads(alignBeads(sourceSentences, targetSentences, ratio), sourceSentences, targetSentences, true);
+
+/**
+ * Aligns a text with its translation. When both have the same number of paragraphs the
+ * paragraphs are paired directly; otherwise the sentences of the whole text are aligned.
+ * Either way no pair spans two source paragraphs, so the pairs can be handed back to the
+ * paragraphs (or document blocks) they came from.
+ */
+export const alignTexts = (source: string, target: string, sourceLanguage: LanguageCode, targetLanguage: LanguageCode): AlignedPair[] => {
+  const sourceParagraphs = splitIntoParagraphs(source).map(paragraph => paragraph.text.trim()).filter(Boolean);
+  const targetParagraphs = splitIntoParagraphs(target).map(paragraph => paragraph.text.trim()).filter(Boolean);
+  if (sourceParagraphs.length === targetParagraphs.length) {
+    return sourceParagraphs.map((paragraph, i) => ({ source: paragraph, target: targetParagraphs[i] }));
+  }
+  const sourceSentences: string[] = [];
+  const sourceBreaks = new Set<number>();
+  for (const paragraph of sourceParagraphs) {
+    if (sourceSentences.length > 0) sourceBreaks.add(sourceSentences.length);
+    sourceSentences.push(...splitSentences(`${paragraph}\n`, sourceLanguage));
+  }
+  const targetSentences = targetParagraphs.flatMap(paragraph => splitSentences(`${paragraph}\n`, targetLanguage));
+  return pairBeads(alignBeads(sourceSentences, targetSentences, undefined, sourceBreaks), sourceSentences, targetSentences, true);
+};
+
+/**
+ * Splits a segment and its translation into aligned sentences for editing. The whitespace
+ * after each translated sentence is kept apart from it, so `joinSentenceTargets` gives
+ * back `translation` exactly, and after edits the translation with the same layout.
+ */
+export const alignSegmentSentences = (source: string, translation: string, sourceLanguage: LanguageCode, targetLanguage: LanguageCode): SentencePair[] => {
+  const sourceSentences = splitSentences(source, sourceLanguage);
+  const targetSentences = splitSentences(translation, targetLanguage);
+  return pairBeads(alignBeads(sourceSentences, targetSentences), sourceSentences, targetSentences, false).map(pair => {
+    const target = pair.target.trimEnd();
+    return { source: pair.source, target, separator: pair.target.slice(target.length) };
+  });
+};
+
+export const joinSentenceTargets = (sentences: SentencePair[]): string =>
+  sentences.map(sentence => sentence.target + sentence.separator).join('');
@@ -0,0 +1,131 @@
+// @vitest-environment jsdom
+import JSZip from 'jszip';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BatchItem, ProviderSettings } from '../types';
+import { BatchSettings, buildBatchArchive, createBatchItems, getBatchOutputName, isBatchUpload, translateBatchFile } from './batch';
+import { parseDocx, W_NS } from './docxParser';
+import { translateDocumentStream } from './translationService';
+
+// pdf.js needs a browser (or a newer Node) to load; only the format's file types matter here.
+vi.mock('./formats/pdfFormat', () => ({
+  pdfFormat: { id: 'pdf', label: 'PDF', extensions: ['pdf'], mimeTypes: ['application/pdf'], parse: vi.fn() },
+}));
+vi.mock('./translationService', () => ({ translateDocumentStream: vi.fn() }));
+
+const LO_ZH = { source: 'lo', target: 'zh' } as const;
+
+const DICTIONARY: Record<string, string> = {
+  'ສະບາຍດີ': '你好',
+  'ຂອບໃຈ': '谢谢',
+  'ລາຄາ 50,000 ກີບ ໃນປີ ຄ.ສ. 2024': '2024年价格50,000基普',
+};
+
+const settings: BatchSettings = {
+  direction: LO_ZH,
+  anonymize: false,
+  numberPolicy: 'keep',
+  providerSettings: { providerId: 'mock' } as ProviderSettings,
+  glossary: [],
+  memoryThreshold: null,
+};
+
+const callbacks = { onStatus: vi.fn(), onProgress: vi.fn() };
+
+const item = (name: string, content: BlobPart): BatchItem => ({ id: name, name, file: new File([content], name.split('/').pop()!), status: 'queued' });
+
+beforeEach(() => {
+  // Translates paragraph by paragraph with a fixed dictionary.
+  vi.mocked(translateDocumentStream).mockReset().mockImplementation(async function* (content) {
+    yield { text: content.split('\n\n').map(paragraph => DICTIONARY[paragraph] ?? paragraph).join('\n\n') };
+  });
+});
+
+describe('batch uploads', () => {
+  it('treats several files or any ZIP as a batch', () => {
+    expect(isBatchUpload([new File(['a'], 'a.txt')])).toBe(false);
+    expect(isBatchUpload([new File(['a'], 'a.txt'), new File(['b'], 'b.txt')])).toBe(true);
+    expect(isBatchUpload([new File(['a'], 'docs.ZIP')])).toBe(true);
+  });
+
+  it('unpacks archives and skips folders, hidden files and unreadable entries', async () => {
+    const zip = new JSZip();
+    zip.file('docs/a.txt', 'ສະບາຍດີ');
+    zip.file('docs/.DS_Store', 'x');
+    zip.file('__MACOSX/docs/._a.txt', 'x');
+    zip.file('docs/tool.exe', 'x');
+    zip.folder('empty');
+    const archive = new File([await zip.generateAsync({ type: 'blob' })], 'docs.zip');
+
+    const { items, skipped } = await createBatchItems([archive, new File(['<p>x</p>'], 'page.html')]);
+    expect(items.map(entry => [entry.name, entry.file.name, entry.status])).toEqual([
+      ['docs/a.txt', 'a.txt', 'queued'],
+      ['page.html', 'page.html', 'queued'],
+    ]);
+    expect(skipped).toEqual(['docs/tool.exe']);
+  });
+
+  it('names outputs after the source, keeping its folder', () => {
+    expect(getBatchOutputName('docs/a.pdf', LO_ZH, 'txt')).toBe('docs/a_translated_zh.txt');
+    expect(getBatchOutputName('v1.2/README', LO_ZH, 'txt')).toBe('v1.2/README_translated_zh.txt');
+  });
+});
+
+describe('translateBatchFile', () => {
+  it('writes the translation back into formats that have a writer', async () => {
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\nສະບາຍດີ\n\n2\n00:00:03,000 --> 00:00:04,000\nຂອບໃຈ\n';
+    const result = await translateBatchFile(item('clips/intro.srt', srt), settings, new AbortController().signal, callbacks);
+    expect(result.output.name).toBe('clips/intro_translated_zh.srt');
+    expect(await result.output.blob.text()).toBe('1\n00:00:01,000 --> 00:00:02,000\n你好\n\n2\n00:00:03,000 --> 00:00:04,000\n谢谢\n');
+    expect(result).toMatchObject({ redactions: 0, numberIssues: 0, unmappedBlocks: 0 });
+    expect(callbacks.onStatus.mock.calls).toEqual([['parsing'], ['translating']]);
+  });
+
+  it('hands back plain text for formats without a writer', async () => {
+    const result = await translateBatchFile(item('note.txt', 'ສະບາຍດີ\n\nຂອບໃຈ'), settings, new AbortController().signal, callbacks);
+    expect(result.output.name).toBe('note_translated_zh.txt');
+    expect(await result.output.blob.text()).toBe('你好\n\n谢谢');
+  });
+
+  it('writes converted numbers into DOCX blocks that keep their source text', async () => {
+    const zip = new JSZip();
+    zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}"><w:body>
+<w:p><w:r><w:t>ສະບາຍດີ</w:t></w:r></w:p>
+<w:p><w:r><w:t>ລາຄາ 50.000 ກີບ ໃນປີ ໒໕໖໗</w:t></w:r></w:p>
+</w:body></w:document>`);
+    const docx = await zip.generateAsync({ type: 'arraybuffer' });
+
+    const result = await translateBatchFile(item('price.docx', docx), { ...settings, numberPolicy: 'convert' }, new AbortController().signal, callbacks);
+    expect(result).toMatchObject({ numberIssues: 0, unmappedBlocks: 0 });
+    const { blocks } = await parseDocx(await result.output.blob.arrayBuffer());
+    expect(blocks.map(block => block.text)).toEqual(['你好', '2024年价格50,000基普']);
+  });
+
+  it('refuses empty files and files already in the target language', async () => {
+    const signal = new AbortController().signal;
+    await expect(translateBatchFile(item('empty.txt', '  \n'), settings, signal, callbacks)).rejects.toThrow(/No text/);
+    await expect(translateBatchFile(item('zh.txt', '本合同由甲方和乙方签订。'), settings, signal, callbacks)).rejects.toThrow(/target language already/);
+    expect(translateDocumentStream).not.toHaveBeenCalled();
+  });
+});
+
+describe('buildBatchArchive', () => {
+  it('packs the outputs under unique names with a manifest of every file', async () => {
+    const output = (name: string) => ({ name, blob: new Blob([name]) });
+    const archive = await buildBatchArchive([
+      { ...item('a.txt', ''), status: 'complete', output: output('a_translated_zh.txt') },
+      { ...item('b/a.txt', ''), status: 'complete', output: output('a_translated_zh.txt') },
+      { ...item('c.txt', ''), status: 'error', error: 'Quota exceeded' },
+    ], LO_ZH, true, 'keep');
+
+    const zip = await JSZip.loadAsync(await archive.arrayBuffer());
+    expect(Object.keys(zip.files).sort()).toEqual(['a_translated_zh (2).txt', 'a_translated_zh.txt', 'manifest.json']);
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+    expect(manifest).toMatchObject({ direction: 'lo-to-zh', anonymize: true, numberPolicy: 'keep' });
+    expect(manifest.files.map((file: { source: string; output?: string; status: string }) => [file.source, file.output, file.status])).toEqual([
+      ['a.txt', 'a_translated_zh.txt', 'complete'],
+      ['b/a.txt', 'a_translated_zh (2).txt', 'complete'],
+      ['c.txt', undefined, 'error'],
+    ]);
+  });
+});
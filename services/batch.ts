@@ -0,0 +1,242 @@
+// Batch mode: several uploads, or the documents inside a ZIP, translated one after the
+// other with the same settings and handed back as a single archive.
+
+import JSZip from 'jszip';
+import { BatchItem, GlossaryEntry, NumberIssue, NumberPolicy, ParsedDocument, ProviderSettings, RedactionEntry, TranslationDirection, TranslationSegment } from '../types';
+import { alignTexts } from './alignment';
+import { mapTranslationsToBlocks } from './documentModel';
+import { parseFileContent } from './fileParser';
+import { findFileFormat, getFileExtension } from './formats';
+import { detectSourceLanguage } from './languageDetection';
+import { directionKey } from './languages';
+import { checkNumbers } from './numberNormalization';
+import { detectPii, redactText, restorePlaceholders } from './redaction';
+import { createSegments, runTranslationJob, stitchSegments } from './translationJob';
+import { findMemoryMatches, getPrefills, saveSegmentsToMemory } from './translationMemory';
+
+export const ZIP_MIME_TYPE = 'application/zip';
+
+export interface BatchSettings {
+  direction: TranslationDirection;
+  anonymize: boolean;
+  numberPolicy: NumberPolicy;
+  providerSettings: ProviderSettings;
+  glossary: GlossaryEntry[];
+  /** Fuzzy threshold of the translation memory, or null when the memory is switched off. */
+  memoryThreshold: number | null;
+}
+
+export interface BatchCallbacks {
+  onStatus: (status: 'parsing' | 'translating') => void;
+  onProgress: (done: number, total: number) => void;
+}
+
+export interface TranslatedFile {
+  parsed: ParsedDocument;
+  segments: TranslationSegment[];
+  /** Placeholders substituted for PII; the segments still contain them. */
+  redaction: RedactionEntry[];
+  /** Numbers of the source that the translation seems to have lost. */
+  numberIssues: NumberIssue[];
+}
+
+export interface BatchFileResult {
+  output: { name: string; blob: Blob };
+  redactions: number;
+  numberIssues: number;
+  /** Blocks of the source that kept their source text because no translation matched them. */
+  unmappedBlocks: number;
+}
+
+const isZip = (file: File) => getFileExtension(file.name) === 'zip';
+
+/** More than one file, or any ZIP archive, goes to the batch queue instead of the single-file view. */
+export const isBatchUpload = (files: File[]): boolean => files.length > 1 || files.some(isZip);
+
+// Folders, macOS resource forks and hidden files are never documents.
+const isDocumentEntry = (entry: JSZip.JSZipObject) =>
+  !entry.dir && !entry.name.startsWith('__MACOSX/') && !entry.name.split('/').some(part => part.startsWith('.'));
+
+/**
+ * Turns the uploaded files into batch items. ZIP archives are unpacked; entries the app
+ * can't read are skipped and named in `skipped`.
+ */
+export const createBatchItems = async (files: File[]): Promise<{ items: BatchItem[]; skipped: string[] }> => {
+  const items: BatchItem[] = [];
+  const skipped: string[] = [];
+  const add = (name: string, file: File) => {
+    if (findFileFormat(file)) items.push({ id: crypto.randomUUID(), name, file, status: 'queued' });
+    else skipped.push(name);
+  };
+
+  for (const file of files) {
+    if (!isZip(file)) {
+      add(file.name, file);
+      continue;
+    }
+    const zip = await JSZip.loadAsync(file);
+    for (const entry of Object.values(zip.files).filter(isDocumentEntry)) {
+      const baseName = entry.name.slice(entry.name.lastIndexOf('/') + 1);
+      add(entry.name, new File([await entry.async('blob')], baseName));
+    }
+  }
+  return { items, skipped };
+};
+
+/** `docs/a.pdf` becomes `docs/a_translated_zh.txt`; the folder inside the archive is kept. */
+export const getBatchOutputName = (name: string, direction: TranslationDirection, extension: string): string => {
+  const dot = name.lastIndexOf('.');
+  const baseName = dot > name.lastIndexOf('/') ? name.slice(0, dot) : name;
+  return `${baseName}_translated_${direction.target}.${extension}`;
+};
+
+const describeFailure = (segments: TranslationSegment[]) => {
+  const failed = segments.filter(segment => segment.status === 'failed');
+  return failed.length === segments.length
+    ? failed[0]?.error ?? 'Translation failed.'
+    : `${failed.length} of ${segments.length} parts failed to translate. ${failed[0]?.error ?? ''}`.trim();
+};
+
+/**
+ * Translates a parsed document. Every detected PII item is masked, as there is no
+ * review step, numbers are converted for the number policy in what is sent, only exact
+ * memory matches are reused, and paragraphs with nothing to translate are copied as
+ * they are. Throws when the document is empty, already in the target language, or any
+ * part fails to translate.
+ */
+export const translateParsedDocument = async (
+  parsed: ParsedDocument,
+  settings: BatchSettings,
+  signal: AbortSignal,
+  callbacks: Pick<BatchCallbacks, 'onProgress'>,
+): Promise<TranslatedFile> => {
+  const { direction, anonymize, numberPolicy, providerSettings, glossary, memoryThreshold } = settings;
+  const { source: sourceLanguage, target: targetLanguage } = direction;
+
+  if (!parsed.text.trim()) throw new Error('No text was found in this file.');
+  // The whole batch shares one direction, so a file in the other language is reported instead of copied.
+  if (detectSourceLanguage(parsed.text) === targetLanguage) {
+    throw new Error('This file appears to be in the target language already. Check the translation direction.');
+  }
+
+  const { text, entries } = anonymize
+    ? redactText(parsed.text, detectPii(parsed.text), targetLanguage)
+    : { text: parsed.text, entries: [] };
+  const matches = memoryThreshold === null ? [] : await findMemoryMatches(parsed.text, direction, memoryThreshold);
+  const segments = createSegments(text, { prefills: getPrefills(matches), sourceLanguage });
+
+  const countDone = () => segments.filter(segment => segment.status === 'done').length;
+  callbacks.onProgress(countDone(), segments.length);
+  const update = (index: number, change: Partial<TranslationSegment>) => {
+    Object.assign(segments[index], change);
+  };
+  const outcome = await runTranslationJob(segments, direction, providerSettings, {
+    signal,
+    anonymize,
+    glossary,
+    numberPolicy,
+    onSegmentStart: index => update(index, { status: 'translating', translation: '' }),
+    onSegmentDelta: (index, delta) => update(index, { translation: segments[index].translation + delta }),
+    onSegmentDone: index => {
+      update(index, { status: 'done' });
+      callbacks.onProgress(countDone(), segments.length);
+    },
+    onSegmentFailed: (index, error) => update(index, { status: 'failed', translation: '', error }),
+  });
+  if (outcome === 'cancelled') throw new DOMException('The batch was cancelled.', 'AbortError');
+  if (outcome === 'failed') throw new Error(describeFailure(segments));
+
+  if (memoryThreshold !== null) {
+    saveSegmentsToMemory(segments, direction).catch(err => console.error('Failed to save to translation memory:', err));
+  }
+  return { parsed, segments, redaction: entries, numberIssues: checkNumbers(segments, direction, numberPolicy) };
+};
+
+/** Parses and translates one file; see `translateParsedDocument`. */
+export const translateFile = async (
+  file: File,
+  settings: BatchSettings,
+  signal: AbortSignal,
+  callbacks: BatchCallbacks,
+): Promise<TranslatedFile> => {
+  callbacks.onStatus('parsing');
+  const parsed = await parseFileContent(file);
+  callbacks.onStatus('translating');
+  return translateParsedDocument(parsed, settings, signal, callbacks);
+};
+
+/**
+ * Translates one batch file. The translation is written back into the source format
+ * when it has a writer, and as plain text otherwise.
+ */
+export const translateBatchFile = async (
+  item: BatchItem,
+  settings: BatchSettings,
+  signal: AbortSignal,
+  callbacks: BatchCallbacks,
+): Promise<BatchFileResult> => {
+  const { direction } = settings;
+  const { source: sourceLanguage, target: targetLanguage } = direction;
+  const { parsed, segments, redaction, numberIssues } = await translateFile(item.file, settings, signal, callbacks);
+  const counts = { redactions: redaction.length, numberIssues: numberIssues.length, unmappedBlocks: 0 };
+
+  const format = findFileFormat(item.file);
+  if (format?.write && parsed.blocks.length > 0) {
+    // Sources are restored so they match the blocks; the translation keeps its placeholders.
+    const pairs = segments.flatMap(segment =>
+      alignTexts(restorePlaceholders(segment.source, redaction), segment.translation, sourceLanguage, targetLanguage),
+    );
+    const { translations, unmapped } = mapTranslationsToBlocks(parsed.blocks, pairs, targetLanguage);
+    const blob = await format.write(await item.file.arrayBuffer(), translations);
+    return {
+      output: { name: getBatchOutputName(item.name, direction, getFileExtension(item.file.name)), blob },
+      ...counts,
+      unmappedBlocks: unmapped.length,
+    };
+  }
+  const blob = new Blob([stitchSegments(segments)], { type: 'text/plain;charset=utf-8' });
+  return { output: { name: getBatchOutputName(item.name, direction, 'txt'), blob }, ...counts };
+};
+
+// Two uploads with the same name would overwrite each other in the archive.
+const uniqueName = (name: string, used: Set<string>) => {
+  let candidate = name;
+  for (let n = 2; used.has(candidate); n++) {
+    const dot = name.lastIndexOf('.');
+    candidate = `${name.slice(0, dot)} (${n})${name.slice(dot)}`;
+  }
+  used.add(candidate);
+  return candidate;
+};
+
+/**
+ * Packs every finished translation into one ZIP, with a `manifest.json` listing each
+ * file's outcome so failed files can be found and re-submitted.
+ */
+export const buildBatchArchive = async (
+  items: BatchItem[],
+  direction: TranslationDirection,
+  anonymize: boolean,
+  numberPolicy: NumberPolicy,
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const used = new Set(['manifest.json']);
+  const files = items.map(item => {
+    const output = item.output ? uniqueName(item.output.name, used) : undefined;
+    if (item.output && output) zip.file(output, item.output.blob);
+    return {
+      source: item.name,
+      output,
+      status: item.status,
+      error: item.error,
+      redactions: item.redactions,
+      numberIssues: item.numberIssues,
+      unmappedBlocks: item.unmappedBlocks,
+      startedAt: item.startedAt,
+      finishedAt: item.finishedAt,
+    };
+  });
+  const manifest = { createdAt: new Date().toISOString(), direction: directionKey(direction), anonymize, numberPolicy, files };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', mimeType: ZIP_MIME_TYPE });
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens, PAGE_BREAK, splitIntoChunks, splitIntoParagraphs } from './chunker';
+
+const rejoin = (chunks: { text: string; separator: string }[]) => chunks.map(chunk => chunk.text + chunk.separator).join('');
+
+describe('estimateTokens', () => {
+  it('counts Lao and Chinese characters as one token each', () => {
+    expect(estimateTokens('ສະບາຍດີ')).toBe(7);
+    expect(estimateTokens('你好世界')).toBe(4);
+  });
+
+  it('counts about four Latin characters per token', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('abcdefghi')).toBe(3);
+  });
+});
+
+describe('splitIntoParagraphs', () => {
+  it('keeps the exact separators and marks page ends', () => {
+    const text = `one\n\ntwo  \n \n three${PAGE_BREAK}four`;
+    const paragraphs = splitIntoParagraphs(text);
+    expect(paragraphs.map(paragraph => paragraph.text)).toEqual(['one', 'two', 'three', 'four']);
+    expect(paragraphs.map(paragraph => paragraph.pageEnd)).toEqual([false, false, true, false]);
+    expect(paragraphs.map(paragraph => paragraph.text + paragraph.separator).join('')).toBe(text);
+  });
+
+  it('folds leading blank lines into nothing and trailing ones into the last separator', () => {
+    const paragraphs = splitIntoParagraphs('one\n\n\n\n');
+    expect(paragraphs).toEqual([{ text: 'one', separator: '\n\n\n\n', pageEnd: false }]);
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('packs paragraphs into chunks within the budget', () => {
+    const text = ['aaaa aaaa', 'bbbb bbbb', 'cccc cccc', 'dddd dddd'].join('\n\n');
+    const chunks = splitIntoChunks(text, 6);
+    expect(chunks.map(chunk => chunk.text)).toEqual(['aaaa aaaa\n\nbbbb bbbb', 'cccc cccc\n\ndddd dddd']);
+    expect(chunks.map(chunk => chunk.index)).toEqual([0, 1]);
+    expect(rejoin(chunks)).toBe(text);
+  });
+
+  it('ends a chunk at a page break once it is half full', () => {
+    const text = `ສະບາຍດີ${PAGE_BREAK}ຂອບໃຈ\n\nລາວ`;
+    const chunks = splitIntoChunks(text, 12);
+    expect(chunks.map(chunk => chunk.text)).toEqual(['ສະບາຍດີ', 'ຂອບໃຈ\n\nລາວ']);
+    expect(rejoin(chunks)).toBe(text);
+  });
+
+  it('splits an oversized paragraph at sentence ends', () => {
+    const text = '第一句话。第二句话。第三句话。';
+    const chunks = splitIntoChunks(text, 10);
+    expect(chunks.map(chunk => chunk.text)).toEqual(['第一句话。第二句话。', '第三句话。']);
+    expect(rejoin(chunks)).toBe(text);
+  });
+
+  it('cuts a single sentence over budget at a fixed length as a last resort', () => {
+    const text = 'ກ'.repeat(25);
+    const chunks = splitIntoChunks(text, 10);
+    expect(chunks.map(chunk => chunk.text.length)).toEqual([10, 10, 5]);
+    expect(rejoin(chunks)).toBe(text);
+  });
+
+  it('returns nothing for empty text', () => {
+    expect(splitIntoChunks('', 100)).toEqual([]);
+  });
+});
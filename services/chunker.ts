@@ -0,0 +1,134 @@
+// Splits long documents into pieces that fit a model's token budget, keeping the
+// separators so the translated pieces can be put back into the original layout.
+
+/** Separator `parseFileContent` puts between PDF pages. */
+export const PAGE_BREAK = '\f';
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  /** The whitespace that followed this chunk in the source, re-used when stitching. */
+  separator: string;
+}
+
+// Lao, Thai and CJK scripts tokenize to roughly one token per character; everything
+// else averages about four characters per token.
+const DENSE_SCRIPT_REGEX = /[\u0E00-\u0EFF\u3000-\u303F\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]/g;
+
+export const estimateTokens = (text: string): number => {
+  const denseCount = text.match(DENSE_SCRIPT_REGEX)?.length ?? 0;
+  return denseCount + Math.ceil((text.length - denseCount) / 4);
+};
+
+// Split points sit after a sentence end and its trailing whitespace, so no text is lost.
+const SENTENCE_END_REGEX = /(?<=[。！？!?；;]\s*|\.\s+)(?=\S)/u;
+
+// Breaks a paragraph that is too big on its own, first at sentence ends and then, as a
+// last resort, at a fixed character length.
+const splitOversizedParagraph = (paragraph: string, maxTokens: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of paragraph.split(SENTENCE_END_REGEX)) {
+    if (!sentence) continue;
+    if (current && estimateTokens(current + sentence) > maxTokens) {
+      pieces.push(current);
+      current = '';
+    }
+    if (estimateTokens(sentence) <= maxTokens) {
+      current += sentence;
+      continue;
+    }
+    // A single sentence over budget: cut at spaces (Lao separates phrases with them), then at a fixed length.
+    for (const phrase of sentence.split(/(?<=\s)/)) {
+      if (current && estimateTokens(current + phrase) > maxTokens) {
+        pieces.push(current);
+        current = '';
+      }
+      for (let i = 0; i < phrase.length; i += maxTokens) {
+        const cut = phrase.slice(i, i + maxTokens);
+        if (cut.length === maxTokens) {
+          pieces.push(cut);
+        } else {
+          current += cut;
+        }
+      }
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+export interface Paragraph {
+  text: string;
+  separator: string;
+  pageEnd: boolean;
+}
+
+/** Splits the text into paragraphs while remembering the exact separators between them. */
+export const splitIntoParagraphs = (text: string): Paragraph[] => {
+  const units: Paragraph[] = [];
+  const boundary = /\s*\n\s*\n\s*|\s*\f\s*/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      units.push({ text: text.slice(lastIndex, match.index), separator: match[0], pageEnd: match[0].includes(PAGE_BREAK) });
+    } else if (units.length > 0) {
+      units[units.length - 1].separator += match[0];
+    }
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    units.push({ text: text.slice(lastIndex), separator: '', pageEnd: false });
+  }
+  return units;
+};
+
+/**
+ * Packs paragraphs into chunks of at most `maxTokens` estimated tokens. Chunks prefer to
+ * end at page boundaries once they are at least half full, so pages stay together.
+ */
+export const splitIntoChunks = (text: string, maxTokens: number): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  let current = '';
+  let currentTokens = 0;
+
+  // Closes the current chunk, moving its trailing whitespace into the separator.
+  const flush = () => {
+    if (!current) return;
+    const separator = current.match(/\s*$/)?.[0] ?? '';
+    chunks.push({ index: chunks.length, text: current.slice(0, current.length - separator.length), separator });
+    current = '';
+    currentTokens = 0;
+  };
+
+  for (const unit of splitIntoParagraphs(text)) {
+    const unitTokens = estimateTokens(unit.text);
+
+    if (unitTokens > maxTokens) {
+      flush();
+      const pieces = splitOversizedParagraph(unit.text, maxTokens);
+      pieces.forEach((piece, i) => {
+        const trailing = piece.match(/\s*$/)?.[0] ?? '';
+        const separator = i === pieces.length - 1 ? unit.separator : trailing;
+        chunks.push({ index: chunks.length, text: piece.slice(0, piece.length - trailing.length), separator });
+      });
+      continue;
+    }
+
+    if (current && currentTokens + unitTokens > maxTokens) {
+      flush();
+    }
+
+    current += unit.text + unit.separator;
+    currentTokens += unitTokens;
+
+    if (unit.pageEnd && currentTokens >= maxTokens / 2) {
+      flush();
+    }
+  }
+  flush();
+  return chunks;
+};
@@ -0,0 +1,94 @@
+// Minimal promise wrapper around the app's IndexedDB database. Every object store
+// the app uses is declared here so upgrades happen in one place.
+
+const DB_NAME = 'lao-zh-translator';
+const DB_VERSION = 3;
+
+export type StoreName = 'glossary' | 'translationMemory' | 'history';
+
+const STORES: { name: StoreName; keyPath: string }[] = [
+  { name: 'glossary', keyPath: 'id' },
+  { name: 'translationMemory', keyPath: 'id' },
+  { name: 'history', keyPath: 'id' },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this environment.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store.name)) {
+            db.createObjectStore(store.name, { keyPath: store.keyPath });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getAllRecords = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll()) as Promise<T[]>;
+};
+
+export const getRecord = async <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).get(key)) as Promise<T | undefined>;
+};
+
+export const countRecords = async (storeName: StoreName): Promise<number> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).count());
+};
+
+export const putRecord = async <T>(storeName: StoreName, record: T): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.put(record));
+};
+
+export const putRecords = async <T>(storeName: StoreName, records: T[]): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => {
+    records.forEach(record => store.put(record));
+  });
+};
+
+export const deleteRecord = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const clearStore = async (storeName: StoreName): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentBlock } from '../types';
+import { alignTexts } from './alignment';
+import { describeBlocks, joinBlocks, mapTranslationsToBlocks, normalizeBlockText } from './documentModel';
+
+const block = (id: number, text: string): DocumentBlock => ({ id: `word/document.xml#${id}`, type: 'paragraph', runs: [{ text }], text });
+
+const blocks = [
+  block(0, 'ສັນຍາຊື້ຂາຍ'),
+  block(1, 'ຜູ້ຂາຍຕ້ອງສົ່ງສິນຄ້າ 100 ຊິ້ນ ພາຍໃນ 30 ວັນ. ຜູ້ຊື້ຈ່າຍເງິນ 500 ໂດລາ.'),
+  block(2, 'ລົງນາມວັນທີ 15'),
+];
+
+const translationsOf = (source: string, translation: string) =>
+  mapTranslationsToBlocks(blocks, alignTexts(source, translation, 'lo', 'zh'), 'zh');
+
+describe('mapTranslationsToBlocks', () => {
+  const source = joinBlocks(blocks);
+
+  it('gives each block the translation of its paragraph', () => {
+    const { translations, unmapped } = translationsOf(source, '买卖合同\n\n卖方须在30天内交付100件货物。买方支付500美元。\n\n签署于15日');
+    expect([...translations.values()]).toEqual(['买卖合同', '卖方须在30天内交付100件货物。买方支付500美元。', '签署于15日']);
+    expect(unmapped).toEqual([]);
+  });
+
+  it('splits a translation that merged paragraphs back over the blocks', () => {
+    const { translations, unmapped } = translationsOf(source, '买卖合同\n\n卖方须在30天内交付100件货物。买方支付500美元。签署于15日');
+    expect(translations.get(blocks[1].id)).toBe('卖方须在30天内交付100件货物。买方支付500美元。');
+    expect(translations.get(blocks[2].id)).toBe('签署于15日');
+    expect(unmapped).toEqual([]);
+  });
+
+  it('never lets a sentence the translation merged across paragraphs take both blocks down', () => {
+    const { translations, unmapped } = translationsOf(source, '买卖合同\n\n卖方须在30天内交付100件货物。买方支付500美元，签署于15日。');
+    expect(translations.get(blocks[1].id)).toBe('卖方须在30天内交付100件货物。');
+    expect(translations.get(blocks[2].id)).toBe('买方支付500美元，签署于15日。');
+    expect(unmapped).toEqual([]);
+  });
+
+  it('reports a block whose translation was merged into the next one', () => {
+    const { translations, unmapped } = translationsOf(source, '买卖合同卖方须在30天内交付100件货物。买方支付500美元。\n\n签署于15日。');
+    expect(unmapped).toEqual([blocks[0]]);
+    expect(translations.get(blocks[1].id)).toBe('买卖合同卖方须在30天内交付100件货物。买方支付500美元。');
+    expect(translations.get(blocks[2].id)).toBe('签署于15日。');
+  });
+
+  it('reports blocks the translation dropped instead of writing them empty', () => {
+    const pairs = [
+      { source: 'ສັນຍາຊື້ຂາຍ', target: '买卖合同' },
+      { source: blocks[1].text, target: '' },
+      { source: 'ລົງນາມວັນທີ 15', target: '签署于15日' },
+    ];
+    const { translations, unmapped } = mapTranslationsToBlocks(blocks, pairs, 'zh');
+    expect(translations.has(blocks[1].id)).toBe(false);
+    expect(unmapped).toEqual([blocks[1]]);
+    expect(translations.get(blocks[2].id)).toBe('签署于15日');
+  });
+
+  it('reports blocks whose text no pair covers and carries on after them', () => {
+    const pairs = [
+      { source: 'ສັນຍາຊື້ຂາຍ', target: '买卖合同' },
+      { source: 'ຜູ້ຂາຍຕ້ອງສົ່ງສິນຄ້າ 100 ຊິ້ນ', target: '卖方交付100件' },
+      { source: 'ລົງນາມວັນທີ 15', target: '签署于15日' },
+    ];
+    const { translations, unmapped } = mapTranslationsToBlocks(blocks, pairs, 'zh');
+    expect(unmapped.map(b => b.id)).toEqual([blocks[1].id]);
+    expect(translations.get(blocks[2].id)).toBe('签署于15日');
+  });
+
+  it('joins the sentences of a block with the target language separator', () => {
+    const pairs = [{ source: 'Hello.', target: 'ສະບາຍດີ.' }, { source: 'Thanks.', target: 'ຂອບໃຈ.' }];
+    const { translations } = mapTranslationsToBlocks([block(0, 'Hello. Thanks.')], pairs, 'lo');
+    expect(translations.get('word/document.xml#0')).toBe('ສະບາຍດີ. ຂອບໃຈ.');
+  });
+});
+
+describe('block helpers', () => {
+  it('collapses blank lines inside a block', () => {
+    expect(normalizeBlockText('  line one\n\n\nline two  ')).toBe('line one\nline two');
+  });
+
+  it('describes blocks by their first words', () => {
+    expect(describeBlocks([block(0, 'short'), block(1, 'x'.repeat(40))])).toBe(`"short", "${'x'.repeat(30)}…"`);
+    expect(describeBlocks([block(0, 'a'), block(1, 'b'), block(2, 'c'), block(3, 'd')])).toBe('"a", "b", "c" and 1 more');
+  });
+});
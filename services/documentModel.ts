@@ -0,0 +1,84 @@
+import { DocumentBlock, LanguageCode } from '../types';
+import { AlignedPair } from './alignment';
+import { LANGUAGES } from './languages';
+
+const compact = (text: string) => text.replace(/\s+/g, '');
+
+/**
+ * Tidies the text of one block. Blank lines inside a block would read as a paragraph
+ * break once blocks are joined, so they are collapsed.
+ */
+export const normalizeBlockText = (text: string): string => text.replace(/\n\s*\n/g, '\n').trim();
+
+/** The text to translate for a structured document: one paragraph per block. */
+export const joinBlocks = (blocks: DocumentBlock[]): string => blocks.map(block => block.text).join('\n\n');
+
+// How far ahead to look for the next matching pair after a block could not be matched,
+// e.g. because the alignment merged it with its neighbour.
+const RESYNC_WINDOW = 20;
+
+export interface BlockTranslations {
+  /** The translation of each block, by block id. */
+  translations: Map<string, string>;
+  /** Blocks no translation could be matched to; they keep their source text on export. */
+  unmapped: DocumentBlock[];
+}
+
+/**
+ * Hands the aligned translation back to the blocks it came from. Pairs are consumed in
+ * document order: a block takes the targets of the pairs whose sources make it up, so
+ * both paragraph- and sentence-level alignments fit as long as no pair spans two blocks
+ * (`alignTexts` guarantees that). A block the pairs don't cover exactly, or whose
+ * translation is missing, is reported in `unmapped`.
+ */
+export const mapTranslationsToBlocks = (
+  blocks: DocumentBlock[],
+  pairs: AlignedPair[],
+  targetLanguage: LanguageCode,
+): BlockTranslations => {
+  const translations = new Map<string, string>();
+  const unmapped: DocumentBlock[] = [];
+  const joiner = LANGUAGES[targetLanguage].sentenceSeparator;
+  let cursor = 0;
+
+  // Collects the pairs from `start` on whose sources add up to exactly `expected`.
+  const cover = (expected: string, start: number): { next: number; targets: string[] } | null => {
+    let covered = '';
+    const targets: string[] = [];
+    let next = start;
+    while (next < pairs.length && covered.length < expected.length) {
+      const candidate = covered + compact(pairs[next].source);
+      if (!expected.startsWith(candidate)) break;
+      covered = candidate;
+      if (pairs[next].target) targets.push(pairs[next].target);
+      next++;
+    }
+    return covered === expected ? { next, targets } : null;
+  };
+
+  for (const block of blocks) {
+    const expected = compact(block.text);
+    let match: ReturnType<typeof cover> = null;
+    for (let start = cursor; !match && start < Math.min(pairs.length, cursor + RESYNC_WINDOW); start++) {
+      match = cover(expected, start);
+    }
+    if (match) cursor = match.next;
+    if (match?.targets.length) {
+      translations.set(block.id, match.targets.join(joiner));
+    } else {
+      unmapped.push(block);
+    }
+  }
+  return { translations, unmapped };
+};
+
+const PREVIEW_LENGTH = 30;
+
+/** The first words of up to `limit` blocks, quoted, for warnings about unmapped blocks. */
+export const describeBlocks = (blocks: DocumentBlock[], limit = 3): string => {
+  const previews = blocks.slice(0, limit).map(block => {
+    const text = block.text.replace(/\s+/g, ' ');
+    return `"${text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text}"`;
+  });
+  return blocks.length > limit ? `${previews.join(', ')} and ${blocks.length - limit} more` : previews.join(', ');
+};
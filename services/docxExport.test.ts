@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { buildBilingualDocx, buildTextDocx, translateDocx } from './docxExport';
+import { parseDocx, W_NS } from './docxParser';
+
+const readDocumentXml = async (blob: Blob): Promise<string> =>
+  (await JSZip.loadAsync(await blob.arrayBuffer())).file('word/document.xml')!.async('string');
+
+// A heading, a numbered list item, a table cell and a paragraph with a bold and a plain run.
+const buildSourceDocx = async (): Promise<ArrayBuffer> => {
+  const zip = new JSZip();
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}"><w:body>
+<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>ສັນຍາ</w:t></w:r></w:p>
+<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>ມາດຕາໜຶ່ງ</w:t></w:r></w:p>
+<w:tbl><w:tr><w:tc><w:p><w:r><w:t>ຜູ້ຂາຍ</w:t></w:r></w:p></w:tc></w:tr></w:tbl>
+<w:p><w:r><w:rPr><w:b/></w:rPr><w:t>ລາຄາ</w:t></w:r><w:r><w:t xml:space="preserve"> 500 ໂດລາ</w:t></w:r></w:p>
+</w:body></w:document>`);
+  zip.file('word/styles.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}"><w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style></w:styles>`);
+  return zip.generateAsync({ type: 'arraybuffer' });
+};
+
+describe('translateDocx', () => {
+  it('writes translations into the source and keeps styles, numbering, tables and run formatting', async () => {
+    const source = await buildSourceDocx();
+    const { blocks } = await parseDocx(source);
+    expect(blocks.map(block => [block.type, block.text])).toEqual([
+      ['heading', 'ສັນຍາ'],
+      ['listItem', 'ມາດຕາໜຶ່ງ'],
+      ['tableCell', 'ຜູ້ຂາຍ'],
+      ['paragraph', 'ລາຄາ 500 ໂດລາ'],
+    ]);
+
+    const renderings = ['合同', '第一条', '卖方', '价格500美元'];
+    const translated = await translateDocx(source, new Map(blocks.map((block, i) => [block.id, renderings[i]])));
+    const xml = await readDocumentXml(translated);
+    expect(xml).toContain('<w:pStyle w:val="Heading1"/>');
+    expect(xml).toContain('<w:numId w:val="1"/>');
+    expect(xml).toMatch(/<w:tc><w:p><w:r><w:t[^>]*>卖方<\/w:t><\/w:r><\/w:p><\/w:tc>/);
+    // The paragraph's text moves into its first run, which keeps its bold formatting.
+    expect(xml).toMatch(/<w:r><w:rPr><w:b\/><\/w:rPr><w:t[^>]*>价格500美元<\/w:t><\/w:r><\/w:p>/);
+    expect(xml).not.toContain('ໂດລາ');
+
+    const reparsed = await parseDocx(await translated.arrayBuffer());
+    expect(reparsed.blocks.map(block => [block.type, block.text])).toEqual(blocks.map((block, i) => [block.type, renderings[i]]));
+  });
+
+  it('leaves paragraphs without a translation as they were', async () => {
+    const source = await buildSourceDocx();
+    const { blocks } = await parseDocx(source);
+    const xml = await readDocumentXml(await translateDocx(source, new Map([[blocks[0].id, '合同']])));
+    expect(xml).toContain('合同');
+    expect(xml).toContain('ມາດຕາໜຶ່ງ');
+  });
+
+  it('rejects files that are not DOCX packages', async () => {
+    const zip = new JSZip();
+    zip.file('content.xml', '<office/>');
+    await expect(translateDocx(await zip.generateAsync({ type: 'arraybuffer' }), new Map())).rejects.toThrow(/not a valid DOCX/);
+  });
+});
+
+describe('new documents', () => {
+  it('writes one paragraph per paragraph of the text', async () => {
+    const xml = await readDocumentXml(await buildTextDocx('第一段\n\n第二段 & <更多>'));
+    expect(xml.match(/<w:p>/g)).toHaveLength(2);
+    expect(xml).toContain('第二段 &amp; &lt;更多&gt;');
+  });
+
+  it('lays out the bilingual table with a repeated header row', async () => {
+    const xml = await readDocumentXml(await buildBilingualDocx([{ source: 'ສະບາຍດີ', target: '你好' }], ['原文', '译文']));
+    expect(xml).toContain('<w:tblHeader/>');
+    expect(xml.match(/<w:tr>/g)).toHaveLength(2);
+    expect(xml.indexOf('ສະບາຍດີ')).toBeLessThan(xml.indexOf('你好'));
+  });
+});
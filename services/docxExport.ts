@@ -0,0 +1,178 @@
+// Writes translations as Word documents. A DOCX source is patched in place, block by
+// block, so its styles, headings, list numbering and tables survive; anything else gets
+// a plain document built from scratch.
+
+import JSZip from 'jszip';
+import { AlignedPair } from './alignment';
+import { splitIntoParagraphs } from './chunker';
+import { blockId, getOwnRuns, getParagraphs, listTextParts, W_NS } from './docxParser';
+import { escapeXml, parseXml } from './xml';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+// --- Building a new document ---
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Lao is a complex script in Word, so it takes the `cs` font; Chinese takes `eastAsia`.
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr>
+      <w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Microsoft YaHei" w:cs="Phetsarath OT"/>
+      <w:sz w:val="22"/><w:szCs w:val="22"/>
+    </w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+  <w:style w:type="table" w:styleId="TableGrid">
+    <w:name w:val="Table Grid"/>
+    <w:tblPr><w:tblBorders>
+      <w:top w:val="single" w:sz="4" w:space="0" w:color="auto"/>
+      <w:left w:val="single" w:sz="4" w:space="0" w:color="auto"/>
+      <w:bottom w:val="single" w:sz="4" w:space="0" w:color="auto"/>
+      <w:right w:val="single" w:sz="4" w:space="0" w:color="auto"/>
+      <w:insideH w:val="single" w:sz="4" w:space="0" w:color="auto"/>
+      <w:insideV w:val="single" w:sz="4" w:space="0" w:color="auto"/>
+    </w:tblBorders></w:tblPr>
+  </w:style>
+</w:styles>`;
+
+const runXml = (text: string, bold = false) => {
+  const lines = text.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`);
+  return `<w:r>${bold ? '<w:rPr><w:b/></w:rPr>' : ''}${lines.join('<w:br/>')}</w:r>`;
+};
+
+const paragraphXml = (text: string, bold = false) => `<w:p>${text ? runXml(text, bold) : ''}</w:p>`;
+
+const PAGE_BREAK_XML = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+const packageDocx = async (bodyXml: string): Promise<Blob> => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES_XML);
+  zip.file('_rels/.rels', ROOT_RELS_XML);
+  zip.file('word/_rels/document.xml.rels', DOCUMENT_RELS_XML);
+  zip.file('word/styles.xml', STYLES_XML);
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}"><w:body>${bodyXml}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`);
+  return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE });
+};
+
+/** One paragraph per paragraph of `text`; PDF page breaks become Word page breaks. */
+export const buildTextDocx = (text: string): Promise<Blob> =>
+  packageDocx(
+    splitIntoParagraphs(text)
+      .map(paragraph => paragraphXml(paragraph.text.trim()) + (paragraph.pageEnd ? PAGE_BREAK_XML : ''))
+      .join(''),
+  );
+
+/** A two-column table with the source on the left and its translation on the right. */
+export const buildBilingualDocx = (pairs: AlignedPair[], headings: [string, string]): Promise<Blob> => {
+  const cell = (content: string) => `<w:tc><w:tcPr><w:tcW w:w="4513" w:type="dxa"/></w:tcPr>${content}</w:tc>`;
+  const rows = pairs.map(pair => `<w:tr>${cell(paragraphXml(pair.source))}${cell(paragraphXml(pair.target))}</w:tr>`);
+  return packageDocx(`<w:tbl>
+<w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/><w:tblLayout w:type="fixed"/></w:tblPr>
+<w:tblGrid><w:gridCol w:w="4513"/><w:gridCol w:w="4513"/></w:tblGrid>
+<w:tr><w:trPr><w:tblHeader/></w:trPr>${cell(paragraphXml(headings[0], true))}${cell(paragraphXml(headings[1], true))}</w:tr>
+${rows.join('\n')}
+</w:tbl>${paragraphXml('')}`);
+};
+
+/** A filled form: centred heading lines and title, a titled table per section and closing lines. */
+export interface FormDocument {
+  heading: string[];
+  title: string;
+  sections: { title: string; rows: [string, string, string][] }[];
+  footer: string[];
+}
+
+/** Renders `form` with three columns per table: the field, its source value and its translation. */
+export const buildFormDocx = (form: FormDocument, headings: [string, string, string]): Promise<Blob> => {
+  const widths = [2500, 3263, 3263];
+  const centered = (text: string, bold = false) => `<w:p><w:pPr><w:jc w:val="center"/></w:pPr>${runXml(text, bold)}</w:p>`;
+  const row = (cells: string[], bold = false) =>
+    `<w:tr>${cells.map((text, i) => `<w:tc><w:tcPr><w:tcW w:w="${widths[i]}" w:type="dxa"/></w:tcPr>${paragraphXml(text, bold)}</w:tc>`).join('')}</w:tr>`;
+  const table = (rows: [string, string, string][]) => `<w:tbl>
+<w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/><w:tblLayout w:type="fixed"/></w:tblPr>
+<w:tblGrid>${widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>
+${row(headings, true)}
+${rows.map(cells => row(cells)).join('\n')}
+</w:tbl>`;
+
+  return packageDocx([
+    ...form.heading.map(line => centered(line)),
+    centered(form.title, true),
+    ...form.sections.flatMap(section => [paragraphXml(section.title, true), table(section.rows)]),
+    paragraphXml(''),
+    ...form.footer.map(line => paragraphXml(line)),
+  ].join(''));
+};
+
+// --- Patching a DOCX source ---
+
+// Puts `translation` into the first text run, so it keeps that run's formatting, and
+// drops the text of every other run. Paragraph properties (style, numbering) stay.
+const replaceParagraphText = (paragraph: Element, translation: string) => {
+  const runs = getOwnRuns(paragraph).filter(run => run.getElementsByTagNameNS(W_NS, 't').length > 0);
+  const [first, ...rest] = runs;
+  if (!first) return;
+  rest.forEach(run => run.parentNode?.removeChild(run));
+
+  for (const child of [...first.childNodes]) {
+    if (child.nodeType === 1 && ['t', 'tab', 'br', 'cr'].includes((child as Element).localName)) {
+      first.removeChild(child);
+    }
+  }
+  const doc = paragraph.ownerDocument;
+  translation.split('\n').forEach((line, i) => {
+    if (i > 0) first.appendChild(doc.createElementNS(W_NS, 'w:br'));
+    const t = doc.createElementNS(W_NS, 'w:t');
+    t.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+    t.textContent = line;
+    first.appendChild(t);
+  });
+};
+
+/**
+ * Writes translated blocks into a copy of the source DOCX. `translations` is keyed by
+ * block id as produced by `parseDocx`; paragraphs without a translation keep their text.
+ */
+export const translateDocx = async (source: ArrayBuffer, translations: Map<string, string>): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(source);
+  if (!zip.file('word/document.xml')) {
+    throw new Error('The source file is not a valid DOCX document.');
+  }
+
+  for (const part of listTextParts(zip)) {
+    const doc = parseXml(await zip.file(part)!.async('string'));
+    let changed = false;
+    getParagraphs(doc).forEach((paragraph, index) => {
+      const translation = translations.get(blockId(part, index));
+      if (translation === undefined) return;
+      replaceParagraphText(paragraph, translation);
+      changed = true;
+    });
+    if (changed) {
+      zip.file(part, new XMLSerializer().serializeToString(doc));
+    }
+  }
+  return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE });
+};
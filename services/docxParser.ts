@@ -0,0 +1,203 @@
+// Reads a DOCX file into blocks: one per non-empty paragraph of the body, tables,
+// headers, footers and footnotes, with enough structure (style, heading and list
+// level, table coordinates, run formatting) for an exporter to rebuild the layout.
+
+import JSZip from 'jszip';
+import { DocumentBlock, DocumentBlockType, ParsedDocument, TextRun } from '../types';
+import { joinBlocks, normalizeBlockText } from './documentModel';
+import { convertLegacyLao, isLegacyLaoFont, legacyFontConversions } from './laoLegacy';
+import { parseXml } from './xml';
+
+export const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const PART_TYPES: { pattern: RegExp; type: DocumentBlockType; order: number }[] = [
+  { pattern: /^word\/header\d*\.xml$/, type: 'header', order: 0 },
+  { pattern: /^word\/document\.xml$/, type: 'paragraph', order: 1 },
+  { pattern: /^word\/(footnotes|endnotes)\.xml$/, type: 'footnote', order: 2 },
+  { pattern: /^word\/footer\d*\.xml$/, type: 'footer', order: 3 },
+];
+
+const partType = (path: string) => PART_TYPES.find(part => part.pattern.test(path));
+
+/** The parts of the package that hold text, in reading order. */
+export const listTextParts = (zip: JSZip): string[] =>
+  Object.keys(zip.files)
+    .filter(path => partType(path))
+    .sort((a, b) => partType(a)!.order - partType(b)!.order || a.localeCompare(b, undefined, { numeric: true }));
+
+export const blockId = (part: string, paragraphIndex: number) => `${part}#${paragraphIndex}`;
+
+const isW = (node: Node | null, localName: string): node is Element =>
+  !!node && node.nodeType === 1 && (node as Element).namespaceURI === W_NS && (node as Element).localName === localName;
+
+const closest = (node: Node, localName: string): Element | null => {
+  for (let current = node.parentNode; current; current = current.parentNode) {
+    if (isW(current, localName)) return current;
+  }
+  return null;
+};
+
+const childrenNamed = (parent: Element, localName: string): Element[] =>
+  [...parent.childNodes].filter((child): child is Element => isW(child, localName));
+
+/** Every paragraph of a part in document order, including those in tables and text boxes. */
+export const getParagraphs = (doc: Document): Element[] => [...doc.getElementsByTagNameNS(W_NS, 'p')];
+
+/** The runs that belong to `paragraph` itself rather than to a text box nested inside it. */
+export const getOwnRuns = (paragraph: Element): Element[] =>
+  [...paragraph.getElementsByTagNameNS(W_NS, 'r')].filter(run => closest(run, 'p') === paragraph);
+
+const attr = (element: Element | undefined, name: string) => element?.getAttributeNS(W_NS, name) ?? element?.getAttribute(`w:${name}`) ?? null;
+
+// `<w:b/>` and `<w:b w:val="true"/>` switch formatting on; `w:val="0"` or `"false"` off.
+const isOn = (properties: Element | undefined, localName: string) => {
+  const element = properties && childrenNamed(properties, localName)[0];
+  if (!element) return false;
+  const value = attr(element, 'val');
+  return value === null || !['0', 'false', 'none'].includes(value);
+};
+
+// Legacy Lao text is ASCII, so the `ascii` font is the one it was typed in.
+const runFont = (properties: Element | undefined): string | undefined => {
+  const fonts = properties && childrenNamed(properties, 'rFonts')[0];
+  return attr(fonts, 'ascii') ?? attr(fonts, 'hAnsi') ?? undefined;
+};
+
+const readRun = (run: Element, paragraphFont: string | undefined): TextRun => {
+  let text = '';
+  for (const child of run.childNodes) {
+    if (isW(child, 't')) text += child.textContent ?? '';
+    else if (isW(child, 'tab')) text += '\t';
+    else if (isW(child, 'noBreakHyphen')) text += '-';
+    else if ((isW(child, 'br') && attr(child, 'type') !== 'page') || isW(child, 'cr')) text += '\n';
+  }
+  const properties = childrenNamed(run, 'rPr')[0];
+  const font = runFont(properties) ?? paragraphFont;
+  const formatting: TextRun = { text };
+  if (font) formatting.font = font;
+  if (font && isLegacyLaoFont(font)) formatting.text = convertLegacyLao(text);
+  if (isOn(properties, 'b')) formatting.bold = true;
+  if (isOn(properties, 'i')) formatting.italic = true;
+  if (isOn(properties, 'u')) formatting.underline = true;
+  return formatting;
+};
+
+interface StyleInfo {
+  name: string;
+  outlineLevel?: number;
+  font?: string;
+  basedOn?: string;
+}
+
+interface Styles {
+  byId: Map<string, StyleInfo>;
+  /** The document's default font, from `w:docDefaults`. */
+  defaultFont?: string;
+}
+
+const readStyles = (doc: Document | null): Styles => {
+  const byId = new Map<string, StyleInfo>();
+  if (!doc) return { byId };
+  for (const style of doc.getElementsByTagNameNS(W_NS, 'style')) {
+    const id = attr(style, 'styleId');
+    if (!id) continue;
+    const name = attr(childrenNamed(style, 'name')[0], 'val') ?? id;
+    const outline = attr(style.getElementsByTagNameNS(W_NS, 'outlineLvl')[0], 'val');
+    byId.set(id, {
+      name,
+      outlineLevel: outline === null ? undefined : Number(outline),
+      font: runFont(childrenNamed(style, 'rPr')[0]),
+      basedOn: attr(childrenNamed(style, 'basedOn')[0], 'val') ?? undefined,
+    });
+  }
+  const defaults = doc.getElementsByTagNameNS(W_NS, 'rPrDefault')[0];
+  return { byId, defaultFont: runFont(defaults && childrenNamed(defaults, 'rPr')[0]) };
+};
+
+// Follows `basedOn` up the style hierarchy; the depth limit guards against cycles.
+const styleFont = (styles: Styles, styleId: string | null): string | undefined => {
+  let style = styleId ? styles.byId.get(styleId) : undefined;
+  for (let depth = 0; style && depth < 10; depth++) {
+    if (style.font) return style.font;
+    style = style.basedOn ? styles.byId.get(style.basedOn) : undefined;
+  }
+  return styles.defaultFont;
+};
+
+// Heading levels come from the style name ("heading 2"), which Word keeps in English even
+// in localized documents, or from an outline level on the style or the paragraph.
+const headingLevel = (style: StyleInfo | undefined, properties: Element | undefined): number | undefined => {
+  const byName = style?.name.match(/^heading\s*(\d)$/i);
+  if (byName) return Number(byName[1]);
+  if (style?.name.toLowerCase() === 'title') return 1;
+  const outline = attr(properties?.getElementsByTagNameNS(W_NS, 'outlineLvl')[0], 'val') ?? style?.outlineLevel;
+  const level = outline === undefined || outline === null ? NaN : Number(outline);
+  return level >= 0 && level < 9 ? level + 1 : undefined;
+};
+
+const tablePosition = (paragraph: Element, tables: Element[]): DocumentBlock['table'] => {
+  const cell = closest(paragraph, 'tc');
+  const row = cell && closest(cell, 'tr');
+  const table = row && closest(row, 'tbl');
+  if (!cell || !row || !table) return undefined;
+  // Cells merged horizontally span several grid columns.
+  let column = 0;
+  for (const sibling of childrenNamed(row, 'tc')) {
+    if (sibling === cell) break;
+    const span = attr(sibling.getElementsByTagNameNS(W_NS, 'gridSpan')[0], 'val');
+    column += span ? Number(span) : 1;
+  }
+  return { table: tables.indexOf(table), row: childrenNamed(table, 'tr').indexOf(row), column };
+};
+
+const readPart = (part: string, doc: Document, styles: Styles): DocumentBlock[] => {
+  const type = partType(part)!.type;
+  const tables = [...doc.getElementsByTagNameNS(W_NS, 'tbl')];
+  const blocks: DocumentBlock[] = [];
+
+  getParagraphs(doc).forEach((paragraph, index) => {
+    const properties = childrenNamed(paragraph, 'pPr')[0];
+    const styleId = attr(properties && childrenNamed(properties, 'pStyle')[0], 'val');
+    const style = styleId ? styles.byId.get(styleId) : undefined;
+    const paragraphFont = styleFont(styles, styleId);
+
+    const runs = getOwnRuns(paragraph).map(run => readRun(run, paragraphFont)).filter(run => run.text);
+    const text = normalizeBlockText(runs.map(run => run.text).join(''));
+    if (!text) return;
+
+    const numbering = properties && childrenNamed(properties, 'numPr')[0];
+    const table = tablePosition(paragraph, tables);
+    const heading = type === 'paragraph' ? headingLevel(style, properties) : undefined;
+    const listLevel = numbering ? Number(attr(childrenNamed(numbering, 'ilvl')[0], 'val') ?? 0) : undefined;
+
+    const block: DocumentBlock = {
+      id: blockId(part, index),
+      type: type !== 'paragraph' ? type : heading ? 'heading' : numbering ? 'listItem' : table ? 'tableCell' : 'paragraph',
+      runs,
+      text,
+    };
+    if (style) block.style = style.name;
+    if (heading) block.level = heading;
+    else if (listLevel !== undefined) block.level = listLevel;
+    if (table) block.table = table;
+    blocks.push(block);
+  });
+  return blocks;
+};
+
+/** Parses a DOCX package. Each block becomes one paragraph of the returned text. */
+export const parseDocx = async (data: ArrayBuffer): Promise<ParsedDocument> => {
+  const zip = await JSZip.loadAsync(data);
+  if (!zip.file('word/document.xml')) {
+    throw new Error('The file is not a valid DOCX document.');
+  }
+  const stylesFile = zip.file('word/styles.xml');
+  const styles = readStyles(stylesFile ? parseXml(await stylesFile.async('string')) : null);
+
+  const blocks: DocumentBlock[] = [];
+  for (const part of listTextParts(zip)) {
+    blocks.push(...readPart(part, parseXml(await zip.file(part)!.async('string')), styles));
+  }
+  const legacyFonts = blocks.flatMap(block => block.runs.map(run => run.font ?? '')).filter(isLegacyLaoFont);
+  return { format: 'docx', text: joinBlocks(blocks), blocks, conversions: legacyFontConversions(legacyFonts) };
+};
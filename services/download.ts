@@ -0,0 +1,12 @@
+/** Saves `content` as a file through a temporary object URL. */
+export const downloadBlob = (content: BlobPart, fileName: string, type: string): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { decodeText } from './encoding';
+
+const fromHex = (hex: string): ArrayBuffer => Uint8Array.from(hex.match(/../g)!, byte => parseInt(byte, 16)).buffer;
+
+const utf16 = (text: string, littleEndian: boolean): ArrayBuffer => {
+  const view = new DataView(new ArrayBuffer(text.length * 2));
+  [...Array(text.length).keys()].forEach(i => view.setUint16(i * 2, text.charCodeAt(i), littleEndian));
+  return view.buffer;
+};
+
+const withBom = (bom: number[], data: ArrayBuffer): ArrayBuffer => Uint8Array.from([...bom, ...new Uint8Array(data)]).buffer;
+
+describe('decodeText', () => {
+  it('follows the byte order mark', () => {
+    expect(decodeText(withBom([0xef, 0xbb, 0xbf], new TextEncoder().encode('ສະບາຍດີ').buffer as ArrayBuffer))).toEqual({ text: 'ສະບາຍດີ', encoding: 'UTF-8' });
+    expect(decodeText(withBom([0xff, 0xfe], utf16('合同', true)))).toEqual({ text: '合同', encoding: 'UTF-16LE' });
+    expect(decodeText(withBom([0xfe, 0xff], utf16('合同', false)))).toEqual({ text: '合同', encoding: 'UTF-16BE' });
+  });
+
+  it('reads valid UTF-8 without a byte order mark as UTF-8', () => {
+    expect(decodeText(new TextEncoder().encode('本合同 ສັນຍາ').buffer as ArrayBuffer)).toEqual({ text: '本合同 ສັນຍາ', encoding: 'UTF-8' });
+  });
+
+  it('spots Latin and Lao UTF-16 by their high bytes', () => {
+    expect(decodeText(utf16('ສະບາຍດີ abc', true))).toEqual({ text: 'ສະບາຍດີ abc', encoding: 'UTF-16LE' });
+    expect(decodeText(utf16('Hello world', false))).toEqual({ text: 'Hello world', encoding: 'UTF-16BE' });
+  });
+
+  it('tells GB18030 from Big5 by how Chinese the result reads', () => {
+    expect(decodeText(fromHex('b1bebacfcdacd3c9bcd7b7bdbacdd2d2b7bdc7a9b6a9a3accbabb7bdcdacd2e2d2d4cfc2ccf5bfeea1a3'))).toEqual({
+      text: '本合同由甲方和乙方签订，双方同意以下条款。',
+      encoding: 'GB18030',
+    });
+    expect(decodeText(fromHex('a5bba658a650a5d1a5d2a4e8a94da441a4e8c3b1ad71a141c2f9a4e8a650b74ea548a455b1f8b4daa143'))).toEqual({
+      text: '本合同由甲方和乙方簽訂，雙方同意以下條款。',
+      encoding: 'Big5',
+    });
+  });
+
+  it('reads Chinese UTF-16 without a byte order mark', () => {
+    expect(decodeText(utf16('本合同由甲方和乙方签订', false))).toEqual({ text: '本合同由甲方和乙方签订', encoding: 'UTF-16BE' });
+  });
+});
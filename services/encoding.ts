@@ -0,0 +1,81 @@
+// Detects the encoding of plain-text uploads. Chinese text files are still often saved
+// as GB18030/GBK or Big5, and Windows tools write UTF-16; decoding those as UTF-8 yields
+// mojibake.
+
+export type TextEncodingName = 'UTF-8' | 'UTF-16LE' | 'UTF-16BE' | 'GB18030' | 'Big5';
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncodingName;
+}
+
+const DECODER_LABELS: Record<TextEncodingName, string> = {
+  'UTF-8': 'utf-8',
+  'UTF-16LE': 'utf-16le',
+  'UTF-16BE': 'utf-16be',
+  GB18030: 'gb18030',
+  Big5: 'big5',
+};
+
+// Frequent characters in simplified and traditional Chinese. A correct decoding hits them
+// constantly; decoding with the wrong legacy code page mostly produces rare characters.
+const COMMON_HANZI = new Set(
+  '的一是不了人我在有他这這中大来來上国國个個到说說们們为為子和你地出道也时時年得就那要下以生会會自着著去之过過家学學对對可里裡后後小么麼心多天而能好都然没沒日于於起还還发發成事只作当當想看文无無开開手十用主行方又如前所本见見经經头頭面公同三已老从從动動两兩长長与與法合同甲乙方条條款协協议議',
+);
+
+const decode = (bytes: Uint8Array, encoding: TextEncodingName) => new TextDecoder(DECODER_LABELS[encoding]).decode(bytes);
+
+const isValidUtf8 = (bytes: Uint8Array) => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Without a BOM, UTF-16 shows up as one byte position that is nearly always the same high
+// byte: 0x00 for Latin text, 0x0E for Lao.
+const guessUtf16 = (bytes: Uint8Array): TextEncodingName | null => {
+  const sample = bytes.subarray(0, 4000);
+  if (sample.length < 4 || sample.length % 2 !== 0) return null;
+  const share = (offset: number) => {
+    let count = 0;
+    for (let i = offset; i < sample.length; i += 2) {
+      if (sample[i] === 0x00 || sample[i] === 0x0e) count++;
+    }
+    return count / (sample.length / 2);
+  };
+  if (share(1) > 0.6) return 'UTF-16LE';
+  if (share(0) > 0.6) return 'UTF-16BE';
+  return null;
+};
+
+const scoreChinese = (text: string) => {
+  let score = 0;
+  for (const char of text) {
+    if (COMMON_HANZI.has(char)) score += 1;
+    else if (char === '\uFFFD') score -= 5;
+  }
+  return score;
+};
+
+/** Decodes a text file, choosing the encoding from its BOM or, failing that, its content. */
+export const decodeText = (data: ArrayBuffer): DecodedText => {
+  const bytes = new Uint8Array(data);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { text: decode(bytes, 'UTF-8'), encoding: 'UTF-8' };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { text: decode(bytes, 'UTF-16LE'), encoding: 'UTF-16LE' };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { text: decode(bytes, 'UTF-16BE'), encoding: 'UTF-16BE' };
+
+  const utf16 = guessUtf16(bytes);
+  if (utf16) return { text: decode(bytes, utf16), encoding: utf16 };
+  if (isValidUtf8(bytes)) return { text: decode(bytes, 'UTF-8'), encoding: 'UTF-8' };
+
+  // Chinese UTF-16 has no telltale high byte, so it competes with the legacy code pages.
+  const candidates = (['GB18030', 'Big5', 'UTF-16LE', 'UTF-16BE'] as const).map(encoding => {
+    const text = decode(bytes, encoding);
+    return { text, encoding, score: scoreChinese(text) };
+  });
+  const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+  return { text: best.text, encoding: best.encoding };
+};
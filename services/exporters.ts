@@ -0,0 +1,101 @@
+// Export formats for a finished translation outside the app, such as the CLI's output
+// files. The app's download button shares the bilingual text layout.
+
+import { DocumentBlock, RedactionEntry, TranslationDirection, TranslationSegment } from '../types';
+import { AlignedPair, alignTexts } from './alignment';
+import { mapTranslationsToBlocks } from './documentModel';
+import { buildTextDocx, translateDocx } from './docxExport';
+import { getFileExtension } from './formats';
+import { directionKey } from './languages';
+import { restorePlaceholders } from './redaction';
+import { stitchSegments } from './translationJob';
+
+export type ExportFormat = 'txt' | 'bilingual' | 'docx' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['txt', 'bilingual', 'docx', 'json'];
+
+export interface TranslationResult {
+  /** The source file, so a DOCX translation can keep its layout; absent for pasted text. */
+  file?: File;
+  blocks: DocumentBlock[];
+  direction: TranslationDirection;
+  segments: TranslationSegment[];
+  redaction: RedactionEntry[];
+}
+
+/** Each segment is aligned on its own, so one merged or split sentence can't shift the rest of the document. */
+export const alignSegments = (
+  segments: TranslationSegment[],
+  direction: TranslationDirection,
+  restore: (text: string) => string = text => text,
+): AlignedPair[] =>
+  segments.flatMap(segment =>
+    alignTexts(restore(segment.source), segment.translation, direction.source, direction.target),
+  );
+
+/** The plain-text bilingual layout: numbered paragraphs with the original above its translation. */
+export const buildBilingualText = (pairs: AlignedPair[]): string =>
+  pairs
+    .map((pair, i) => {
+      const original = pair.source ? `原文：\n${pair.source}` : '原文：\n[...段落缺失...]';
+      const translated = pair.target ? `译文：\n${pair.target}` : '译文：\n[...段落缺失...]';
+      return `--- 段落 ${i + 1} ---\n\n${original}\n\n${translated}`;
+    })
+    .join('\n\n\n');
+
+/** `.txt` for both text layouts, so a bilingual export never overwrites the plain one by name alone. */
+export const getExportFileName = (sourceName: string, direction: TranslationDirection, format: ExportFormat): string => {
+  const dot = sourceName.lastIndexOf('.');
+  const baseName = dot > 0 ? sourceName.slice(0, dot) : sourceName;
+  const suffix = format === 'bilingual' ? '_bilingual' : '';
+  const extension = format === 'bilingual' ? 'txt' : format;
+  return `${baseName}_translated_${direction.target}${suffix}.${extension}`;
+};
+
+export interface ExportedTranslation {
+  blob: Blob;
+  /** Blocks of a DOCX source that no translation could be matched to and kept their source text. */
+  unmapped: DocumentBlock[];
+}
+
+const exported = (blob: Blob): ExportedTranslation => ({ blob, unmapped: [] });
+
+/**
+ * Builds the export file. PII placeholders stay in the translation; the JSON export lists
+ * them by category only, so it can be shared like the translation itself.
+ */
+export const exportTranslation = async (result: TranslationResult, format: ExportFormat): Promise<ExportedTranslation> => {
+  const { file, blocks, direction, segments, redaction } = result;
+  switch (format) {
+    case 'txt':
+      return exported(new Blob([stitchSegments(segments)], { type: 'text/plain;charset=utf-8' }));
+    case 'bilingual':
+      return exported(new Blob([buildBilingualText(alignSegments(segments, direction))], { type: 'text/plain;charset=utf-8' }));
+    case 'docx': {
+      if (file && getFileExtension(file.name) === 'docx' && blocks.length > 0) {
+        // Sources are restored so they match the blocks of the original document.
+        const pairs = alignSegments(segments, direction, text => restorePlaceholders(text, redaction));
+        const { translations, unmapped } = mapTranslationsToBlocks(blocks, pairs, direction.target);
+        return { blob: await translateDocx(await file.arrayBuffer(), translations), unmapped };
+      }
+      return exported(await buildTextDocx(stitchSegments(segments)));
+    }
+    case 'json': {
+      const report = {
+        direction: directionKey(direction),
+        translation: stitchSegments(segments),
+        segments: segments.map(({ index, source, translation, status, fromMemory, passThrough, quality }) => ({
+          index,
+          source,
+          translation,
+          status,
+          ...(fromMemory ? { fromMemory } : {}),
+          ...(passThrough ? { passThrough } : {}),
+          ...(quality ? { quality } : {}),
+        })),
+        redactions: redaction.map(({ placeholder, category }) => ({ placeholder, category })),
+      };
+      return exported(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }));
+    }
+  }
+};
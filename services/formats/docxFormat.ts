@@ -0,0 +1,12 @@
+import { DOCX_MIME_TYPE, translateDocx } from '../docxExport';
+import { parseDocx } from '../docxParser';
+import { FileFormat } from './format';
+
+export const docxFormat: FileFormat = {
+  id: 'docx',
+  label: 'Word',
+  extensions: ['docx'],
+  mimeTypes: [DOCX_MIME_TYPE],
+  parse: async file => parseDocx(await file.arrayBuffer()),
+  write: translateDocx,
+};
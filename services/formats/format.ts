@@ -0,0 +1,31 @@
+import { DocumentFormat, ParsedDocument, TextConversion } from '../../types';
+import { decodeText } from '../encoding';
+
+export interface ParseOptions {
+  /** PDF pages (1-based) to OCR. By default, every page without a text layer is OCR'd. */
+  ocrPages?: number[];
+  onProgress?: (message: string) => void;
+}
+
+/** A file type the app can read and, if it has a writer, write a translation back into. */
+export interface FileFormat {
+  readonly id: DocumentFormat;
+  readonly label: string;
+  /** Lower-case extensions without the dot. */
+  readonly extensions: string[];
+  readonly mimeTypes: string[];
+  parse: (file: File, options: ParseOptions) => Promise<ParsedDocument>;
+  /**
+   * Rebuilds `source` with the translated blocks, keyed by the block ids `parse` produced.
+   * Blocks without a translation keep their source text.
+   */
+  write?: (source: ArrayBuffer, translations: Map<string, string>) => Promise<Blob>;
+}
+
+export const decodeUtf8 = (data: ArrayBuffer): string => new TextDecoder('utf-8').decode(data);
+
+/** Decodes a text file in whatever encoding it came in, noting anything other than UTF-8. */
+export const decodeTextFile = (data: ArrayBuffer): { text: string; conversions: TextConversion[] } => {
+  const { text, encoding } = decodeText(data);
+  return { text, conversions: encoding === 'UTF-8' ? [] : [{ kind: 'encoding', from: encoding }] };
+};
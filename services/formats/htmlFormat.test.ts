@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseHtmlDocument, translateHtml } from './htmlFormat';
+
+const HTML = `<!DOCTYPE html><html><head><title>ສັນຍາ</title><style>p { color: red; }</style></head><body>
+<h2>ມາດຕາ 1</h2>
+<div><p>ຜູ້ຂາຍ   ຕ້ອງ
+ສົ່ງສິນຄ້າ</p><script>var x = 1;</script></div>
+<ul><li>ໜຶ່ງ<ul><li>ສອງ</li></ul></li></ul>
+<table><tr><th>ຊື່</th><td>ລາຄາ</td></tr><tr><td>ເຂົ້າ</td><td>500</td></tr></table>
+</body></html>`;
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('parseHtmlDocument', () => {
+  it('reads the innermost text blocks with their type, level and table position', () => {
+    const { blocks } = parseHtmlDocument(HTML);
+    expect(blocks.map(block => [block.type, block.level, block.text])).toEqual([
+      ['heading', 1, 'ສັນຍາ'],
+      ['heading', 2, 'ມາດຕາ 1'],
+      ['paragraph', undefined, 'ຜູ້ຂາຍ ຕ້ອງ ສົ່ງສິນຄ້າ'],
+      ['listItem', 1, 'ສອງ'],
+      ['tableCell', undefined, 'ຊື່'],
+      ['tableCell', undefined, 'ລາຄາ'],
+      ['tableCell', undefined, 'ເຂົ້າ'],
+      ['tableCell', undefined, '500'],
+    ]);
+    expect(blocks[6].table).toEqual({ table: 0, row: 1, column: 0 });
+  });
+});
+
+describe('translateHtml', () => {
+  it('replaces the text of translated blocks and leaves the rest of the page alone', async () => {
+    const { blocks } = parseHtmlDocument(HTML);
+    const translations = new Map([[blocks[1].id, '第1条'], [blocks[2].id, '卖方必须 <交货>']]);
+    const html = await (await translateHtml(encode(HTML), translations)).text();
+    expect(html.startsWith('<!DOCTYPE html>\n<html>')).toBe(true);
+    expect(html).toContain('<h2>第1条</h2>');
+    expect(html).toContain('<p>卖方必须 &lt;交货&gt;</p><script>var x = 1;</script>');
+    expect(html).toContain('<style>p { color: red; }</style>');
+    expect(html).toContain('<td>ລາຄາ</td>');
+  });
+});
@@ -0,0 +1,78 @@
+// Web pages: the innermost block elements that hold text (headings, paragraphs, list
+// items, table cells, ...) are the blocks. The write-back replaces each block's content
+// with its translation, which drops inline markup such as links and emphasis inside it.
+
+import { DocumentBlock, ParsedDocument } from '../../types';
+import { joinBlocks, normalizeBlockText } from '../documentModel';
+import { decodeUtf8, FileFormat } from './format';
+
+const TEXT_BLOCK_SELECTOR = 'title, h1, h2, h3, h4, h5, h6, p, li, dt, dd, td, th, caption, figcaption, blockquote, pre, div';
+
+const parseHtml = (html: string): Document => new DOMParser().parseFromString(html, 'text/html');
+
+// An element nested inside another block is read on its own, so only leaves are kept.
+// Blocks wrapping scripts or styles are skipped, as rewriting them would drop the code.
+const getTextBlocks = (doc: Document): Element[] =>
+  [...doc.querySelectorAll(TEXT_BLOCK_SELECTOR)].filter(
+    element => !element.querySelector(`${TEXT_BLOCK_SELECTOR}, script, style, template`),
+  );
+
+const elementText = (element: Element): string => {
+  const text = element.textContent ?? '';
+  return element.tagName === 'PRE' ? text : text.replace(/\s+/g, ' ');
+};
+
+const tablePosition = (element: Element, tables: Element[]): DocumentBlock['table'] => {
+  const cell = element.closest('td, th') as HTMLTableCellElement | null;
+  const row = cell?.parentElement as HTMLTableRowElement | null;
+  const table = cell?.closest('table');
+  if (!cell || !row || !table) return undefined;
+  return { table: tables.indexOf(table), row: row.rowIndex, column: cell.cellIndex };
+};
+
+const blockType = (element: Element): Pick<DocumentBlock, 'type' | 'level'> => {
+  const heading = element.tagName.match(/^H([1-6])$/);
+  if (heading) return { type: 'heading', level: Number(heading[1]) };
+  if (element.tagName === 'TITLE') return { type: 'heading', level: 1 };
+  if (element.tagName === 'LI') {
+    let depth = 0;
+    for (let list = element.parentElement?.closest('ul, ol'); list; list = list.parentElement?.closest('ul, ol')) depth++;
+    return { type: 'listItem', level: Math.max(0, depth - 1) };
+  }
+  if (element.closest('td, th')) return { type: 'tableCell' };
+  return { type: 'paragraph' };
+};
+
+export const parseHtmlDocument = (html: string): ParsedDocument => {
+  const doc = parseHtml(html);
+  const tables = [...doc.querySelectorAll('table')];
+  const blocks: DocumentBlock[] = [];
+  getTextBlocks(doc).forEach((element, index) => {
+    const text = normalizeBlockText(elementText(element));
+    if (!text) return;
+    const block: DocumentBlock = { id: `html#${index}`, ...blockType(element), runs: [{ text }], text };
+    const table = tablePosition(element, tables);
+    if (table) block.table = table;
+    blocks.push(block);
+  });
+  return { format: 'html', text: joinBlocks(blocks), blocks };
+};
+
+export const translateHtml = async (source: ArrayBuffer, translations: Map<string, string>): Promise<Blob> => {
+  const doc = parseHtml(decodeUtf8(source));
+  getTextBlocks(doc).forEach((element, index) => {
+    const translation = translations.get(`html#${index}`);
+    if (translation !== undefined) element.textContent = translation;
+  });
+  const doctype = doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>\n` : '';
+  return new Blob([doctype + doc.documentElement.outerHTML], { type: 'text/html;charset=utf-8' });
+};
+
+export const htmlFormat: FileFormat = {
+  id: 'html',
+  label: 'HTML',
+  extensions: ['html', 'htm'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  parse: async file => parseHtmlDocument(decodeUtf8(await file.arrayBuffer())),
+  write: translateHtml,
+};
@@ -0,0 +1,23 @@
+import { recognizeImage } from '../ocr';
+import { extractPdfLayout } from '../pdfLayout';
+import { FileFormat } from './format';
+
+export const imageFormat: FileFormat = {
+  id: 'image',
+  label: 'Image (OCR)',
+  extensions: ['jpg', 'jpeg', 'png'],
+  mimeTypes: ['image/jpeg', 'image/png'],
+  parse: async (file, options) => {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    options.onProgress?.('Running OCR...');
+    const { items, confidence } = await recognizeImage(canvas);
+    const layout = extractPdfLayout([{ width: canvas.width, height: canvas.height, items }]);
+    return { ...layout, format: 'image', pages: [{ page: 1, method: 'ocr', confidence }] };
+  },
+};
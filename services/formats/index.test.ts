@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ACCEPTED_FILE_TYPES, findFileFormat, getFileExtension } from './index';
+
+// pdf.js needs a browser (or a newer Node) to load; only the format's file types matter here.
+vi.mock('./pdfFormat', () => ({
+  pdfFormat: { id: 'pdf', label: 'PDF', extensions: ['pdf'], mimeTypes: ['application/pdf'], parse: vi.fn() },
+}));
+
+describe('findFileFormat', () => {
+  it('picks the format by extension, whatever the case', () => {
+    expect(findFileFormat({ name: 'Report.XLSX', type: '' })?.id).toBe('xlsx');
+    expect(findFileFormat({ name: 'clip.vtt', type: 'application/octet-stream' })?.id).toBe('subtitle');
+    expect(findFileFormat({ name: 'scan.jpeg', type: '' })?.id).toBe('image');
+  });
+
+  it('falls back to the MIME type, ignoring its parameters', () => {
+    expect(findFileFormat({ name: 'page', type: 'text/html; charset=utf-8' })?.id).toBe('html');
+    expect(findFileFormat({ name: 'download', type: 'application/rtf' })?.id).toBe('rtf');
+  });
+
+  it('reads unknown text files as plain text and rejects everything else', () => {
+    expect(findFileFormat({ name: 'notes.log', type: 'text/x-log' })?.id).toBe('text');
+    expect(findFileFormat({ name: 'archive.zip', type: 'application/zip' })).toBeUndefined();
+    expect(findFileFormat({ name: 'README', type: '' })).toBeUndefined();
+  });
+});
+
+describe('file type helpers', () => {
+  it('takes the last extension in lower case', () => {
+    expect(getFileExtension('contract.final.DOCX')).toBe('docx');
+    expect(getFileExtension('Makefile')).toBe('');
+  });
+
+  it('accepts every extension and MIME type of every format', () => {
+    const accepted = ACCEPTED_FILE_TYPES.split(',');
+    expect(accepted).toEqual(expect.arrayContaining(['.pdf', '.pptx', '.srt', '.htm', 'text/vtt', 'application/rtf']));
+  });
+});
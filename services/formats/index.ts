@@ -0,0 +1,49 @@
+import { docxFormat } from './docxFormat';
+import { FileFormat } from './format';
+import { htmlFormat } from './htmlFormat';
+import { imageFormat } from './imageFormat';
+import { odtFormat } from './odtFormat';
+import { pdfFormat } from './pdfFormat';
+import { pptxFormat } from './pptxFormat';
+import { rtfFormat } from './rtfFormat';
+import { subtitleFormat } from './subtitleFormat';
+import { textFormat } from './textFormat';
+import { xlsxFormat } from './xlsxFormat';
+
+export type { FileFormat, ParseOptions } from './format';
+
+export const FILE_FORMATS: FileFormat[] = [
+  pdfFormat,
+  docxFormat,
+  xlsxFormat,
+  pptxFormat,
+  odtFormat,
+  rtfFormat,
+  htmlFormat,
+  subtitleFormat,
+  imageFormat,
+  textFormat,
+];
+
+export const getFileExtension = (fileName: string): string =>
+  fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+
+/**
+ * Finds the format of a file by its extension, then by its MIME type. Unknown `text/*`
+ * files are read as plain text.
+ */
+export const findFileFormat = (file: Pick<File, 'name' | 'type'>): FileFormat | undefined => {
+  const extension = getFileExtension(file.name);
+  const mimeType = file.type.split(';')[0].trim().toLowerCase();
+  return (
+    FILE_FORMATS.find(format => format.extensions.includes(extension)) ??
+    FILE_FORMATS.find(format => mimeType && format.mimeTypes.includes(mimeType)) ??
+    (mimeType.startsWith('text/') ? textFormat : undefined)
+  );
+};
+
+/** The `accept` attribute for file inputs. */
+export const ACCEPTED_FILE_TYPES = FILE_FORMATS.flatMap(format => [
+  ...format.extensions.map(extension => `.${extension}`),
+  ...format.mimeTypes,
+]).join(',');
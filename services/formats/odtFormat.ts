@@ -0,0 +1,145 @@
+// OpenDocument text: every non-empty paragraph and heading of `content.xml` is one block,
+// including list items, table cells and footnotes. Paragraph styles survive the write-back;
+// character formatting (spans) inside a translated paragraph does not.
+
+import JSZip from 'jszip';
+import { DocumentBlock, ParsedDocument } from '../../types';
+import { joinBlocks, normalizeBlockText } from '../documentModel';
+import { parseXml } from '../xml';
+import { FileFormat } from './format';
+
+const TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const CONTENT_PART = 'content.xml';
+
+export const ODT_MIME_TYPE = 'application/vnd.oasis.opendocument.text';
+
+const isElement = (node: Node | null, namespace: string, localName: string): node is Element =>
+  !!node && node.nodeType === 1 && (node as Element).namespaceURI === namespace && (node as Element).localName === localName;
+
+// Content anchored inside a paragraph that is not part of its running text: notes and
+// annotations are read as blocks of their own, frames hold images and text boxes.
+const isEmbedded = (node: Node) =>
+  isElement(node, TEXT_NS, 'note') ||
+  (node.nodeType === 1 && ['annotation', 'frame'].includes((node as Element).localName));
+
+/** Paragraphs and headings in document order, including those nested in notes. */
+const getParagraphs = (doc: Document): Element[] => {
+  const paragraphs: Element[] = [];
+  const visit = (node: Node) => {
+    if (isElement(node, TEXT_NS, 'p') || isElement(node, TEXT_NS, 'h')) paragraphs.push(node);
+    for (const child of node.childNodes) visit(child);
+  };
+  visit(doc.documentElement);
+  return paragraphs;
+};
+
+const ownText = (node: Node): string =>
+  [...node.childNodes]
+    .map(child => {
+      if (child.nodeType === 3) return child.nodeValue ?? '';
+      if (child.nodeType !== 1 || isEmbedded(child)) return '';
+      if (isElement(child, TEXT_NS, 's')) return ' '.repeat(Number((child as Element).getAttributeNS(TEXT_NS, 'c') || 1));
+      if (isElement(child, TEXT_NS, 'tab')) return '\t';
+      if (isElement(child, TEXT_NS, 'line-break')) return '\n';
+      return ownText(child);
+    })
+    .join('');
+
+const ancestors = (node: Node): Element[] => {
+  const result: Element[] = [];
+  for (let current = node.parentNode; current && current.nodeType === 1; current = current.parentNode) {
+    result.push(current as Element);
+  }
+  return result;
+};
+
+const tablePosition = (lineage: Element[], tables: Element[]): DocumentBlock['table'] => {
+  const cell = lineage.find(element => isElement(element, TABLE_NS, 'table-cell'));
+  const row = lineage.find(element => isElement(element, TABLE_NS, 'table-row'));
+  const table = lineage.find(element => isElement(element, TABLE_NS, 'table'));
+  if (!cell || !row || !table) return undefined;
+  const rows = [...table.getElementsByTagNameNS(TABLE_NS, 'table-row')].filter(candidate =>
+    ancestors(candidate).find(element => isElement(element, TABLE_NS, 'table')) === table,
+  );
+  // Covered cells are the hidden halves of merged cells but still take up a column.
+  const cells = [...row.childNodes].filter(
+    node => isElement(node, TABLE_NS, 'table-cell') || isElement(node, TABLE_NS, 'covered-table-cell'),
+  );
+  return { table: tables.indexOf(table), row: rows.indexOf(row), column: cells.indexOf(cell) };
+};
+
+export const parseOdt = async (data: ArrayBuffer): Promise<ParsedDocument> => {
+  const zip = await JSZip.loadAsync(data);
+  const content = zip.file(CONTENT_PART);
+  if (!content) {
+    throw new Error('The file is not a valid ODT document.');
+  }
+  const doc = parseXml(await content.async('string'));
+  const tables = [...doc.getElementsByTagNameNS(TABLE_NS, 'table')];
+  const blocks: DocumentBlock[] = [];
+
+  getParagraphs(doc).forEach((paragraph, index) => {
+    const text = normalizeBlockText(ownText(paragraph));
+    if (!text) return;
+    const lineage = ancestors(paragraph);
+    const listDepth = lineage.filter(element => isElement(element, TEXT_NS, 'list')).length;
+    const table = tablePosition(lineage, tables);
+    const isHeading = isElement(paragraph, TEXT_NS, 'h');
+    const block: DocumentBlock = {
+      id: `${CONTENT_PART}#${index}`,
+      type: lineage.some(element => isElement(element, TEXT_NS, 'note'))
+        ? 'footnote'
+        : isHeading ? 'heading' : listDepth ? 'listItem' : table ? 'tableCell' : 'paragraph',
+      runs: [{ text }],
+      text,
+    };
+    const style = paragraph.getAttributeNS(TEXT_NS, 'style-name');
+    if (style) block.style = style;
+    if (isHeading) block.level = Number(paragraph.getAttributeNS(TEXT_NS, 'outline-level') || 1);
+    else if (listDepth) block.level = listDepth - 1;
+    if (table) block.table = table;
+    blocks.push(block);
+  });
+  return { format: 'odt', text: joinBlocks(blocks), blocks };
+};
+
+// Replaces the running text, keeping notes, frames and annotations where they are.
+const replaceParagraphText = (paragraph: Element, translation: string) => {
+  for (const child of [...paragraph.childNodes]) {
+    if (!isEmbedded(child)) paragraph.removeChild(child);
+  }
+  const doc = paragraph.ownerDocument;
+  const anchor = paragraph.firstChild;
+  translation.split('\n').forEach((line, i) => {
+    if (i > 0) paragraph.insertBefore(doc.createElementNS(TEXT_NS, 'text:line-break'), anchor);
+    paragraph.insertBefore(doc.createTextNode(line), anchor);
+  });
+};
+
+export const translateOdt = async (source: ArrayBuffer, translations: Map<string, string>): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(source);
+  const content = zip.file(CONTENT_PART);
+  if (!content) {
+    throw new Error('The source file is not a valid ODT document.');
+  }
+  const doc = parseXml(await content.async('string'));
+  getParagraphs(doc).forEach((paragraph, index) => {
+    const translation = translations.get(`${CONTENT_PART}#${index}`);
+    if (translation !== undefined) replaceParagraphText(paragraph, translation);
+  });
+  zip.file(CONTENT_PART, new XMLSerializer().serializeToString(doc));
+  // OpenDocument requires the uncompressed `mimetype` entry to come first; JSZip keeps
+  // the entry order of the loaded file, so only the compression needs forcing.
+  zip.file('mimetype', ODT_MIME_TYPE, { compression: 'STORE' });
+  return zip.generateAsync({ type: 'blob', mimeType: ODT_MIME_TYPE });
+};
+
+export const odtFormat: FileFormat = {
+  id: 'odt',
+  label: 'OpenDocument',
+  extensions: ['odt'],
+  mimeTypes: [ODT_MIME_TYPE],
+  parse: async file => parseOdt(await file.arrayBuffer()),
+  write: translateOdt,
+};
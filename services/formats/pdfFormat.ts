@@ -0,0 +1,83 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import workerSrc from 'pdfjs-dist/build/pdf.worker.mjs?url';
+import { PageExtraction } from '../../types';
+import { convertLegacyLao, isLegacyLaoFont, legacyFontConversions } from '../laoLegacy';
+import { recognizeImage } from '../ocr';
+import { extractPdfLayout, PdfPageText } from '../pdfLayout';
+import { FileFormat } from './format';
+
+// The worker is bundled as an asset, so PDFs open without a network connection.
+pdfjsLib.GlobalWorkerOptions.workerSrc = workerSrc;
+
+// Pages are rendered at 3× (216 dpi) for OCR; Tesseract struggles with small glyphs.
+const OCR_SCALE = 3;
+
+// Text items only carry an internal font id; the real font name is known once the page's
+// operator list has loaded the fonts.
+const getFontNames = async (page: pdfjsLib.PDFPageProxy, fontIds: Set<string>): Promise<Map<string, string>> => {
+  await page.getOperatorList();
+  const names = new Map<string, string>();
+  for (const id of fontIds) {
+    if (page.commonObjs.has(id)) names.set(id, page.commonObjs.get(id)?.name ?? '');
+  }
+  return names;
+};
+
+const renderPdfPage = async (page: pdfjsLib.PDFPageProxy): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale: OCR_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+  return canvas;
+};
+
+export const pdfFormat: FileFormat = {
+  id: 'pdf',
+  label: 'PDF',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+  parse: async (file, options) => {
+    const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    const ocrPages = options.ocrPages ? new Set(options.ocrPages) : null;
+    const pages: PdfPageText[] = [];
+    const extraction: PageExtraction[] = [];
+    const legacyFonts: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const textContent = await page.getTextContent();
+      // The `item` can be `TextItem` or `TextMarkedContent`. `TextItem` has `str`.
+      const textItems = textContent.items.flatMap(item => ('str' in item ? [item] : []));
+      const fontNames = await getFontNames(page, new Set(textItems.map(item => item.fontName)));
+      const items = textItems.map(item => {
+        const fontName = fontNames.get(item.fontName) ?? '';
+        const isLegacy = isLegacyLaoFont(fontName);
+        if (isLegacy) legacyFonts.push(fontName);
+        return {
+          text: isLegacy ? convertLegacyLao(item.str) : item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          // The vertical scale of the text matrix is the rendered font size.
+          fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height,
+        };
+      });
+
+      // Scanned pages carry no text layer, only an image.
+      const hasTextLayer = items.some(item => item.text.trim());
+      if (ocrPages ? ocrPages.has(i) : !hasTextLayer) {
+        options.onProgress?.(`Running OCR on page ${i} of ${pdf.numPages}...`);
+        const result = await recognizeImage(await renderPdfPage(page), OCR_SCALE);
+        pages.push({ width, height, items: result.items });
+        extraction.push({ page: i, method: 'ocr', confidence: result.confidence });
+      } else {
+        pages.push({ width, height, items });
+        extraction.push({ page: i, method: 'text' });
+      }
+    }
+    // Subset prefixes differ between pages, so fonts are reported by family.
+    const families = legacyFonts.map(name => name.replace(/^[A-Z]{6}\+/, ''));
+    return { ...extractPdfLayout(pages), pages: extraction, conversions: legacyFontConversions(families) };
+  },
+};
@@ -0,0 +1,168 @@
+// PowerPoint decks: every non-empty paragraph of every slide (text boxes, placeholders
+// and table cells) is one block, numbered by slide. Speaker notes are not translated.
+
+import JSZip from 'jszip';
+import { DocumentBlock, ParsedDocument } from '../../types';
+import { joinBlocks, normalizeBlockText } from '../documentModel';
+import { parseXml } from '../xml';
+import { FileFormat } from './format';
+
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const readXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const file = zip.file(path);
+  return file ? parseXml(await file.async('string')) : null;
+};
+
+/** Slide parts in presentation order, which need not follow their file names. */
+const listSlides = async (zip: JSZip): Promise<string[]> => {
+  const presentation = await readXml(zip, 'ppt/presentation.xml');
+  const rels = await readXml(zip, 'ppt/_rels/presentation.xml.rels');
+  if (!presentation || !rels) {
+    throw new Error('The file is not a valid PPTX presentation.');
+  }
+  const targets = new Map(
+    [...rels.getElementsByTagName('Relationship')].map(rel => [rel.getAttribute('Id'), rel.getAttribute('Target') ?? '']),
+  );
+  return [...presentation.getElementsByTagNameNS(P_NS, 'sldId')].flatMap(slide => {
+    const target = targets.get(slide.getAttributeNS(R_NS, 'id') ?? slide.getAttribute('r:id'));
+    if (!target) return [];
+    return [target.startsWith('/') ? target.slice(1) : `ppt/${target}`];
+  });
+};
+
+const isA = (node: Node, localName: string): node is Element =>
+  node.nodeType === 1 && (node as Element).namespaceURI === A_NS && (node as Element).localName === localName;
+
+const closest = (node: Node, namespace: string, localName: string): Element | null => {
+  for (let current = node.parentNode; current; current = current.parentNode) {
+    if (current.nodeType === 1 && (current as Element).namespaceURI === namespace && (current as Element).localName === localName) {
+      return current as Element;
+    }
+  }
+  return null;
+};
+
+const paragraphText = (paragraph: Element): string =>
+  [...paragraph.childNodes]
+    .map(node => {
+      if (isA(node, 'r') || isA(node, 'fld')) {
+        return [...node.childNodes].filter(t => isA(t, 't')).map(t => t.textContent ?? '').join('');
+      }
+      return isA(node, 'br') ? '\n' : '';
+    })
+    .join('');
+
+// Title placeholders become headings, so the layout survives a plain-text round trip too.
+const placeholderLevel = (paragraph: Element): number | undefined => {
+  const shape = closest(paragraph, P_NS, 'sp');
+  const placeholder = shape?.getElementsByTagNameNS(P_NS, 'ph')[0];
+  const type = placeholder?.getAttribute('type');
+  if (type === 'title' || type === 'ctrTitle') return 1;
+  if (type === 'subTitle') return 2;
+  return undefined;
+};
+
+const tablePosition = (paragraph: Element, tables: Element[]): DocumentBlock['table'] => {
+  const cell = closest(paragraph, A_NS, 'tc');
+  const row = cell && closest(cell, A_NS, 'tr');
+  const table = row && closest(row, A_NS, 'tbl');
+  if (!cell || !row || !table) return undefined;
+  const rows = [...table.childNodes].filter(node => isA(node, 'tr'));
+  const cells = [...row.childNodes].filter(node => isA(node, 'tc'));
+  return { table: tables.indexOf(table), row: rows.indexOf(row), column: cells.indexOf(cell) };
+};
+
+export const parsePptx = async (data: ArrayBuffer): Promise<ParsedDocument> => {
+  const zip = await JSZip.loadAsync(data);
+  const slides = await listSlides(zip);
+  const blocks: DocumentBlock[] = [];
+
+  for (const [slideIndex, path] of slides.entries()) {
+    const doc = await readXml(zip, path);
+    if (!doc) continue;
+    const tables = [...doc.getElementsByTagNameNS(A_NS, 'tbl')];
+    [...doc.getElementsByTagNameNS(A_NS, 'p')].forEach((paragraph, index) => {
+      const text = normalizeBlockText(paragraphText(paragraph));
+      if (!text) return;
+      const level = placeholderLevel(paragraph);
+      const table = tablePosition(paragraph, tables);
+      const block: DocumentBlock = {
+        id: `${path}#${index}`,
+        type: level ? 'heading' : table ? 'tableCell' : 'paragraph',
+        page: slideIndex + 1,
+        runs: [{ text }],
+        text,
+      };
+      if (level) block.level = level;
+      if (table) block.table = table;
+      blocks.push(block);
+    });
+  }
+  return { format: 'pptx', text: joinBlocks(blocks), blocks, pageCount: slides.length };
+};
+
+// Keeps the first run and its formatting, drops the others, and rebuilds line breaks as
+// `<a:br/>` followed by a copy of that run.
+const replaceParagraphText = (paragraph: Element, translation: string) => {
+  const first = [...paragraph.childNodes].find((node): node is Element => isA(node, 'r'));
+  if (!first) return;
+  for (const node of [...paragraph.childNodes]) {
+    if (node !== first && (isA(node, 'r') || isA(node, 'fld') || isA(node, 'br'))) {
+      paragraph.removeChild(node);
+    }
+  }
+
+  const doc = paragraph.ownerDocument;
+  const setText = (run: Element, text: string) => {
+    [...run.childNodes].filter(node => isA(node, 't')).forEach(node => run.removeChild(node));
+    const t = doc.createElementNS(A_NS, 'a:t');
+    t.textContent = text;
+    run.appendChild(t);
+  };
+
+  const [firstLine, ...otherLines] = translation.split('\n');
+  const template = first.cloneNode(true) as Element;
+  setText(first, firstLine);
+  let previous: Element = first;
+  for (const line of otherLines) {
+    const br = doc.createElementNS(A_NS, 'a:br');
+    const run = template.cloneNode(true) as Element;
+    setText(run, line);
+    paragraph.insertBefore(br, previous.nextSibling);
+    paragraph.insertBefore(run, br.nextSibling);
+    previous = run;
+  }
+};
+
+export const translatePptx = async (source: ArrayBuffer, translations: Map<string, string>): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(source);
+  for (const path of await listSlides(zip)) {
+    const doc = await readXml(zip, path);
+    if (!doc) continue;
+    let changed = false;
+    [...doc.getElementsByTagNameNS(A_NS, 'p')].forEach((paragraph, index) => {
+      const translation = translations.get(`${path}#${index}`);
+      if (translation === undefined) return;
+      replaceParagraphText(paragraph, translation);
+      changed = true;
+    });
+    if (changed) {
+      zip.file(path, new XMLSerializer().serializeToString(doc));
+    }
+  }
+  return zip.generateAsync({ type: 'blob', mimeType: PPTX_MIME_TYPE });
+};
+
+export const pptxFormat: FileFormat = {
+  id: 'pptx',
+  label: 'PowerPoint',
+  extensions: ['pptx'],
+  mimeTypes: [PPTX_MIME_TYPE],
+  parse: async file => parsePptx(await file.arrayBuffer()),
+  write: translatePptx,
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { buildRtf, parseRtf, readRtfParagraphs, translateRtf } from './rtfFormat';
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('readRtfParagraphs', () => {
+  it('reads body text and skips font tables, headers and field instructions', () => {
+    const rtf = '{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}{\\header Page}\\pard Hello {\\b world}\\par{\\field{\\*\\fldinst HYPERLINK}{\\fldrslt link}}\\par}';
+    expect(readRtfParagraphs(rtf)).toEqual(['Hello world', 'link', '']);
+  });
+
+  it('decodes Unicode escapes with their fallback and code page bytes', () => {
+    expect(readRtfParagraphs('{\\rtf1\\uc1 \\u3754?\\u3762?\\par}')[0]).toBe('ສາ');
+    expect(readRtfParagraphs("{\\rtf1\\ansi\\ansicpg936 \\'c4\\'e3\\'ba\\'c3\\par}")[0]).toBe('你好');
+  });
+});
+
+describe('RTF round trip', () => {
+  it('writes the translation as a new document with the same paragraphs', async () => {
+    const source = encode(buildRtf(['ສະບາຍດີ {1}', 'ຂອບໃຈ']));
+    const { blocks } = await parseRtf(source);
+    expect(blocks.map(block => block.text)).toEqual(['ສະບາຍດີ {1}', 'ຂອບໃຈ']);
+
+    const translated = await translateRtf(source, new Map([[blocks[0].id, '你好 {1}\n再见 😀']]));
+    const reread = await parseRtf(await translated.arrayBuffer());
+    expect(reread.blocks.map(block => block.text)).toEqual(['你好 {1}\n再见 😀', 'ຂອບໃຈ']);
+  });
+
+  it('rejects files that are not RTF', async () => {
+    await expect(parseRtf(encode('plain text'))).rejects.toThrow(/not a valid RTF/);
+  });
+});
@@ -0,0 +1,173 @@
+// Rich Text Format: the text of the document body is read paragraph by paragraph
+// (`\par`, and `\cell` for table cells), one block each. RTF can't be patched reliably
+// in place, so the translation is written as a new RTF document with the same paragraphs.
+
+import { DocumentBlock, ParsedDocument } from '../../types';
+import { joinBlocks, normalizeBlockText } from '../documentModel';
+import { FileFormat } from './format';
+
+export const RTF_MIME_TYPE = 'application/rtf';
+
+// Destinations that hold no body text.
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata', 'colorschememapping',
+  'latentstyles', 'datastore', 'xmlnstbl', 'listtable', 'listoverridetable', 'rsidtbl', 'generator',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'fldinst',
+]);
+
+// Code pages of `\ansicpg` that TextDecoder knows under another name.
+const CODE_PAGE_ENCODINGS: Record<number, string> = { 936: 'gbk', 950: 'big5', 874: 'windows-874' };
+
+const decoderFor = (codePage: number): TextDecoder => {
+  try {
+    return new TextDecoder(CODE_PAGE_ENCODINGS[codePage] ?? `windows-${codePage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+};
+
+const TOKEN_REGEX = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|([^\\{}\r\n]+)/giy;
+
+/** Splits RTF into the plain text of its paragraphs. */
+export const readRtfParagraphs = (rtf: string): string[] => {
+  const paragraphs: string[] = [];
+  let current = '';
+  let bytes: number[] = [];
+  let decoder = decoderFor(1252);
+  // Characters still to skip after a `\u` escape: its ANSI fallback.
+  let fallback = 0;
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let group = { skip: false, unicodeSkip: 1 };
+  let destinationPending = false;
+
+  const flushBytes = () => {
+    if (bytes.length) current += decoder.decode(new Uint8Array(bytes));
+    bytes = [];
+  };
+  const append = (text: string) => {
+    if (group.skip) return;
+    flushBytes();
+    current += text;
+  };
+  const endParagraph = () => {
+    if (group.skip) return;
+    flushBytes();
+    paragraphs.push(current);
+    current = '';
+  };
+
+  TOKEN_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_REGEX.exec(rtf))) {
+    const [, word, parameter, hex, symbol, brace, text] = match;
+    const atGroupStart = destinationPending;
+    destinationPending = false;
+
+    if (fallback > 0 && (hex || text !== undefined)) {
+      if (hex) {
+        fallback--;
+        continue;
+      }
+      if (text) {
+        const skipped = Math.min(fallback, text.length);
+        fallback -= skipped;
+        if (text.length > skipped) append(text.slice(skipped));
+        continue;
+      }
+    }
+
+    if (brace === '{') {
+      stack.push(group);
+      group = { ...group };
+      destinationPending = true;
+    } else if (brace === '}') {
+      flushBytes();
+      group = stack.pop() ?? group;
+    } else if (hex) {
+      if (!group.skip) bytes.push(parseInt(hex, 16));
+    } else if (symbol) {
+      if (symbol === '*') group.skip = true;
+      else if (symbol === '~') append(' ');
+      else if (symbol === '_') append('-');
+      else if (['\\', '{', '}'].includes(symbol)) append(symbol);
+      else if (symbol === '\n' || symbol === '\r') endParagraph();
+    } else if (word) {
+      const value = parameter === undefined ? undefined : Number(parameter);
+      if (atGroupStart && SKIPPED_DESTINATIONS.has(word)) group.skip = true;
+      else if (word === 'ansicpg' && value) decoder = decoderFor(value);
+      else if (word === 'uc' && value !== undefined) group.unicodeSkip = value;
+      else if (word === 'u' && value !== undefined) {
+        append(String.fromCharCode(value < 0 ? value + 65536 : value));
+        fallback = group.unicodeSkip;
+      } else if (word === 'par' || word === 'cell' || word === 'page' || word === 'sect') endParagraph();
+      else if (word === 'line') append('\n');
+      else if (word === 'tab') append('\t');
+      else if (word === 'emdash') append('—');
+      else if (word === 'endash') append('–');
+      else if (word === 'lquote') append('‘');
+      else if (word === 'rquote') append('’');
+      else if (word === 'ldblquote') append('“');
+      else if (word === 'rdblquote') append('”');
+      else if (word === 'bullet') append('•');
+    } else if (text) {
+      append(text);
+    }
+  }
+  endParagraph();
+  return paragraphs;
+};
+
+export const parseRtf = async (data: ArrayBuffer): Promise<ParsedDocument> => {
+  // RTF is 7-bit; anything else is escaped and decoded by `readRtfParagraphs`.
+  const rtf = new TextDecoder('latin1').decode(data);
+  if (!rtf.startsWith('{\\rtf')) {
+    throw new Error('The file is not a valid RTF document.');
+  }
+  const blocks: DocumentBlock[] = [];
+  readRtfParagraphs(rtf).forEach((paragraph, index) => {
+    const text = normalizeBlockText(paragraph);
+    if (text) blocks.push({ id: `rtf#${index}`, type: 'paragraph', runs: [{ text }], text });
+  });
+  return { format: 'rtf', text: joinBlocks(blocks), blocks };
+};
+
+const escapeRtf = (text: string): string =>
+  [...text]
+    .map(char => {
+      if (char === '\\' || char === '{' || char === '}') return `\\${char}`;
+      if (char === '\n') return '\\line ';
+      if (char === '\t') return '\\tab ';
+      // Astral characters are written as two `\u` escapes, one per UTF-16 unit.
+      return [...Array(char.length).keys()]
+        .map(i => {
+          const code = char.charCodeAt(i);
+          return code < 128 ? char[i] : `\\u${code > 32767 ? code - 65536 : code}?`;
+        })
+        .join('');
+    })
+    .join('');
+
+/** A new RTF document with one paragraph per entry. */
+export const buildRtf = (paragraphs: string[]): string =>
+  [
+    '{\\rtf1\\ansi\\ansicpg1252\\deff0',
+    '{\\fonttbl{\\f0\\fnil\\fcharset0 Calibri;}{\\f1\\fnil\\fcharset222 Phetsarath OT;}{\\f2\\fnil\\fcharset134 Microsoft YaHei;}}',
+    '\\uc1\\pard\\f0\\fs22',
+    ...paragraphs.map(paragraph => `${escapeRtf(paragraph)}\\par`),
+    '}',
+  ].join('\n');
+
+export const translateRtf = async (source: ArrayBuffer, translations: Map<string, string>): Promise<Blob> => {
+  const { blocks } = await parseRtf(source);
+  const rtf = buildRtf(blocks.map(block => translations.get(block.id) ?? block.text));
+  return new Blob([rtf], { type: RTF_MIME_TYPE });
+};
+
+export const rtfFormat: FileFormat = {
+  id: 'rtf',
+  label: 'Rich Text',
+  extensions: ['rtf'],
+  mimeTypes: [RTF_MIME_TYPE, 'text/rtf'],
+  parse: async file => parseRtf(await file.arrayBuffer()),
+  write: translateRtf,
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseSubtitles, translateSubtitles } from './subtitleFormat';
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+const SRT = '1\r\n00:00:01,000 --> 00:00:03,500\r\n<i>ສະບາຍດີ</i>\r\n\r\n2\r\n00:00:04,000 --> 00:00:06,000\r\n{\\an8}ຂອບໃຈ\r\nຫຼາຍໆ\r\n';
+
+const VTT = 'WEBVTT\n\nNOTE written by hand\n\nintro\n00:01.000 --> 00:02.000 align:start\nສະບາຍດີ\n';
+
+describe('parseSubtitles', () => {
+  it('makes one block per cue with its timestamps and without styling', () => {
+    const { blocks, text } = parseSubtitles(SRT);
+    expect(blocks.map(block => [block.id, block.cue, block.text])).toEqual([
+      ['cue#0', { start: '00:00:01,000', end: '00:00:03,500' }, 'ສະບາຍດີ'],
+      ['cue#1', { start: '00:00:04,000', end: '00:00:06,000' }, 'ຂອບໃຈ\nຫຼາຍໆ'],
+    ]);
+    expect(text).toBe('ສະບາຍດີ\n\nຂອບໃຈ\nຫຼາຍໆ');
+  });
+
+  it('skips the WebVTT header and notes and reads cues with an identifier', () => {
+    expect(parseSubtitles(VTT).blocks.map(block => [block.id, block.text])).toEqual([['cue#2', 'ສະບາຍດີ']]);
+  });
+});
+
+describe('translateSubtitles', () => {
+  it('replaces the cue text and keeps numbers and timings', async () => {
+    const blob = await translateSubtitles(encode(SRT), new Map([['cue#0', '你好'], ['cue#1', '非常\n\n感谢']]));
+    expect(blob.type).toBe('application/x-subrip;charset=utf-8');
+    expect(await blob.text()).toBe('1\n00:00:01,000 --> 00:00:03,500\n你好\n\n2\n00:00:04,000 --> 00:00:06,000\n非常\n感谢\n');
+  });
+
+  it('writes WebVTT back with its header and leaves untranslated cues as they were', async () => {
+    const blob = await translateSubtitles(encode(VTT), new Map());
+    expect(blob.type).toBe('text/vtt;charset=utf-8');
+    expect(await blob.text()).toBe(VTT);
+  });
+});
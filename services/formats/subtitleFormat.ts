@@ -0,0 +1,69 @@
+// SubRip (.srt) and WebVTT (.vtt) subtitles: every cue is one block and keeps its
+// timestamps. Cue numbers, the WEBVTT header, NOTE and STYLE blocks are written back
+// unchanged; only the cue text is replaced.
+
+import { DocumentBlock, ParsedDocument } from '../../types';
+import { joinBlocks, normalizeBlockText } from '../documentModel';
+import { decodeTextFile, FileFormat } from './format';
+
+const TIMING_REGEX = /^(\S+)\s+-->\s+(\S+)/;
+
+interface SubtitleEntry {
+  /** Lines up to and including the timing line; the whole entry for non-cue blocks. */
+  head: string[];
+  /** Cue text lines, empty for non-cue blocks. */
+  text: string[];
+  timing: { start: string; end: string } | null;
+}
+
+// Entries are separated by blank lines; a cue's timing line is its first or second line.
+const splitEntries = (content: string): SubtitleEntry[] =>
+  content
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .map(entry => entry.replace(/^\n+|\n+$/g, ''))
+    .filter(Boolean)
+    .map(entry => {
+      const lines = entry.split('\n');
+      const timingIndex = lines.slice(0, 2).findIndex(line => TIMING_REGEX.test(line));
+      if (timingIndex === -1) return { head: lines, text: [], timing: null };
+      const [, start, end] = lines[timingIndex].match(TIMING_REGEX)!;
+      return { head: lines.slice(0, timingIndex + 1), text: lines.slice(timingIndex + 1), timing: { start, end } };
+    });
+
+// Styling tags (`<i>`, `<c.yellow>`, `{\an8}`) are not translated.
+const stripCueMarkup = (line: string) => line.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '');
+
+export const parseSubtitles = (content: string): ParsedDocument => {
+  const blocks: DocumentBlock[] = [];
+  splitEntries(content).forEach((entry, index) => {
+    if (!entry.timing) return;
+    const text = normalizeBlockText(entry.text.map(stripCueMarkup).join('\n'));
+    if (text) blocks.push({ id: `cue#${index}`, type: 'cue', cue: entry.timing, runs: [{ text }], text });
+  });
+  return { format: 'subtitle', text: joinBlocks(blocks), blocks };
+};
+
+export const translateSubtitles = async (source: ArrayBuffer, translations: Map<string, string>): Promise<Blob> => {
+  const { text: content } = decodeTextFile(source);
+  const entries = splitEntries(content).map((entry, index) => {
+    const translation = translations.get(`cue#${index}`);
+    // A blank line would end the cue early.
+    const text = translation === undefined ? entry.text : translation.split('\n').filter(line => line.trim());
+    return [...entry.head, ...text].join('\n');
+  });
+  const isVtt = content.startsWith('WEBVTT');
+  return new Blob([`${entries.join('\n\n')}\n`], { type: isVtt ? 'text/vtt;charset=utf-8' : 'application/x-subrip;charset=utf-8' });
+};
+
+export const subtitleFormat: FileFormat = {
+  id: 'subtitle',
+  label: 'Subtitles',
+  extensions: ['srt', 'vtt'],
+  mimeTypes: ['application/x-subrip', 'text/vtt'],
+  parse: async file => {
+    const { text, conversions } = decodeTextFile(await file.arrayBuffer());
+    return { ...parseSubtitles(text), conversions };
+  },
+  write: translateSubtitles,
+};
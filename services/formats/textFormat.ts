@@ -0,0 +1,22 @@
+import { convertLegacyLao, looksLikeLegacyLao } from '../laoLegacy';
+import { decodeTextFile, FileFormat } from './format';
+
+export const textFormat: FileFormat = {
+  id: 'text',
+  label: 'Plain text',
+  extensions: ['txt', 'md'],
+  mimeTypes: ['text/plain', 'text/markdown'],
+  parse: async file => {
+    const { text, conversions } = decodeTextFile(await file.arrayBuffer());
+    // Plain text has no font names, so legacy Lao is recognised by its shape.
+    if (looksLikeLegacyLao(text)) {
+      return {
+        format: 'text',
+        text: convertLegacyLao(text),
+        blocks: [],
+        conversions: [...conversions, { kind: 'legacyFont', from: 'detected from the text' }],
+      };
+    }
+    return { format: 'text', text, blocks: [], conversions };
+  },
+};
@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { parseXlsx, translateXlsx } from './xlsxFormat';
+
+const S_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+
+// One sheet: a shared string used by two cells, an inline string, a number and a number stored as text.
+const buildWorkbook = async (): Promise<ArrayBuffer> => {
+  const zip = new JSZip();
+  zip.file('xl/workbook.xml', `<workbook xmlns="${S_NS}" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="ລາຄາ" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels', '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>');
+  zip.file('xl/sharedStrings.xml', `<sst xmlns="${S_NS}"><si><t>ເຂົ້າ</t></si><si><t>2024-01</t></si></sst>`);
+  zip.file('xl/worksheets/sheet1.xml', `<worksheet xmlns="${S_NS}"><sheetData>
+<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1"><v>500</v></c><c r="C1" t="s"><v>1</v></c></row>
+<row r="2"><c r="A2" t="s"><v>0</v></c><c r="B2" t="inlineStr"><is><t>ລາຄາ</t></is></c></row>
+</sheetData></worksheet>`);
+  return zip.generateAsync({ type: 'arraybuffer' });
+};
+
+describe('parseXlsx', () => {
+  it('makes a block of every text cell with its sheet and position', async () => {
+    const { blocks } = await parseXlsx(await buildWorkbook());
+    expect(blocks.map(block => [block.id, block.sheet, block.table, block.text])).toEqual([
+      ['xl/worksheets/sheet1.xml!A1', 'ລາຄາ', { table: 0, row: 0, column: 0 }, 'ເຂົ້າ'],
+      ['xl/worksheets/sheet1.xml!A2', 'ລາຄາ', { table: 0, row: 1, column: 0 }, 'ເຂົ້າ'],
+      ['xl/worksheets/sheet1.xml!B2', 'ລາຄາ', { table: 0, row: 1, column: 1 }, 'ລາຄາ'],
+    ]);
+  });
+});
+
+describe('translateXlsx', () => {
+  it('writes translated cells as inline strings and leaves the shared strings alone', async () => {
+    const source = await buildWorkbook();
+    const translated = await translateXlsx(source, new Map([['xl/worksheets/sheet1.xml!A1', '大米']]));
+    const { blocks } = await parseXlsx(await translated.arrayBuffer());
+    expect(blocks.map(block => block.text)).toEqual(['大米', 'ເຂົ້າ', 'ລາຄາ']);
+
+    const zip = await JSZip.loadAsync(await translated.arrayBuffer());
+    expect(await zip.file('xl/sharedStrings.xml')!.async('string')).toContain('ເຂົ້າ');
+    expect(await zip.file('xl/worksheets/sheet1.xml')!.async('string')).toContain('<v>500</v>');
+  });
+});
@@ -0,0 +1,150 @@
+// Excel workbooks: every text cell of every sheet is one block. Numbers, dates and
+// formula results are left alone. Translated cells are written back as inline strings,
+// so the shared string table, which other cells may still use, is never touched.
+
+import JSZip from 'jszip';
+import { DocumentBlock, ParsedDocument } from '../../types';
+import { joinBlocks, normalizeBlockText } from '../documentModel';
+import { parseXml } from '../xml';
+import { FileFormat } from './format';
+
+const S_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+interface Sheet {
+  name: string;
+  path: string;
+}
+
+const readXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const file = zip.file(path);
+  return file ? parseXml(await file.async('string')) : null;
+};
+
+// Relationship targets are relative to the folder of the part that owns them.
+const resolveTarget = (base: string, target: string) => (target.startsWith('/') ? target.slice(1) : `${base}${target}`);
+
+/** The sheets of the workbook in tab order. */
+const listSheets = async (zip: JSZip): Promise<Sheet[]> => {
+  const workbook = await readXml(zip, 'xl/workbook.xml');
+  const rels = await readXml(zip, 'xl/_rels/workbook.xml.rels');
+  if (!workbook || !rels) {
+    throw new Error('The file is not a valid XLSX workbook.');
+  }
+  const targets = new Map(
+    [...rels.getElementsByTagName('Relationship')].map(rel => [rel.getAttribute('Id'), rel.getAttribute('Target') ?? '']),
+  );
+  return [...workbook.getElementsByTagNameNS(S_NS, 'sheet')].flatMap(sheet => {
+    const target = targets.get(sheet.getAttributeNS(R_NS, 'id') ?? sheet.getAttribute('r:id'));
+    return target ? [{ name: sheet.getAttribute('name') ?? '', path: resolveTarget('xl/', target) }] : [];
+  });
+};
+
+// Phonetic guides (`rPh`) hold readings, not cell text.
+const stringText = (item: Element): string =>
+  [...item.getElementsByTagNameNS(S_NS, 't')]
+    .filter(t => (t.parentNode as Element | null)?.localName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('');
+
+const readSharedStrings = async (zip: JSZip): Promise<string[]> => {
+  const doc = await readXml(zip, 'xl/sharedStrings.xml');
+  return doc ? [...doc.getElementsByTagNameNS(S_NS, 'si')].map(stringText) : [];
+};
+
+const child = (parent: Element, localName: string): Element | undefined =>
+  [...parent.childNodes].find((node): node is Element => node.nodeType === 1 && (node as Element).localName === localName);
+
+const cellText = (cell: Element, sharedStrings: string[]): string | null => {
+  const type = cell.getAttribute('t');
+  if (type === 's') {
+    const value = child(cell, 'v')?.textContent;
+    return value ? sharedStrings[Number(value)] ?? null : null;
+  }
+  if (type === 'inlineStr') {
+    const inline = child(cell, 'is');
+    return inline ? stringText(inline) : null;
+  }
+  return null;
+};
+
+/** `B12` → row 11, column 1 (both 0-based). */
+const cellPosition = (reference: string): { row: number; column: number } => {
+  const [, letters = 'A', digits = '1'] = reference.match(/^([A-Z]+)(\d+)$/) ?? [];
+  const column = [...letters].reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+  return { row: Number(digits) - 1, column };
+};
+
+export const parseXlsx = async (data: ArrayBuffer): Promise<ParsedDocument> => {
+  const zip = await JSZip.loadAsync(data);
+  const sheets = await listSheets(zip);
+  const sharedStrings = await readSharedStrings(zip);
+  const blocks: DocumentBlock[] = [];
+
+  for (const [index, sheet] of sheets.entries()) {
+    const doc = await readXml(zip, sheet.path);
+    if (!doc) continue;
+    for (const cell of doc.getElementsByTagNameNS(S_NS, 'c')) {
+      const reference = cell.getAttribute('r');
+      const raw = cellText(cell, sharedStrings);
+      // Codes and numbers stored as text have nothing to translate.
+      if (!reference || !raw || !/\p{L}/u.test(raw)) continue;
+      const text = normalizeBlockText(raw);
+      blocks.push({
+        id: `${sheet.path}!${reference}`,
+        type: 'tableCell',
+        table: { table: index, ...cellPosition(reference) },
+        sheet: sheet.name,
+        runs: [{ text }],
+        text,
+      });
+    }
+  }
+  return { format: 'xlsx', text: joinBlocks(blocks), blocks };
+};
+
+const writeInlineString = (cell: Element, text: string) => {
+  for (const name of ['v', 'is']) {
+    const existing = child(cell, name);
+    if (existing) cell.removeChild(existing);
+  }
+  const doc = cell.ownerDocument;
+  const inline = doc.createElementNS(S_NS, 'is');
+  const t = doc.createElementNS(S_NS, 't');
+  t.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+  t.textContent = text;
+  inline.appendChild(t);
+  cell.appendChild(inline);
+  cell.setAttribute('t', 'inlineStr');
+};
+
+export const translateXlsx = async (source: ArrayBuffer, translations: Map<string, string>): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(source);
+  for (const sheet of await listSheets(zip)) {
+    const doc = await readXml(zip, sheet.path);
+    if (!doc) continue;
+    let changed = false;
+    for (const cell of doc.getElementsByTagNameNS(S_NS, 'c')) {
+      const translation = translations.get(`${sheet.path}!${cell.getAttribute('r')}`);
+      if (translation === undefined) continue;
+      writeInlineString(cell, translation);
+      changed = true;
+    }
+    if (changed) {
+      zip.file(sheet.path, new XMLSerializer().serializeToString(doc));
+    }
+  }
+  return zip.generateAsync({ type: 'blob', mimeType: XLSX_MIME_TYPE });
+};
+
+export const xlsxFormat: FileFormat = {
+  id: 'xlsx',
+  label: 'Excel',
+  extensions: ['xlsx'],
+  mimeTypes: [XLSX_MIME_TYPE],
+  parse: async file => parseXlsx(await file.arrayBuffer()),
+  write: translateXlsx,
+};
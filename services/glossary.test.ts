@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import {
+  checkGlossaryUsage,
+  createGlossaryEntry,
+  exportGlossaryCsv,
+  exportGlossaryTbx,
+  findGlossaryMatches,
+  parseGlossaryCsv,
+  parseGlossaryTbx,
+} from './glossary';
+
+const LO_ZH = { source: 'lo', target: 'zh' } as const;
+const terms = (entries: { lao: string; chinese: string; note: string }[]) => entries.map(({ lao, chinese, note }) => [lao, chinese, note]);
+
+describe('parseGlossaryCsv', () => {
+  it('reads rows in lao, chinese, note order without a header', () => {
+    expect(terms(parseGlossaryCsv('ສັນຍາ,合同,legal\nບໍລິສັດ\t公司\n'))).toEqual([
+      ['ສັນຍາ', '合同', 'legal'],
+      ['ບໍລິສັດ', '公司', ''],
+    ]);
+  });
+
+  it('takes the column order from a header and skips a byte order mark', () => {
+    expect(terms(parseGlossaryCsv('\uFEFF中文,备注,ລາວ\r\n合同,"a ""signed"", dated note",ສັນຍາ\r\n'))).toEqual([
+      ['ສັນຍາ', '合同', 'a "signed", dated note'],
+    ]);
+  });
+
+  it('drops rows that miss either term', () => {
+    expect(parseGlossaryCsv('ສັນຍາ,\n,合同\n\n')).toEqual([]);
+  });
+
+  it('reads back what it exports', () => {
+    const entries = [createGlossaryEntry('ສັນຍາ', '合同', 'line one\nline "two"')];
+    expect(terms(parseGlossaryCsv(exportGlossaryCsv(entries)))).toEqual(terms(entries));
+  });
+});
+
+describe('parseGlossaryTbx', () => {
+  it('reads back what it exports', () => {
+    const entries = [createGlossaryEntry('ສັນຍາ', '合同', 'A & B'), createGlossaryEntry('ບໍລິສັດ', '公司')];
+    expect(terms(parseGlossaryTbx(exportGlossaryTbx(entries)))).toEqual(terms(entries));
+  });
+
+  it('reads TBX v3 concept entries', () => {
+    const xml = `<tbx><text><body><conceptEntry id="1">
+      <langSec xml:lang="lo-LA"><termSec><term>ສັນຍາ</term></termSec></langSec>
+      <langSec xml:lang="zh-CN"><termSec><term>合同</term></termSec></langSec>
+    </conceptEntry></body></text></tbx>`;
+    expect(terms(parseGlossaryTbx(xml))).toEqual([['ສັນຍາ', '合同', '']]);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseGlossaryTbx('<martif><text>')).toThrow(/Invalid XML/);
+  });
+});
+
+describe('findGlossaryMatches and checkGlossaryUsage', () => {
+  const entries = [createGlossaryEntry('ສັນຍາ', '合同'), createGlossaryEntry('ສັນຍາເຊົ່າ', '租赁合同'), createGlossaryEntry('ບໍລິສັດ', '公司')];
+
+  it('lists the terms found in the source, longest first', () => {
+    expect(findGlossaryMatches('ສັນຍາເຊົ່າສະບັບນີ້', entries, LO_ZH).map(term => term.source)).toEqual(['ສັນຍາເຊົ່າ', 'ສັນຍາ']);
+  });
+
+  it('swaps the terms for Chinese sources and ignores other language pairs', () => {
+    expect(findGlossaryMatches('本公司', entries, { source: 'zh', target: 'lo' })).toEqual([{ source: '公司', target: 'ບໍລິສັດ', note: '' }]);
+    expect(findGlossaryMatches('ສັນຍາ', entries, { source: 'lo', target: 'en' })).toEqual([]);
+  });
+
+  it('reports source terms whose rendering is missing from the translation', () => {
+    const issues = checkGlossaryUsage('ສັນຍາ ຂອງ ບໍລິສັດ', '本公司的协议', entries, LO_ZH);
+    expect(issues.map(issue => [issue.sourceTerm, issue.expectedTarget])).toEqual([['ສັນຍາ', '合同']]);
+  });
+});
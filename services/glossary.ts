@@ -0,0 +1,186 @@
+import { GlossaryEntry, GlossaryIssue, TranslationDirection } from '../types';
+import { clearStore, deleteRecord, getAllRecords, putRecord, putRecords } from './db';
+import { escapeXml, parseXml } from './xml';
+
+// --- Persistence ---
+
+export const loadGlossary = async (): Promise<GlossaryEntry[]> => {
+  const entries = await getAllRecords<GlossaryEntry>('glossary');
+  return entries.sort((a, b) => a.lao.localeCompare(b.lao, 'lo'));
+};
+
+export const saveGlossaryEntry = (entry: GlossaryEntry): Promise<void> => putRecord('glossary', entry);
+
+export const deleteGlossaryEntry = (id: string): Promise<void> => deleteRecord('glossary', id);
+
+/** Adds imported entries, replacing existing ones that have the same Lao and Chinese terms. */
+export const mergeGlossaryEntries = async (existing: GlossaryEntry[], imported: GlossaryEntry[]): Promise<void> => {
+  const merged = imported.map(entry => {
+    const duplicate = existing.find(e => e.lao === entry.lao && e.chinese === entry.chinese);
+    return duplicate ? { ...entry, id: duplicate.id } : entry;
+  });
+  await putRecords('glossary', merged);
+};
+
+export const clearGlossary = (): Promise<void> => clearStore('glossary');
+
+export const createGlossaryEntry = (lao: string, chinese: string, note = ''): GlossaryEntry => ({
+  id: crypto.randomUUID(),
+  lao: lao.trim(),
+  chinese: chinese.trim(),
+  note: note.trim(),
+});
+
+// --- CSV ---
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',' || ch === '\t') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const LAO_HEADERS = ['lao', 'lo', 'ລາວ', '老挝语', '老挝文'];
+const CHINESE_HEADERS = ['chinese', 'zh', 'zh-cn', '中文', 'ຈີນ'];
+const NOTE_HEADERS = ['note', 'notes', 'ໝາຍເຫດ', '备注'];
+
+/**
+ * Reads `lao,chinese,note` rows. A header row is optional; when present, its column
+ * names decide the order.
+ */
+export const parseGlossaryCsv = (text: string): GlossaryEntry[] => {
+  // Spreadsheet exports often start with a byte order mark.
+  const rows = parseCsvRows(text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+  if (rows.length === 0) return [];
+
+  let columns = { lao: 0, chinese: 1, note: 2 };
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const findColumn = (names: string[]) => header.findIndex(cell => names.includes(cell));
+  if (findColumn(LAO_HEADERS) !== -1 && findColumn(CHINESE_HEADERS) !== -1) {
+    columns = { lao: findColumn(LAO_HEADERS), chinese: findColumn(CHINESE_HEADERS), note: findColumn(NOTE_HEADERS) };
+    rows.shift();
+  }
+
+  return rows
+    .map(row => createGlossaryEntry(row[columns.lao] ?? '', row[columns.chinese] ?? '', columns.note >= 0 ? row[columns.note] ?? '' : ''))
+    .filter(entry => entry.lao && entry.chinese);
+};
+
+const toCsvField = (value: string) => (/[",\n\r\t]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const exportGlossaryCsv = (entries: GlossaryEntry[]): string =>
+  ['lao,chinese,note', ...entries.map(e => [e.lao, e.chinese, e.note].map(toCsvField).join(','))].join('\r\n');
+
+// --- TBX ---
+
+const langOf = (element: Element): string =>
+  (element.getAttribute('xml:lang') ?? element.getAttributeNS('http://www.w3.org/XML/1998/namespace', 'lang') ?? '').toLowerCase();
+
+/** Reads TBX-Basic (`termEntry`/`langSet`) and TBX v3 (`conceptEntry`/`langSec`) files. */
+export const parseGlossaryTbx = (xml: string): GlossaryEntry[] => {
+  const doc = parseXml(xml);
+  const conceptElements = [...doc.getElementsByTagName('termEntry'), ...doc.getElementsByTagName('conceptEntry')];
+
+  return conceptElements
+    .map(concept => {
+      const langElements = [...concept.getElementsByTagName('langSet'), ...concept.getElementsByTagName('langSec')];
+      const termFor = (prefix: string) => {
+        const langElement = langElements.find(el => langOf(el).startsWith(prefix));
+        return langElement?.getElementsByTagName('term')[0]?.textContent?.trim() ?? '';
+      };
+      const note = concept.getElementsByTagName('note')[0]?.textContent
+        ?? concept.getElementsByTagName('descrip')[0]?.textContent
+        ?? '';
+      return createGlossaryEntry(termFor('lo'), termFor('zh'), note);
+    })
+    .filter(entry => entry.lao && entry.chinese);
+};
+
+export const exportGlossaryTbx = (entries: GlossaryEntry[]): string => {
+  const termEntries = entries.map(entry => `      <termEntry id="${escapeXml(entry.id)}">${entry.note ? `
+        <note>${escapeXml(entry.note)}</note>` : ''}
+        <langSet xml:lang="lo"><tig><term>${escapeXml(entry.lao)}</term></tig></langSet>
+        <langSet xml:lang="zh"><tig><term>${escapeXml(entry.chinese)}</term></tig></langSet>
+      </termEntry>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<martif type="TBX" xml:lang="lo">
+  <martifHeader>
+    <fileDesc><sourceDesc><p>Lao-Chinese Document Translator glossary</p></sourceDesc></fileDesc>
+  </martifHeader>
+  <text>
+    <body>
+${termEntries.join('\n')}
+    </body>
+  </text>
+</martif>
+`;
+};
+
+// --- Matching and checking ---
+
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+  note: string;
+}
+
+// Entries hold a Lao and a Chinese term, so they only apply between those two languages.
+const toTerm = (entry: GlossaryEntry, direction: TranslationDirection): GlossaryTerm | null => {
+  if (direction.source === 'lo' && direction.target === 'zh') return { source: entry.lao, target: entry.chinese, note: entry.note };
+  if (direction.source === 'zh' && direction.target === 'lo') return { source: entry.chinese, target: entry.lao, note: entry.note };
+  return null;
+};
+
+/** Glossary entries whose source-language term occurs in `text`, longest terms first. */
+export const findGlossaryMatches = (text: string, entries: GlossaryEntry[], direction: TranslationDirection): GlossaryTerm[] =>
+  entries
+    .flatMap(entry => toTerm(entry, direction) ?? [])
+    .filter(term => term.source && text.includes(term.source))
+    .sort((a, b) => b.source.length - a.source.length);
+
+/** Lists glossary terms present in the source whose required target term never appears in the translation. */
+export const checkGlossaryUsage = (
+  source: string,
+  translation: string,
+  entries: GlossaryEntry[],
+  direction: TranslationDirection,
+): GlossaryIssue[] =>
+  entries.flatMap(entry => {
+    const term = toTerm(entry, direction);
+    return term && term.source && term.target && source.includes(term.source) && !translation.includes(term.target)
+      ? [{ entry, sourceTerm: term.source, expectedTarget: term.target }]
+      : [];
+  });
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryEntry, ProviderSettings } from '../types';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+import { applyRetention, getProviderModel, saveHistoryEntry, searchHistory } from './history';
+
+vi.mock('./db', () => ({
+  getAllRecords: vi.fn(),
+  putRecord: vi.fn(),
+  deleteRecord: vi.fn(),
+  clearStore: vi.fn(),
+}));
+
+const entry = (id: string, completedAt: string, extra: Partial<HistoryEntry> = {}): HistoryEntry => ({
+  id,
+  fileName: null,
+  blocks: [],
+  direction: 'lo-to-zh',
+  source: 'ສະບາຍດີ',
+  translation: '你好',
+  segments: [],
+  piiSpans: [],
+  redactionConfirmedAt: null,
+  redaction: [],
+  settings: { anonymize: false, providerId: 'mock', model: 'mock', promptVersion: '1' },
+  completedAt,
+  ...extra,
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-06-30T00:00:00.000Z');
+
+beforeEach(() => {
+  vi.mocked(getAllRecords).mockReset();
+  vi.mocked(putRecord).mockReset().mockResolvedValue(undefined);
+  vi.mocked(deleteRecord).mockReset().mockResolvedValue(undefined);
+});
+
+describe('getProviderModel', () => {
+  const settings = {
+    gemini: { model: 'gemini-2.5-flash' },
+    openAICompatible: { model: 'qwen-plus' },
+  } as ProviderSettings;
+
+  it('records the model of the selected provider', () => {
+    expect(getProviderModel({ ...settings, providerId: 'gemini' })).toBe('gemini-2.5-flash');
+    expect(getProviderModel({ ...settings, providerId: 'openai-compatible' })).toBe('qwen-plus');
+    expect(getProviderModel({ ...settings, providerId: 'server' })).toBe('server');
+    expect(getProviderModel({ ...settings, providerId: 'mock' })).toBe('mock');
+  });
+});
+
+describe('searchHistory', () => {
+  const entries = [
+    entry('a', '2024-06-01T00:00:00.000Z', { fileName: 'Contract.docx' }),
+    entry('b', '2024-06-02T00:00:00.000Z', { source: 'ສັນຍາ', translation: 'Agreement' }),
+  ];
+
+  it('matches the file name, source or translation regardless of case', () => {
+    expect(searchHistory(entries, 'contract').map(e => e.id)).toEqual(['a']);
+    expect(searchHistory(entries, ' AGREEMENT ').map(e => e.id)).toEqual(['b']);
+    expect(searchHistory(entries, 'ສະບາຍ').map(e => e.id)).toEqual(['a']);
+    expect(searchHistory(entries, 'missing')).toEqual([]);
+  });
+
+  it('returns everything for an empty query', () => {
+    expect(searchHistory(entries, '  ')).toBe(entries);
+  });
+});
+
+describe('retention', () => {
+  it('deletes entries beyond the count limit, oldest first, and those past the age limit', async () => {
+    vi.mocked(getAllRecords).mockResolvedValue([
+      entry('old', new Date(NOW - 40 * DAY_MS).toISOString()),
+      entry('new', new Date(NOW - DAY_MS).toISOString()),
+      entry('mid', new Date(NOW - 10 * DAY_MS).toISOString()),
+      entry('older', new Date(NOW - 20 * DAY_MS).toISOString()),
+    ]);
+    expect(await applyRetention({ enabled: true, maxEntries: 3, maxAgeDays: 30 }, NOW)).toBe(1);
+    expect(vi.mocked(deleteRecord).mock.calls).toEqual([['history', 'old']]);
+
+    vi.mocked(deleteRecord).mockClear();
+    expect(await applyRetention({ enabled: true, maxEntries: 2, maxAgeDays: 0 }, NOW)).toBe(2);
+    expect(vi.mocked(deleteRecord).mock.calls.map(call => call[1])).toEqual(['older', 'old']);
+  });
+
+  it('prunes the history whenever an entry is saved', async () => {
+    const saved = entry('new', new Date(NOW).toISOString());
+    vi.mocked(getAllRecords).mockResolvedValue([saved, entry('old', '2020-01-01T00:00:00.000Z')]);
+    await saveHistoryEntry(saved, { enabled: true, maxEntries: 1, maxAgeDays: 0 });
+    expect(putRecord).toHaveBeenCalledWith('history', saved);
+    expect(vi.mocked(deleteRecord).mock.calls).toEqual([['history', 'old']]);
+  });
+});
@@ -0,0 +1,57 @@
+// Local history of completed jobs. Entries hold the full source and translation, which
+// can be sensitive, so they never leave IndexedDB and are pruned by the retention limits.
+
+import { HistoryEntry, HistoryPreferences, ProviderSettings } from '../types';
+import { clearStore, deleteRecord, getAllRecords, putRecord } from './db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getProviderModel = (settings: ProviderSettings): string => {
+  switch (settings.providerId) {
+    case 'gemini':
+      return settings.gemini.model;
+    case 'openai-compatible':
+      return settings.openAICompatible.model;
+    // The server picks its own model.
+    case 'server':
+      return 'server';
+    case 'mock':
+      return 'mock';
+  }
+};
+
+/** All entries, newest first. */
+export const loadHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await getAllRecords<HistoryEntry>('history');
+  return entries.sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+};
+
+export const deleteHistoryEntry = (id: string): Promise<void> => deleteRecord('history', id);
+
+export const clearHistory = (): Promise<void> => clearStore('history');
+
+/** Deletes the entries that fall outside the retention limits. Returns how many were deleted. */
+export const applyRetention = async (preferences: HistoryPreferences, now = Date.now()): Promise<number> => {
+  const entries = await loadHistory();
+  const expired = entries.filter((entry, i) =>
+    i >= preferences.maxEntries
+    || (preferences.maxAgeDays > 0 && now - Date.parse(entry.completedAt) > preferences.maxAgeDays * DAY_MS),
+  );
+  await Promise.all(expired.map(entry => deleteHistoryEntry(entry.id)));
+  return expired.length;
+};
+
+/** Stores `entry`, replacing an earlier save of the same job, and prunes the history. */
+export const saveHistoryEntry = async (entry: HistoryEntry, preferences: HistoryPreferences): Promise<void> => {
+  await putRecord('history', entry);
+  await applyRetention(preferences);
+};
+
+/** Entries whose file name, source or translation contains `query`, ignoring case. */
+export const searchHistory = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const needle = query.trim().toLocaleLowerCase();
+  if (!needle) return entries;
+  return entries.filter(entry =>
+    [entry.fileName ?? '', entry.source, entry.translation].some(text => text.toLocaleLowerCase().includes(needle)),
+  );
+};
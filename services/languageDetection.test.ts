@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { containsLanguageScript, detectSourceLanguage } from './languageDetection';
+
+describe('detectSourceLanguage', () => {
+  it('names the language most letters are written in', () => {
+    expect(detectSourceLanguage('ສັນຍາສະບັບນີ້ມີຜົນບັງຄັບໃຊ້')).toBe('lo');
+    expect(detectSourceLanguage('本合同由甲方和乙方签订，双方同意以下条款')).toBe('zh');
+    expect(detectSourceLanguage('สัญญาฉบับนี้มีผลบังคับใช้')).toBe('th');
+    expect(detectSourceLanguage('This contract takes effect today.')).toBe('en');
+  });
+
+  it('ignores Latin codes and names in Lao and Chinese documents', () => {
+    expect(detectSourceLanguage('Invoice ABC-2024/17 for Vientiane Trading Company Limited: ສັນຍາສະບັບນີ້')).toBe('lo');
+    expect(detectSourceLanguage('Contract No. XYZ-889 between Acme Holdings and 本合同由甲方和乙方签订')).toBe('zh');
+  });
+
+  it('gives up on text with too few letters to tell', () => {
+    expect(detectSourceLanguage('ສະບາຍດີ')).toBeNull();
+    expect(detectSourceLanguage('2024-03-15 / 500 000')).toBeNull();
+    expect(detectSourceLanguage('')).toBeNull();
+  });
+});
+
+describe('containsLanguageScript', () => {
+  it('looks for a single letter of the language', () => {
+    expect(containsLanguageScript('Total: 500 ກີບ', 'lo')).toBe(true);
+    expect(containsLanguageScript('Total: 500 ກີບ', 'zh')).toBe(false);
+    expect(containsLanguageScript('2024', 'en')).toBe(false);
+  });
+});
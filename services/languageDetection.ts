@@ -0,0 +1,28 @@
+// Script-based language detection. Every registered language has a script of its own, so
+// counting letters is enough to tell which one a text is written in.
+
+import { LanguageCode } from '../types';
+import { LANGUAGES } from './languages';
+
+const scriptRegex = (language: LanguageCode, flags = 'u') => new RegExp(`\\p{Script=${LANGUAGES[language].script}}`, flags);
+
+// Fewer letters than this (a title, a stray name) say nothing about the document.
+const MIN_LETTERS = 10;
+
+const countLetters = (text: string, language: LanguageCode) => text.match(scriptRegex(language, 'gu'))?.length ?? 0;
+
+/** True if `text` contains at least one letter of `language`'s script. */
+export const containsLanguageScript = (text: string, language: LanguageCode): boolean => scriptRegex(language).test(text);
+
+/**
+ * The language most of the text's letters belong to, or null when there are too few to
+ * tell. Latin letters only count when no other script has enough: Lao, Thai and Chinese
+ * documents are full of Latin codes, names and abbreviations.
+ */
+export const detectSourceLanguage = (text: string): LanguageCode | null => {
+  const counts = (Object.keys(LANGUAGES) as LanguageCode[]).map(language => ({ language, count: countLetters(text, language) }));
+  const candidates = counts.filter(({ language, count }) => LANGUAGES[language].script !== 'Latin' && count >= MIN_LETTERS);
+  const pool = candidates.length > 0 ? candidates : counts.filter(({ count }) => count >= MIN_LETTERS);
+  if (pool.length === 0) return null;
+  return pool.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).language;
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { directionForSource, directionKey, getTargetLanguages, isSupportedDirection, LANGUAGE_PAIRS, parseDirectionKey, reverseDirection } from './languages';
+
+describe('direction keys', () => {
+  it('round-trips every offered direction', () => {
+    for (const direction of LANGUAGE_PAIRS) {
+      expect(parseDirectionKey(directionKey(direction))).toEqual(direction);
+    }
+    expect(directionKey({ source: 'th', target: 'lo' })).toBe('th-to-lo');
+  });
+
+  it('offers every pair both ways', () => {
+    for (const direction of LANGUAGE_PAIRS) {
+      expect(isSupportedDirection(reverseDirection(direction))).toBe(true);
+    }
+    expect(isSupportedDirection({ source: 'th', target: 'zh' })).toBe(false);
+  });
+});
+
+describe('directionForSource', () => {
+  it('keeps the current direction when the source already fits', () => {
+    expect(directionForSource('lo', { source: 'lo', target: 'en' })).toEqual({ source: 'lo', target: 'en' });
+  });
+
+  it('keeps the current target when a pair allows it', () => {
+    expect(directionForSource('zh', { source: 'lo', target: 'en' })).toEqual({ source: 'zh', target: 'en' });
+  });
+
+  it('swaps the direction round when the text is in the target language', () => {
+    expect(directionForSource('zh', { source: 'lo', target: 'zh' })).toEqual({ source: 'zh', target: 'lo' });
+  });
+
+  it('falls back to the first target of the detected language', () => {
+    expect(getTargetLanguages('th')).toEqual(['lo']);
+    expect(directionForSource('th', { source: 'zh', target: 'en' })).toEqual({ source: 'th', target: 'lo' });
+  });
+});
@@ -0,0 +1,165 @@
+// The languages the app translates between. Everything language-specific that isn't
+// segmentation (names, scripts, prompt instructions, file naming) is looked up here, so
+// adding a language is a registry entry plus its pairs.
+
+import { DirectionKey, Era, LanguageCode, TranslationDirection } from '../types';
+
+export interface PromptInstructions {
+  /** The language's name in prompts, where it can be more precise than the UI name. */
+  name: string;
+  /** Notes on reading text written in this language. */
+  sourceNotes: string;
+  /** Final grammar check when this language is the target. */
+  grammarStep: string;
+  /** PII placeholders when this language is the target. */
+  anonymizeStep: string;
+}
+
+/** How official documents in the language write years and money. */
+export interface NumberConventions {
+  /** The era years are counted in. */
+  era: Era;
+  /** Written before a year to name its era, with the space that follows it where there is one. */
+  eraLabels: Record<Era, string>;
+  /** The language's name for the Lao kip, written after an amount. */
+  kip: string;
+}
+
+export interface LanguageDefinition {
+  code: LanguageCode;
+  name: string;
+  flag: string;
+  /** Unicode script of the language's letters, used to detect it and to spot text with nothing to translate. */
+  script: 'Lao' | 'Han' | 'Latin' | 'Thai';
+  /** Put between sentences when they are joined back into a paragraph. */
+  sentenceSeparator: '' | ' ';
+  /** Lao and Thai writers often end a sentence with a space instead of punctuation. */
+  spaceEndsSentence: boolean;
+  /** Language tag in TMX files. */
+  tmxCode: string;
+  prompt: PromptInstructions;
+  numbers: NumberConventions;
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageDefinition> = {
+  lo: {
+    code: 'lo',
+    name: 'Lao',
+    flag: '🇱🇦',
+    script: 'Lao',
+    sentenceSeparator: ' ',
+    spaceEndsSentence: true,
+    tmxCode: 'lo',
+    prompt: {
+      name: 'Lao',
+      sourceNotes: 'Lao is written without spaces between words; spaces usually mark phrase or sentence boundaries. Read carefully to find the correct word boundaries before translating.',
+      grammarStep: 'Perform a final grammar and syntax check. Ensure the word order is correct according to Lao grammatical rules. Verify that the phrasing aligns with the conventional and commonly used expressions of a native Lao speaker. The tone should be appropriate for a standard document.',
+      anonymizeStep: 'Anonymize the translated text. Scan the final Lao translation for any personally identifiable information (PII). Replace names with [ຊື່], national ID numbers or passport numbers with [ID_NUMBER], and phone numbers with [ເບີໂທລະສັບ]. Ensure only the sensitive data is replaced, leaving all other text intact.',
+    },
+    numbers: {
+      era: 'ce',
+      eraLabels: { be: 'ພ.ສ. ', ce: 'ຄ.ສ. ' },
+      kip: 'ກີບ',
+    },
+  },
+  zh: {
+    code: 'zh',
+    name: 'Chinese',
+    flag: '🇨🇳',
+    script: 'Han',
+    sentenceSeparator: '',
+    spaceEndsSentence: false,
+    tmxCode: 'zh-CN',
+    prompt: {
+      name: 'Simplified Chinese',
+      sourceNotes: 'The source may mix Simplified and Traditional characters and full-width punctuation; treat them the same.',
+      grammarStep: 'Perform a final grammar and idioms check. Ensure the translation is grammatically flawless and uses appropriate vocabulary for a standard document. Verify that the phrasing is natural and fluent for a native Simplified Chinese speaker.',
+      anonymizeStep: 'Anonymize the translated text. Scan the final Chinese translation for any personally identifiable information (PII). Replace names with [姓名], identification numbers (like ID cards or passports) with [证件号码], and phone numbers with [联系电话]. Ensure only the sensitive data is replaced, leaving all other text intact.',
+    },
+    numbers: {
+      era: 'ce',
+      eraLabels: { be: '佛历', ce: '公元' },
+      kip: '基普',
+    },
+  },
+  en: {
+    code: 'en',
+    name: 'English',
+    flag: '🇬🇧',
+    script: 'Latin',
+    sentenceSeparator: ' ',
+    spaceEndsSentence: false,
+    tmxCode: 'en',
+    prompt: {
+      name: 'English',
+      sourceNotes: 'The source may contain legal or technical abbreviations; expand them only where the target language requires it.',
+      grammarStep: 'Perform a final grammar and style check. Ensure the translation uses correct tense, articles and agreement, and reads as clear, formal English suitable for a standard document.',
+      anonymizeStep: 'Anonymize the translated text. Scan the final English translation for any personally identifiable information (PII). Replace names with [NAME], identification numbers (like ID cards or passports) with [ID_NUMBER], and phone numbers with [PHONE]. Ensure only the sensitive data is replaced, leaving all other text intact.',
+    },
+    numbers: {
+      era: 'ce',
+      eraLabels: { be: 'B.E. ', ce: 'A.D. ' },
+      kip: 'kip',
+    },
+  },
+  th: {
+    code: 'th',
+    name: 'Thai',
+    flag: '🇹🇭',
+    script: 'Thai',
+    sentenceSeparator: ' ',
+    spaceEndsSentence: true,
+    tmxCode: 'th',
+    prompt: {
+      name: 'Thai',
+      sourceNotes: 'Thai is written without spaces between words; spaces usually mark phrase or sentence boundaries. Thai and Lao share much vocabulary, but do not assume a shared word has the same meaning in both.',
+      grammarStep: 'Perform a final grammar and register check. Ensure the word order follows Thai grammar, that classifiers and polite particles are used correctly, and that the register is appropriate for a standard document.',
+      anonymizeStep: 'Anonymize the translated text. Scan the final Thai translation for any personally identifiable information (PII). Replace names with [ชื่อ], identification numbers (like ID cards or passports) with [เลขประจำตัว], and phone numbers with [เบอร์โทรศัพท์]. Ensure only the sensitive data is replaced, leaving all other text intact.',
+    },
+    numbers: {
+      era: 'be',
+      eraLabels: { be: 'พ.ศ. ', ce: 'ค.ศ. ' },
+      kip: 'กีบ',
+    },
+  },
+};
+
+const pair = (source: LanguageCode, target: LanguageCode): TranslationDirection[] => [{ source, target }, { source: target, target: source }];
+
+/** The directions offered in the selector; every pair is supported both ways. */
+export const LANGUAGE_PAIRS: TranslationDirection[] = [
+  ...pair('lo', 'zh'),
+  ...pair('lo', 'en'),
+  ...pair('zh', 'en'),
+  ...pair('th', 'lo'),
+];
+
+export const DEFAULT_DIRECTION: TranslationDirection = LANGUAGE_PAIRS[0];
+
+export const directionKey = (direction: TranslationDirection): DirectionKey => `${direction.source}-to-${direction.target}`;
+
+export const parseDirectionKey = (key: DirectionKey): TranslationDirection => {
+  const [source, target] = key.split('-to-') as [LanguageCode, LanguageCode];
+  return { source, target };
+};
+
+export const reverseDirection = (direction: TranslationDirection): TranslationDirection =>
+  ({ source: direction.target, target: direction.source });
+
+export const isSupportedDirection = (direction: TranslationDirection): boolean =>
+  LANGUAGE_PAIRS.some(candidate => directionKey(candidate) === directionKey(direction));
+
+/** Targets the selector offers for `source`. */
+export const getTargetLanguages = (source: LanguageCode): LanguageCode[] =>
+  LANGUAGE_PAIRS.filter(candidate => candidate.source === source).map(candidate => candidate.target);
+
+/**
+ * The direction to use for text detected as `source`: the current one if it already
+ * fits, otherwise a pair that keeps the current target, then one that swaps it round.
+ */
+export const directionForSource = (source: LanguageCode, current: TranslationDirection): TranslationDirection => {
+  if (source === current.source) return current;
+  const targets = getTargetLanguages(source);
+  const target = targets.find(code => code === current.target) ?? targets.find(code => code === current.source) ?? targets[0];
+  return target ? { source, target } : current;
+};
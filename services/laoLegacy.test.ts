@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { convertLegacyLao, isLegacyLaoFont, legacyFontConversions, looksLikeLegacyLao } from './laoLegacy';
+
+describe('convertLegacyLao', () => {
+  it('maps the keyboard layout the legacy fonts draw to Lao', () => {
+    expect(convertLegacyLao('lt[kpfu')).toBe('ສະບາຍດີ');
+    expect(convertLegacyLao('!@# Z')).toBe('123 ₭');
+  });
+
+  it('moves tone marks after the vowel and joins nikhahit and aa into am', () => {
+    expect(convertLegacyLao('dju')).toBe('ກີ່');
+    expect(convertLegacyLao('o=k')).toBe('ນຳ');
+  });
+});
+
+describe('legacy font detection', () => {
+  it('knows legacy font names and leaves their Unicode successors alone', () => {
+    expect(isLegacyLaoFont('ABCDEF+SaysetthaLao-Bold')).toBe(true);
+    expect(isLegacyLaoFont('Phetsarath')).toBe(true);
+    expect(isLegacyLaoFont('Saysettha OT')).toBe(false);
+    expect(isLegacyLaoFont('Phetsarath_OT')).toBe(false);
+    expect(isLegacyLaoFont('Arial')).toBe(false);
+  });
+
+  it('notes each converted font once', () => {
+    expect(legacyFontConversions(['Saysettha', 'Saysettha', 'Phetsarath'])).toEqual([
+      { kind: 'legacyFont', from: 'Saysettha' },
+      { kind: 'legacyFont', from: 'Phetsarath' },
+    ]);
+  });
+
+  it('recognises plain text typed for a legacy font', () => {
+    expect(looksLikeLegacyLao(Array(20).fill('lt[kpfu').join(' '))).toBe(true);
+    expect(looksLikeLegacyLao(Array(20).fill('the contract, signed today').join(' '))).toBe(false);
+    expect(looksLikeLegacyLao(`ສະບາຍດີ ${Array(20).fill('lt[kpfu').join(' ')}`)).toBe(false);
+    expect(looksLikeLegacyLao('lt[kpfu')).toBe(false);
+  });
+});
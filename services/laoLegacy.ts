@@ -0,0 +1,65 @@
+// Converts text typed in legacy (pre-Unicode) Lao fonts such as Saysettha Lao or the old
+// Phetsarath. Those fonts draw Lao glyphs at the code points of the keys on the Lao
+// keyboard, so the file holds Latin letters and punctuation: "ສະບາຍດີ" is stored as "lt[kpfu".
+
+import { TextConversion } from '../types';
+
+// What each key produces on the Lao keyboard, i.e. what the legacy fonts draw for it.
+const LEGACY_LAO_MAP: Record<string, string> = {
+  // Number row
+  1: 'ຢ', 2: 'ຟ', 3: 'ໂ', 4: 'ຖ', 5: 'ຸ', 6: 'ູ', 7: 'ຄ', 8: 'ຕ', 9: 'ຈ', 0: 'ຂ', '-': 'ຊ', '=': 'ໍ',
+  // Top row
+  q: 'ົ', w: 'ໄ', e: 'ຳ', r: 'ພ', t: 'ະ', y: 'ິ', u: 'ີ', i: 'ຮ', o: 'ນ', p: 'ຍ', '[': 'ບ', ']': 'ລ',
+  // Home row
+  a: 'ັ', s: 'ຫ', d: 'ກ', f: 'ດ', g: 'ເ', h: '້', j: '່', k: 'າ', l: 'ສ', ';': 'ວ', '\'': 'ງ',
+  // Bottom row
+  z: 'ຜ', x: 'ປ', c: 'ແ', v: 'ອ', b: 'ຶ', n: 'ື', m: 'ທ', ',': 'ມ', '.': 'ໃ', '/': 'ຝ',
+  // Shifted number row
+  '!': '1', '@': '2', '#': '3', '$': '4', '%': '໌', '^': 'ຼ', '&': '5', '*': '6', '(': '7', ')': '8', '_': '9', '+': 'ໍ່',
+  // Shifted top row
+  Q: 'ົ້', W: '0', E: 'ຳ້', R: '_', T: '+', Y: 'ິ້', U: 'ີ້', I: 'ຣ', O: 'ໜ', P: 'ຽ', '{': '-',
+  // Shifted home row
+  '}': 'ຫຼ', A: 'ັ້', S: ';', D: '.', F: ',', G: ':', H: '໊', J: '໋', K: '!', L: '?', ':': '%',
+  // Shifted bottom row
+  '"': '=', Z: '₭', X: '(', C: 'ຯ', V: 'x', B: 'ຶ້', N: 'ື້', M: 'ໆ', '<': 'ໝ', '>': '$', '?': ')',
+};
+
+const LEGACY_FONT_REGEX = /saysettha|phetsarath/i;
+
+/**
+ * Tells legacy font names from their Unicode successors ("Saysettha OT", "Phetsarath OT").
+ * PDF names carry a subset prefix and a style suffix, e.g. `ABCDEF+SaysetthaLao-Bold`.
+ */
+export const isLegacyLaoFont = (fontName: string): boolean => {
+  const family = fontName.replace(/^[A-Z]{6}\+/, '').replace(/[-,](bold|italic|regular|oblique)+$/i, '');
+  return LEGACY_FONT_REGEX.test(family) && !/(ot|unicode)$/i.test(family.replace(/[\s_-]+/g, ''));
+};
+
+// Typists put tone marks before the vowel signs above and below; Unicode wants them after.
+const TONE_BEFORE_VOWEL_REGEX = /([\u0EC8-\u0ECB])([\u0EB1\u0EB4-\u0EB9\u0EBB\u0ECD])/g;
+
+export const convertLegacyLao = (text: string): string =>
+  [...text]
+    .map(char => LEGACY_LAO_MAP[char] ?? char)
+    .join('')
+    .replace(TONE_BEFORE_VOWEL_REGEX, '$2$1')
+    .replace(/\u0ECD\u0EB2/g, '\u0EB3');
+
+// A word of legacy Lao has punctuation in the middle ("lt[kp"), which ordinary Latin text
+// seldom does apart from contractions and URLs.
+const LEGACY_WORD_REGEX = /[a-z][;'\[\],.\/=\-\d][a-z;'\[\]]/i;
+
+/**
+ * Guesses whether a text without font information (a plain-text file) was typed for a
+ * legacy Lao font. Texts that already contain Lao or Chinese never match.
+ */
+export const looksLikeLegacyLao = (text: string): boolean => {
+  if (/[\p{Script=Lao}\p{Script=Han}]/u.test(text)) return false;
+  const words = text.split(/\s+/).filter(word => /[a-z]/i.test(word));
+  if (words.length < 20) return false;
+  return words.filter(word => LEGACY_WORD_REGEX.test(word)).length / words.length >= 0.3;
+};
+
+/** Records a legacy font conversion, once per font. */
+export const legacyFontConversions = (fontNames: Iterable<string>): TextConversion[] =>
+  [...new Set(fontNames)].map(font => ({ kind: 'legacyFont', from: font }));
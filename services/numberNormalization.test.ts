@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { TranslationSegment } from '../types';
+import { checkNumbers, detectNumbers, findNumberValues, normalizeNumbers, parseChineseNumeral } from './numberNormalization';
+
+const LO_ZH = { source: 'lo', target: 'zh' } as const;
+const ZH_TH = { source: 'zh', target: 'th' } as const;
+
+const segment = (index: number, source: string, translation: string): TranslationSegment =>
+  ({ index, source, separator: '\n\n', translation, status: 'done', attempts: 0 });
+
+describe('parseChineseNumeral', () => {
+  it('reads numerals digit by digit, by their units, or mixed with digits', () => {
+    expect(parseChineseNumeral('二〇二四')).toBe(2024);
+    expect(parseChineseNumeral('十五')).toBe(15);
+    expect(parseChineseNumeral('一千二百万')).toBe(12000000);
+    expect(parseChineseNumeral('3.5万')).toBe(35000);
+    expect(parseChineseNumeral('3千')).toBe(3000);
+    expect(parseChineseNumeral('合同')).toBeNull();
+  });
+});
+
+describe('detectNumbers', () => {
+  it('finds Buddhist-era dates and years, kip amounts and numbers in Lao digits', () => {
+    const entities = detectNumbers('ວັນທີ 15/03/2567 ລາຄາ 50.000 ກີບ ໃນປີ ໒໕໖໗, ເລກທີ ໑໒');
+    expect(entities.map(({ text, kind, value, era }) => ({ text, kind, value, era }))).toEqual([
+      { text: '15/03/2567', kind: 'date', value: '2567', era: 'be' },
+      { text: '50.000', kind: 'amount', value: '50000', era: undefined },
+      { text: '໒໕໖໗', kind: 'year', value: '2567', era: 'be' },
+      { text: '໑໒', kind: 'number', value: '12', era: undefined },
+    ]);
+  });
+
+  it('leaves plain numbers in ASCII digits alone', () => {
+    expect(detectNumbers('ສິນຄ້າ 100 ຊິ້ນ ພາຍໃນ 30 ວັນ')).toEqual([]);
+  });
+
+  it('leaves phone numbers in Lao digits alone', () => {
+    expect(detectNumbers('ເບີ ໐໒໐ ໕໕໕໕ ຫຼື ໐໒໑-໒໑໒໓໔໕')).toEqual([]);
+  });
+
+  it('only reads Chinese numerals that stand for a number', () => {
+    expect(detectNumbers('万一个人出事')).toEqual([]);
+    expect(detectNumbers('一日三餐')).toEqual([]);
+    expect(detectNumbers('千万个人')).toEqual([]);
+    expect(detectNumbers('3千人, 一万个人, 二〇二四年三月五日').map(({ text, value }) => ({ text, value }))).toEqual([
+      { text: '3千', value: '3000' },
+      { text: '一万', value: '10000' },
+      { text: '二〇二四', value: '2024' },
+      { text: '三', value: '3' },
+      { text: '五', value: '5' },
+    ]);
+  });
+});
+
+describe('normalizeNumbers', () => {
+  const text = 'ລາຄາ 50.000 ກີບ ໃນປີ ໒໕໖໗';
+
+  it('puts numbers in the target convention for convert', () => {
+    expect(normalizeNumbers(text, LO_ZH, 'convert')).toBe('ລາຄາ 50,000 ກີບ ໃນປີ ຄ.ສ. 2024');
+    expect(normalizeNumbers('二〇二四年', ZH_TH, 'convert')).toBe('佛历2567年');
+  });
+
+  it('keeps the original in brackets for both, unless only the grouping changed', () => {
+    expect(normalizeNumbers(text, LO_ZH, 'both')).toBe('ລາຄາ 50,000 ກີບ ໃນປີ ຄ.ສ. 2024 (ພ.ສ. ໒໕໖໗)');
+    expect(normalizeNumbers('二〇二四年', ZH_TH, 'both')).toBe('佛历2567（公元二〇二四）年');
+  });
+
+  it('leaves the text as it is for keep', () => {
+    expect(normalizeNumbers(text, LO_ZH, 'keep')).toBe(text);
+  });
+
+  it('never rewrites words and phone numbers that only look like numbers', () => {
+    for (const policy of ['convert', 'both'] as const) {
+      expect(normalizeNumbers('万一个人出事', ZH_TH, policy)).toBe('万一个人出事');
+      expect(normalizeNumbers('一日三餐', ZH_TH, policy)).toBe('一日三餐');
+      expect(normalizeNumbers('千万个人', ZH_TH, policy)).toBe('千万个人');
+      expect(normalizeNumbers('ເບີ ໐໒໐ ໕໕໕໕', LO_ZH, policy)).toBe('ເບີ ໐໒໐ ໕໕໕໕');
+    }
+  });
+});
+
+describe('findNumberValues', () => {
+  it('gives the same values whatever the digits, grouping or numerals', () => {
+    expect(findNumberValues('1.000.000 ກີບ ແລະ ໒໕')).toEqual(new Set(['1000000', '25']));
+    expect(findNumberValues('1,000,000基普和二十五个')).toEqual(new Set(['1000000', '25']));
+  });
+
+  it('skips placeholder numbers and counts dates part by part', () => {
+    expect(findNumberValues('[PERSON_1] 15/03/2024')).toEqual(new Set(['15', '3', '2024']));
+  });
+});
+
+describe('checkNumbers', () => {
+  it('compares the translation with the source as the policy sent it', () => {
+    const segments = [segment(0, 'ໃນປີ ໒໕໖໗', '于2024年'), segment(1, 'ລາຄາ 500 ກີບ', '价格50基普')];
+    expect(checkNumbers(segments, LO_ZH, 'convert')).toEqual([{ segment: 1, value: '500' }]);
+    expect(checkNumbers(segments, LO_ZH, 'keep')).toEqual([{ segment: 0, value: '2567' }, { segment: 1, value: '500' }]);
+  });
+
+  it('compares a phone number with the digits it was written in', () => {
+    const segments = [segment(0, 'ໂທ ໐໒໐ ໕໕໕໕', '电话 020 5555')];
+    expect(checkNumbers(segments, LO_ZH, 'both')).toEqual([]);
+  });
+
+  it('skips segments that are unfinished or copied as they are', () => {
+    const segments = [
+      { ...segment(0, 'ລາຄາ 500 ກີບ', ''), status: 'failed' as const },
+      { ...segment(1, '2024', '2024'), passThrough: true },
+    ];
+    expect(checkNumbers(segments, LO_ZH, 'convert')).toEqual([]);
+  });
+});
@@ -0,0 +1,295 @@
+// Numbers that official documents write in conventions the model converts inconsistently:
+// Lao and Thai digits, Buddhist-era years (BE = CE + 543), kip amounts and Chinese
+// numerals (二〇二四年, 3.5万). They are rewritten in the text sent to the provider,
+// according to the job's policy, so the model only has to copy them, and afterwards
+// every number of that text is looked for in the translation.
+
+import { Era, NumberEntity, NumberIssue, NumberPolicy, TranslationDirection, TranslationSegment } from '../types';
+import { LANGUAGES } from './languages';
+import { normalizeDigits } from './redaction';
+
+export const NUMBER_POLICY_LABELS: Record<NumberPolicy, string> = {
+  convert: 'Convert numbers',
+  keep: 'Keep numbers as written',
+  both: 'Convert and keep original',
+};
+
+// A number read wrongly changes what the provider is told the document says, so
+// converting is chosen per job rather than done by default.
+export const DEFAULT_NUMBER_POLICY: NumberPolicy = 'keep';
+
+export const isNumberPolicy = (value: string): value is NumberPolicy => value in NUMBER_POLICY_LABELS;
+
+/** Years of the Buddhist era run this far ahead of the Common Era. */
+export const BE_OFFSET = 543;
+
+// --- Chinese numerals ---
+
+const CHINESE_DIGITS: Record<string, number> = { 〇: 0, 零: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+const CHINESE_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+
+/** Value of a Chinese numeral: `二〇二四` digit by digit, `一千二百万` by its units, `3.5万` mixed. Null if it isn't one. */
+export const parseChineseNumeral = (numeral: string): number | null => {
+  const mixed = numeral.match(/^(\d+(?:\.\d+)?)([千万亿])$/);
+  if (mixed) return Math.round(Number(mixed[1]) * (mixed[2] === '亿' ? 1e8 : mixed[2] === '万' ? 1e4 : 1e3));
+
+  const chars = [...numeral];
+  if (chars.length === 0) return null;
+  if (chars.every(ch => ch in CHINESE_DIGITS)) return Number(chars.map(ch => CHINESE_DIGITS[ch]).join(''));
+  let total = 0;
+  let section = 0;
+  let digit = 0;
+  for (const ch of chars) {
+    if (ch in CHINESE_DIGITS) {
+      digit = CHINESE_DIGITS[ch];
+    } else if (ch in CHINESE_UNITS) {
+      section += (digit || 1) * CHINESE_UNITS[ch];
+      digit = 0;
+    } else if (ch === '万') {
+      total += (section + digit) * 1e4;
+      section = digit = 0;
+    } else if (ch === '亿') {
+      total = (total + section + digit) * 1e8;
+      section = digit = 0;
+    } else {
+      return null;
+    }
+  }
+  return total + section + digit;
+};
+
+const CHINESE_YEAR = '[〇零一二三四五六七八九]{4}';
+// Numeral characters are also parts of words (万一 "in case", 千万 "by all means", 一日三餐),
+// so a numeral needs a digit before 千, 万 or 亿 and a counter after it, an ordinal 第
+// before it, or to be the month after 年 or the day after 月.
+const CHINESE_NUMERAL = [
+  '\\d+(?:\\.\\d+)?[千万亿]',
+  '(?<=第)[〇零一二两三四五六七八九十百千]+',
+  '(?:[〇零一二两三四五六七八九]+[十百千万亿]|十)[〇零一二两三四五六七八九十百千万亿]*(?=[年月日号元岁个人次项条款章节页基])',
+  '(?<=年)[一二三四五六七八九十]{1,2}(?=月)',
+  '(?<=月)[一二三四五六七八九十]{1,3}(?=[日号])',
+].join('|');
+
+// --- Detection ---
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const ERA_LABELS = Object.values(LANGUAGES).flatMap(language =>
+  (Object.entries(language.numbers.eraLabels) as [Era, string][]).map(([era, label]) => ({ era, label: label.trim() })),
+);
+const ERA_LABEL_PATTERN = ERA_LABELS.map(({ label }) => escapeRegExp(label)).join('|');
+const KIP_PATTERN = [...Object.values(LANGUAGES).map(language => language.numbers.kip), 'LAK'].map(escapeRegExp).join('|');
+const AMOUNT = '(?<!\\d)\\d+(?:[.,]\\d+)*[万亿]?';
+
+const THOUSANDS_REGEX = /^\d{1,3}([.,])\d{3}(?:\1\d{3})*$/;
+const NATIVE_DIGIT_REGEX = /[໐-໙๐-๙]/;
+
+/** `1.500.000` and `1,500,000` are both 1500000; anything else is kept as written. */
+const plainValue = (token: string) => (THOUSANDS_REGEX.test(token) ? token.replace(/[.,]/g, '') : token);
+
+// No year of the Common Era is that late yet.
+export const isBuddhistEraYear = (year: string) => Number(year) >= 2400 && Number(year) < 2700;
+
+const chineseValue = (numeral: string) => {
+  const value = parseChineseNumeral(numeral);
+  return value === null ? null : String(value);
+};
+
+interface NumberDetector {
+  kind: NumberEntity['kind'];
+  pattern: RegExp;
+  /** The entity's value and era, or null when the match isn't one after all. */
+  read: (match: string, original: string) => Pick<NumberEntity, 'value' | 'era'> | null;
+}
+
+// Ordered by priority: when two matches overlap, the earlier detector wins. Detection runs
+// on the text with ASCII digits, so every pattern only has to match those.
+const DETECTORS: NumberDetector[] = [
+  {
+    kind: 'year',
+    pattern: new RegExp(`(?:${ERA_LABEL_PATTERN})\\s*(?:\\d{4}|${CHINESE_YEAR})(?!\\d)`, 'g'),
+    read: match => {
+      const { era, label } = ERA_LABELS.find(({ label }) => match.startsWith(label))!;
+      const year = match.slice(label.length).trim();
+      const value = /^\d+$/.test(year) ? year : chineseValue(year);
+      return value === null ? null : { value, era };
+    },
+  },
+  // Day, month and year; Lao and Thai documents often date them in the Buddhist era.
+  {
+    kind: 'date',
+    pattern: /(?<!\d)\d{1,2}([/.-])\d{1,2}\1\d{4}(?!\d)/g,
+    read: (match, original) => {
+      const year = match.slice(-4);
+      if (isBuddhistEraYear(year)) return { value: year, era: 'be' };
+      return NATIVE_DIGIT_REGEX.test(original) ? { value: year, era: 'ce' } : null;
+    },
+  },
+  // "ປີ 2567" without an era label.
+  {
+    kind: 'year',
+    pattern: /(?<=(?:ປີ|ปี)\s*)\d{4}(?!\d)/g,
+    read: match => (isBuddhistEraYear(match) ? { value: match, era: 'be' } : null),
+  },
+  {
+    kind: 'year',
+    pattern: new RegExp(`${CHINESE_YEAR}(?=\\s*年)`, 'g'),
+    read: match => {
+      const value = chineseValue(match);
+      return value === null ? null : { value, era: 'ce' };
+    },
+  },
+  {
+    kind: 'amount',
+    pattern: new RegExp(`(?<=(?:₭|LAK)\\s*)${AMOUNT}|${AMOUNT}(?=\\s*(?:${KIP_PATTERN}))`, 'gi'),
+    read: match => {
+      const value = /[万亿]$/.test(match) ? chineseValue(match) : plainValue(match);
+      return value === null ? null : { value };
+    },
+  },
+  {
+    kind: 'numeral',
+    pattern: new RegExp(CHINESE_NUMERAL, 'g'),
+    read: match => {
+      const value = chineseValue(match);
+      return value === null ? null : { value };
+    },
+  },
+  // Any other number counts only when it is written in Lao or Thai digits. Phone numbers
+  // aren't values: a group with a leading zero or next to another group is left alone.
+  {
+    kind: 'number',
+    pattern: /(?<!\d[ -]?)(?!0\d)\d+(?:[.,]\d+)*(?![ -]?\d)/g,
+    read: (match, original) => (NATIVE_DIGIT_REGEX.test(original) ? { value: plainValue(match) } : null),
+  },
+];
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }) =>
+  a.start < b.end && b.start < a.end;
+
+/** Finds the numbers written in a convention the policy may convert. Entities never overlap and are sorted by position. */
+export const detectNumbers = (text: string): NumberEntity[] => {
+  const normalized = normalizeDigits(text);
+  const entities: NumberEntity[] = [];
+
+  for (const detector of DETECTORS) {
+    for (const match of normalized.matchAll(detector.pattern)) {
+      if (match.index === undefined) continue;
+      const start = match.index;
+      const end = start + match[0].length;
+      const original = text.slice(start, end);
+      const read = detector.read(match[0], original);
+      if (!read) continue;
+      const entity: NumberEntity = { start, end, text: original, kind: detector.kind, ...read };
+      if (entities.some(existing => overlaps(existing, entity))) continue;
+      entities.push(entity);
+    }
+  }
+
+  return entities.sort((a, b) => a.start - b.start);
+};
+
+// --- Conversion ---
+
+const groupThousands = (value: string) => {
+  const [integer, fraction] = value.split('.');
+  return integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',') + (fraction !== undefined ? `.${fraction}` : '');
+};
+
+const hasEraLabel = (entity: NumberEntity) => !/^[\d〇零一二三四五六七八九]+$/.test(normalizeDigits(entity.text));
+
+/**
+ * The entity in the target language's convention, worded for the source text it goes
+ * back into: ASCII digits, grouped amounts, and years in the target's era with the
+ * source language's label for it.
+ */
+const convertEntity = (entity: NumberEntity, direction: TranslationDirection): string => {
+  const targetEra = LANGUAGES[direction.target].numbers.era;
+  const era = entity.era ?? 'ce';
+  const year = Number(entity.value) + (era === targetEra ? 0 : era === 'be' ? -BE_OFFSET : BE_OFFSET);
+  switch (entity.kind) {
+    case 'year':
+      return hasEraLabel(entity) || era !== targetEra
+        ? `${LANGUAGES[direction.source].numbers.eraLabels[targetEra]}${year}`
+        : String(year);
+    case 'date':
+      return normalizeDigits(entity.text).slice(0, -4) + year;
+    case 'amount':
+      return groupThousands(entity.value);
+    case 'numeral':
+      return entity.value.split('.')[0].length > 4 ? groupThousands(entity.value) : entity.value;
+    case 'number':
+      return THOUSANDS_REGEX.test(normalizeDigits(entity.text)) ? groupThousands(entity.value) : entity.value;
+  }
+};
+
+// A year whose era was only implied gets its label, so the two years can't be confused.
+const describeOriginal = (entity: NumberEntity, direction: TranslationDirection) =>
+  entity.kind === 'year' && !hasEraLabel(entity) && entity.era && entity.era !== LANGUAGES[direction.target].numbers.era
+    ? `${LANGUAGES[direction.source].numbers.eraLabels[entity.era]}${entity.text}`
+    : entity.text;
+
+// Regrouping the digits of an amount doesn't need the original repeated.
+const sameDigits = (a: string, b: string) => a.replace(/[.,\s]/g, '') === b.replace(/[.,\s]/g, '');
+
+/**
+ * Rewrites the numbers of `text` for the policy: `convert` puts them in the target
+ * language's convention, `both` adds the original in brackets after a converted value,
+ * and `keep` leaves the text as it is.
+ */
+export const normalizeNumbers = (text: string, direction: TranslationDirection, policy: NumberPolicy): string => {
+  if (policy === 'keep') return text;
+  const [open, close] = LANGUAGES[direction.source].script === 'Han' ? ['（', '）'] : [' (', ')'];
+  let result = '';
+  let cursor = 0;
+  for (const entity of detectNumbers(text)) {
+    const converted = convertEntity(entity, direction);
+    const rendered = policy === 'both' && !sameDigits(converted, entity.text)
+      ? `${converted}${open}${describeOriginal(entity, direction)}${close}`
+      : converted;
+    result += text.slice(cursor, entity.start) + rendered;
+    cursor = entity.end;
+  }
+  return result + text.slice(cursor);
+};
+
+// --- Checking ---
+
+// Placeholder numbers aren't amounts; placeholders are checked on their own.
+const PLACEHOLDER_REGEX = /[[［【]\s*[^[\]［］【】\s]+\s*_\s*\d+\s*[\]］】]/g;
+const CHINESE_NUMBER_REGEX = new RegExp(`${CHINESE_YEAR}(?=\\s*年)|${CHINESE_NUMERAL}`, 'g');
+const NUMBER_REGEX = /\d+(?:[.,]\d+)*/g;
+
+/**
+ * The numbers in `text`, in any digit script or as Chinese numerals. `1,000,000` and
+ * `1.000.000` are the same amount, a single separator is a decimal point, and dates and
+ * codes count part by part.
+ */
+export const findNumberValues = (text: string): Set<string> => {
+  const plain = normalizeDigits(text.replace(PLACEHOLDER_REGEX, ' '))
+    .replace(CHINESE_NUMBER_REGEX, numeral => ` ${parseChineseNumeral(numeral) ?? numeral} `);
+  return new Set(
+    (plain.match(NUMBER_REGEX) ?? [])
+      .flatMap(token => {
+        if (THOUSANDS_REGEX.test(token)) return [token.replace(/[.,]/g, '')];
+        const parts = token.split(/[.,]/);
+        return parts.length === 2 ? [`${parts[0]}.${parts[1]}`] : parts;
+      })
+      .map(value => value.replace(/^0+(?=\d)/, '')),
+  );
+};
+
+/**
+ * Every number of a finished segment's source, as the job's policy sent it, that can't be
+ * found in its translation, whatever convention either side writes it in. Segments copied
+ * as they are can't lose any.
+ */
+export const checkNumbers = (segments: TranslationSegment[], direction: TranslationDirection, policy: NumberPolicy): NumberIssue[] =>
+  segments
+    .filter(segment => segment.status === 'done' && !segment.passThrough)
+    .flatMap(segment => {
+      const found = findNumberValues(segment.translation);
+      return [...findNumberValues(normalizeNumbers(segment.source, direction, policy))]
+        .filter(value => !found.has(value))
+        .map(value => ({ segment: segment.index, value }));
+    });
@@ -0,0 +1,90 @@
+// Offline OCR for scanned pages and photos. Recognition runs in tesseract.js's Web
+// Worker; the worker script, the WASM core and the Lao and Simplified Chinese models
+// are all bundled with the app, so nothing is fetched from a CDN.
+
+import { createWorker, OEM, Worker } from 'tesseract.js';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+// The SIMD build runs in every current browser and the LSTM-only build skips legacy data.
+import corePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import laoModelUrl from '@tesseract.js-data/lao/4.0.0_best_int/lao.traineddata.gz?url';
+import chineseModelUrl from '@tesseract.js-data/chi_sim/4.0.0_best_int/chi_sim.traineddata.gz?url';
+import { PdfTextItem } from './pdfLayout';
+
+export interface OcrResult {
+  /** Recognised lines, positioned like PDF text items so the layout rebuild applies to them too. */
+  items: PdfTextItem[];
+  /** Mean word confidence, 0–100. */
+  confidence: number;
+}
+
+const MODELS = [
+  { code: 'lao', url: laoModelUrl },
+  { code: 'chi_sim', url: chineseModelUrl },
+];
+
+let workerPromise: Promise<Worker> | null = null;
+
+const loadModel = async ({ code, url }: { code: string; url: string }) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load the ${code} OCR model (${response.status}).`);
+  }
+  return { code, data: new Uint8Array(await response.arrayBuffer()) };
+};
+
+// One worker serves the whole session; the models take a few seconds to initialise.
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = Promise.all(MODELS.map(loadModel))
+      .then(langs => createWorker(langs, OEM.LSTM_ONLY, {
+        workerPath,
+        corePath,
+        workerBlobURL: false,
+        cacheMethod: 'none',
+      }))
+      .catch(error => {
+        workerPromise = null;
+        throw error;
+      });
+  }
+  return workerPromise;
+};
+
+/**
+ * Recognises Lao and Chinese text in an image. `scale` is the number of image pixels per
+ * PDF unit, so items come back in the coordinates of the page the image was rendered from;
+ * `y` is flipped to count from the bottom like PDF text.
+ */
+export const recognizeImage = async (image: HTMLCanvasElement, scale = 1): Promise<OcrResult> => {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image, {}, { blocks: true });
+
+  const items: PdfTextItem[] = [];
+  for (const block of data.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        // Tesseract separates Chinese characters with spaces.
+        const text = line.text.replace(/(?<=\p{Script=Han})\s+(?=\p{Script=Han})/gu, '').trimEnd();
+        if (!text.trim()) continue;
+        const { x0, y0, x1, y1 } = line.bbox;
+        items.push({
+          text,
+          x: x0 / scale,
+          y: (image.height - y1) / scale,
+          width: (x1 - x0) / scale,
+          fontSize: (y1 - y0) / scale,
+        });
+      }
+    }
+  }
+  return { items, confidence: data.confidence };
+};
+
+/** Frees the worker and its models, e.g. once a batch of pages is done. */
+export const terminateOcr = async () => {
+  const pending = workerPromise;
+  workerPromise = null;
+  if (pending) {
+    await (await pending).terminate();
+  }
+};
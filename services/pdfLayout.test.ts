@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { PAGE_BREAK } from './chunker';
+import { extractPdfLayout, PdfPageText, PdfTextItem } from './pdfLayout';
+
+const item = (text: string, x: number, y: number, width: number, fontSize = 12): PdfTextItem => ({ text, x, y, width, fontSize });
+
+const page = (...items: PdfTextItem[]): PdfPageText => ({ width: 600, height: 800, items });
+
+describe('extractPdfLayout', () => {
+  it('joins split Lao glyph runs and wrapped lines without adding spaces', () => {
+    const { blocks } = extractPdfLayout([page(
+      item('ສັນ', 50, 700, 20),
+      item('ຍາ', 70, 700, 15),
+      item('ສະບັບນີ້', 50, 685, 50),
+    )]);
+    expect(blocks.map(block => block.text)).toEqual(['ສັນຍາສະບັບນີ້']);
+  });
+
+  it('starts a paragraph after a tall gap and mends hyphenated words', () => {
+    const { blocks } = extractPdfLayout([page(
+      item('The trans-', 50, 700, 60),
+      item('lation of this', 50, 685, 90),
+      item('contract is final.', 50, 670, 100),
+      item('Signed on the 15th.', 50, 625, 110),
+    )]);
+    expect(blocks.map(block => block.text)).toEqual(['The translation of this contract is final.', 'Signed on the 15th.']);
+  });
+
+  it('keeps cells on one baseline apart with a tab', () => {
+    const { blocks } = extractPdfLayout([page(item('Name', 50, 700, 30), item('Somsak', 300, 700, 40))]);
+    expect(blocks[0].text).toBe('Name\tSomsak');
+  });
+
+  it('reads a full-width title, then the left column, then the right one', () => {
+    const rows = [670, 655, 640, 625, 610];
+    const { blocks } = extractPdfLayout([page(
+      item('Annual Report', 200, 720, 200, 20),
+      ...rows.flatMap((y, i) => [item(`left ${i + 1}`, 50, y, 200), item(`right ${i + 1}`, 320, y, 200)]),
+    )]);
+    expect(blocks.map(block => [block.type, block.text])).toEqual([
+      ['heading', 'Annual Report'],
+      ['paragraph', 'left 1 left 2 left 3 left 4 left 5'],
+      ['paragraph', 'right 1 right 2 right 3 right 4 right 5'],
+    ]);
+    expect(blocks[0].level).toBe(1);
+  });
+
+  it('drops running headers and page numbers and marks page boundaries', () => {
+    const parsed = extractPdfLayout([
+      page(item('ACME Report 2024', 50, 780, 100), item('Body one', 50, 400, 60), item('Page 1', 280, 30, 40)),
+      page(item('ACME Report 2024', 50, 780, 100), item('Body two', 50, 400, 60), item('- ໒ -', 280, 30, 40)),
+    ]);
+    expect(parsed.text).toBe(`Body one\n${PAGE_BREAK}\nBody two`);
+    expect(parsed.blocks.map(block => [block.id, block.page])).toEqual([['page1#0', 1], ['page2#0', 2]]);
+    expect(parsed.pageCount).toBe(2);
+  });
+
+  it('keeps the header of a single page but not its page number', () => {
+    const { text } = extractPdfLayout([page(
+      item('ACME Report 2024', 50, 780, 100),
+      item('First line', 50, 400, 60),
+      item('second line', 50, 385, 60),
+      item('third line', 50, 370, 60),
+      item('3', 290, 30, 6),
+    )]);
+    expect(text).toBe('ACME Report 2024\n\nFirst line second line third line');
+  });
+});
@@ -0,0 +1,257 @@
+// Rebuilds lines, paragraphs and reading order from positioned PDF text items. PDF
+// text comes as loose glyph runs: a Lao word can be split over several items, columns
+// sit side by side on the same baseline, and every page repeats its header and footer.
+
+import { DocumentBlock, ParsedDocument } from '../types';
+import { PAGE_BREAK } from './chunker';
+import { normalizeDigits } from './redaction';
+
+/** A text item in PDF user space: `y` is the baseline, measured from the bottom of the page. */
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+export interface PdfPageText {
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+}
+
+interface Fragment {
+  text: string;
+  x0: number;
+  x1: number;
+  y: number;
+  fontSize: number;
+}
+
+interface Line {
+  text: string;
+  y: number;
+  fontSize: number;
+}
+
+// Share of the page height at the top and bottom where running headers, footers and
+// page numbers live.
+const MARGIN_RATIO = 0.08;
+
+// A horizontal gap wider than this many font sizes separates columns or table cells.
+const FRAGMENT_GAP = 2.5;
+
+const DENSE_SCRIPT_REGEX = /[\p{Script=Lao}\p{Script=Thai}\p{Script=Han}]/u;
+
+const PAGE_NUMBER_REGEX = /^[-–—\s]*(?:page|p\.|ໜ້າ|หน้า|第)?\s*\d+\s*(?:页|\/\s*\d+|of\s*\d+)?[-–—\s]*$/i;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// --- Lines ---
+
+// Groups items sharing a baseline, then cuts each line where a wide gap suggests a
+// column gutter or a table cell boundary.
+const buildFragments = (items: PdfTextItem[]): Fragment[] => {
+  const sorted = items.filter(item => item.text.trim()).sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PdfTextItem[][] = [];
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - item.y) <= Math.max(row[0].fontSize, item.fontSize) * 0.5) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  const fragments: Fragment[] = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.x - b.x);
+    let current: Fragment | null = null;
+    for (const item of row) {
+      const gap = current ? item.x - current.x1 : 0;
+      if (current && gap <= item.fontSize * FRAGMENT_GAP) {
+        // Glyph runs of one word touch; a visible gap means a space.
+        const needsSpace = gap > item.fontSize * 0.2 && !/\s$/.test(current.text) && !/^\s/.test(item.text);
+        current.text += (needsSpace ? ' ' : '') + item.text;
+        current.x1 = Math.max(current.x1, item.x + item.width);
+        current.fontSize = Math.max(current.fontSize, item.fontSize);
+        continue;
+      }
+      if (current) fragments.push(current);
+      current = { text: item.text, x0: item.x, x1: item.x + item.width, y: row[0].y, fontSize: item.fontSize };
+    }
+    if (current) fragments.push(current);
+  }
+  return fragments.map(fragment => ({ ...fragment, text: fragment.text.replace(/\s+/g, ' ').trim() }));
+};
+
+// --- Headers, footers and page numbers ---
+
+const inMargin = (fragment: Fragment, page: PdfPageText) =>
+  fragment.y > page.height * (1 - MARGIN_RATIO) || fragment.y < page.height * MARGIN_RATIO;
+
+// Page numbers inside running headers change from page to page, so they are masked.
+const marginKey = (text: string) => normalizeDigits(text).replace(/\d+/g, '#').replace(/\s+/g, '');
+
+/**
+ * Drops page numbers and text repeated in the same margin on at least half of the
+ * pages. Documents of a single page keep everything but bare page numbers.
+ */
+const removeRunningText = (pages: Fragment[][], pageTexts: PdfPageText[]): Fragment[][] => {
+  const occurrences = new Map<string, number>();
+  pages.forEach((fragments, i) => {
+    const keys = new Set(fragments.filter(f => inMargin(f, pageTexts[i])).map(f => marginKey(f.text)));
+    keys.forEach(key => occurrences.set(key, (occurrences.get(key) ?? 0) + 1));
+  });
+  const threshold = Math.max(2, Math.ceil(pages.length / 2));
+
+  return pages.map((fragments, i) =>
+    fragments.filter(fragment => {
+      if (!inMargin(fragment, pageTexts[i])) return true;
+      if (PAGE_NUMBER_REGEX.test(normalizeDigits(fragment.text))) return false;
+      return (occurrences.get(marginKey(fragment.text)) ?? 0) < threshold;
+    }),
+  );
+};
+
+// --- Reading order ---
+
+// Looks for a vertical gutter between two columns: a position in the middle half of
+// the page that (almost) no fragment crosses, with enough text on either side.
+const findGutter = (fragments: Fragment[], pageWidth: number): number | null => {
+  const minSide = Math.max(3, fragments.length * 0.2);
+  let best: { x: number; score: number } | null = null;
+
+  // The gutter starts right of some fragment and ends left of another.
+  const candidates = fragments.flatMap(fragment => [fragment.x1 + 1, fragment.x0 - 1]);
+  for (const x of candidates) {
+    if (x < pageWidth * 0.25 || x > pageWidth * 0.75) continue;
+    const crossing = fragments.filter(f => f.x0 < x && f.x1 > x).length;
+    if (crossing > fragments.length * 0.1) continue;
+    const left = fragments.filter(f => f.x1 <= x).length;
+    const right = fragments.filter(f => f.x0 >= x).length;
+    const score = Math.min(left, right);
+    if (score >= minSide && (!best || score > best.score)) {
+      best = { x, score };
+    }
+  }
+  return best?.x ?? null;
+};
+
+// Joins fragments on the same baseline (table cells, label and value) with a tab.
+const toLines = (fragments: Fragment[]): Line[] => {
+  const lines: Line[] = [];
+  for (const fragment of fragments) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - fragment.y) <= fragment.fontSize * 0.5) {
+      line.text += `\t${fragment.text}`;
+      line.fontSize = Math.max(line.fontSize, fragment.fontSize);
+    } else {
+      lines.push({ text: fragment.text, y: fragment.y, fontSize: fragment.fontSize });
+    }
+  }
+  return lines;
+};
+
+/**
+ * Orders the fragments of a page into columns of lines. With a gutter, text crossing it
+ * (titles, full-width tables) splits the page into bands, and each band is read left
+ * column first.
+ */
+const orderIntoColumns = (fragments: Fragment[], pageWidth: number): Line[][] => {
+  const byPosition = [...fragments].sort((a, b) => b.y - a.y || a.x0 - b.x0);
+  const gutter = findGutter(byPosition, pageWidth);
+  if (gutter === null) return [toLines(byPosition)];
+
+  const columns: Line[][] = [];
+  let left: Fragment[] = [];
+  let right: Fragment[] = [];
+  const flushBand = () => {
+    if (left.length) columns.push(toLines(left));
+    if (right.length) columns.push(toLines(right));
+    left = [];
+    right = [];
+  };
+  for (const fragment of byPosition) {
+    if (fragment.x1 <= gutter) left.push(fragment);
+    else if (fragment.x0 >= gutter) right.push(fragment);
+    else {
+      flushBand();
+      columns.push(toLines([fragment]));
+    }
+  }
+  flushBand();
+  return columns;
+};
+
+// --- Paragraphs ---
+
+const joinLines = (previous: string, next: string): string => {
+  const last = previous[previous.length - 1];
+  const first = next[0];
+  if (/[A-Za-z]-$/.test(previous) && /^[a-z]/.test(next)) return previous.slice(0, -1) + next;
+  // Lao, Thai and Chinese have no spaces between words, so a wrapped line joins directly.
+  if (DENSE_SCRIPT_REGEX.test(last) && DENSE_SCRIPT_REGEX.test(first)) return previous + next;
+  return `${previous} ${next}`;
+};
+
+interface PdfParagraph {
+  text: string;
+  fontSize: number;
+}
+
+// A paragraph ends at a gap clearly taller than the usual line spacing or at a change
+// of font size.
+const buildParagraphs = (lines: Line[]): PdfParagraph[] => {
+  const spacings = lines.slice(1).map((line, i) => lines[i].y - line.y).filter(spacing => spacing > 0);
+  const typicalSpacing = median(spacings) || (lines[0]?.fontSize ?? 12) * 1.2;
+  const paragraphs: PdfParagraph[] = [];
+  let previous: Line | null = null;
+
+  for (const line of lines) {
+    const current = paragraphs[paragraphs.length - 1];
+    const gap = previous ? previous.y - line.y : Infinity;
+    const sizeChanged = previous ? Math.abs(previous.fontSize - line.fontSize) > previous.fontSize * 0.2 : true;
+    if (current && gap <= typicalSpacing * 1.4 && gap > 0 && !sizeChanged) {
+      current.text = joinLines(current.text, line.text);
+    } else {
+      paragraphs.push({ text: line.text, fontSize: line.fontSize });
+    }
+    previous = line;
+  }
+  return paragraphs;
+};
+
+/**
+ * Turns positioned page text into a structured document: one block per paragraph,
+ * headings recognised by their font size, pages separated by `PAGE_BREAK`.
+ */
+export const extractPdfLayout = (pages: PdfPageText[]): ParsedDocument => {
+  const fragments = removeRunningText(pages.map(page => buildFragments(page.items)), pages);
+  const bodySize = median(fragments.flat().map(fragment => fragment.fontSize)) || 12;
+  const blocks: DocumentBlock[] = [];
+  const pageTexts: string[] = [];
+
+  fragments.forEach((pageFragments, pageIndex) => {
+    const paragraphs = orderIntoColumns(pageFragments, pages[pageIndex].width).flatMap(buildParagraphs);
+    paragraphs.forEach((paragraph, i) => {
+      const isHeading = paragraph.fontSize >= bodySize * 1.3 && paragraph.text.length < 200;
+      blocks.push({
+        id: `page${pageIndex + 1}#${i}`,
+        type: isHeading ? 'heading' : 'paragraph',
+        ...(isHeading ? { level: paragraph.fontSize >= bodySize * 1.6 ? 1 : 2 } : {}),
+        runs: [{ text: paragraph.text }],
+        text: paragraph.text,
+        page: pageIndex + 1,
+      });
+    });
+    pageTexts.push(paragraphs.map(paragraph => paragraph.text).join('\n\n'));
+  });
+
+  return { format: 'pdf', text: pageTexts.join(`\n${PAGE_BREAK}\n`), blocks, pageCount: pages.length };
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { LANGUAGES } from './languages';
+import { buildFieldPrompt, buildTranslationPrompt, CURRENT_PROMPT_VERSION, PROMPT_TEMPLATES } from './promptTemplates';
+
+const LO_TO_ZH = { source: 'lo', target: 'zh' } as const;
+const ZH_TO_LO = { source: 'zh', target: 'lo' } as const;
+
+describe('buildTranslationPrompt', () => {
+  it('uses the multi-step template by default', () => {
+    expect(CURRENT_PROMPT_VERSION).toMatch(/^multistep-/);
+    const prompt = buildTranslationPrompt({ content: 'ສະບາຍດີ', direction: LO_TO_ZH, anonymize: false });
+    expect(prompt).toContain('Step 1:');
+    expect(prompt).toContain('Step 3:');
+    expect(prompt).not.toContain('Step 4:');
+    expect(prompt.endsWith('ສະບາຍດີ')).toBe(true);
+  });
+
+  it('takes the reading notes from the source and the grammar step from the target', () => {
+    const loToZh = buildTranslationPrompt({ content: 'x', direction: LO_TO_ZH, anonymize: false });
+    expect(loToZh).toContain(LANGUAGES.lo.prompt.sourceNotes);
+    expect(loToZh).toContain(LANGUAGES.zh.prompt.grammarStep);
+    expect(loToZh).toContain('from Lao to Simplified Chinese');
+
+    const zhToLo = buildTranslationPrompt({ content: 'x', direction: ZH_TO_LO, anonymize: false });
+    expect(zhToLo).toContain(LANGUAGES.zh.prompt.sourceNotes);
+    expect(zhToLo).toContain(LANGUAGES.lo.prompt.grammarStep);
+  });
+
+  it('adds the target language\'s anonymization step when asked', () => {
+    const prompt = buildTranslationPrompt({ content: 'x', direction: LO_TO_ZH, anonymize: true });
+    expect(prompt).toContain(`Step 4: ${LANGUAGES.zh.prompt.anonymizeStep}`);
+    expect(prompt).toContain('ONLY be the fully anonymized translation from Step 4');
+  });
+
+  it('tells the model to keep placeholders and converted numbers', () => {
+    const prompt = buildTranslationPrompt({
+      content: '[ຊື່_1] 2024',
+      direction: LO_TO_ZH,
+      anonymize: true,
+      hasPlaceholders: true,
+      hasNumbers: true,
+    });
+    expect(prompt).toContain('Copy every placeholder into the translation exactly as written');
+    expect(prompt).toContain('Leave the existing numbered placeholders exactly as they are.');
+    expect(prompt).toContain('Numbers, dates, years and amounts are already written');
+  });
+
+  it('lists the glossary terms and the position of a part', () => {
+    const prompt = buildTranslationPrompt({
+      content: 'x',
+      direction: LO_TO_ZH,
+      anonymize: false,
+      glossary: [{ source: 'ສັນຍາ', target: '合同', note: 'legal' }],
+      part: { index: 1, total: 3 },
+    });
+    expect(prompt).toContain('- ສັນຍາ → 合同 (legal)');
+    expect(prompt).toContain('This is part 2 of 3');
+  });
+
+  it('leaves the part note out of single-part documents', () => {
+    const prompt = buildTranslationPrompt({ content: 'x', direction: LO_TO_ZH, anonymize: false, part: { index: 0, total: 1 } });
+    expect(prompt).not.toContain('This is part');
+  });
+
+  it('builds every registered version', () => {
+    for (const version of Object.keys(PROMPT_TEMPLATES)) {
+      const prompt = buildTranslationPrompt({ content: 'ສະບາຍດີ', direction: LO_TO_ZH, anonymize: false }, version);
+      expect(prompt).toContain('ສະບາຍດີ');
+      expect(prompt).toContain('Simplified Chinese');
+    }
+  });
+
+  it('keeps the simple template to a single instruction', () => {
+    const prompt = buildTranslationPrompt({ content: 'x', direction: ZH_TO_LO, anonymize: false }, 'simple-2');
+    expect(prompt).toContain('Translate the following content from Simplified Chinese to Lao.');
+    expect(prompt).not.toContain('Step 1:');
+  });
+
+  it('rejects unknown versions', () => {
+    expect(() => buildTranslationPrompt({ content: 'x', direction: LO_TO_ZH, anonymize: false }, 'nope-1')).toThrow('Unknown prompt template version: nope-1');
+  });
+});
+
+describe('buildFieldPrompt', () => {
+  const field = { label: '父亲姓名', documentTitle: '出生证明', direction: LO_TO_ZH };
+
+  it('asks for names to be transliterated and other values translated, ending with the value', () => {
+    const name = buildFieldPrompt({ ...field, value: 'ບຸນມີ ວົງສາ', rule: 'name' });
+    expect(name).toContain('You are filling in the field "父亲姓名" of a 出生证明 translated from Lao.');
+    expect(name).toContain('Transliterate the following Lao personal name into Simplified Chinese');
+    expect(name.endsWith('ບຸນມີ ວົງສາ')).toBe(true);
+
+    const text = buildFieldPrompt({ ...field, value: 'ນະຄອນຫຼວງວຽງຈັນ', rule: 'text' });
+    expect(text).toContain('Translate the following value from Lao to Simplified Chinese');
+    expect(text).not.toContain('placeholders');
+  });
+
+  it('tells the model to keep placeholders of masked values', () => {
+    const prompt = buildFieldPrompt({ ...field, value: 'ໂທ [联系电话_1]', rule: 'text', hasPlaceholders: true });
+    expect(prompt).toContain('Copy every placeholder into the translation exactly as written');
+  });
+});
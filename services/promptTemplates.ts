@@ -0,0 +1,132 @@
+import { TranslationDirection } from '../types';
+import type { GlossaryTerm } from './glossary';
+import { LANGUAGES, PromptInstructions } from './languages';
+
+export interface PromptOptions {
+  content: string;
+  direction: TranslationDirection;
+  anonymize: boolean;
+  /** Whether `content` was redacted locally and holds placeholders like `[联系电话_1]`. */
+  hasPlaceholders?: boolean;
+  /** Whether `content` holds numbers, which were already converted for the job's number policy. */
+  hasNumbers?: boolean;
+  /** Glossary terms that occur in `content` and must be rendered exactly as given. */
+  glossary?: GlossaryTerm[];
+  /** Position of `content` within a longer document that is translated piece by piece. */
+  part?: { index: number; total: number };
+}
+
+export interface PromptTemplate {
+  version: string;
+  description: string;
+  build: (options: PromptOptions) => string;
+}
+
+export const getLanguagePair = (direction: TranslationDirection): [PromptInstructions, PromptInstructions] =>
+  [LANGUAGES[direction.source].prompt, LANGUAGES[direction.target].prompt];
+
+const describePart = (part: PromptOptions['part']): string =>
+  part && part.total > 1
+    ? `\nThis is part ${part.index + 1} of ${part.total} of a longer document. Translate only this part and do not add headings or notes about the split.\n`
+    : '';
+
+const describeGlossary = (glossary: PromptOptions['glossary']): string =>
+  glossary && glossary.length > 0
+    ? [
+        'Use the following terminology exactly as given. Each source term must be translated with its required target term:',
+        ...glossary.map(term => `- ${term.source} → ${term.target}${term.note ? ` (${term.note})` : ''}`),
+      ].join('\n')
+    : '';
+
+const PLACEHOLDER_INSTRUCTIONS = 'The document contains placeholders in square brackets, such as [联系电话_1] or [ຊື່_2], that stand for personal data removed before translation. Copy every placeholder into the translation exactly as written, in the matching position. Never translate, renumber, merge or remove them.';
+
+const NUMBER_INSTRUCTIONS = 'Numbers, dates, years and amounts are already written the way the translation needs them. Copy each one with exactly the digits and the era it has in the source, including any value repeated in brackets; do not convert digits, eras, units or currencies yourself.';
+
+const simpleTemplate: PromptTemplate = {
+  version: 'simple-2',
+  description: 'Single instruction, no intermediate steps.',
+  build: ({ content, direction, hasPlaceholders, hasNumbers, glossary }) => {
+    const [{ name: sourceLanguage }, { name: targetLanguage }] = getLanguagePair(direction);
+    return [
+      `You are a professional translator. Translate the following content from ${sourceLanguage} to ${targetLanguage}.`,
+      'Output ONLY the translated text, no explanations or extra notes.',
+      ...(hasPlaceholders ? [PLACEHOLDER_INSTRUCTIONS] : []),
+      ...(hasNumbers ? [NUMBER_INSTRUCTIONS] : []),
+      describeGlossary(glossary),
+      content,
+    ].filter(Boolean).join('\n\n');
+  },
+};
+
+const multiStepTemplate: PromptTemplate = {
+  version: 'multistep-5',
+  description: 'Literal translation, polish, grammar check and optional anonymization.',
+  build: ({ content, direction, anonymize, hasPlaceholders, hasNumbers, glossary, part }) => {
+    const [source, target] = getLanguagePair(direction);
+    const { name: sourceLanguage } = source;
+    const { name: targetLanguage } = target;
+    const terminology = describeGlossary(glossary);
+
+    return `
+You are an expert translation system. ${anonymize ? 'Your task is to translate the following document with the highest accuracy and then anonymize it. Follow this four-step process:' : 'Your task is to translate the following document with the highest accuracy. Follow this three-step process:'}
+
+${source.sourceNotes}
+${hasPlaceholders ? `\n${PLACEHOLDER_INSTRUCTIONS}\n` : ''}${hasNumbers ? `\n${NUMBER_INSTRUCTIONS}\n` : ''}${describePart(part)}
+Step 1: Perform a direct, literal translation of the text from ${sourceLanguage} to ${targetLanguage}. Do not output this result. This is just an intermediate step for your internal reference.
+
+Step 2: Review the literal translation from Step 1. As an expert linguist, revise and polish the text to correct any awkward phrasing, improve flow, and make it sound natural to a native ${targetLanguage} speaker.${terminology ? ' Keep every required glossary term while polishing.' : ''}
+
+Step 3: ${target.grammarStep}
+${anonymize ? `\nStep 4: ${target.anonymizeStep}${hasPlaceholders ? ' Leave the existing numbered placeholders exactly as they are.' : ''}\n` : ''}
+${terminology ? `${terminology}\n\n` : ''}The translation must be rigorous, accurate, and complete. Do not omit any details or simplify the content. Preserve the original formatting as much as possible, including line breaks and paragraphs.
+
+${anonymize ? 'The final output should ONLY be the fully anonymized translation from Step 4.' : 'The final output should ONLY be the polished translation from Step 3.'}
+
+--- DOCUMENT TO TRANSLATE ---
+
+${content}
+    `.trim();
+  },
+};
+
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  [simpleTemplate.version]: simpleTemplate,
+  [multiStepTemplate.version]: multiStepTemplate,
+};
+
+export const CURRENT_PROMPT_VERSION = multiStepTemplate.version;
+
+export interface FieldPromptOptions {
+  value: string;
+  /** The field's label in the target language, e.g. 父亲姓名. */
+  label: string;
+  /** The document the field comes from, e.g. 出生证明. */
+  documentTitle: string;
+  rule: 'name' | 'text';
+  direction: TranslationDirection;
+  /** Whether `value` was redacted locally and holds placeholders. */
+  hasPlaceholders?: boolean;
+}
+
+/** A prompt for one field of a document template, which is rendered on its own line of a form. */
+export const buildFieldPrompt = ({ value, label, documentTitle, rule, direction, hasPlaceholders }: FieldPromptOptions): string => {
+  const [{ name: sourceLanguage }, { name: targetLanguage }] = getLanguagePair(direction);
+  const task = rule === 'name'
+    ? `Transliterate the following ${sourceLanguage} personal name into ${targetLanguage} by its sound, the way certified translations of official documents render names. Do not translate the meaning of the name. Separate the given name and the family name with a middle dot (·).`
+    : `Translate the following value from ${sourceLanguage} to ${targetLanguage} in the formal register of certified translations of official documents. Render place names and institutions by their established ${targetLanguage} names where they have one.`;
+  return [
+    `You are filling in the field "${label}" of a ${documentTitle} translated from ${sourceLanguage}.`,
+    task,
+    ...(hasPlaceholders ? [PLACEHOLDER_INSTRUCTIONS] : []),
+    'Output ONLY the value for the field, on one line, with no label, explanations or notes.',
+    value,
+  ].join('\n\n');
+};
+
+export const buildTranslationPrompt = (options: PromptOptions, version = CURRENT_PROMPT_VERSION): string => {
+  const template = PROMPT_TEMPLATES[version];
+  if (!template) {
+    throw new Error(`Unknown prompt template version: ${version}`);
+  }
+  return template.build(options);
+};
@@ -0,0 +1,37 @@
+import { ApiError, GoogleGenAI } from '@google/genai';
+import { GeminiSettings } from '../../types';
+import { ProviderError, TranslationProvider } from './provider';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const createGeminiProvider = (settings: GeminiSettings): TranslationProvider => ({
+  id: 'gemini',
+  label: 'Google Gemini',
+  async *translateStream({ prompt, signal }) {
+    // The key is only checked when a translation starts, so the app still loads without one.
+    if (!settings.apiKey) {
+      throw new ProviderError('No Gemini API key configured. Add one in Settings or set VITE_API_KEY.');
+    }
+
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+    try {
+      const responseStream = await ai.models.generateContentStream({
+        model: settings.model || DEFAULT_GEMINI_MODEL,
+        contents: prompt,
+        config: { abortSignal: signal },
+      });
+
+      for await (const chunk of responseStream) {
+        yield {
+          text: chunk.text ?? '',
+          blockReason: chunk.promptFeedback?.blockReason,
+        };
+      }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw new ProviderError(`Gemini API error: ${error.message}`, error.status);
+      }
+      throw error;
+    }
+  },
+});
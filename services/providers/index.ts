@@ -0,0 +1,29 @@
+import { ProviderId, ProviderSettings } from '../../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createServerProvider } from './serverProvider';
+import { TranslationProvider } from './provider';
+
+export { ProviderError } from './provider';
+export type { TranslationProvider, TranslationRequest } from './provider';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Calls the Gemini API directly from the browser.' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible', description: 'Any server exposing /chat/completions, including local stand-ins.' },
+  { id: 'server', label: 'Translation server', description: 'Sends text to the app\'s API server, which keeps the provider key.' },
+  { id: 'mock', label: 'Local mock', description: 'Echoes the source text back. No network access or key needed.' },
+];
+
+export const createProvider = (settings: ProviderSettings): TranslationProvider => {
+  switch (settings.providerId) {
+    case 'gemini':
+      return createGeminiProvider(settings.gemini);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings.openAICompatible);
+    case 'server':
+      return createServerProvider(settings.server);
+    case 'mock':
+      return createMockProvider();
+  }
+};
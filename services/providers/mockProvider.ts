@@ -0,0 +1,31 @@
+import { TranslationProvider } from './provider';
+
+const PIECE_LENGTH = 24;
+const PIECE_DELAY_MS = 30;
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+/**
+ * Echoes the source text back in small pieces. Useful for working on the UI
+ * without an API key and for running offline.
+ */
+export const createMockProvider = (): TranslationProvider => ({
+  id: 'mock',
+  label: 'Local mock (echo)',
+  async *translateStream({ text, direction, signal }) {
+    const tag = `[mock ${direction.source}→${direction.target}]`;
+    yield { text: `${tag}\n` };
+
+    for (let i = 0; i < text.length; i += PIECE_LENGTH) {
+      await delay(PIECE_DELAY_MS, signal);
+      yield { text: text.slice(i, i + PIECE_LENGTH) };
+    }
+  },
+});
@@ -0,0 +1,55 @@
+import { OpenAICompatibleSettings } from '../../types';
+import { ProviderError, TranslationProvider } from './provider';
+import { readServerSentEvents } from './sse';
+
+interface ChatCompletionStreamChunk {
+  choices?: {
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }[];
+}
+
+export const createOpenAICompatibleProvider = (settings: OpenAICompatibleSettings): TranslationProvider => ({
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible API',
+  async *translateStream({ prompt, signal }) {
+    if (!settings.baseUrl) {
+      throw new ProviderError('No base URL configured for the OpenAI-compatible provider.');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers.Authorization = `Bearer ${settings.apiKey}`;
+    }
+
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{ role: 'user', content: prompt }],
+        stream: true,
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderError(
+        `OpenAI-compatible API error: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`,
+        response.status,
+      );
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      if (!data || data === '[DONE]') continue;
+
+      const chunk: ChatCompletionStreamChunk = JSON.parse(data);
+      const choice = chunk.choices?.[0];
+      yield {
+        text: choice?.delta?.content ?? '',
+        blockReason: choice?.finish_reason === 'content_filter' ? 'CONTENT_FILTER' : undefined,
+      };
+    }
+  },
+});
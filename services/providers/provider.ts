@@ -0,0 +1,27 @@
+import { ProviderId, TranslationChunk, TranslationDirection } from '../../types';
+
+export interface TranslationRequest {
+  /** The fully built prompt, for providers that talk to an LLM. */
+  prompt: string;
+  /** The raw source text, for providers that don't need the prompt (e.g. the mock provider). */
+  text: string;
+  direction: TranslationDirection;
+  signal?: AbortSignal;
+}
+
+export interface TranslationProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  translateStream: (request: TranslationRequest) => AsyncIterable<TranslationChunk>;
+}
+
+export class ProviderError extends Error {
+  /** HTTP status code reported by the provider, when there was one. */
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
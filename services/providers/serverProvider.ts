@@ -0,0 +1,48 @@
+import { ServerSettings, TranslationChunk } from '../../types';
+import { ProviderError, TranslationProvider } from './provider';
+import { readServerSentEvents } from './sse';
+
+/** An event of `POST /api/translate`: a chunk of the translation, or the provider's failure. */
+export type ServerTranslateEvent = TranslationChunk | { error: string; status?: number };
+
+export const getServerHeaders = (settings: ServerSettings): Record<string, string> =>
+  settings.token ? { Authorization: `Bearer ${settings.token}` } : {};
+
+/**
+ * Sends the prompt to the translation server, which forwards it to its own provider.
+ * The server's provider errors keep their status so rate limits are still retried.
+ */
+export const createServerProvider = (settings: ServerSettings): TranslationProvider => ({
+  id: 'server',
+  label: 'Translation server',
+  async *translateStream({ prompt, text, direction, signal }) {
+    if (!settings.baseUrl) {
+      throw new ProviderError('No translation server URL configured.');
+    }
+
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/api/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getServerHeaders(settings) },
+      body: JSON.stringify({ prompt, text, direction }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderError(
+        `Translation server error: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`,
+        response.status,
+      );
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      if (!data || data === '[DONE]') continue;
+
+      const event: ServerTranslateEvent = JSON.parse(data);
+      if ('error' in event) {
+        throw new ProviderError(`Translation server error: ${event.error}`, event.status);
+      }
+      yield event;
+    }
+  },
+});
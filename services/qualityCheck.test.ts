@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderSettings, SegmentQuality, TranslationChunk, TranslationSegment } from '../types';
+import { ProviderError } from './providers';
+import { checkSegmentEntities, isLowQuality, needsQualityCheck, runQualityCheck, scoreBackTranslation } from './qualityCheck';
+import { translateDocumentStream } from './translationService';
+
+vi.mock('./translationService', () => ({ translateDocumentStream: vi.fn() }));
+
+const LO_ZH = { source: 'lo', target: 'zh' } as const;
+
+const segment = (index: number, source: string, translation: string, extra: Partial<TranslationSegment> = {}): TranslationSegment => ({
+  index,
+  source,
+  separator: '',
+  translation,
+  status: 'done',
+  attempts: 1,
+  ...extra,
+});
+
+async function* stream(...chunks: TranslationChunk[]): AsyncIterable<TranslationChunk> {
+  yield* chunks;
+}
+
+beforeEach(() => {
+  vi.mocked(translateDocumentStream).mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('checkSegmentEntities', () => {
+  it('reports numbers lost or added, whatever digits either side writes them in', () => {
+    expect(checkSegmentEntities('ລາຄາ ໕໐໐ ໂດລາ ພາຍໃນ 30 ວັນ', '价格500美元，31天内', LO_ZH)).toEqual([
+      { kind: 'number', value: '30', problem: 'missing' },
+      { kind: 'number', value: '31', problem: 'unexpected' },
+    ]);
+    expect(checkSegmentEntities('ລາຄາ 1,500 ໂດລາ', '价格1500美元', LO_ZH)).toEqual([]);
+  });
+
+  it('reports Latin-script names the translation dropped', () => {
+    expect(checkSegmentEntities('ບໍລິສັດ ABC ແລະ Lao-Telecom', '由ABC公司和老挝电信', LO_ZH)).toEqual([
+      { kind: 'name', value: 'Lao-Telecom', problem: 'missing' },
+    ]);
+  });
+
+  it('leaves names alone when the source is in Latin script', () => {
+    expect(checkSegmentEntities('Sign Here', '在此签名', { source: 'en', target: 'zh' })).toEqual([]);
+  });
+
+  it('reports placeholders lost or invented, accepting full-width brackets', () => {
+    expect(checkSegmentEntities('ໂທ [ເບີໂທລະສັບ_1] ຫາ [ຊື່_1]', '致电【ເບີໂທລະສັບ_1】联系[姓名_2]', LO_ZH)).toEqual([
+      { kind: 'placeholder', value: '[ຊື່_1]', problem: 'missing' },
+      { kind: 'placeholder', value: '[姓名_2]', problem: 'unexpected' },
+    ]);
+  });
+});
+
+describe('scoreBackTranslation', () => {
+  it('scores by shared character pairs, regardless of order, case and punctuation', () => {
+    expect(scoreBackTranslation('ສັນຍາສະບັບນີ້', 'ສັນຍາສະບັບນີ້.')).toBe(1);
+    expect(scoreBackTranslation('The buyer pays.', 'the BUYER pays')).toBe(1);
+    expect(scoreBackTranslation('abcd', 'cdab')).toBeCloseTo(2 / 3);
+    expect(scoreBackTranslation('abcd', 'wxyz')).toBe(0);
+    expect(scoreBackTranslation('', '!')).toBe(1);
+  });
+
+  it('flags low scores and any entity issue', () => {
+    expect(isLowQuality({ score: 0.4, backTranslation: '', issues: [] })).toBe(true);
+    expect(isLowQuality({ score: 0.9, backTranslation: '', issues: [{ kind: 'number', value: '3', problem: 'missing' }] })).toBe(true);
+    expect(isLowQuality({ score: null, backTranslation: '', issues: [] })).toBe(false);
+  });
+});
+
+describe('runQualityCheck', () => {
+  const settings = { providerId: 'mock' } as ProviderSettings;
+
+  it('back-translates the translated segments and skips copied, empty and unfinished ones', async () => {
+    vi.mocked(translateDocumentStream).mockImplementation(() => stream({ text: ' ສັນຍາ' }, { text: 'ສະບັບນີ້ ' }));
+    const segments = [
+      segment(0, 'ສັນຍາສະບັບນີ້', '本合同'),
+      segment(1, '2024', '2024', { passThrough: true }),
+      segment(2, 'ກ', '', { status: 'failed' }),
+      segment(3, 'ຂ', '  '),
+    ];
+    expect(segments.map(needsQualityCheck)).toEqual([true, false, false, false]);
+
+    const checked: [number, SegmentQuality][] = [];
+    await runQualityCheck(segments, LO_ZH, settings, { signal: new AbortController().signal, onSegmentChecked: (index, quality) => checked.push([index, quality]) });
+    expect(checked).toEqual([[0, { score: 1, backTranslation: 'ສັນຍາສະບັບນີ້', issues: [] }]]);
+    expect(vi.mocked(translateDocumentStream).mock.calls[0].slice(0, 2)).toEqual(['本合同', { source: 'zh', target: 'lo' }]);
+  });
+
+  it('still reports the entity issues when the back-translation fails', async () => {
+    vi.mocked(translateDocumentStream).mockImplementation(() => stream({ text: '', blockReason: 'SAFETY' }));
+    const checked: [number, SegmentQuality][] = [];
+    await runQualityCheck([segment(0, 'ລາຄາ 500', '价格')], LO_ZH, settings, {
+      signal: new AbortController().signal,
+      onSegmentChecked: (index, quality) => checked.push([index, quality]),
+    });
+    expect(checked).toEqual([[0, {
+      score: null,
+      backTranslation: '',
+      issues: [{ kind: 'number', value: '500', problem: 'missing' }],
+      error: 'The back-translation was blocked due to: SAFETY.',
+    }]]);
+  });
+
+  it('checks the numbers against the source as the number policy sent it', async () => {
+    vi.mocked(translateDocumentStream).mockImplementation(() => stream({ text: 'ໃນປີ ຄ.ສ. 2024' }));
+    const checked: [number, SegmentQuality][] = [];
+    await runQualityCheck([segment(0, 'ໃນປີ ໒໕໖໗', '于2024年')], LO_ZH, settings, {
+      signal: new AbortController().signal,
+      numberPolicy: 'convert',
+      onSegmentChecked: (index, quality) => checked.push([index, quality]),
+    });
+    expect(checked).toEqual([[0, { score: 1, backTranslation: 'ໃນປີ ຄ.ສ. 2024', issues: [] }]]);
+  });
+
+  it('stops without reporting once cancelled', async () => {
+    const controller = new AbortController();
+    vi.mocked(translateDocumentStream).mockImplementation(async function* () {
+      controller.abort();
+      throw new ProviderError('Aborted', 503);
+    });
+    const onSegmentChecked = vi.fn();
+    await runQualityCheck([segment(0, 'ກ', '甲'), segment(1, 'ຂ', '乙')], LO_ZH, settings, { signal: controller.signal, concurrency: 1, onSegmentChecked });
+    expect(onSegmentChecked).not.toHaveBeenCalled();
+    expect(translateDocumentStream).toHaveBeenCalledTimes(1);
+  });
+});
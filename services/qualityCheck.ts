@@ -0,0 +1,138 @@
+// Optional quality pass over a finished translation. Each segment is translated back into
+// the source language and compared with the original, and numbers, Latin-script names
+// and PII placeholders are checked for having carried over. Nothing here changes the
+// translation; it only points the reviewer at the segments worth a second look.
+
+import { NumberPolicy, ProviderSettings, QualityIssue, SegmentQuality, TranslationDirection, TranslationSegment } from '../types';
+import { LANGUAGES, reverseDirection } from './languages';
+import { findNumberValues, normalizeNumbers } from './numberNormalization';
+import { ProviderError } from './providers';
+import { findPlaceholders, hasPlaceholder, normalizeDigits } from './redaction';
+import { isAbortError, withRetry } from './retry';
+import { DEFAULT_CONCURRENCY } from './translationJob';
+import { translateDocumentStream } from './translationService';
+
+/** Segments whose back-translation scores below this are highlighted for review. */
+export const LOW_QUALITY_SCORE = 0.5;
+
+export interface QualityCheckOptions {
+  signal: AbortSignal;
+  /** The job's number policy; segments are compared as they were sent. Defaults to `keep`. */
+  numberPolicy?: NumberPolicy;
+  concurrency?: number;
+  onSegmentChecked: (index: number, quality: SegmentQuality) => void;
+}
+
+// --- Entity checks ---
+
+// Codes, brands and names in Latin letters are normally kept as they are.
+const LATIN_NAME_REGEX = /\b[A-Z][A-Za-z0-9]*(?:[-&][A-Za-z0-9]+)*\b/g;
+
+const latinNames = (text: string): Set<string> =>
+  new Set((text.match(LATIN_NAME_REGEX) ?? []).filter(name => name.length > 1));
+
+/** Numbers, Latin-script names and placeholders that didn't make it from `source` to `translation`, or appeared from nowhere. */
+export const checkSegmentEntities = (source: string, translation: string, direction: TranslationDirection): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+
+  const sourceNumbers = findNumberValues(source);
+  const targetNumbers = findNumberValues(translation);
+  sourceNumbers.forEach(value => !targetNumbers.has(value) && issues.push({ kind: 'number', value, problem: 'missing' }));
+  targetNumbers.forEach(value => !sourceNumbers.has(value) && issues.push({ kind: 'number', value, problem: 'unexpected' }));
+
+  // A Latin-script source has names in every other sentence, and a Latin-script target
+  // adds its own capitals, so names are only checked one way and not from Latin sources.
+  if (LANGUAGES[direction.source].script !== 'Latin') {
+    latinNames(source).forEach(name => !translation.includes(name) && issues.push({ kind: 'name', value: name, problem: 'missing' }));
+  }
+
+  const sourcePlaceholders = new Set(findPlaceholders(source));
+  sourcePlaceholders.forEach(placeholder =>
+    !hasPlaceholder(translation, placeholder) && issues.push({ kind: 'placeholder', value: placeholder, problem: 'missing' }),
+  );
+  new Set(findPlaceholders(translation)).forEach(placeholder =>
+    !sourcePlaceholders.has(placeholder) && issues.push({ kind: 'placeholder', value: placeholder, problem: 'unexpected' }),
+  );
+  return issues;
+};
+
+// --- Back-translation ---
+
+const bigrams = (text: string): Map<string, number> => {
+  // Lao and Thai vowels and tone marks are combining marks, so they are kept with the letters.
+  const letters = normalizeDigits(text).toLocaleLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+  const counts = new Map<string, number>();
+  for (let i = 0; i < letters.length - 1; i++) {
+    const pair = letters.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Dice similarity of the character bigrams, in [0, 1]. Unlike the memory's edit distance
+ * it doesn't punish a back-translation for putting the same words in another order.
+ */
+export const scoreBackTranslation = (source: string, backTranslation: string): number => {
+  const left = bigrams(source);
+  const right = bigrams(backTranslation);
+  const total = [...left.values(), ...right.values()].reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 1;
+  let shared = 0;
+  left.forEach((count, pair) => { shared += Math.min(count, right.get(pair) ?? 0); });
+  return (2 * shared) / total;
+};
+
+export const isLowQuality = (quality: SegmentQuality): boolean =>
+  quality.issues.length > 0 || (quality.score !== null && quality.score < LOW_QUALITY_SCORE);
+
+/** The check covers segments translated by the provider or taken from memory, not those copied as they are. */
+export const needsQualityCheck = (segment: TranslationSegment): boolean =>
+  segment.status === 'done' && !segment.passThrough && segment.translation.trim() !== '';
+
+const backTranslate = async (text: string, direction: TranslationDirection, settings: ProviderSettings, signal: AbortSignal) => {
+  let result = '';
+  await withRetry(async () => {
+    result = '';
+    for await (const chunk of translateDocumentStream(text, reverseDirection(direction), settings, { anonymize: false, signal })) {
+      if (chunk.blockReason) {
+        throw new ProviderError(`The back-translation was blocked due to: ${chunk.blockReason}.`);
+      }
+      result += chunk.text;
+    }
+  }, { signal });
+  return result.trim();
+};
+
+/**
+ * Back-translates and checks every segment that needs it, `concurrency` at a time. A
+ * failed back-translation still reports the entity issues, with a null score.
+ */
+export const runQualityCheck = async (
+  segments: TranslationSegment[],
+  direction: TranslationDirection,
+  settings: ProviderSettings,
+  options: QualityCheckOptions,
+): Promise<void> => {
+  const { signal, numberPolicy = 'keep', concurrency = DEFAULT_CONCURRENCY, onSegmentChecked } = options;
+  const queue = segments.filter(needsQualityCheck);
+
+  const worker = async () => {
+    while (!signal.aborted && queue.length > 0) {
+      const segment = queue.shift()!;
+      const source = normalizeNumbers(segment.source, direction, numberPolicy);
+      const issues = checkSegmentEntities(source, segment.translation, direction);
+      try {
+        const backTranslation = await backTranslate(segment.translation, direction, settings, signal);
+        onSegmentChecked(segment.index, { score: scoreBackTranslation(source, backTranslation), backTranslation, issues });
+      } catch (error) {
+        if (signal.aborted || isAbortError(error)) return;
+        console.error(`Quality check of segment ${segment.index + 1} failed:`, error);
+        const message = error instanceof Error ? error.message : 'The back-translation failed.';
+        onSegmentChecked(segment.index, { score: null, backTranslation: '', issues, error: message });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+};
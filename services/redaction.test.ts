@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRedactionReport,
+  containsPlaceholders,
+  detectPii,
+  findPlaceholders,
+  getAcceptedSpans,
+  getRedactionReportFileName,
+  hasPlaceholder,
+  isValidLuhn,
+  isValidPrcId,
+  normalizeDigits,
+  redactText,
+  restorePlaceholders,
+} from './redaction';
+
+const detect = (text: string) => detectPii(text).map(span => [span.category, span.text]);
+
+describe('validators', () => {
+  it('checks the PRC resident ID checksum', () => {
+    expect(isValidPrcId('11010519491231002X')).toBe(true);
+    expect(isValidPrcId('110105194912310021')).toBe(false);
+    expect(isValidPrcId('1101051949123100')).toBe(false);
+  });
+
+  it('checks bank card numbers with Luhn', () => {
+    expect(isValidLuhn('4111111111111111')).toBe(true);
+    expect(isValidLuhn('4111111111111112')).toBe(false);
+  });
+});
+
+describe('normalizeDigits', () => {
+  it('maps Lao, Thai and full-width digits to ASCII without moving offsets', () => {
+    const text = '໒໐໒໔ ๒๕๖๗ ２０';
+    expect(normalizeDigits(text)).toBe('2024 2567 20');
+    expect(normalizeDigits(text)).toHaveLength(text.length);
+  });
+});
+
+describe('detectPii', () => {
+  it('finds contact details and identity numbers', () => {
+    expect(detect('ອີເມວ somphone@example.la ໂທ 020 5555 1234')).toEqual([
+      ['email', 'somphone@example.la'],
+      ['phone', '020 5555 1234'],
+    ]);
+    expect(detect('身份证 11010519491231002X，电话 138 1234 5678')).toEqual([
+      ['prcId', '11010519491231002X'],
+      ['phone', '138 1234 5678'],
+    ]);
+    expect(detect('卡号 4111 1111 1111 1111')).toEqual([['bankCard', '4111 1111 1111 1111']]);
+    expect(detect('护照号码：E12345678')).toEqual([['passport', 'E12345678']]);
+  });
+
+  it('finds phone numbers written in Lao digits', () => {
+    expect(detect('ເບີໂທ ໐໒໐ ໕໕໕໕ ໑໒໓໔')).toEqual([['phone', '໐໒໐ ໕໕໕໕ ໑໒໓໔']]);
+  });
+
+  it('finds names next to an honorific or a label', () => {
+    expect(detect('ທ່ານ ສົມພອນ ວິລະວົງ')).toEqual([['name', 'ສົມພອນ ວິລະວົງ']]);
+    expect(detect('姓名：王小明')).toEqual([['name', '王小明']]);
+  });
+
+  it('ignores numbers that fail their checksum or are part of longer numbers', () => {
+    expect(detect('110105194912310021')).toEqual([]);
+    expect(detect('4111 1111 1111 1112')).toEqual([]);
+    expect(detect('12020555512345')).toEqual([]);
+  });
+});
+
+describe('redactText and restorePlaceholders', () => {
+  it('numbers placeholders per label in the target language and shares them between equal values', () => {
+    const text = '020 5555 1234 / 020 5555 1234 / 030 555 1234';
+    const { text: redacted, entries } = redactText(text, detectPii(text), 'zh');
+    expect(redacted).toBe('[联系电话_1] / [联系电话_1] / [联系电话_2]');
+    expect(entries.map(entry => entry.placeholder)).toEqual(['[联系电话_1]', '[联系电话_2]']);
+    expect(restorePlaceholders(redacted, entries)).toBe(text);
+  });
+
+  it('restores placeholders the model wrote with full-width brackets or spaces', () => {
+    const entries = [{ placeholder: '[姓名_1]', original: 'ສົມພອນ', category: 'name' as const }];
+    expect(restorePlaceholders('【姓名_1】和［ 姓名 _ 1 ］', entries)).toBe('ສົມພອນ和ສົມພອນ');
+    expect(hasPlaceholder('【姓名_1】', '[姓名_1]')).toBe(true);
+    expect(hasPlaceholder('[姓名_2]', '[姓名_1]')).toBe(false);
+  });
+
+  it('finds placeholders in text', () => {
+    expect(containsPlaceholders('no data')).toBe(false);
+    expect(findPlaceholders('[ຊື່_1] ແລະ [ເບີໂທລະສັບ_2]')).toEqual(['[ຊື່_1]', '[ເບີໂທລະສັບ_2]']);
+  });
+});
+
+describe('buildRedactionReport', () => {
+  it('records every reviewed span with the placeholder that replaced it', () => {
+    const text = '020 5555 1234 / 030 555 1234';
+    const [first, second] = detectPii(text).map(span => ({ ...span, decision: 'accepted' as const }));
+    const spans = [first, { ...second, decision: 'rejected' as const }];
+    const { entries } = redactText(text, getAcceptedSpans(spans), 'zh');
+    const report = buildRedactionReport('contract.docx', { source: 'lo', target: 'zh' }, '2024-03-15T08:00:00.000Z', spans, entries);
+    expect(report).toMatchObject({ fileName: 'contract.docx', direction: 'lo-to-zh', confirmedAt: '2024-03-15T08:00:00.000Z' });
+    expect(report.spans.map(span => [span.text, span.decision, span.placeholder])).toEqual([
+      ['020 5555 1234', 'accepted', '[联系电话_1]'],
+      ['030 555 1234', 'rejected', null],
+    ]);
+  });
+
+  it('names the download after the source file', () => {
+    expect(getRedactionReportFileName('contract.docx')).toBe('contract_redactions.json');
+    expect(getRedactionReportFileName('pasted_text')).toBe('pasted_text_redactions.json');
+  });
+});
@@ -0,0 +1,285 @@
+import { LanguageCode, PiiCategory, PiiSpan, RedactionEntry, RedactionReport, RedactionResult, ReviewedPiiSpan, TranslationDirection } from '../types';
+import { directionKey } from './languages';
+
+export const PII_CATEGORY_LABELS: Record<PiiCategory, string> = {
+  name: 'Name',
+  phone: 'Phone number',
+  email: 'Email',
+  prcId: 'PRC resident ID',
+  laoId: 'Lao ID / household book',
+  passport: 'Passport number',
+  bankCard: 'Bank card',
+};
+
+// --- Validators ---
+
+const PRC_ID_WEIGHTS = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+const PRC_ID_CHECK_CODES = '10X98765432';
+
+/** ISO 7064 MOD 11-2 checksum used by 18-digit PRC resident identity numbers. */
+export const isValidPrcId = (id: string): boolean => {
+  if (!/^\d{17}[\dX]$/i.test(id)) return false;
+  const sum = PRC_ID_WEIGHTS.reduce((acc, weight, i) => acc + weight * Number(id[i]), 0);
+  return PRC_ID_CHECK_CODES[sum % 11] === id[17].toUpperCase();
+};
+
+export const isValidLuhn = (digits: string): boolean => {
+  if (!/^\d+$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// --- Detectors ---
+
+interface Detector {
+  category: PiiCategory;
+  pattern: RegExp;
+  /** Capture group holding the sensitive value; defaults to the whole match. */
+  group?: number;
+  validate?: (value: string) => boolean;
+}
+
+const stripSeparators = (value: string) => value.replace(/[\s-]/g, '');
+
+// Digits must not touch other digits, so part of a longer number is never matched.
+const NOT_DIGIT_BEFORE = '(?<![\\d])';
+const NOT_DIGIT_AFTER = '(?![\\d])';
+
+const LAO_NAME = '\\p{Script=Lao}+(?:[ \\t]\\p{Script=Lao}+)?';
+const ID_LABELS = 'ບັດປະຈຳຕົວ|ເລກບັດ|ປື້ມສຳມະໂນຄົວ|\\bID\\b(?:\\s*(?:No\\.?|Number))?';
+const PASSPORT_LABELS = 'ໜັງສືຜ່ານແດນ|ຫນັງສືຜ່ານແດນ|护照(?:号码?)?|Passport(?:\\s*No\\.?)?';
+
+// Ordered by priority: when two matches overlap, the earlier detector wins.
+const DETECTORS: Detector[] = [
+  { category: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  {
+    category: 'prcId',
+    pattern: new RegExp(`${NOT_DIGIT_BEFORE}\\d{17}[\\dXx]${NOT_DIGIT_AFTER}`, 'g'),
+    validate: isValidPrcId,
+  },
+  {
+    category: 'passport',
+    pattern: new RegExp(`(?:${PASSPORT_LABELS})\\s*(?:ເລກທີ|No\\.?)?\\s*[:：]?\\s*([A-Z]{1,2}\\d{6,8})\\b`, 'giu'),
+    group: 1,
+  },
+  // Chinese (E/EA...) and Lao (P...) passport numbers that appear without a label.
+  { category: 'passport', pattern: /\b(?:E[A-Z]?\d{7,8}|P[A-Z]?\d{7})\b/g },
+  {
+    category: 'laoId',
+    pattern: new RegExp(`(?:${ID_LABELS})\\s*(?:ເລກທີ|No\\.?)?\\s*[:：]?\\s*([A-Z0-9][A-Z0-9/-]{5,15})`, 'giu'),
+    group: 1,
+    validate: value => /\d{4,}/.test(value),
+  },
+  {
+    category: 'bankCard',
+    pattern: new RegExp(`${NOT_DIGIT_BEFORE}\\d{4}(?:[\\s-]?\\d{4}){2}[\\s-]?\\d{1,7}${NOT_DIGIT_AFTER}`, 'g'),
+    validate: value => {
+      const digits = stripSeparators(value);
+      return digits.length >= 13 && digits.length <= 19 && isValidLuhn(digits);
+    },
+  },
+  // Lao mobile (020 + 8 digits, 030 + 7 digits) and Vientiane landline (021 + 6 digits) numbers.
+  {
+    category: 'phone',
+    pattern: new RegExp(`${NOT_DIGIT_BEFORE}(?:\\+?856[\\s-]?|0)(?:20[\\s-]?\\d{4}[\\s-]?\\d{4}|30[\\s-]?\\d{3}[\\s-]?\\d{4}|21[\\s-]?\\d{3}[\\s-]?\\d{3})${NOT_DIGIT_AFTER}`, 'g'),
+  },
+  // Chinese mobile and landline numbers.
+  {
+    category: 'phone',
+    pattern: new RegExp(`${NOT_DIGIT_BEFORE}(?:(?:\\+?86[\\s-]?)?1[3-9]\\d[\\s-]?\\d{4}[\\s-]?\\d{4}|0\\d{2,3}-\\d{7,8})${NOT_DIGIT_AFTER}`, 'g'),
+  },
+  // Names can only be found reliably next to an honorific or a label.
+  {
+    category: 'name',
+    pattern: new RegExp(`(?:ທ່ານນາງ|ທ່ານ|ທ້າວ|ນາງ|ຊື່\\s*(?:ແລະ\\s*ນາມສະກຸນ)?\\s*[:：])[ \\t]*(${LAO_NAME})`, 'gu'),
+    group: 1,
+  },
+  { category: 'name', pattern: /姓名\s*[:：]\s*([\p{Script=Han}·]{2,5})/gu, group: 1 },
+];
+
+// Lao (໐–໙), Thai (๐–๙) and full-width (０–９) digits are single UTF-16 code units, like
+// ASCII digits, so mapping them keeps every offset valid for the original text.
+export const normalizeDigits = (text: string): string =>
+  text
+    .replace(/[໐-໙]/g, ch => String(ch.charCodeAt(0) - 0x0ed0))
+    .replace(/[๐-๙]/g, ch => String(ch.charCodeAt(0) - 0x0e50))
+    .replace(/[０-９]/g, ch => String(ch.charCodeAt(0) - 0xff10));
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }) =>
+  a.start < b.end && b.start < a.end;
+
+/** Finds PII in `text` with the rule-based detectors. Spans never overlap and are sorted by position. */
+export const detectPii = (text: string): PiiSpan[] => {
+  const normalized = normalizeDigits(text);
+  const spans: PiiSpan[] = [];
+
+  for (const detector of DETECTORS) {
+    for (const match of normalized.matchAll(detector.pattern)) {
+      const group = detector.group ?? 0;
+      const value = match[group];
+      if (!value || match.index === undefined) continue;
+
+      const start = match.index + (group === 0 ? 0 : match[0].indexOf(value));
+      const span: PiiSpan = {
+        id: `${detector.category}-${start}`,
+        start,
+        end: start + value.length,
+        category: detector.category,
+        text: text.slice(start, start + value.length),
+        origin: 'rule',
+      };
+      if (detector.validate && !detector.validate(value)) continue;
+      if (spans.some(existing => overlaps(existing, span))) continue;
+      spans.push(span);
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+};
+
+// --- Redaction ---
+
+const PLACEHOLDER_LABELS: Record<LanguageCode, Record<PiiCategory, string>> = {
+  lo: {
+    name: 'ຊື່',
+    phone: 'ເບີໂທລະສັບ',
+    email: 'ອີເມວ',
+    prcId: 'ID_NUMBER',
+    laoId: 'ID_NUMBER',
+    passport: 'ໜັງສືຜ່ານແດນ',
+    bankCard: 'ເລກບັນຊີ',
+  },
+  zh: {
+    name: '姓名',
+    phone: '联系电话',
+    email: '电子邮箱',
+    prcId: '证件号码',
+    laoId: '证件号码',
+    passport: '护照号码',
+    bankCard: '银行卡号',
+  },
+  en: {
+    name: 'NAME',
+    phone: 'PHONE',
+    email: 'EMAIL',
+    prcId: 'ID_NUMBER',
+    laoId: 'ID_NUMBER',
+    passport: 'PASSPORT',
+    bankCard: 'ACCOUNT_NUMBER',
+  },
+  th: {
+    name: 'ชื่อ',
+    phone: 'เบอร์โทรศัพท์',
+    email: 'อีเมล',
+    prcId: 'เลขประจำตัว',
+    laoId: 'เลขประจำตัว',
+    passport: 'หนังสือเดินทาง',
+    bankCard: 'เลขบัญชี',
+  },
+};
+
+/**
+ * Replaces every span with a numbered placeholder such as `[联系电话_1]`, labelled in the
+ * target language so it reads naturally in the translation. Identical values share a
+ * placeholder. The returned entries are enough to undo the redaction later.
+ */
+export const redactText = (text: string, spans: PiiSpan[], targetLanguage: LanguageCode): RedactionResult => {
+  const labels = PLACEHOLDER_LABELS[targetLanguage];
+  const entries: RedactionEntry[] = [];
+  const counters: Partial<Record<string, number>> = {};
+  let result = '';
+  let cursor = 0;
+
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    if (span.start < cursor) continue;
+    const original = text.slice(span.start, span.end);
+    let entry = entries.find(e => e.original === original && e.category === span.category);
+    if (!entry) {
+      const label = labels[span.category];
+      counters[label] = (counters[label] ?? 0) + 1;
+      entry = { placeholder: `[${label}_${counters[label]}]`, original, category: span.category };
+      entries.push(entry);
+    }
+    result += text.slice(cursor, span.start) + entry.placeholder;
+    cursor = span.end;
+  }
+
+  return { text: result + text.slice(cursor), entries };
+};
+
+/** Matches placeholders produced by `redactText`, e.g. `[ເບີໂທລະສັບ_2]`. */
+const PLACEHOLDER_REGEX = /\[[^\[\]\s]+_\d+\]/;
+
+export const containsPlaceholders = (text: string): boolean => PLACEHOLDER_REGEX.test(text);
+
+/** Every placeholder in `text`, in order. */
+export const findPlaceholders = (text: string): string[] => text.match(new RegExp(PLACEHOLDER_REGEX.source, 'g')) ?? [];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Models sometimes switch to full-width brackets or add spaces inside them, so those variants are accepted too.
+const placeholderPattern = (placeholder: string) => {
+  const inner = escapeRegExp(placeholder.slice(1, -1)).replace(/_(\d+)$/, '\\s*_\\s*$1');
+  return new RegExp(`[\\[［【]\\s*${inner}\\s*[\\]］】]`, 'g');
+};
+
+/** True if `text` still contains `placeholder`, in any variant `restorePlaceholders` accepts. */
+export const hasPlaceholder = (text: string, placeholder: string): boolean => placeholderPattern(placeholder).test(text);
+
+/** Puts the original values back in place of their placeholders. */
+export const restorePlaceholders = (text: string, entries: RedactionEntry[]): string =>
+  entries.reduce((restored, entry) => restored.replace(placeholderPattern(entry.placeholder), () => entry.original), text);
+
+// --- Review ---
+
+/** Spans the reviewer kept, ready for `redactText`. */
+export const getAcceptedSpans = (spans: ReviewedPiiSpan[]): PiiSpan[] =>
+  spans.filter(span => span.decision === 'accepted');
+
+export const createManualSpan = (text: string, start: number, end: number, category: PiiCategory): ReviewedPiiSpan => ({
+  id: `manual-${start}-${end}`,
+  start,
+  end,
+  category,
+  text: text.slice(start, end),
+  origin: 'manual',
+  decision: 'accepted',
+});
+
+/** Builds the compliance record of what was (and wasn't) masked for a job. */
+export const buildRedactionReport = (
+  fileName: string,
+  direction: TranslationDirection,
+  confirmedAt: string,
+  spans: ReviewedPiiSpan[],
+  entries: RedactionEntry[],
+): RedactionReport => ({
+  fileName,
+  direction: directionKey(direction),
+  confirmedAt,
+  spans: spans.map(span => ({
+    category: span.category,
+    origin: span.origin,
+    decision: span.decision,
+    start: span.start,
+    end: span.end,
+    text: span.text,
+    placeholder: span.decision === 'accepted'
+      ? entries.find(entry => entry.original === span.text && entry.category === span.category)?.placeholder ?? null
+      : null,
+  })),
+});
+
+/** The report of `contract.docx` is downloaded as `contract_redactions.json`. */
+export const getRedactionReportFileName = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return `${dot > 0 ? fileName.slice(0, dot) : fileName}_redactions.json`;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ProviderError } from './providers';
+import { isRetryableError, withRetry } from './retry';
+
+describe('isRetryableError', () => {
+  it('retries rate limits, server errors and dropped connections', () => {
+    expect(isRetryableError(new ProviderError('rate limited', 429))).toBe(true);
+    expect(isRetryableError(new ProviderError('unavailable', 503))).toBe(true);
+    expect(isRetryableError(new TypeError('fetch failed'))).toBe(true);
+  });
+
+  it('gives up on client errors and anything else', () => {
+    expect(isRetryableError(new ProviderError('bad key', 401))).toBe(false);
+    expect(isRetryableError(new ProviderError('blocked'))).toBe(false);
+    expect(isRetryableError(new Error('parse error'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries with growing delays until the task succeeds', async () => {
+    const delays: number[] = [];
+    const task = vi.fn(async (attempt: number) => {
+      if (attempt < 3) throw new ProviderError('unavailable', 503);
+      return 'ok';
+    });
+    const result = await withRetry(task, { baseDelayMs: 2, maxDelayMs: 4, onRetry: (_attempt, delayMs) => delays.push(delayMs) });
+    expect(result).toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(delays[0]).toBeGreaterThanOrEqual(1);
+    expect(delays[0]).toBeLessThanOrEqual(2);
+    expect(delays[1]).toBeGreaterThanOrEqual(2);
+    expect(delays[1]).toBeLessThanOrEqual(4);
+  });
+
+  it('throws once the retries are used up', async () => {
+    const task = vi.fn(async () => { throw new ProviderError('unavailable', 500); });
+    await expect(withRetry(task, { retries: 2, baseDelayMs: 1 })).rejects.toThrow('unavailable');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry permanent errors', async () => {
+    const task = vi.fn(async () => { throw new ProviderError('bad request', 400); });
+    await expect(withRetry(task, { baseDelayMs: 1 })).rejects.toThrow('bad request');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when aborted', async () => {
+    const controller = new AbortController();
+    const task = vi.fn(async () => {
+      setTimeout(() => controller.abort(new DOMException('Aborted', 'AbortError')), 5);
+      throw new ProviderError('unavailable', 503);
+    });
+    await expect(withRetry(task, { baseDelayMs: 10_000, signal: controller.signal })).rejects.toThrow('Aborted');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
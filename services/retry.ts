@@ -0,0 +1,56 @@
+import { ProviderError } from './providers';
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/** Rate limits, server errors and dropped connections are worth another try; everything else is not. */
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof ProviderError) {
+    return error.status === 429 || (error.status !== undefined && error.status >= 500);
+  }
+  // `fetch` rejects with a TypeError when the connection itself fails.
+  return error instanceof TypeError;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+/**
+ * Runs `task` and retries it with exponential backoff and jitter while it fails
+ * with a retryable error. `attempt` starts at 1.
+ */
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 4, baseDelayMs = 1000, maxDelayMs = 30000, signal, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt > retries || !isRetryableError(error)) {
+        throw error;
+      }
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+      onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
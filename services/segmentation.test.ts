@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { countWords, segmentWords, splitSentences } from './segmentation';
+
+describe('segmentWords', () => {
+  it('breaks Chinese and Lao text without spaces into words', () => {
+    expect(segmentWords('本合同共3条 ABC公司', 'zh')).toEqual(['本', '合同', '共', '3', '条', 'ABC', '公司']);
+    expect(countWords('本合同共3条 ABC公司', 'zh')).toBe(7);
+    expect(segmentWords('ສັນຍາສະບັບນີ້ ແລະ ບໍລິສັດ', 'lo')).toEqual(['ສັນຍາ', 'ສະບັບ', 'ນີ້', 'ແລະ', 'ບໍລິສັດ']);
+    expect(segmentWords('Hello, world! 42', 'en')).toEqual(['Hello', 'world', '42']);
+  });
+
+  describe('without Intl.Segmenter', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.resetModules();
+    });
+
+    const loadFallback = async () => {
+      vi.stubGlobal('Intl', { ...Intl, Segmenter: undefined });
+      vi.resetModules();
+      return import('./segmentation');
+    };
+
+    it('breaks Lao with the dictionary and keeps unknown letters together', async () => {
+      const { segmentWords: fallback } = await loadFallback();
+      expect(fallback('ສັນຍາສະບັບນີ້ ແລະ ບໍລິສັດ', 'lo')).toEqual(['ສັນຍາ', 'ສະບັບ', 'ນີ້', 'ແລະ', 'ບໍລິສັດ']);
+    });
+
+    it('splits Chinese per character but keeps Latin words and numbers whole', async () => {
+      const { segmentWords: fallback } = await loadFallback();
+      expect(fallback('共3条，ABC公司', 'zh')).toEqual(['共', '3', '条', 'ABC', '公', '司']);
+    });
+  });
+});
+
+describe('splitSentences', () => {
+  it('ends Chinese sentences after their punctuation and closing quotes', () => {
+    expect(splitSentences('第一句。第二句！“第三句？”\n第四句', 'zh')).toEqual(['第一句。', '第二句！', '“第三句？”\n', '第四句']);
+  });
+
+  it('only ends at a full stop followed by whitespace', () => {
+    expect(splitSentences('See No.5 now. Price is 3.5 kip. Done', 'en')).toEqual(['See No.5 now. ', 'Price is 3.5 kip. ', 'Done']);
+  });
+
+  it('ends Lao sentences at spaces but joins short phrases to the one before', () => {
+    expect(splitSentences('ຂ້ອຍໄປເຮັດວຽກທີ່ວຽງຈັນ ມື້ນີ້ອາກາດດີຫຼາຍແທ້ໆ', 'lo')).toEqual(['ຂ້ອຍໄປເຮັດວຽກທີ່ວຽງຈັນ ', 'ມື້ນີ້ອາກາດດີຫຼາຍແທ້ໆ']);
+    expect(splitSentences('ວັນທີ 15 ເດືອນ 3', 'lo')).toEqual(['ວັນທີ 15 ເດືອນ 3']);
+  });
+
+  it('gives back the original text when joined', () => {
+    const text = 'ມາດຕາ 1. ສັນຍານີ້ມີຜົນບັງຄັບໃຊ້.\n\nມາດຕາ 2 ຜູ້ຂາຍຕ້ອງສົ່ງສິນຄ້າໃຫ້ຜູ້ຊື້ ພາຍໃນ 30 ວັນ ';
+    expect(splitSentences(text, 'lo').join('')).toBe(text);
+  });
+});
@@ -0,0 +1,143 @@
+// Word and sentence segmentation. Lao, Thai and Chinese put no spaces between words,
+// so word counts and sentence boundaries need more than a split on whitespace.
+
+import { LanguageCode } from '../types';
+import { LANGUAGES } from './languages';
+
+// --- Words ---
+
+// Common Lao words for the fallback word breaker. Longer entries win, so compounds
+// listed here are kept together.
+const LAO_DICTIONARY = [
+  'ແລະ', 'ຂອງ', 'ທີ່', 'ໃນ', 'ເປັນ', 'ໄດ້', 'ມີ', 'ບໍ່', 'ຈະ', 'ແມ່ນ', 'ກັບ', 'ໃຫ້', 'ຈາກ', 'ໄປ', 'ມາ', 'ຫຼື',
+  'ນີ້', 'ນັ້ນ', 'ຄົນ', 'ຜູ້', 'ການ', 'ຄວາມ', 'ຕ້ອງ', 'ຕາມ', 'ເພື່ອ', 'ແຕ່', 'ຖ້າ', 'ເມື່ອ', 'ກ່ອນ', 'ຫຼັງ',
+  'ທຸກ', 'ຫຼາຍ', 'ໃຫຍ່', 'ນ້ອຍ', 'ໃໝ່', 'ດີ', 'ຢູ່', 'ເຮັດ', 'ວຽກ', 'ເຮັດວຽກ', 'ຂ້ອຍ', 'ເຈົ້າ', 'ເຮົາ',
+  'ພວກເຮົາ', 'ສະບາຍດີ', 'ຂອບໃຈ', 'ຊື່', 'ທີ່ຢູ່', 'ປະເທດ', 'ລາວ', 'ຈີນ', 'ລັດຖະບານ', 'ສາທາລະນະລັດ',
+  'ປະຊາທິປະໄຕ', 'ປະຊາຊົນ', 'ນະຄອນຫຼວງ', 'ວຽງຈັນ', 'ກະຊວງ', 'ແຂວງ', 'ເມືອງ', 'ບ້ານ', 'ສັນຍາ', 'ບໍລິສັດ',
+  'ພາກສ່ວນ', 'ເອກະສານ', 'ພາສາ', 'ແປ', 'ມາດຕາ', 'ກົດໝາຍ', 'ຂໍ້', 'ລາຄາ', 'ຈ່າຍ', 'ເງິນ', 'ສິນຄ້າ', 'ກີບ',
+  'ໂດລາ', 'ວັນທີ', 'ວັນ', 'ເດືອນ', 'ປີ', 'ໂທລະສັບ', 'ເບີໂທ', 'ລາຍເຊັນ', 'ຜູ້ຂາຍ', 'ຜູ້ຊື້', 'ສິດ', 'ໜ້າທີ່',
+];
+
+const LAO_WORDS = new Set(LAO_DICTIONARY);
+const LONGEST_LAO_WORD = Math.max(...LAO_DICTIONARY.map(word => word.length));
+
+const LAO_RUN_REGEX = /\p{Script=Lao}+/gu;
+// A leading vowel (ເ ແ ໂ ໃ ໄ) belongs to the consonant after it; marks belong to the one before.
+const LAO_CLUSTER_REGEX = /[ເ-ໄ]?[^\p{M}]\p{M}*/uy;
+
+// Longest-match word breaking over one run of Lao letters. Letters no dictionary word
+// covers are kept together as a single unknown word.
+const breakLaoRun = (run: string): string[] => {
+  const words: string[] = [];
+  let unknown = '';
+  let i = 0;
+
+  while (i < run.length) {
+    let match = '';
+    for (let length = Math.min(LONGEST_LAO_WORD, run.length - i); length > 0; length--) {
+      const candidate = run.slice(i, i + length);
+      if (LAO_WORDS.has(candidate)) {
+        match = candidate;
+        break;
+      }
+    }
+    if (match) {
+      if (unknown) words.push(unknown);
+      unknown = '';
+      words.push(match);
+      i += match.length;
+      continue;
+    }
+    LAO_CLUSTER_REGEX.lastIndex = i;
+    const cluster = LAO_CLUSTER_REGEX.exec(run)?.[0] ?? run[i];
+    unknown += cluster;
+    i += cluster.length;
+  }
+  if (unknown) words.push(unknown);
+  return words;
+};
+
+const createWordSegmenter = (language: LanguageCode): Intl.Segmenter | null => {
+  if (typeof Intl === 'undefined' || typeof Intl.Segmenter !== 'function') return null;
+  const segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+  // Engines without Lao data fall back to another locale and leave Lao runs unbroken.
+  return segmenter.resolvedOptions().locale.startsWith(language) ? segmenter : null;
+};
+
+const segmenters = new Map<LanguageCode, Intl.Segmenter | null>();
+
+const getWordSegmenter = (language: LanguageCode): Intl.Segmenter | null => {
+  if (!segmenters.has(language)) {
+    segmenters.set(language, createWordSegmenter(language));
+  }
+  return segmenters.get(language)!;
+};
+
+/**
+ * Splits `text` into words, leaving out whitespace and punctuation. Uses the browser's
+ * `Intl.Segmenter` when it knows the language and a dictionary-based breaker for Lao
+ * otherwise. Chinese without a segmenter falls back to one word per character.
+ */
+export const segmentWords = (text: string, language: LanguageCode): string[] => {
+  const segmenter = getWordSegmenter(language);
+  if (segmenter) {
+    return [...segmenter.segment(text)].filter(piece => piece.isWordLike).map(piece => piece.segment);
+  }
+
+  const words: string[] = [];
+  for (const token of text.split(/[\s\p{P}\p{S}]+/u)) {
+    if (!token) continue;
+    if (language === 'zh') {
+      // Keep runs of Latin letters and digits whole, split everything else per character.
+      words.push(...(token.match(/[\p{Script=Latin}\d]+|./gu) ?? []));
+      continue;
+    }
+    let lastIndex = 0;
+    for (const match of token.matchAll(LAO_RUN_REGEX)) {
+      if (match.index > lastIndex) words.push(token.slice(lastIndex, match.index));
+      words.push(...breakLaoRun(match[0]));
+      lastIndex = match.index + match[0].length;
+    }
+    if (lastIndex < token.length) words.push(token.slice(lastIndex));
+  }
+  return words;
+};
+
+export const countWords = (text: string, language: LanguageCode): number => segmentWords(text, language).length;
+
+// --- Sentences ---
+
+// A sentence ends after 。！？ (or their ASCII forms) plus any closing quotes or brackets.
+// A full stop only counts when whitespace follows, so decimals and abbreviations like
+// "No.5" stay whole.
+const SENTENCE_END_REGEX = /(?<=[。！？!?…][”’」』）)"']*\s*|\.[”’」』）)"']*\s+)(?=[^\s”’」』）)"'])/u;
+
+// Lao and Thai writers often end sentences with a space instead of punctuation. Pieces
+// shorter than this are treated as phrases and joined to the one before.
+const MIN_SPACED_SENTENCE_LENGTH = 20;
+
+const splitAtSpaces = (text: string, language: LanguageCode): string[] => {
+  const script = LANGUAGES[language].script;
+  const sentences: string[] = [];
+  for (const piece of text.split(new RegExp(`(?<=\\p{Script=${script}}[ \\t]+)(?=\\p{Script=${script}})`, 'u'))) {
+    if (sentences.length > 0 && sentences[sentences.length - 1].trim().length < MIN_SPACED_SENTENCE_LENGTH) {
+      sentences[sentences.length - 1] += piece;
+    } else {
+      sentences.push(piece);
+    }
+  }
+  return sentences;
+};
+
+/**
+ * Splits `text` into sentences, keeping trailing whitespace with each sentence so that
+ * joining the result gives back the original text. Line breaks always end a sentence.
+ */
+export const splitSentences = (text: string, language: LanguageCode): string[] =>
+  text
+    .split(/(?<=\n)(?=[^\n])/)
+    .flatMap(line => {
+      const sentences = line.split(SENTENCE_END_REGEX);
+      return LANGUAGES[language].spaceEndsSentence && sentences.length === 1 ? splitAtSpaces(line, language) : sentences;
+    })
+    .filter(sentence => sentence !== '');
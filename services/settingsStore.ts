@@ -0,0 +1,97 @@
+import { HistoryPreferences, MemoryPreferences, ProviderSettings } from '../types';
+import { DEFAULT_GEMINI_MODEL } from './providers/geminiProvider';
+
+const STORAGE_KEY = 'lao-zh-translator:provider-settings';
+const MEMORY_STORAGE_KEY = 'lao-zh-translator:memory-preferences';
+const HISTORY_STORAGE_KEY = 'lao-zh-translator:history-preferences';
+
+const envApiKey = import.meta.env.VITE_API_KEY ?? '';
+// A build pointed at the API server needs no key in the bundle at all.
+const envServerUrl = import.meta.env.VITE_SERVER_URL ?? '';
+
+export const defaultProviderSettings: ProviderSettings = {
+  // Without a build-time key or server there is nothing to call, so start on the mock provider.
+  providerId: envServerUrl ? 'server' : envApiKey ? 'gemini' : 'mock',
+  gemini: { apiKey: envApiKey, model: DEFAULT_GEMINI_MODEL },
+  openAICompatible: { baseUrl: 'http://localhost:8080/v1', apiKey: '', model: 'gpt-4o-mini' },
+  server: { baseUrl: envServerUrl || 'http://localhost:8787', token: '' },
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return defaultProviderSettings;
+    const parsed = JSON.parse(stored) as Partial<ProviderSettings>;
+    return {
+      providerId: parsed.providerId ?? defaultProviderSettings.providerId,
+      gemini: {
+        ...defaultProviderSettings.gemini,
+        ...parsed.gemini,
+        // An empty stored key falls back to the build-time key.
+        apiKey: parsed.gemini?.apiKey || envApiKey,
+      },
+      openAICompatible: { ...defaultProviderSettings.openAICompatible, ...parsed.openAICompatible },
+      server: { ...defaultProviderSettings.server, ...parsed.server },
+    };
+  } catch (error) {
+    console.error('Failed to load provider settings:', error);
+    return defaultProviderSettings;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save provider settings:', error);
+  }
+};
+
+export const defaultMemoryPreferences: MemoryPreferences = {
+  enabled: true,
+  fuzzyThreshold: 0.75,
+};
+
+export const loadMemoryPreferences = (): MemoryPreferences => {
+  try {
+    const stored = localStorage.getItem(MEMORY_STORAGE_KEY);
+    if (!stored) return defaultMemoryPreferences;
+    return { ...defaultMemoryPreferences, ...(JSON.parse(stored) as Partial<MemoryPreferences>) };
+  } catch (error) {
+    console.error('Failed to load memory preferences:', error);
+    return defaultMemoryPreferences;
+  }
+};
+
+export const saveMemoryPreferences = (preferences: MemoryPreferences): void => {
+  try {
+    localStorage.setItem(MEMORY_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Failed to save memory preferences:', error);
+  }
+};
+
+export const defaultHistoryPreferences: HistoryPreferences = {
+  enabled: true,
+  maxEntries: 50,
+  maxAgeDays: 30,
+};
+
+export const loadHistoryPreferences = (): HistoryPreferences => {
+  try {
+    const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
+    if (!stored) return defaultHistoryPreferences;
+    return { ...defaultHistoryPreferences, ...(JSON.parse(stored) as Partial<HistoryPreferences>) };
+  } catch (error) {
+    console.error('Failed to load history preferences:', error);
+    return defaultHistoryPreferences;
+  }
+};
+
+export const saveHistoryPreferences = (preferences: HistoryPreferences): void => {
+  try {
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Failed to save history preferences:', error);
+  }
+};
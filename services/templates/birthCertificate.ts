@@ -0,0 +1,27 @@
+import { CERTIFICATE_NUMBER, DATE_OF_BIRTH, ETHNICITY, FULL_NAME, ISSUE_DATE, ISSUED_BY, NATIONALITY, PLACE_OF_BIRTH, SEX } from './commonFields';
+import { DocumentTemplate } from './template';
+
+export const birthCertificateTemplate: DocumentTemplate = {
+  id: 'birth-certificate',
+  label: 'Birth certificate',
+  title: { lo: 'ໃບແຈ້ງເກີດ', zh: '出生证明' },
+  keywords: ['ໃບແຈ້ງເກີດ', 'ໃບຢັ້ງຢືນການເກີດ'],
+  fields: [
+    FULL_NAME,
+    SEX,
+    DATE_OF_BIRTH,
+    PLACE_OF_BIRTH,
+    NATIONALITY,
+    ETHNICITY,
+    { id: 'fatherName', labels: ['ຊື່ ແລະ ນາມສະກຸນພໍ່', 'ຊື່ພໍ່', 'ພໍ່'], zh: '父亲姓名', rule: 'name' },
+    { id: 'motherName', labels: ['ຊື່ ແລະ ນາມສະກຸນແມ່', 'ຊື່ແມ່', 'ແມ່'], zh: '母亲姓名', rule: 'name' },
+    CERTIFICATE_NUMBER,
+    ISSUE_DATE,
+    ISSUED_BY,
+  ],
+  sections: [
+    { lo: 'ຂໍ້ມູນຜູ້ເກີດ', zh: '出生者信息', fields: ['fullName', 'sex', 'dateOfBirth', 'placeOfBirth', 'nationality', 'ethnicity'] },
+    { lo: 'ຂໍ້ມູນພໍ່ແມ່', zh: '父母信息', fields: ['fatherName', 'motherName'] },
+    { lo: 'ການອອກໃບ', zh: '签发信息', fields: ['certificateNumber', 'issueDate', 'issuedBy'] },
+  ],
+};
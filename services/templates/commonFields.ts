@@ -0,0 +1,69 @@
+import { TemplateField } from './template';
+
+// Fields that several civil documents share, with the label variants found on real forms.
+
+export const FULL_NAME: TemplateField = {
+  id: 'fullName',
+  labels: ['ຊື່ ແລະ ນາມສະກຸນ', 'ຊື່ແລະນາມສະກຸນ', 'ຊື່ ແລະ ນາມສະກຸນ ເດັກ'],
+  zh: '姓名',
+  rule: 'name',
+};
+
+export const SEX: TemplateField = {
+  id: 'sex',
+  labels: ['ເພດ'],
+  zh: '性别',
+  rule: 'choice',
+  options: { ຊາຍ: '男', ຍິງ: '女', ເພດຊາຍ: '男', ເພດຍິງ: '女' },
+};
+
+export const DATE_OF_BIRTH: TemplateField = {
+  id: 'dateOfBirth',
+  labels: ['ວັນເດືອນປີເກີດ', 'ວັນ ເດືອນ ປີ ເກີດ', 'ເກີດວັນທີ'],
+  zh: '出生日期',
+  rule: 'date',
+};
+
+export const PLACE_OF_BIRTH: TemplateField = {
+  id: 'placeOfBirth',
+  labels: ['ສະຖານທີ່ເກີດ', 'ບ່ອນເກີດ'],
+  zh: '出生地',
+  rule: 'text',
+};
+
+export const NATIONALITY: TemplateField = {
+  id: 'nationality',
+  labels: ['ສັນຊາດ'],
+  zh: '国籍',
+  rule: 'choice',
+  options: { ລາວ: '老挝', ຈີນ: '中国', ໄທ: '泰国', ຫວຽດນາມ: '越南' },
+};
+
+export const ETHNICITY: TemplateField = {
+  id: 'ethnicity',
+  labels: ['ຊົນເຜົ່າ'],
+  zh: '民族',
+  rule: 'choice',
+  options: { ລາວ: '老族', ກຶມມຸ: '克木族', ມົ້ງ: '苗族', ໄຕ: '傣族', ລື້: '泐族' },
+};
+
+export const CERTIFICATE_NUMBER: TemplateField = {
+  id: 'certificateNumber',
+  labels: ['ເລກທີ'],
+  zh: '编号',
+  rule: 'code',
+};
+
+export const ISSUE_DATE: TemplateField = {
+  id: 'issueDate',
+  labels: ['ອອກໃຫ້ວັນທີ', 'ລົງວັນທີ'],
+  zh: '签发日期',
+  rule: 'date',
+};
+
+export const ISSUED_BY: TemplateField = {
+  id: 'issuedBy',
+  labels: ['ອອກໂດຍ', 'ອົງການອອກ'],
+  zh: '签发机关',
+  rule: 'text',
+};
@@ -0,0 +1,34 @@
+import { CERTIFICATE_NUMBER, DATE_OF_BIRTH, FULL_NAME, ISSUE_DATE, ISSUED_BY, PLACE_OF_BIRTH, SEX } from './commonFields';
+import { DocumentTemplate } from './template';
+
+export const diplomaTemplate: DocumentTemplate = {
+  id: 'diploma',
+  label: 'Diploma',
+  title: { lo: 'ໃບປະກາສະນີຍະບັດ', zh: '毕业证书' },
+  keywords: ['ປະກາສະນີຍະບັດ', 'ປະກາດສະນີຍະບັດ'],
+  fields: [
+    { ...FULL_NAME, labels: [...FULL_NAME.labels, 'ມອບໃຫ້'] },
+    SEX,
+    DATE_OF_BIRTH,
+    PLACE_OF_BIRTH,
+    { id: 'institution', labels: ['ສະຖາບັນການສຶກສາ', 'ສະຖານການສຶກສາ'], zh: '学校', rule: 'text' },
+    {
+      id: 'degree',
+      labels: ['ລະດັບການສຶກສາ', 'ລະດັບ'],
+      zh: '学历',
+      rule: 'choice',
+      options: { ປະລິນຍາຕີ: '学士', ປະລິນຍາໂທ: '硕士', ປະລິນຍາເອກ: '博士', ຊັ້ນສູງ: '大专', ຊັ້ນກາງ: '中专' },
+    },
+    { id: 'major', labels: ['ສາຂາວິຊາ', 'ສາຂາ'], zh: '专业', rule: 'text' },
+    { id: 'studyPeriod', labels: ['ສົກຮຽນ', 'ໄລຍະການສຶກສາ'], zh: '学习期间', rule: 'text' },
+    { id: 'grade', labels: ['ຜົນການຮຽນ', 'ຄະແນນສະເລ່ຍ'], zh: '成绩', rule: 'text' },
+    CERTIFICATE_NUMBER,
+    ISSUE_DATE,
+    ISSUED_BY,
+  ],
+  sections: [
+    { lo: 'ຜູ້ຈົບການສຶກສາ', zh: '毕业生信息', fields: ['fullName', 'sex', 'dateOfBirth', 'placeOfBirth'] },
+    { lo: 'ການສຶກສາ', zh: '学业信息', fields: ['institution', 'degree', 'major', 'studyPeriod', 'grade'] },
+    { lo: 'ການອອກໃບ', zh: '签发信息', fields: ['certificateNumber', 'issueDate', 'issuedBy'] },
+  ],
+};
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PiiSpan, ProviderSettings } from '../../types';
+import { createProvider, TranslationProvider } from '../providers';
+import { birthCertificateTemplate } from './birthCertificate';
+import { CERTIFICATE_NUMBER, DATE_OF_BIRTH, FULL_NAME, SEX } from './commonFields';
+import { fillTemplate, formatLaoDate, getProviderFields, redactFieldValue, renderFieldLocally } from './fill';
+import { FilledField } from './template';
+
+vi.mock('../providers', async importOriginal => ({ ...await importOriginal<typeof import('../providers')>(), createProvider: vi.fn() }));
+
+const translateStream = vi.fn<TranslationProvider['translateStream']>();
+
+const phone: PiiSpan = { id: 'phone-1', start: 0, end: 13, category: 'phone', text: '020 5555 1234', origin: 'rule' };
+
+const VALUES = {
+  fullName: 'ທ້າວ ສົມສັກ ວົງສາ',
+  sex: 'ຊາຍ',
+  dateOfBirth: 'ວັນທີ 15 ເດືອນ 3 ປີ 2567',
+  placeOfBirth: 'ນະຄອນຫຼວງວຽງຈັນ',
+  fatherName: 'ທ້າວ ບຸນມີ ວົງສາ',
+  certificateNumber: '໑໒໓/ນວ',
+  issueDate: 'ບໍ່ຈື່',
+  issuedBy: 'ຫ້ອງການ ໂທ 020 5555 1234',
+};
+
+const fill = async (anonymize: boolean, piiSpans: PiiSpan[] = []) => {
+  const fields: Record<string, FilledField> = {};
+  await fillTemplate(birthCertificateTemplate, VALUES, { providerId: 'mock' } as ProviderSettings, {
+    signal: new AbortController().signal,
+    anonymize,
+    piiSpans,
+    concurrency: 1,
+    onFieldFilled: (id, field) => { fields[id] = field; },
+  });
+  return fields;
+};
+
+beforeEach(() => {
+  translateStream.mockReset().mockImplementation(async function* ({ text }) {
+    yield { text: `<${text}>\n` };
+  });
+  vi.mocked(createProvider).mockReturnValue({ translateStream } as unknown as TranslationProvider);
+});
+
+describe('formatLaoDate', () => {
+  it('reads the usual ways of writing a date and converts Buddhist-era years', () => {
+    expect(formatLaoDate('15/03/2567')).toBe('2024年3月15日');
+    expect(formatLaoDate('ວັນທີ 15 ເດືອນ 3 ປີ 2567')).toBe('2024年3月15日');
+    expect(formatLaoDate('໑໕ ມີນາ ໒໐໒໔')).toBe('2024年3月15日');
+    expect(formatLaoDate('1/12/ພ.ສ. 2500')).toBe('1957年12月1日');
+  });
+
+  it('returns null when there is no valid date', () => {
+    expect(formatLaoDate('ບໍ່ຈື່')).toBeNull();
+    expect(formatLaoDate('32/01/2024')).toBeNull();
+    expect(formatLaoDate('15/13/2024')).toBeNull();
+  });
+});
+
+describe('renderFieldLocally', () => {
+  it('renders codes, dates and the usual choices without a provider', () => {
+    expect(renderFieldLocally(CERTIFICATE_NUMBER, '໑໒໓/ນວ')).toBe('123/ນວ');
+    expect(renderFieldLocally(DATE_OF_BIRTH, '15/03/2567')).toBe('2024年3月15日');
+    expect(renderFieldLocally(SEX, 'ເພດ ຍິງ')).toBe('女');
+  });
+
+  it('leaves names, free text and unknown choices to the provider', () => {
+    expect(renderFieldLocally(FULL_NAME, 'ສົມສັກ')).toBeNull();
+    expect(renderFieldLocally(SEX, 'ອື່ນໆ')).toBeNull();
+  });
+});
+
+describe('getProviderFields', () => {
+  it('lists the names and free text that would be sent', () => {
+    expect(getProviderFields(birthCertificateTemplate, VALUES, false).map(field => field.id))
+      .toEqual(['fullName', 'placeOfBirth', 'fatherName', 'issuedBy']);
+  });
+
+  it('keeps names local while PII masking is on', () => {
+    expect(getProviderFields(birthCertificateTemplate, VALUES, true).map(field => field.id)).toEqual(['placeOfBirth', 'issuedBy']);
+  });
+});
+
+describe('redactFieldValue', () => {
+  it('masks every occurrence of the reviewed PII, longest first', () => {
+    const name: PiiSpan = { ...phone, id: 'name-1', category: 'name', text: 'ສົມສັກ' };
+    const fullName: PiiSpan = { ...name, id: 'name-2', text: 'ສົມສັກ ວົງສາ' };
+    expect(redactFieldValue('ສົມສັກ ວົງສາ, ໂທ 020 5555 1234', [name, phone, fullName]).text).toBe('[姓名_1], ໂທ [联系电话_1]');
+    expect(redactFieldValue('ນະຄອນຫຼວງ', [phone])).toEqual({ text: 'ນະຄອນຫຼວງ', entries: [] });
+  });
+});
+
+describe('fillTemplate', () => {
+  it('renders locally what it can and sends names and free text field by field', async () => {
+    const fields = await fill(false);
+    expect(fields.sex).toEqual({ source: 'ຊາຍ', translation: '男', status: 'done' });
+    expect(fields.dateOfBirth.translation).toBe('2024年3月15日');
+    expect(fields.certificateNumber.translation).toBe('123/ນວ');
+    expect(fields.fullName).toEqual({ source: VALUES.fullName, translation: `<${VALUES.fullName}>`, status: 'done' });
+    expect(fields.motherName).toEqual({ source: '', translation: '', status: 'done' });
+    expect(translateStream.mock.calls.map(([request]) => request.text)).toEqual([
+      VALUES.fullName, VALUES.placeOfBirth, VALUES.fatherName, VALUES.issuedBy,
+    ]);
+  });
+
+  it('never sends a date it cannot read', async () => {
+    const fields = await fill(false);
+    expect(fields.issueDate).toMatchObject({ source: 'ບໍ່ຈື່', translation: '', status: 'failed', error: expect.stringMatching(/could not be read/) });
+  });
+
+  it('withholds names and masks the reviewed PII while masking is on', async () => {
+    const fields = await fill(true, [phone]);
+    expect(fields.fullName).toMatchObject({ translation: '', status: 'failed', error: expect.stringMatching(/not sent/) });
+    expect(fields.fatherName.status).toBe('failed');
+
+    const sent = translateStream.mock.calls.map(([request]) => request);
+    expect(sent.map(request => request.text)).toEqual([VALUES.placeOfBirth, 'ຫ້ອງການ ໂທ [联系电话_1]']);
+    expect(sent[1].prompt).toContain('[联系电话_1]');
+    expect(sent[1].prompt).toContain('placeholders');
+    expect(JSON.stringify(sent)).not.toContain('5555');
+    expect(fields.issuedBy.translation).toBe('<ຫ້ອງການ ໂທ 020 5555 1234>');
+  });
+});
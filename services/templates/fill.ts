@@ -0,0 +1,176 @@
+// Renders the extracted values of a template in Chinese, each by its field's rule. Dates,
+// codes and the usual values of choice fields are rendered locally; names and free text
+// go to the provider one field at a time, with a prompt written for that field. With PII
+// masking on, names stay on this machine and the reviewed PII is masked in free text.
+
+import { PiiSpan, ProviderSettings, RedactionResult } from '../../types';
+import { LANGUAGES } from '../languages';
+import { BE_OFFSET, isBuddhistEraYear } from '../numberNormalization';
+import { buildFieldPrompt } from '../promptTemplates';
+import { createProvider, ProviderError } from '../providers';
+import { containsPlaceholders, normalizeDigits, redactText, restorePlaceholders } from '../redaction';
+import { isAbortError, withRetry } from '../retry';
+import { DEFAULT_CONCURRENCY } from '../translationJob';
+import { DocumentTemplate, FilledField, TEMPLATE_DIRECTION, TemplateField } from './template';
+
+// --- Local rules ---
+
+const LAO_MONTHS = ['ມັງກອນ', 'ກຸມພາ', 'ມີນາ', 'ເມສາ', 'ພຶດສະພາ', 'ມິຖຸນາ', 'ກໍລະກົດ', 'ສິງຫາ', 'ກັນຍາ', 'ຕຸລາ', 'ພະຈິກ', 'ທັນວາ'];
+
+const eraLabel = (era: 'be' | 'ce') => LANGUAGES.lo.numbers.eraLabels[era].trim();
+
+/**
+ * A Lao date as `2024年3月15日`: day, month and year in that order, with digits or the
+ * month's name (15/03/2567, ວັນທີ 15 ເດືອນ 3 ປີ 2567, 15 ມີນາ 2024). Years labelled
+ * ພ.ສ., or late enough to be in the Buddhist era, are converted. Null if it isn't a date.
+ */
+export const formatLaoDate = (value: string): string | null => {
+  let text = normalizeDigits(value);
+  LAO_MONTHS.forEach((month, i) => { text = text.replace(month, ` ${i + 1} `); });
+  const match = text.match(/(?<!\d)(\d{1,2})\D{1,12}?(\d{1,2})\D{1,12}?(\d{4})(?!\d)/);
+  if (!match) return null;
+
+  const [day, month, year] = match.slice(1).map(Number);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const era = text.includes(eraLabel('be')) ? 'be' : text.includes(eraLabel('ce')) ? 'ce' : isBuddhistEraYear(String(year)) ? 'be' : 'ce';
+  return `${era === 'be' ? year - BE_OFFSET : year}年${month}月${day}日`;
+};
+
+/** The rendering of `value` that needs no provider, or null when it has to be translated. */
+export const renderFieldLocally = (field: TemplateField, value: string): string | null => {
+  switch (field.rule) {
+    case 'code':
+      return normalizeDigits(value);
+    case 'date':
+      return formatLaoDate(value);
+    case 'choice':
+      return field.options?.[value.replace(/\s+/g, '')] ?? null;
+    case 'name':
+    case 'text':
+      return null;
+  }
+};
+
+// --- Filling ---
+
+const DATE_UNREADABLE = 'The date could not be read. Enter it by hand.';
+const NAME_WITHHELD = 'Names are not sent while PII masking is on. Enter the transliteration by hand.';
+
+type FieldPlan = { translation: string } | { error: string } | 'provider';
+
+// Dates and codes never leave the machine; a date the rule can't read is left to the user.
+const planField = (field: TemplateField, value: string, anonymize: boolean): FieldPlan => {
+  if (!value) return { translation: '' };
+  const local = renderFieldLocally(field, value);
+  if (local !== null) return { translation: local };
+  if (field.rule === 'date') return { error: DATE_UNREADABLE };
+  if (field.rule === 'name' && anonymize) return { error: NAME_WITHHELD };
+  return 'provider';
+};
+
+/** The fields whose values `fillTemplate` sends to the provider, masked or not; the rest stay local. */
+export const getProviderFields = (template: DocumentTemplate, values: Record<string, string>, anonymize: boolean): TemplateField[] =>
+  template.fields.filter(field => planField(field, (values[field.id] ?? '').trim(), anonymize) === 'provider');
+
+/**
+ * Masks every occurrence of the reviewed PII in a field value. The spans come from the
+ * whole document, so they are found again by their text, longest first.
+ */
+export const redactFieldValue = (value: string, spans: PiiSpan[]): RedactionResult => {
+  const found: PiiSpan[] = [];
+  for (const span of spans.filter(candidate => candidate.text).sort((a, b) => b.text.length - a.text.length)) {
+    for (let start = value.indexOf(span.text); start !== -1; start = value.indexOf(span.text, start + 1)) {
+      found.push({ ...span, start, end: start + span.text.length });
+    }
+  }
+  return redactText(value, found, TEMPLATE_DIRECTION.target);
+};
+
+export interface FillTemplateOptions {
+  signal: AbortSignal;
+  /** Withholds names and masks `piiSpans` in the other values, as for a translation job. */
+  anonymize: boolean;
+  /** The PII the reviewer accepted; only used with `anonymize`. */
+  piiSpans?: PiiSpan[];
+  concurrency?: number;
+  onFieldStart?: (id: string) => void;
+  onFieldFilled: (id: string, field: FilledField) => void;
+}
+
+const translateField = async (
+  template: DocumentTemplate,
+  field: TemplateField,
+  value: string,
+  settings: ProviderSettings,
+  signal: AbortSignal,
+) => {
+  const provider = createProvider(settings);
+  const prompt = buildFieldPrompt({
+    value,
+    label: field.zh,
+    documentTitle: template.title.zh,
+    rule: field.rule === 'name' ? 'name' : 'text',
+    direction: TEMPLATE_DIRECTION,
+    hasPlaceholders: containsPlaceholders(value),
+  });
+  let result = '';
+  await withRetry(async () => {
+    result = '';
+    for await (const chunk of provider.translateStream({ prompt, text: value, direction: TEMPLATE_DIRECTION, signal })) {
+      if (chunk.blockReason) {
+        throw new ProviderError(`The field was blocked due to: ${chunk.blockReason}.`);
+      }
+      result += chunk.text;
+    }
+  }, { signal });
+  // A form field is one line, whatever the model adds around it.
+  return result.trim().replace(/\s*\n\s*/g, ' ');
+};
+
+/**
+ * Renders every field of `template` that has a value, `concurrency` provider requests at
+ * a time. Fields without a value are reported as done with an empty rendering; a field
+ * that fails, or that is left to the user, is reported with its error without stopping
+ * the others.
+ */
+export const fillTemplate = async (
+  template: DocumentTemplate,
+  values: Record<string, string>,
+  settings: ProviderSettings,
+  options: FillTemplateOptions,
+): Promise<void> => {
+  const { signal, anonymize, piiSpans = [], concurrency = DEFAULT_CONCURRENCY, onFieldStart, onFieldFilled } = options;
+  const queue: TemplateField[] = [];
+
+  for (const field of template.fields) {
+    const source = (values[field.id] ?? '').trim();
+    const plan = planField(field, source, anonymize);
+    if (plan === 'provider') {
+      queue.push(field);
+    } else if ('error' in plan) {
+      onFieldFilled(field.id, { source, translation: '', status: 'failed', error: plan.error });
+    } else {
+      onFieldFilled(field.id, { source, translation: plan.translation, status: 'done' });
+    }
+  }
+
+  const worker = async () => {
+    while (!signal.aborted && queue.length > 0) {
+      const field = queue.shift()!;
+      const source = values[field.id].trim();
+      onFieldStart?.(field.id);
+      try {
+        const { text, entries } = anonymize ? redactFieldValue(source, piiSpans) : { text: source, entries: [] };
+        const translation = restorePlaceholders(await translateField(template, field, text, settings, signal), entries);
+        onFieldFilled(field.id, { source, translation, status: 'done' });
+      } catch (error) {
+        if (signal.aborted || isAbortError(error)) return;
+        console.error(`Filling the field "${field.id}" failed:`, error);
+        const message = error instanceof Error ? error.message : 'The field could not be translated.';
+        onFieldFilled(field.id, { source, translation: '', status: 'failed', error: message });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+};
@@ -0,0 +1,33 @@
+import { DATE_OF_BIRTH, ETHNICITY, ISSUE_DATE, ISSUED_BY, NATIONALITY, SEX } from './commonFields';
+import { DocumentTemplate } from './template';
+
+// Only the address and the head of the household have fixed fields; the list of members
+// goes through the regular document translation.
+export const householdRegistrationTemplate: DocumentTemplate = {
+  id: 'household-registration',
+  label: 'Household registration book',
+  title: { lo: 'ປື້ມສຳມະໂນຄົວ', zh: '户口簿' },
+  keywords: ['ສຳມະໂນຄົວ', 'ສໍາມະໂນຄົວ'],
+  fields: [
+    { id: 'bookNumber', labels: ['ປື້ມເລກທີ', 'ເລກທີປື້ມ', 'ເລກທີ'], zh: '户口簿编号', rule: 'code' },
+    { id: 'houseNumber', labels: ['ເຮືອນເລກທີ'], zh: '门牌号', rule: 'code' },
+    { id: 'unit', labels: ['ໜ່ວຍ', 'ຄຸ້ມ'], zh: '组', rule: 'code' },
+    { id: 'village', labels: ['ບ້ານ'], zh: '村', rule: 'text' },
+    { id: 'district', labels: ['ເມືອງ'], zh: '县', rule: 'text' },
+    { id: 'province', labels: ['ແຂວງ'], zh: '省', rule: 'text' },
+    { id: 'headOfHousehold', labels: ['ຫົວໜ້າຄອບຄົວ', 'ຫົວຫນ້າຄອບຄົວ', 'ເຈົ້າຂອງຄົວເຮືອນ'], zh: '户主姓名', rule: 'name' },
+    SEX,
+    DATE_OF_BIRTH,
+    NATIONALITY,
+    ETHNICITY,
+    { id: 'religion', labels: ['ສາສະໜາ', 'ສາສະຫນາ'], zh: '宗教信仰', rule: 'choice', options: { ພຸດ: '佛教', ຄຣິດ: '基督教', ບໍ່ມີ: '无' } },
+    { id: 'occupation', labels: ['ອາຊີບ'], zh: '职业', rule: 'text' },
+    ISSUE_DATE,
+    ISSUED_BY,
+  ],
+  sections: [
+    { lo: 'ທີ່ຢູ່', zh: '住址', fields: ['bookNumber', 'houseNumber', 'unit', 'village', 'district', 'province'] },
+    { lo: 'ຫົວໜ້າຄອບຄົວ', zh: '户主信息', fields: ['headOfHousehold', 'sex', 'dateOfBirth', 'nationality', 'ethnicity', 'religion', 'occupation'] },
+    { lo: 'ການອອກປື້ມ', zh: '签发信息', fields: ['issueDate', 'issuedBy'] },
+  ],
+};
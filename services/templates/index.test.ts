@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { birthCertificateTemplate } from './birthCertificate';
+import { extractFields, matchTemplate, supportsTemplates } from './index';
+
+const BIRTH_CERTIFICATE = [
+  'ໃບແຈ້ງເກີດ',
+  'ຊື່ ແລະ ນາມສະກຸນ: ທ້າວ ສົມສັກ ວົງສາ    ເພດ: ຊາຍ',
+  'ວັນເດືອນປີເກີດ: 15/03/2567',
+  'ສະຖານທີ່ເກີດ',
+  'ໂຮງໝໍ ມະໂຫສົດ, ນະຄອນຫຼວງວຽງຈັນ',
+  'ຊື່ພໍ່: ທ້າວ ບຸນມີ ວົງສາ',
+  'ຊື່ແມ່: ...............',
+  'ເລກທີ: ໑໒໓/ນວ',
+].join('\n');
+
+describe('extractFields', () => {
+  it('reads values after their labels, up to the next label with a colon', () => {
+    const values = extractFields(BIRTH_CERTIFICATE, birthCertificateTemplate);
+    expect(values).toMatchObject({
+      fullName: 'ທ້າວ ສົມສັກ ວົງສາ',
+      sex: 'ຊາຍ',
+      dateOfBirth: '15/03/2567',
+      fatherName: 'ທ້າວ ບຸນມີ ວົງສາ',
+      certificateNumber: '໑໒໓/ນວ',
+    });
+  });
+
+  it('takes the next line for a label alone on its line and leaves dotted blanks empty', () => {
+    const values = extractFields(BIRTH_CERTIFICATE, birthCertificateTemplate);
+    expect(values.placeOfBirth).toBe('ໂຮງໝໍ ມະໂຫສົດ, ນະຄອນຫຼວງວຽງຈັນ');
+    expect(values.motherName).toBe('');
+    expect(values.issuedBy).toBe('');
+  });
+
+  it('only counts a label at the start of a line or after a space', () => {
+    const values = extractFields('ໃບແຈ້ງເກີດ\nເຮືອນເລກທີ 12', birthCertificateTemplate);
+    expect(values.certificateNumber).toBe('');
+  });
+});
+
+describe('matchTemplate', () => {
+  it('matches the template whose title occurs and whose fields are found', () => {
+    const match = matchTemplate(BIRTH_CERTIFICATE);
+    expect(match?.template.id).toBe('birth-certificate');
+    expect(match?.found).toBe(6);
+  });
+
+  it('needs the title and at least two fields', () => {
+    expect(matchTemplate(BIRTH_CERTIFICATE.replace('ໃບແຈ້ງເກີດ', 'ເອກະສານ'))).toBeNull();
+    expect(matchTemplate('ໃບແຈ້ງເກີດ\nເພດ: ຊາຍ')).toBeNull();
+  });
+
+  it('only offers templates for Lao to Chinese', () => {
+    expect(supportsTemplates({ source: 'lo', target: 'zh' })).toBe(true);
+    expect(supportsTemplates({ source: 'zh', target: 'lo' })).toBe(false);
+  });
+});
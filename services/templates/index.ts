@@ -0,0 +1,119 @@
+// Standard Lao civil documents rendered as certified-style Chinese forms. A template names
+// the fields of one kind of document and the layout they are rendered in; the uploaded
+// text is matched against every template and the values are read after their labels.
+
+import { TranslationDirection } from '../../types';
+import { birthCertificateTemplate } from './birthCertificate';
+import { diplomaTemplate } from './diploma';
+import { householdRegistrationTemplate } from './householdRegistration';
+import { DocumentTemplate, TEMPLATE_DIRECTION } from './template';
+
+export { TEMPLATE_DIRECTION } from './template';
+export type { DocumentTemplate, FieldRule, FilledField, TemplateField, TemplateSection } from './template';
+
+export const DOCUMENT_TEMPLATES: DocumentTemplate[] = [
+  birthCertificateTemplate,
+  householdRegistrationTemplate,
+  diplomaTemplate,
+];
+
+export const supportsTemplates = (direction: TranslationDirection): boolean =>
+  direction.source === TEMPLATE_DIRECTION.source && direction.target === TEMPLATE_DIRECTION.target;
+
+export const findTemplate = (id: string): DocumentTemplate | undefined =>
+  DOCUMENT_TEMPLATES.find(template => template.id === id);
+
+// --- Field extraction ---
+
+interface LabelHit {
+  field: string;
+  start: number;
+  /** Where the value starts, after the label and its colon. */
+  end: number;
+  hasColon: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Lao doesn't separate words, so a label only counts at the start of a line or after a
+// space; "ເລກທີ" inside "ເຮືອນເລກທີ" is another label.
+const findLabelHits = (text: string, template: DocumentTemplate): LabelHit[] => {
+  const labels = template.fields
+    .flatMap(field => field.labels.map(label => ({ field: field.id, label })))
+    .sort((a, b) => b.label.length - a.label.length);
+  const hits: LabelHit[] = [];
+  for (const { field, label } of labels) {
+    const pattern = new RegExp(`(?<=^|\\s)${escapeRegExp(label)}(\\s*[:：])?`, 'gm');
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      // Longer labels were placed first, so a shorter one inside them is skipped.
+      if (hits.some(hit => start < hit.end && hit.start < end)) continue;
+      hits.push({ field, start, end, hasColon: match[1] !== undefined });
+    }
+  }
+  return hits.sort((a, b) => a.start - b.start);
+};
+
+// Forms leave dotted or underlined blanks around the values.
+const cleanValue = (value: string) => value.replace(/^[\s.…_:：]+|[\s.…_]+$/g, '');
+
+/**
+ * Reads the value of every field of `template` from `text`: the rest of the line after
+ * the field's label, up to the next label with a colon. A label alone on its line takes
+ * the next line. Labels with a colon win over the same label in running text.
+ */
+export const extractFields = (text: string, template: DocumentTemplate): Record<string, string> => {
+  const hits = findLabelHits(text, template);
+  const values: Record<string, string> = {};
+
+  for (const field of template.fields) {
+    const own = hits.filter(hit => hit.field === field.id);
+    const hit = own.find(candidate => candidate.hasColon) ?? own[0];
+    if (!hit) {
+      values[field.id] = '';
+      continue;
+    }
+    const lineEnd = text.indexOf('\n', hit.end);
+    const next = hits.find(other => other.start >= hit.end && other.hasColon);
+    let end = Math.min(lineEnd === -1 ? text.length : lineEnd, next?.start ?? text.length);
+    let value = cleanValue(text.slice(hit.end, end));
+
+    if (!value && end === lineEnd) {
+      const nextLineEnd = text.indexOf('\n', lineEnd + 1);
+      end = nextLineEnd === -1 ? text.length : nextLineEnd;
+      if (!hits.some(other => other.start > lineEnd && other.start < end)) {
+        value = cleanValue(text.slice(lineEnd + 1, end));
+      }
+    }
+    values[field.id] = value;
+  }
+  return values;
+};
+
+// --- Matching ---
+
+/** Fewer fields than this are too little to go on, even with the title in the text. */
+const MIN_MATCHED_FIELDS = 2;
+
+export interface TemplateMatch {
+  template: DocumentTemplate;
+  /** Extracted values by field id; empty for fields that weren't found. */
+  values: Record<string, string>;
+  /** Number of fields that were found. */
+  found: number;
+}
+
+/** The template whose title occurs in `text` and whose fields are found most often, if any. */
+export const matchTemplate = (text: string): TemplateMatch | null => {
+  let best: TemplateMatch | null = null;
+  for (const template of DOCUMENT_TEMPLATES) {
+    if (!template.keywords.some(keyword => text.includes(keyword))) continue;
+    const values = extractFields(text, template);
+    const found = Object.values(values).filter(Boolean).length;
+    if (found >= MIN_MATCHED_FIELDS && (!best || found > best.found)) {
+      best = { template, values, found };
+    }
+  }
+  return best;
+};
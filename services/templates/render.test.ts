@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { birthCertificateTemplate } from './birthCertificate';
+import { buildFilledForm, buildFormText, getTemplateFileName } from './render';
+import { FilledField } from './template';
+
+const fields: Record<string, FilledField> = {
+  fullName: { source: 'ທ້າວ ສົມສັກ ວົງສາ', translation: '宋萨·翁萨', status: 'done' },
+  sex: { source: 'ຊາຍ', translation: '男', status: 'done' },
+};
+
+const translatedAt = new Date(2024, 2, 15);
+
+describe('buildFilledForm', () => {
+  it('lays the fields out in the template sections and marks blanks', () => {
+    const form = buildFilledForm(birthCertificateTemplate, fields, translatedAt);
+    expect(form.title).toBe('出生证明\nໃບແຈ້ງເກີດ');
+    expect(form.sections.map(section => section.title)).toEqual(['出生者信息 / ຂໍ້ມູນຜູ້ເກີດ', '父母信息 / ຂໍ້ມູນພໍ່ແມ່', '签发信息 / ການອອກໃບ']);
+    expect(form.sections[0].rows.slice(0, 3)).toEqual([
+      ['姓名\nຊື່ ແລະ ນາມສະກຸນ', 'ທ້າວ ສົມສັກ ວົງສາ', '宋萨·翁萨'],
+      ['性别\nເພດ', 'ຊາຍ', '男'],
+      ['出生日期\nວັນເດືອນປີເກີດ', '/', '/'],
+    ]);
+    expect(form.footer).toContain('翻译日期：2024年3月15日');
+  });
+});
+
+describe('buildFormText', () => {
+  it('writes one line per field with the source in brackets', () => {
+    const lines = buildFormText(buildFilledForm(birthCertificateTemplate, fields, translatedAt)).split('\n');
+    expect(lines).toContain('【出生者信息 / ຂໍ້ມູນຜູ້ເກີດ】');
+    expect(lines).toContain('姓名 / ຊື່ ແລະ ນາມສະກຸນ：宋萨·翁萨（ທ້າວ ສົມສັກ ວົງສາ）');
+    expect(lines).toContain('出生日期 / ວັນເດືອນປີເກີດ：/');
+    expect(lines[lines.length - 1]).toBe('翻译日期：2024年3月15日');
+  });
+});
+
+describe('getTemplateFileName', () => {
+  it('names the form after the source file and the template', () => {
+    expect(getTemplateFileName('scan.2024.pdf', birthCertificateTemplate, 'docx')).toBe('scan.2024_birth-certificate_zh.docx');
+    expect(getTemplateFileName('.scan', birthCertificateTemplate, 'txt')).toBe('.scan_birth-certificate_zh.txt');
+  });
+});
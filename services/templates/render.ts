@@ -0,0 +1,74 @@
+import { buildFormDocx, FormDocument } from '../docxExport';
+import { DocumentTemplate, FilledField } from './template';
+
+export type TemplateExportFormat = 'txt' | 'docx';
+
+// Every Lao official document opens with the name of the state and its motto.
+const STATE_HEADING = [
+  'ສາທາລະນະລັດ ປະຊາທິປະໄຕ ປະຊາຊົນລາວ',
+  '老挝人民民主共和国',
+  'ສັນຕິພາບ ເອກະລາດ ປະຊາທິປະໄຕ ເອກະພາບ ວັດທະນະຖາວອນ',
+  '和平 独立 民主 统一 繁荣',
+];
+
+const COLUMN_HEADINGS: [string, string, string] = ['项目', '原文（老挝语）', '译文（中文）'];
+
+// Certified translations mark a blank field instead of leaving it empty.
+const BLANK = '/';
+
+/**
+ * Lays `fields` out in the template's sections: each row holds the Chinese and Lao label,
+ * the source value and its rendering. `translatedAt` dates the translator's statement.
+ */
+export const buildFilledForm = (template: DocumentTemplate, fields: Record<string, FilledField>, translatedAt: Date): FormDocument => ({
+  heading: STATE_HEADING,
+  title: `${template.title.zh}\n${template.title.lo}`,
+  sections: template.sections.map(section => ({
+    title: `${section.zh} / ${section.lo}`,
+    rows: section.fields.map(id => {
+      const field = template.fields.find(candidate => candidate.id === id)!;
+      const filled = fields[id];
+      return [`${field.zh}\n${field.labels[0]}`, filled?.source || BLANK, filled?.translation || BLANK];
+    }),
+  })),
+  footer: [
+    '本译文与原件内容相符。',
+    '译者：____________',
+    `翻译日期：${translatedAt.getFullYear()}年${translatedAt.getMonth() + 1}月${translatedAt.getDate()}日`,
+  ],
+});
+
+/** The form as plain text, one `label：translation（source）` line per field. */
+export const buildFormText = (form: FormDocument): string =>
+  [
+    ...form.heading,
+    '',
+    form.title,
+    ...form.sections.flatMap(section => [
+      '',
+      `【${section.title}】`,
+      ...section.rows.map(([label, source, translation]) =>
+        `${label.replace('\n', ' / ')}：${translation}${source === BLANK ? '' : `（${source}）`}`,
+      ),
+    ]),
+    '',
+    ...form.footer,
+  ].join('\n');
+
+export const exportFilledTemplate = async (
+  template: DocumentTemplate,
+  fields: Record<string, FilledField>,
+  format: TemplateExportFormat,
+  translatedAt = new Date(),
+): Promise<Blob> => {
+  const form = buildFilledForm(template, fields, translatedAt);
+  return format === 'docx'
+    ? buildFormDocx(form, COLUMN_HEADINGS)
+    : new Blob([buildFormText(form)], { type: 'text/plain;charset=utf-8' });
+};
+
+export const getTemplateFileName = (sourceName: string, template: DocumentTemplate, format: TemplateExportFormat): string => {
+  const dot = sourceName.lastIndexOf('.');
+  const baseName = dot > 0 ? sourceName.slice(0, dot) : sourceName;
+  return `${baseName}_${template.id}_zh.${format}`;
+};
@@ -0,0 +1,50 @@
+import { SegmentStatus, TranslationDirection } from '../../types';
+
+/** Templates read Lao documents and render them in Chinese. */
+export const TEMPLATE_DIRECTION: TranslationDirection = { source: 'lo', target: 'zh' };
+
+/**
+ * How a field's value is carried into Chinese: `name` is transliterated by sound, `date`
+ * is converted to the Common Era and written 2024年3月15日, `choice` takes a fixed
+ * rendering of the usual values, `code` (numbers of certificates and books) is copied
+ * with ASCII digits, and `text` is translated. Choices without a fixed rendering are
+ * translated; dates that can't be read are left to the user, as dates never leave the machine.
+ */
+export type FieldRule = 'name' | 'date' | 'choice' | 'code' | 'text';
+
+export interface TemplateField {
+  id: string;
+  /** Labels that introduce the value in a Lao document; the first is the one rendered. */
+  labels: string[];
+  /** The label of the field in the Chinese rendering. */
+  zh: string;
+  rule: FieldRule;
+  /** Renderings of the usual values of a `choice` field, keyed by the Lao value. */
+  options?: Record<string, string>;
+}
+
+/** A titled group of fields; the rendered template lists them in this order. */
+export interface TemplateSection {
+  lo: string;
+  zh: string;
+  fields: string[];
+}
+
+/** A standard Lao civil document whose fields are extracted and rendered in a fixed layout. */
+export interface DocumentTemplate {
+  id: string;
+  label: string;
+  title: { lo: string; zh: string };
+  /** Words of the document's title; one of them must occur for the template to match. */
+  keywords: string[];
+  fields: TemplateField[];
+  sections: TemplateSection[];
+}
+
+/** A field of a filled template: its value in the source and its rendering. */
+export interface FilledField {
+  source: string;
+  translation: string;
+  status: SegmentStatus;
+  error?: string;
+}
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NumberPolicy, ProviderSettings, TranslationChunk } from '../types';
+import { ProviderError } from './providers';
+import { createSegments, isJobResumable, runTranslationJob, stitchSegments, stitchSources } from './translationJob';
+import { translateDocumentStream } from './translationService';
+
+vi.mock('./translationService', () => ({ translateDocumentStream: vi.fn() }));
+
+const translateMock = vi.mocked(translateDocumentStream);
+const settings = { providerId: 'mock' } as ProviderSettings;
+const direction = { source: 'lo', target: 'zh' } as const;
+
+async function* stream(...texts: string[]): AsyncIterable<TranslationChunk> {
+  for (const text of texts) yield { text };
+}
+
+const run = (segments: ReturnType<typeof createSegments>, signal = new AbortController().signal, numberPolicy?: NumberPolicy) => {
+  const deltas = new Map<number, string>();
+  const failed: number[] = [];
+  const outcome = runTranslationJob(segments, direction, settings, {
+    signal,
+    anonymize: false,
+    numberPolicy,
+    concurrency: 1,
+    retry: { baseDelayMs: 1, maxDelayMs: 1 },
+    onSegmentStart: index => deltas.set(index, ''),
+    onSegmentDelta: (index, text) => deltas.set(index, deltas.get(index) + text),
+    onSegmentDone: () => {},
+    onSegmentFailed: index => failed.push(index),
+  });
+  return { outcome, deltas, failed };
+};
+
+beforeEach(() => {
+  translateMock.mockReset();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('createSegments', () => {
+  it('keeps the source layout through segmentation and stitching', () => {
+    const content = 'ໜຶ່ງ\n\nສອງ\n\n\nສາມ';
+    const segments = createSegments(content, { tokenBudget: 4 });
+    expect(segments.map(segment => segment.source)).toEqual(['ໜຶ່ງ', 'ສອງ', 'ສາມ']);
+    expect(stitchSources(segments)).toBe(content);
+
+    segments.forEach(segment => { segment.translation = `<${segment.index}>`; });
+    expect(stitchSegments(segments)).toBe('<0>\n\n<1>\n\n\n<2>');
+  });
+
+  it('leaves segments without output out of the stitched text', () => {
+    const segments = createSegments('ໜຶ່ງ\n\nສອງ', { tokenBudget: 4 });
+    segments[1].translation = '二';
+    expect(stitchSegments(segments)).toBe('二');
+  });
+
+  it('passes through paragraphs without the source script', () => {
+    const segments = createSegments('ສະບາຍດີ\n\n2024-01-01\n\nABC-123', { sourceLanguage: 'lo' });
+    expect(segments).toHaveLength(2);
+    expect(segments[1]).toMatchObject({ source: '2024-01-01\n\nABC-123', translation: '2024-01-01\n\nABC-123', status: 'done', passThrough: true });
+  });
+});
+
+describe('runTranslationJob', () => {
+  it('translates every pending segment', async () => {
+    translateMock.mockImplementation(content => stream('T:', content));
+    const segments = createSegments('ໜຶ່ງ\n\nສອງ', { tokenBudget: 4 });
+    const { outcome, deltas } = run(segments);
+    expect(await outcome).toBe('complete');
+    expect([...deltas.values()]).toEqual(['T:ໜຶ່ງ', 'T:ສອງ']);
+  });
+
+  it('retries rate limits and restarts the segment output', async () => {
+    let calls = 0;
+    translateMock.mockImplementation(async function* () {
+      calls++;
+      yield { text: 'partial' };
+      if (calls === 1) throw new ProviderError('Too many requests', 429);
+      yield { text: '-done' };
+    });
+    const { outcome, deltas } = run(createSegments('ໜຶ່ງ'));
+    expect(await outcome).toBe('complete');
+    expect(calls).toBe(2);
+    expect(deltas.get(0)).toBe('partial-done');
+  });
+
+  it('reports a failed segment and carries on with the rest', async () => {
+    translateMock.mockImplementation(async function* (content) {
+      if (content === 'ໜຶ່ງ') throw new ProviderError('Bad request', 400);
+      yield { text: content };
+    });
+    const segments = createSegments('ໜຶ່ງ\n\nສອງ', { tokenBudget: 4 });
+    const { outcome, deltas, failed } = run(segments);
+    expect(await outcome).toBe('failed');
+    expect(failed).toEqual([0]);
+    expect(deltas.get(1)).toBe('ສອງ');
+  });
+
+  it('fails a segment the provider blocks', async () => {
+    translateMock.mockImplementation(async function* () {
+      yield { text: '', blockReason: 'SAFETY' };
+    });
+    const { outcome, failed } = run(createSegments('ໜຶ່ງ'));
+    expect(await outcome).toBe('failed');
+    expect(failed).toEqual([0]);
+  });
+
+  it('only requests segments that are not done yet', async () => {
+    translateMock.mockImplementation(content => stream(content));
+    const segments = createSegments('ໜຶ່ງ\n\nສອງ', { tokenBudget: 4 });
+    segments[0] = { ...segments[0], status: 'done', translation: '一' };
+    expect(isJobResumable(segments)).toBe(true);
+    expect(await run(segments).outcome).toBe('complete');
+    expect(translateMock).toHaveBeenCalledTimes(1);
+    expect(translateMock.mock.calls[0][0]).toBe('ສອງ');
+  });
+
+  it('sends numbers converted for the policy but keeps the segment source as written', async () => {
+    translateMock.mockImplementation(content => stream(content));
+    const segments = createSegments('ລາຄາ 50.000 ກີບ ໃນປີ ໒໕໖໗');
+    expect(await run(segments, undefined, 'convert').outcome).toBe('complete');
+    expect(translateMock.mock.calls[0][0]).toBe('ລາຄາ 50,000 ກີບ ໃນປີ ຄ.ສ. 2024');
+    expect(segments[0].source).toBe('ລາຄາ 50.000 ກີບ ໃນປີ ໒໕໖໗');
+  });
+
+  it('stops when cancelled', async () => {
+    const controller = new AbortController();
+    translateMock.mockImplementation(async function* (content) {
+      controller.abort();
+      yield { text: content };
+    });
+    const segments = createSegments('ໜຶ່ງ\n\nສອງ', { tokenBudget: 4 });
+    expect(await run(segments, controller.signal).outcome).toBe('cancelled');
+    expect(translateMock).toHaveBeenCalledTimes(1);
+  });
+});
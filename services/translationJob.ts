@@ -0,0 +1,198 @@
+import { GlossaryEntry, JobOutcome, LanguageCode, NumberPolicy, ProviderSettings, TranslationDirection, TranslationSegment } from '../types';
+import { splitIntoChunks, splitIntoParagraphs } from './chunker';
+import { containsLanguageScript } from './languageDetection';
+import { normalizeNumbers } from './numberNormalization';
+import { ProviderError } from './providers';
+import { isAbortError, RetryOptions, withRetry } from './retry';
+import { translateDocumentStream } from './translationService';
+import { normalizeSegmentText } from './translationMemory';
+
+/** Estimated source tokens per request; keeps the translated output well under the model's output limit. */
+export const DEFAULT_CHUNK_TOKEN_BUDGET = 1500;
+export const DEFAULT_CONCURRENCY = 2;
+
+export interface TranslationJobCallbacks {
+  /** Called before every attempt; the segment's previous partial output should be discarded. */
+  onSegmentStart: (index: number, attempt: number) => void;
+  onSegmentDelta: (index: number, text: string) => void;
+  onSegmentDone: (index: number) => void;
+  onSegmentFailed: (index: number, error: string) => void;
+}
+
+export interface RunTranslationJobOptions extends TranslationJobCallbacks {
+  signal: AbortSignal;
+  anonymize: boolean;
+  glossary?: GlossaryEntry[];
+  /**
+   * How numbers are written in the text sent for each segment. The segment's source keeps
+   * the numbers as they were, so it still matches the document's blocks. Defaults to `keep`.
+   */
+  numberPolicy?: NumberPolicy;
+  concurrency?: number;
+  retry?: Omit<RetryOptions, 'signal'>;
+}
+
+export interface CreateSegmentsOptions {
+  tokenBudget?: number;
+  /** Stored translations keyed by normalized paragraph; matching paragraphs become finished segments. */
+  prefills?: Map<string, string>;
+  /**
+   * Paragraphs without a single letter of this language's script (text already in the
+   * target language, English, numbers, codes) are copied to the output instead of sent.
+   */
+  sourceLanguage?: LanguageCode;
+}
+
+/**
+ * Splits `content` into segments for the provider. Paragraphs with a pre-filled
+ * translation get a `done` segment of their own, as do runs of paragraphs that are
+ * passed through; the paragraphs between them are packed into chunks within the token
+ * budget.
+ */
+export const createSegments = (content: string, options: CreateSegmentsOptions = {}): TranslationSegment[] => {
+  const { tokenBudget = DEFAULT_CHUNK_TOKEN_BUDGET, prefills = new Map<string, string>(), sourceLanguage } = options;
+  const segments: TranslationSegment[] = [];
+  let pending = '';
+
+  const flushPending = () => {
+    for (const chunk of splitIntoChunks(pending, tokenBudget)) {
+      segments.push({
+        index: segments.length,
+        source: chunk.text,
+        separator: chunk.separator,
+        translation: '',
+        status: 'pending',
+        attempts: 0,
+      });
+    }
+    pending = '';
+  };
+
+  for (const paragraph of splitIntoParagraphs(content)) {
+    if (sourceLanguage && !containsLanguageScript(paragraph.text, sourceLanguage)) {
+      const previous = segments[segments.length - 1];
+      if (!pending && previous?.passThrough) {
+        previous.source += previous.separator + paragraph.text;
+        previous.translation = previous.source;
+        previous.separator = paragraph.separator;
+        continue;
+      }
+      flushPending();
+      segments.push({
+        index: segments.length,
+        source: paragraph.text,
+        separator: paragraph.separator,
+        translation: paragraph.text,
+        status: 'done',
+        attempts: 0,
+        passThrough: true,
+      });
+      continue;
+    }
+    const prefill = prefills.get(normalizeSegmentText(paragraph.text));
+    if (prefill === undefined) {
+      pending += paragraph.text + paragraph.separator;
+      continue;
+    }
+    flushPending();
+    segments.push({
+      index: segments.length,
+      source: paragraph.text,
+      separator: paragraph.separator,
+      translation: prefill,
+      status: 'done',
+      attempts: 0,
+      fromMemory: true,
+    });
+  }
+  flushPending();
+  return segments;
+};
+
+/**
+ * Joins the translated segments with the separators they had in the source. Segments
+ * without any output yet are left out, so a partial job still reads cleanly.
+ */
+export const stitchSegments = (segments: TranslationSegment[]): string =>
+  segments
+    .filter(segment => segment.translation.trim() !== '')
+    .map(segment => segment.translation.trim() + segment.separator)
+    .join('')
+    .trimEnd();
+
+/** Rebuilds the text that was actually sent for translation (after any local redaction). */
+export const stitchSources = (segments: TranslationSegment[]): string =>
+  segments.map(segment => segment.source + segment.separator).join('');
+
+export const isJobResumable = (segments: TranslationSegment[]): boolean =>
+  segments.some(segment => segment.status === 'done') && segments.some(segment => segment.status !== 'done');
+
+const describeError = (error: unknown): string => {
+  if (error instanceof ProviderError) {
+    return error.message;
+  }
+  if (error instanceof Error) {
+    return `Translation failed. API Error: ${error.message}`;
+  }
+  return 'An unexpected error occurred while communicating with the translation service.';
+};
+
+/**
+ * Translates every segment that isn't `done` yet, `concurrency` segments at a time.
+ * Each segment is retried with backoff on rate limits and server errors; a segment
+ * that still fails is reported and the rest of the job carries on, so a later run
+ * only needs to re-request what failed.
+ */
+export const runTranslationJob = async (
+  segments: TranslationSegment[],
+  direction: TranslationDirection,
+  settings: ProviderSettings,
+  options: RunTranslationJobOptions,
+): Promise<JobOutcome> => {
+  const { signal, anonymize, glossary, numberPolicy = 'keep', concurrency = DEFAULT_CONCURRENCY, retry, onSegmentStart, onSegmentDelta, onSegmentDone, onSegmentFailed } = options;
+  const queue = segments.filter(segment => segment.status !== 'done');
+  let failedCount = 0;
+
+  const translateSegment = async (segment: TranslationSegment) => {
+    await withRetry(async attempt => {
+      onSegmentStart(segment.index, attempt);
+      const part = { index: segment.index, total: segments.length };
+      const text = normalizeNumbers(segment.source, direction, numberPolicy);
+      for await (const chunk of translateDocumentStream(text, direction, settings, { anonymize, glossary, part, signal })) {
+        if (chunk.blockReason) {
+          throw new ProviderError(
+            `Translation was blocked due to: ${chunk.blockReason}. This may be due to the document's content.`,
+          );
+        }
+        onSegmentDelta(segment.index, chunk.text);
+      }
+    }, {
+      ...retry,
+      signal,
+      onRetry: (attempt, delayMs, error) => {
+        console.warn(`Segment ${segment.index + 1} failed (attempt ${attempt}), retrying in ${delayMs}ms:`, error);
+        retry?.onRetry?.(attempt, delayMs, error);
+      },
+    });
+  };
+
+  const worker = async () => {
+    while (!signal.aborted && queue.length > 0) {
+      const segment = queue.shift()!;
+      try {
+        await translateSegment(segment);
+        onSegmentDone(segment.index);
+      } catch (error) {
+        if (signal.aborted || isAbortError(error)) return;
+        console.error(`Segment ${segment.index + 1} failed:`, error);
+        failedCount++;
+        onSegmentFailed(segment.index, describeError(error));
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+  if (signal.aborted) return 'cancelled';
+  return failedCount > 0 ? 'failed' : 'complete';
+};
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryUnit, TranslationSegment } from '../types';
+import { getAllRecords, getRecord, putRecords } from './db';
+import { findMemoryMatches, getPrefills, normalizeSegmentText, saveSegmentsToMemory, similarity } from './translationMemory';
+
+vi.mock('./db', () => ({
+  getAllRecords: vi.fn(),
+  getRecord: vi.fn(),
+  putRecords: vi.fn(),
+  countRecords: vi.fn(),
+  clearStore: vi.fn(),
+}));
+
+const LO_ZH = { source: 'lo', target: 'zh' } as const;
+
+const unit = (source: string, target: string, direction: MemoryUnit['direction'] = 'lo-to-zh'): MemoryUnit => ({
+  id: `${direction}:${normalizeSegmentText(source)}`,
+  direction,
+  source,
+  target,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const segment = (index: number, source: string, translation: string, extra: Partial<TranslationSegment> = {}): TranslationSegment => ({
+  index,
+  source,
+  separator: '',
+  translation,
+  status: 'done',
+  attempts: 1,
+  ...extra,
+});
+
+beforeEach(() => {
+  vi.mocked(getAllRecords).mockReset();
+  vi.mocked(getRecord).mockReset().mockResolvedValue(undefined);
+  vi.mocked(putRecords).mockReset().mockResolvedValue(undefined);
+});
+
+describe('similarity', () => {
+  it('scores by character edit distance after collapsing whitespace', () => {
+    expect(normalizeSegmentText('  ສະບາຍ \n ດີ ')).toBe('ສະບາຍ ດີ');
+    expect(similarity('ສະບາຍ  ດີ', 'ສະບາຍ ດີ')).toBe(1);
+    expect(similarity('abcd', 'abce')).toBe(0.75);
+    expect(similarity('', '')).toBe(1);
+  });
+});
+
+describe('findMemoryMatches', () => {
+  it('accepts exact matches and offers the closest fuzzy match for review', async () => {
+    vi.mocked(getAllRecords).mockResolvedValue([
+      unit('ສັນຍາສະບັບນີ້', '本合同'),
+      unit('ສັນຍາສະບັບນັ້ນ', '该合同'),
+      unit('ສັນຍາສະບັບນີ້ມີ', '本合同有'),
+      unit('ສະບາຍດີ', '你好', 'lo-to-en'),
+    ]);
+    const matches = await findMemoryMatches('ສັນຍາສະບັບນີ້\n\nສັນຍາສະບັບນີ້ມິ\n\nສະບາຍດີ', LO_ZH, 0.8);
+    expect(matches.map(match => [match.paragraph, match.unit.target, match.accepted])).toEqual([
+      ['ສັນຍາສະບັບນີ້', '本合同', true],
+      ['ສັນຍາສະບັບນີ້ມິ', '本合同有', false],
+    ]);
+    expect(getPrefills(matches)).toEqual(new Map([['ສັນຍາສະບັບນີ້', '本合同']]));
+  });
+
+  it('keeps the first of equally close units and skips those too long to match', async () => {
+    vi.mocked(getAllRecords).mockResolvedValue([unit('abcdefghij', 'A'), unit('abcdefghijklmnopqrst', 'B'), unit('abcdefghiX', 'C')]);
+    const matches = await findMemoryMatches('abcdefghiY', LO_ZH, 0.9);
+    expect(matches.map(match => [match.unit.target, match.similarity])).toEqual([['A', 0.9]]);
+  });
+});
+
+describe('saveSegmentsToMemory', () => {
+  it('stores translated paragraphs both ways round and skips redacted or copied segments', async () => {
+    await saveSegmentsToMemory([
+      segment(0, 'ກ\n\nຂ', '甲\n\n乙'),
+      segment(1, 'ໂທ [ເບີໂທລະສັບ_1]', '电话 [联系电话_1]'),
+      segment(2, '2024', '2024', { passThrough: true }),
+    ], LO_ZH);
+    const stored = vi.mocked(putRecords).mock.calls[0][1] as MemoryUnit[];
+    expect(stored.map(unit => [unit.direction, unit.source, unit.target])).toEqual([
+      ['lo-to-zh', 'ກ', '甲'],
+      ['zh-to-lo', '甲', 'ກ'],
+      ['lo-to-zh', 'ຂ', '乙'],
+      ['zh-to-lo', '乙', 'ຂ'],
+    ]);
+  });
+});
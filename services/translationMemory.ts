@@ -0,0 +1,205 @@
+import { LanguageCode, MemoryMatch, MemoryUnit, TranslationDirection, TranslationSegment } from '../types';
+import { splitIntoParagraphs } from './chunker';
+import { clearStore, countRecords, getAllRecords, getRecord, putRecords } from './db';
+import { directionKey, LANGUAGE_PAIRS, LANGUAGES, parseDirectionKey, reverseDirection } from './languages';
+import { containsPlaceholders } from './redaction';
+import { escapeXml, parseXml } from './xml';
+
+/** Collapses whitespace so trivially reformatted paragraphs still match exactly. */
+export const normalizeSegmentText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const memoryKey = (direction: TranslationDirection, source: string) => `${directionKey(direction)}:${normalizeSegmentText(source)}`;
+
+const createUnit = (direction: TranslationDirection, source: string, target: string): MemoryUnit => {
+  const now = new Date().toISOString();
+  return { id: memoryKey(direction, source), direction: directionKey(direction), source: source.trim(), target: target.trim(), createdAt: now, updatedAt: now };
+};
+
+// --- Similarity ---
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const normalizedSimilarity = (left: string, right: string): number => {
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(left, right) / longest;
+};
+
+/** Character-level similarity in [0, 1]; works for Lao and Chinese, which have no reliable word spacing. */
+export const similarity = (a: string, b: string): number =>
+  normalizedSimilarity(normalizeSegmentText(a), normalizeSegmentText(b));
+
+// --- Lookup ---
+
+/** Index of the first candidate at least `length` long; `candidates` is sorted by length. */
+const lowerBound = (candidates: { text: string }[], length: number): number => {
+  let low = 0;
+  let high = candidates.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (candidates[middle].text.length < length) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+/** Unique, non-empty paragraphs of `text` that are worth looking up. */
+const lookupParagraphs = (text: string): string[] =>
+  [...new Set(splitIntoParagraphs(text).map(paragraph => paragraph.text.trim()))].filter(Boolean);
+
+/**
+ * Finds memory matches for every paragraph of `text`: exact matches are accepted
+ * straight away, fuzzy matches at or above `fuzzyThreshold` wait for review.
+ */
+export const findMemoryMatches = async (
+  text: string,
+  direction: TranslationDirection,
+  fuzzyThreshold: number,
+): Promise<MemoryMatch[]> => {
+  const paragraphs = lookupParagraphs(text);
+  if (paragraphs.length === 0) return [];
+
+  const units = (await getAllRecords<MemoryUnit>('translationMemory')).filter(unit => unit.direction === directionKey(direction));
+  const exactById = new Map(units.map(unit => [unit.id, unit]));
+  // Normalized once and sorted by length, so each paragraph only scans the units whose
+  // length leaves room for a match.
+  const candidates = units
+    .map(unit => ({ unit, text: normalizeSegmentText(unit.source) }))
+    .sort((a, b) => a.text.length - b.text.length);
+  const matches: MemoryMatch[] = [];
+
+  for (const paragraph of paragraphs) {
+    const exact = exactById.get(memoryKey(direction, paragraph));
+    if (exact) {
+      matches.push({ paragraph, unit: exact, similarity: 1, accepted: true });
+      continue;
+    }
+
+    let best: { unit: MemoryUnit; score: number } | null = null;
+    const normalized = normalizeSegmentText(paragraph);
+    for (let i = lowerBound(candidates, Math.floor(normalized.length * fuzzyThreshold)); i < candidates.length; i++) {
+      const { unit, text: unitText } = candidates[i];
+      // Lengths alone bound the best possible similarity; past the paragraph's length they only grow apart.
+      if (Math.min(normalized.length, unitText.length) / Math.max(normalized.length, unitText.length) < fuzzyThreshold) {
+        if (unitText.length > normalized.length) break;
+        continue;
+      }
+      const score = normalizedSimilarity(normalized, unitText);
+      if (score >= fuzzyThreshold && (!best || score > best.score)) {
+        best = { unit, score };
+      }
+    }
+    if (best) {
+      matches.push({ paragraph, unit: best.unit, similarity: best.score, accepted: false });
+    }
+  }
+  return matches;
+};
+
+/** Maps each accepted paragraph to the stored translation it should be pre-filled with. */
+export const getPrefills = (matches: MemoryMatch[]): Map<string, string> =>
+  new Map(matches.filter(match => match.accepted).map(match => [normalizeSegmentText(match.paragraph), match.unit.target]));
+
+// --- Saving ---
+
+/**
+ * Stores the finished segments of a job as memory units: one per paragraph when the
+ * translation kept the paragraph count, otherwise one per segment. Segments that were
+ * redacted are skipped: their placeholders are only meaningful within that job.
+ */
+export const saveSegmentsToMemory = async (segments: TranslationSegment[], direction: TranslationDirection): Promise<void> => {
+  const units: MemoryUnit[] = [];
+
+  for (const segment of segments) {
+    if (segment.status !== 'done' || segment.fromMemory || segment.passThrough || !segment.translation.trim()) continue;
+    if (containsPlaceholders(segment.source) || containsPlaceholders(segment.translation)) continue;
+
+    const sourceParagraphs = splitIntoParagraphs(segment.source).map(p => p.text);
+    const targetParagraphs = splitIntoParagraphs(segment.translation).map(p => p.text);
+    const pairs: [string, string][] = sourceParagraphs.length > 1 && sourceParagraphs.length === targetParagraphs.length
+      ? sourceParagraphs.map((source, i) => [source, targetParagraphs[i]])
+      : [[segment.source, segment.translation]];
+    // A pair is equally useful either way round, so both directions are stored.
+    for (const [source, target] of pairs) {
+      units.push(createUnit(direction, source, target));
+      units.push(createUnit(reverseDirection(direction), target, source));
+    }
+  }
+
+  if (units.length === 0) return;
+  // Keep the original creation date when a unit is overwritten.
+  const existing = await Promise.all(units.map(unit => getRecord<MemoryUnit>('translationMemory', unit.id)));
+  await putRecords('translationMemory', units.map((unit, i) => (existing[i] ? { ...unit, createdAt: existing[i]!.createdAt } : unit)));
+};
+
+export const countMemoryUnits = (): Promise<number> => countRecords('translationMemory');
+
+export const clearMemory = (): Promise<void> => clearStore('translationMemory');
+
+// --- TMX ---
+
+export const exportMemoryTmx = async (): Promise<string> => {
+  const units = await getAllRecords<MemoryUnit>('translationMemory');
+  const toTmxDate = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+  const tus = units.map(unit => {
+    const { source, target } = parseDirectionKey(unit.direction);
+    const [sourceLang, targetLang] = [LANGUAGES[source].tmxCode, LANGUAGES[target].tmxCode];
+    return `    <tu creationdate="${toTmxDate(unit.createdAt)}" changedate="${toTmxDate(unit.updatedAt)}">
+      <tuv xml:lang="${sourceLang}"><seg>${escapeXml(unit.source)}</seg></tuv>
+      <tuv xml:lang="${targetLang}"><seg>${escapeXml(unit.target)}</seg></tuv>
+    </tu>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="Lao-Chinese Document Translator" creationtoolversion="1" segtype="paragraph" o-tmf="none" adminlang="en" srclang="*all*" datatype="plaintext"/>
+  <body>
+${tus.join('\n')}
+  </body>
+</tmx>
+`;
+};
+
+const langOf = (element: Element): string =>
+  (element.getAttribute('xml:lang') ?? element.getAttribute('lang') ?? '').toLowerCase();
+
+/**
+ * Imports every supported language pair found in a `<tu>`, in both directions. A unit
+ * with Lao, Chinese and English variants yields the Lao–Chinese, Lao–English and
+ * Chinese–English pairs.
+ */
+export const importMemoryTmx = async (xml: string): Promise<number> => {
+  const doc = parseXml(xml);
+  const units: MemoryUnit[] = [];
+
+  for (const tu of doc.getElementsByTagName('tu')) {
+    const variants = [...tu.getElementsByTagName('tuv')];
+    const segFor = (language: LanguageCode) =>
+      variants.find(tuv => langOf(tuv).startsWith(language))?.getElementsByTagName('seg')[0]?.textContent?.trim() ?? '';
+    // LANGUAGE_PAIRS lists each pair both ways, so every direction is added exactly once.
+    for (const direction of LANGUAGE_PAIRS) {
+      const source = segFor(direction.source);
+      const target = segFor(direction.target);
+      if (source && target) units.push(createUnit(direction, source, target));
+    }
+  }
+
+  await putRecords('translationMemory', units);
+  return units.length / 2;
+};
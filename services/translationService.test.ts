@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProviderSettings } from '../types';
+import { buildTranslationPrompt } from './promptTemplates';
+import { translateDocumentStream } from './translationService';
+
+const settings = (providerId: ProviderSettings['providerId']): ProviderSettings => ({
+  providerId,
+  gemini: { apiKey: 'key', model: 'gemini-test' },
+  openAICompatible: { baseUrl: 'http://llm.test/v1', apiKey: 'secret', model: 'test-model' },
+  server: { baseUrl: 'http://server.test', token: '' },
+});
+
+const collect = async (stream: AsyncIterable<{ text: string }>) => {
+  let text = '';
+  for await (const chunk of stream) text += chunk.text;
+  return text;
+};
+
+const sseResponse = (events: string[]) =>
+  new Response(events.map(data => `data: ${data}\n\n`).join(''), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('translateDocumentStream', () => {
+  it('sends the built prompt to an OpenAI-compatible provider', async () => {
+    const fetchMock = vi.fn(async () => sseResponse([
+      JSON.stringify({ choices: [{ delta: { content: '你好' } }] }),
+      '[DONE]',
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const direction = { source: 'lo', target: 'zh' } as const;
+    const text = await collect(translateDocumentStream('ສະບາຍດີ', direction, settings('openai-compatible'), { anonymize: true }));
+
+    expect(text).toBe('你好');
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://llm.test/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+    const body = JSON.parse(init.body as string);
+    expect(body.model).toBe('test-model');
+    expect(body.messages[0].content).toBe(buildTranslationPrompt({ content: 'ສະບາຍດີ', direction, anonymize: true, hasPlaceholders: false, hasNumbers: false, glossary: [] }));
+  });
+
+  it('marks documents with placeholders and numbers in the prompt', async () => {
+    const fetchMock = vi.fn(async () => sseResponse(['[DONE]']));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await collect(translateDocumentStream('[ຊື່_1] ຈ່າຍ 500 ກີບ', { source: 'lo', target: 'zh' }, settings('openai-compatible'), { anonymize: false }));
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body.messages[0].content).toContain('Copy every placeholder');
+    expect(body.messages[0].content).toContain('Numbers, dates, years and amounts');
+  });
+
+  it('lets the mock provider echo the source without a prompt', async () => {
+    const text = await collect(translateDocumentStream('ສະບາຍດີ', { source: 'lo', target: 'zh' }, settings('mock'), { anonymize: false }));
+    expect(text).toBe('[mock lo→zh]\nສະບາຍດີ');
+  });
+});
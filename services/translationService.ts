@@ -0,0 +1,39 @@
+import { GlossaryEntry, ProviderSettings, TranslationChunk, TranslationDirection } from '../types';
+import { createProvider } from './providers';
+import { findNumberValues } from './numberNormalization';
+import { buildTranslationPrompt, CURRENT_PROMPT_VERSION, PromptOptions } from './promptTemplates';
+import { containsPlaceholders } from './redaction';
+import { findGlossaryMatches } from './glossary';
+
+export interface TranslateStreamOptions {
+  anonymize: boolean;
+  glossary?: GlossaryEntry[];
+  part?: PromptOptions['part'];
+  promptVersion?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Streams the translation of `content` in a single provider request. Errors are passed
+ * through untouched so callers can tell retryable failures from permanent ones.
+ */
+export const translateDocumentStream = (
+  content: string,
+  direction: TranslationDirection,
+  settings: ProviderSettings,
+  options: TranslateStreamOptions,
+): AsyncIterable<TranslationChunk> => {
+  const { anonymize, glossary = [], part, promptVersion = CURRENT_PROMPT_VERSION, signal } = options;
+  const provider = createProvider(settings);
+  const prompt = buildTranslationPrompt({
+    content,
+    direction,
+    anonymize,
+    hasPlaceholders: containsPlaceholders(content),
+    hasNumbers: findNumberValues(content).size > 0,
+    // Only the terms that actually occur are sent, to keep the prompt small.
+    glossary: findGlossaryMatches(content, glossary, direction),
+    part,
+  }, promptVersion);
+  return provider.translateStream({ prompt, text: content, direction, signal });
+};
@@ -0,0 +1,19 @@
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+export const escapeXml = (value: string): string => value.replace(/[&<>"']/g, ch => XML_ESCAPES[ch]);
+
+/** Parses an XML string, turning the browser's `<parsererror>` document into an exception. */
+export const parseXml = (xml: string): Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new Error(`Invalid XML: ${error.textContent?.trim() ?? 'unknown error'}`);
+  }
+  return doc;
+};
@@ -1,5 +1,335 @@
 
-export enum TranslationDirection {
-  LaoToChinese = 'lo-to-zh',
-  ChineseToLao = 'zh-to-lo',
+/** Languages in the registry of `services/languages.ts`. */
+export type LanguageCode = 'lo' | 'zh' | 'en' | 'th';
+
+/** The language pair of a translation job. */
+export interface TranslationDirection {
+  source: LanguageCode;
+  target: LanguageCode;
+}
+
+/** A direction as a string, e.g. `lo-to-zh`; used in stored records and file names. */
+export type DirectionKey = `${LanguageCode}-to-${LanguageCode}`;
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'server' | 'mock';
+
+export interface GeminiSettings {
+  apiKey: string;
+  model: string;
+}
+
+export interface OpenAICompatibleSettings {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+/** The app's own API server, which holds the provider key so the browser never sees it. */
+export interface ServerSettings {
+  baseUrl: string;
+  /** Sent as a bearer token when the server is started with one. */
+  token: string;
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  gemini: GeminiSettings;
+  openAICompatible: OpenAICompatibleSettings;
+  server: ServerSettings;
+}
+
+/** A single streamed piece of translated text, independent of the provider that produced it. */
+export interface TranslationChunk {
+  text: string;
+  blockReason?: string;
+}
+
+export type SegmentStatus = 'pending' | 'translating' | 'done' | 'failed';
+
+/** One independently requested piece of a translation job. */
+/** Source sentences paired with their translation. */
+export interface AlignedPair {
+  /** One or more consecutive source sentences; empty when the translation added text. */
+  source: string;
+  /** One or more consecutive target sentences; empty when the translation dropped text. */
+  target: string;
+}
+
+/** A sentence pair of a segment, as edited in the segment editor. */
+export interface SentencePair extends AlignedPair {
+  /** The whitespace that followed `target` in the translation, kept out of the editable text. */
+  separator: string;
+}
+
+export interface TranslationSegment {
+  index: number;
+  source: string;
+  /** The whitespace that followed this segment in the source, re-used when stitching. */
+  separator: string;
+  translation: string;
+  status: SegmentStatus;
+  attempts: number;
+  error?: string;
+  /** Set when the translation was taken from the translation memory instead of the provider. */
+  fromMemory?: boolean;
+  /** Set when the source had nothing to translate (target-language text, numbers, codes) and was copied as is. */
+  passThrough?: boolean;
+  /** Set once the translation has been changed by hand in the segment editor. */
+  edited?: boolean;
+  /**
+   * The sentences of the segment as split for the editor, fixed by the first edit so that
+   * rows don't move while the user types; joining the targets gives `translation`.
+   */
+  sentences?: SentencePair[];
+  approved?: boolean;
+  /** Result of the optional quality check; cleared when the translation changes. */
+  quality?: SegmentQuality;
+}
+
+/** Something in the source that should carry over to the translation unchanged but didn't. */
+export interface QualityIssue {
+  kind: 'number' | 'name' | 'placeholder';
+  value: string;
+  /** `missing` from the translation, or `unexpected` in it without being in the source. */
+  problem: 'missing' | 'unexpected';
+}
+
+export interface SegmentQuality {
+  /** How closely the back-translation matches the source, in [0, 1]; null when it could not be made. */
+  score: number | null;
+  backTranslation: string;
+  issues: QualityIssue[];
+  error?: string;
+}
+
+export type JobOutcome = 'complete' | 'failed' | 'cancelled';
+
+/** Buddhist era (BE = CE + 543) or Common Era. */
+export type Era = 'be' | 'ce';
+
+/**
+ * How numbers written in a source-language convention (Lao digits, Buddhist-era years,
+ * kip amounts, Chinese numerals) are carried into the translation: kept as written,
+ * converted to the target language's convention, or converted with the original after it.
+ */
+export type NumberPolicy = 'keep' | 'convert' | 'both';
+
+/** A number in the source written in a convention the policy may convert. */
+export interface NumberEntity {
+  start: number;
+  end: number;
+  text: string;
+  kind: 'number' | 'year' | 'date' | 'amount' | 'numeral';
+  /** The value in ASCII digits, without thousands separators; the year of a date. */
+  value: string;
+  /** The era of a year or date. */
+  era?: Era;
+}
+
+/** A number of the source that can't be found in the translation of its segment. */
+export interface NumberIssue {
+  segment: number;
+  value: string;
+}
+
+export type PiiCategory = 'name' | 'phone' | 'email' | 'prcId' | 'laoId' | 'passport' | 'bankCard';
+
+/** A stretch of the source text that holds personally identifiable information. */
+export interface PiiSpan {
+  id: string;
+  start: number;
+  end: number;
+  category: PiiCategory;
+  text: string;
+  origin: 'rule' | 'manual';
+}
+
+/** Maps a placeholder in the redacted text back to the value it replaced. */
+export interface RedactionEntry {
+  placeholder: string;
+  original: string;
+  category: PiiCategory;
+}
+
+export interface RedactionResult {
+  text: string;
+  entries: RedactionEntry[];
+}
+
+export type PiiDecision = 'accepted' | 'rejected';
+
+export interface ReviewedPiiSpan extends PiiSpan {
+  decision: PiiDecision;
+}
+
+/** The compliance record of what was (and wasn't) masked before a job was sent. */
+export interface RedactionReport {
+  fileName: string;
+  direction: DirectionKey;
+  confirmedAt: string;
+  spans: {
+    category: PiiCategory;
+    origin: PiiSpan['origin'];
+    decision: PiiDecision;
+    start: number;
+    end: number;
+    text: string;
+    placeholder: string | null;
+  }[];
+}
+
+export interface GlossaryEntry {
+  id: string;
+  lao: string;
+  chinese: string;
+  note: string;
+}
+
+/** A glossary term found in the source whose required rendering is missing from the translation. */
+export interface GlossaryIssue {
+  entry: GlossaryEntry;
+  sourceTerm: string;
+  expectedTarget: string;
+}
+
+/** A source/target pair stored in the translation memory. */
+export interface MemoryUnit {
+  /** `${direction}:${normalized source}`, so exact lookups are a single key read. */
+  id: string;
+  direction: DirectionKey;
+  source: string;
+  target: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemoryMatch {
+  /** The paragraph of the current document this match applies to. */
+  paragraph: string;
+  unit: MemoryUnit;
+  /** 1 for exact matches, otherwise the normalized edit-distance similarity. */
+  similarity: number;
+  accepted: boolean;
+}
+
+export interface MemoryPreferences {
+  enabled: boolean;
+  /** Minimum similarity (0–1) for a fuzzy match to be offered. */
+  fuzzyThreshold: number;
+}
+
+/** A completed job kept in the local history so it survives resets and reloads. */
+export interface HistoryEntry {
+  id: string;
+  /** The uploaded file, kept so an original-format download still works; absent for pasted text. */
+  file?: File;
+  fileName: string | null;
+  blocks: DocumentBlock[];
+  direction: DirectionKey;
+  source: string;
+  /** The stitched translation, with any PII placeholders still in place. */
+  translation: string;
+  segments: TranslationSegment[];
+  piiSpans: ReviewedPiiSpan[];
+  redactionConfirmedAt: string | null;
+  redaction: RedactionEntry[];
+  /** Missing for jobs sent without redaction and for those saved before reports were kept. */
+  redactionReport?: RedactionReport;
+  /** `numberPolicy` is missing from jobs saved before it could be chosen. */
+  settings: { anonymize: boolean; numberPolicy?: NumberPolicy; providerId: ProviderId; model: string; promptVersion: string };
+  completedAt: string;
+}
+
+export interface HistoryPreferences {
+  enabled: boolean;
+  /** The oldest jobs beyond this count are deleted. */
+  maxEntries: number;
+  /** Jobs older than this are deleted; 0 keeps them regardless of age. */
+  maxAgeDays: number;
+}
+
+export type DocumentBlockType = 'paragraph' | 'heading' | 'listItem' | 'tableCell' | 'footnote' | 'header' | 'footer' | 'cue';
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  /** Font the run was written in, when the source names one. */
+  font?: string;
+}
+
+/** One translatable unit of a structured document, usually a paragraph. */
+export interface DocumentBlock {
+  /** Where the block lives in the source file, e.g. `word/document.xml#12`. */
+  id: string;
+  type: DocumentBlockType;
+  /** The source's paragraph style name, e.g. `heading 1` or `List Paragraph`. */
+  style?: string;
+  /** Heading level (1-9) or list nesting level (0-8). */
+  level?: number;
+  /** Position of the cell holding this block; `table` counts tables in document order. */
+  table?: { table: number; row: number; column: number };
+  /** 1-based page the block was found on, for paged formats such as PDF, or its slide number. */
+  page?: number;
+  /** Name of the spreadsheet the cell belongs to. */
+  sheet?: string;
+  /** Timestamps of a subtitle cue, as written in the source. */
+  cue?: { start: string; end: string };
+  runs: TextRun[];
+  text: string;
+}
+
+export type DocumentFormat = 'docx' | 'pdf' | 'image' | 'xlsx' | 'pptx' | 'odt' | 'rtf' | 'html' | 'subtitle' | 'text';
+
+/** How the text of one page was obtained: from the PDF text layer or by OCR. */
+export interface PageExtraction {
+  page: number;
+  method: 'text' | 'ocr';
+  /** OCR confidence, 0–100. */
+  confidence?: number;
+}
+
+/** A conversion applied to the source text while parsing; the preview warns about each. */
+export interface TextConversion {
+  kind: 'encoding' | 'legacyFont';
+  /** The encoding the file was decoded from, or the legacy font whose text was converted. */
+  from: string;
+}
+
+/** The result of parsing an uploaded file. Formats without structure have no blocks. */
+export interface ParsedDocument {
+  format: DocumentFormat;
+  /** The text to translate. For structured documents, each block is one paragraph of it. */
+  text: string;
+  blocks: DocumentBlock[];
+  /** Number of pages, for paged formats. Pages are separated by `PAGE_BREAK` in `text`. */
+  pageCount?: number;
+  /** Per-page extraction details for PDFs and images. */
+  pages?: PageExtraction[];
+  /** Conversions to Unicode applied to `text`. */
+  conversions?: TextConversion[];
+}
+
+export type BatchItemStatus = 'queued' | 'parsing' | 'translating' | 'complete' | 'error';
+
+/** One file of a batch job. Files from a ZIP keep their path inside the archive as `name`. */
+export interface BatchItem {
+  id: string;
+  name: string;
+  file: File;
+  status: BatchItemStatus;
+  /** Finished and total segments while translating. */
+  progress?: { done: number; total: number };
+  /** The translated file, once complete. */
+  output?: { name: string; blob: Blob };
+  error?: string;
+  /** Number of PII items masked before the text was sent. */
+  redactions?: number;
+  /** Numbers of the source that the translation seems to have lost. */
+  numberIssues?: number;
+  /** Paragraphs of the source that kept their source text because no translation matched them. */
+  unmappedBlocks?: number;
+  startedAt?: string;
+  finishedAt?: string;
 }
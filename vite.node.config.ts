@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite'
+
+// Builds the Node entry points. Dependencies stay external and are loaded from
+// node_modules; pdf.js needs its legacy build, which polyfills what Node 20 lacks.
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^pdfjs-dist$/, replacement: 'pdfjs-dist/legacy/build/pdf.mjs' }],
+  },
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    target: 'node20',
+    rollupOptions: {
+      input: { translate: 'cli/translate.ts', server: 'server/index.ts' },
+    },
+  },
+})